@@ -32,6 +32,7 @@ import PrivacyPolicyScreen from './components/PrivacyPolicy/PrivacyPolicyScreen'
 import AdminDashboardScreen from './components/Admin/AdminDashboardScreen';
 import HostDashboardScreen from './components/HostDashboard/HostDashboardScreen';
 import LoginScreen from './components/Login/LoginScreen';
+import BoardScreen from './components/Board/BoardScreen';
 import type { RootStackParamList } from './types/navigation';
 import { ModalProvider } from './contexts/ModalContext';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
@@ -85,6 +86,7 @@ const linking =
                 initialEtaMs: () => undefined as unknown as string,
                 guestName: () => undefined as unknown as string,
                 partySize: () => undefined as unknown as string,
+                appointmentAt: () => undefined as unknown as string,
               },
             },
             HostQueueScreen: {
@@ -108,6 +110,8 @@ const linking =
                 requiresAuth: () => undefined as unknown as string,
               },
             },
+            // The board token rides in the query string, as the link is typed into a TV
+            BoardScreen: 'board/:code',
             PrivacyPolicyScreen: 'privacy',
             AdminDashboardScreen: 'admin',
             HostDashboardScreen: 'my-queues',
@@ -227,6 +231,7 @@ const getScreenTitle = (screenName: string): string => {
     PrivacyPolicyScreen: 'Privacy Policy',
     AdminDashboardScreen: 'Analytics',
     HostDashboardScreen: 'My Queues',
+    BoardScreen: 'Display Board',
   };
   return screenTitles[screenName] || screenName;
 };
@@ -491,6 +496,11 @@ function AppNavigator() {
             component={HostQueueScreen}
             options={{ headerBackTitle: 'Back' }}
           />
+          <Stack.Screen
+            name="BoardScreen"
+            component={BoardScreen}
+            options={{ headerShown: false }}
+          />
           <Stack.Screen
             name="PrivacyPolicyScreen"
             component={PrivacyPolicyScreen}
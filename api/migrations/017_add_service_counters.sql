@@ -0,0 +1,7 @@
+-- Add named service counters so a queue can serve several parties in parallel
+
+-- JSON array of { id, name } counters configured at creation (NULL = single default counter)
+ALTER TABLE sessions ADD COLUMN service_counters TEXT;
+
+-- Counter a party was called to (NULL while waiting)
+ALTER TABLE parties ADD COLUMN counter_id TEXT;
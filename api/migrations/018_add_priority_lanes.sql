@@ -0,0 +1,10 @@
+-- Add priority lanes so hosts can serve VIP or accessibility guests ahead of the line
+
+-- JSON array of { id, name, weight, guestSelectable } lanes, highest priority first (NULL = standard lane only)
+ALTER TABLE sessions ADD COLUMN priority_lanes TEXT;
+
+-- How lanes interleave: 'strict' (higher lanes always first) or 'weighted' (round-robin by weight)
+ALTER TABLE sessions ADD COLUMN lane_policy TEXT;
+
+-- Lane a party waits in (NULL = standard lane)
+ALTER TABLE parties ADD COLUMN lane_id TEXT;
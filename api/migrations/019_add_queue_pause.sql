@@ -0,0 +1,7 @@
+-- Let hosts pause a queue (joins and advancing blocked) without closing it
+
+-- When the current pause started, in seconds (NULL = not paused)
+ALTER TABLE sessions ADD COLUMN paused_at INTEGER;
+
+-- When the host expects to be back, in seconds (NULL = until resumed by hand)
+ALTER TABLE sessions ADD COLUMN resume_at INTEGER;
@@ -0,0 +1,4 @@
+-- Remember when a queue was closed so the host can reopen it within a grace window
+
+-- When the queue was closed, in seconds (NULL = open, or closed before this column existed)
+ALTER TABLE sessions ADD COLUMN closed_at INTEGER;
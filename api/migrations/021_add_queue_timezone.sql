@@ -0,0 +1,4 @@
+-- Interpret open_time / close_time in the host's timezone so they can be enforced
+
+-- IANA timezone name (e.g. 'America/New_York'); NULL for queues created before hours were enforced
+ALTER TABLE sessions ADD COLUMN timezone TEXT;
@@ -0,0 +1,12 @@
+-- Timed appointment slots hosts publish alongside the walk-in queue
+CREATE TABLE IF NOT EXISTS appointment_slots (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL,
+  starts_at INTEGER NOT NULL,
+  -- open | booked | admitted | no_show
+  status TEXT NOT NULL DEFAULT 'open',
+  party_id TEXT,
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+  FOREIGN KEY (party_id) REFERENCES parties(id)
+);
+CREATE INDEX IF NOT EXISTS idx_appointment_slots_session ON appointment_slots(session_id, starts_at);
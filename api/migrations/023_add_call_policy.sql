@@ -0,0 +1,4 @@
+-- Per-queue call window and no-show handling
+
+-- JSON { timeoutSeconds, maxRecalls, noShowAction: 'drop' | 'requeue', requeuePlaces } (NULL = 2 minute window, no-shows dropped)
+ALTER TABLE sessions ADD COLUMN call_policy TEXT;
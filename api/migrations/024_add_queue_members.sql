@@ -0,0 +1,13 @@
+-- Staff the queue owner has invited to help run a queue
+CREATE TABLE IF NOT EXISTS queue_members (
+  session_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  -- cohost (everything but managing staff) | caller (call and serve guests only)
+  role TEXT NOT NULL,
+  added_by TEXT,
+  created_at INTEGER NOT NULL DEFAULT (strftime('%s','now')),
+  PRIMARY KEY (session_id, user_id),
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_queue_members_user ON queue_members(user_id);
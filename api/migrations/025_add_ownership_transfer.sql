@@ -0,0 +1,5 @@
+-- Handing a queue to another account: the owner nominates a user, who then accepts
+ALTER TABLE sessions ADD COLUMN pending_owner_id TEXT;
+ALTER TABLE sessions ADD COLUMN transfer_requested_at INTEGER;
+-- Bumped whenever host credentials are re-issued; tokens from older epochs stop working
+ALTER TABLE sessions ADD COLUMN host_epoch INTEGER NOT NULL DEFAULT 0;
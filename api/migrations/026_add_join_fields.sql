@@ -0,0 +1,5 @@
+-- Extra questions hosts add to the join form, and each party's answers
+-- JSON [{ id, label, type: 'text' | 'phone' | 'number' | 'select' | 'checkbox', required, options?, maxLength?, min?, max? }]
+ALTER TABLE sessions ADD COLUMN join_fields TEXT;
+-- JSON { [fieldId]: answer }
+ALTER TABLE parties ADD COLUMN answers TEXT;
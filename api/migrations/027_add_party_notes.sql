@@ -0,0 +1,4 @@
+-- Host-only notes and coloured tags on a party (never sent to guests)
+ALTER TABLE parties ADD COLUMN host_note TEXT;
+-- JSON [{ label, color }]
+ALTER TABLE parties ADD COLUMN tags TEXT;
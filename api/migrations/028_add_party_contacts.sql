@@ -0,0 +1,12 @@
+-- Phone numbers and email addresses guests gave for text and email updates, one per channel
+CREATE TABLE IF NOT EXISTS party_contacts (
+  session_id TEXT NOT NULL,
+  party_id   TEXT NOT NULL,
+  channel    TEXT NOT NULL CHECK (channel IN ('sms', 'email')),
+  address    TEXT NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (strftime('%s','now')),
+  PRIMARY KEY (party_id, channel),
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+  FOREIGN KEY (party_id)   REFERENCES parties(id)  ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_party_contacts_session ON party_contacts(session_id, party_id);
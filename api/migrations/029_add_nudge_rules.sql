@@ -0,0 +1,4 @@
+-- Per-queue position and wait-time reminders sent to waiting guests
+
+-- JSON [{ id, position?, etaMinutes?, title, body }] (NULL = nudges at positions 2 and 5, [] = no nudges)
+ALTER TABLE sessions ADD COLUMN nudge_rules TEXT;
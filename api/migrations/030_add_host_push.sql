@@ -0,0 +1,26 @@
+-- Push subscriptions for host devices, tied to the signed-in account rather than a party
+-- Web push sets endpoint/p256dh/auth; native apps set expo_token instead
+CREATE TABLE IF NOT EXISTS host_push_subscriptions (
+  id         INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id    TEXT NOT NULL,
+  endpoint   TEXT UNIQUE,
+  p256dh     TEXT,
+  auth       TEXT,
+  expo_token TEXT UNIQUE,
+  created_at INTEGER NOT NULL DEFAULT (strftime('%s','now')),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_host_push_user ON host_push_subscriptions(user_id);
+
+-- Which alerts each host wants for a queue; no row means every alert is on
+CREATE TABLE IF NOT EXISTS host_alert_prefs (
+  session_id TEXT NOT NULL,
+  user_id    TEXT NOT NULL,
+  capacity   INTEGER NOT NULL DEFAULT 1,
+  no_show    INTEGER NOT NULL DEFAULT 1,
+  auto_close INTEGER NOT NULL DEFAULT 1,
+  updated_at INTEGER NOT NULL DEFAULT (strftime('%s','now')),
+  PRIMARY KEY (session_id, user_id),
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id)    REFERENCES users(id)    ON DELETE CASCADE
+);
@@ -0,0 +1,24 @@
+-- One row per push attempt, to guests and hosts alike (party_id is NULL for hosts)
+-- status: sent, delivered (Expo receipt ok), failed, or expired (subscription pruned)
+-- address is the web push endpoint or the Expo token the push went to
+CREATE TABLE IF NOT EXISTS push_deliveries (
+  id                 INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id         TEXT,
+  party_id           TEXT,
+  kind               TEXT,
+  platform           TEXT NOT NULL,
+  address            TEXT NOT NULL,
+  status             TEXT NOT NULL,
+  http_status        INTEGER,
+  response           TEXT,
+  latency_ms         INTEGER,
+  ticket_id          TEXT,
+  receipt_status     TEXT,
+  receipt_checked_at INTEGER,
+  created_at         INTEGER NOT NULL DEFAULT (strftime('%s','now'))
+);
+CREATE INDEX IF NOT EXISTS idx_push_deliveries_party ON push_deliveries(session_id, party_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_push_deliveries_address ON push_deliveries(address, id);
+-- Expo tickets still waiting for their receipt
+CREATE INDEX IF NOT EXISTS idx_push_deliveries_pending ON push_deliveries(created_at)
+  WHERE ticket_id IS NOT NULL AND receipt_status IS NULL;
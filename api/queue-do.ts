@@ -1,7 +1,25 @@
 import type { Env } from './worker';
-import { HOST_COOKIE_NAME, verifyHostCookie } from './utils/auth';
+import { HOST_COOKIE_NAME, verifyBoardToken, verifyHostCookie } from './utils/auth';
 import { buildPushPayload } from '@block65/webcrypto-web-push';
 import { logAnalyticsEvent } from './analytics';
+import { parseSchedule, scheduleWindow, type QueueSchedule } from './utils/schedule';
+import { assignRanks } from './utils/queueRanks';
+import { QUEUE_PROTOCOL_VERSION, diffQueue } from './utils/queueDelta';
+import { EventStreamSocket } from './utils/eventStream';
+import {
+  parseJoinAnswers,
+  parseJoinFields,
+  validateJoinAnswers,
+  type JoinAnswers,
+  type JoinField,
+} from './utils/joinFields';
+import {
+  DEFAULT_NUDGE_RULES,
+  nudgeRuleMatches,
+  parseNudgeRules,
+  renderNudgeTemplate,
+  type NudgeRule,
+} from './utils/nudgeRules';
 
 type QueueStatus = 'waiting' | 'called';
 type PartyRemovalReason = 'served' | 'left' | 'kicked' | 'no_show' | 'closed';
@@ -13,18 +31,192 @@ interface QueueParty {
   status: QueueStatus;
   nearby: boolean;
   joinedAt: number;
+  // Number shown for the guest on the display board, counting up from 1 in each queue
+  ticket?: number;
+  laneId?: string;
+  // Set for guests who booked an appointment slot rather than walking in
+  slotId?: string;
+  // Call windows missed in the current call, and whether a no-show already moved them back
+  missedCalls?: number;
+  requeued?: boolean;
+  // Times the guest let others go ahead, and when a timed snooze ends (ms)
+  snoozes?: number;
+  snoozedUntil?: number | null;
+  // Times the guest was called, and put back by an undo after leaving; they number repeat
+  // pushes, so an undo carries them forward rather than rolling them back
+  calls?: number;
+  restores?: number;
+  // Answers to the host's extra join form questions, keyed by field id
+  answers?: JoinAnswers;
+  // Host-only; never included in guest payloads
+  note?: string;
+  tags?: PartyTag[];
+  // Whether the latest notification reached one of the guest's devices, reported by the worker
+  pushStatus?: PushStatus;
 }
 
-interface StoredState {
-  queue: QueueParty[];
+type PushStatus = 'notified' | 'unreachable';
+
+const TAG_COLORS = ['gray', 'red', 'orange', 'yellow', 'green', 'blue', 'purple'] as const;
+
+type TagColor = (typeof TAG_COLORS)[number];
+
+interface PartyTag {
+  label: string;
+  color: TagColor;
+}
+
+type LanePolicy = 'strict' | 'weighted';
+
+interface PriorityLane {
+  id: string;
+  name: string;
+  weight: number;
+  guestSelectable: boolean;
+}
+
+interface ServiceCounter {
+  id: string;
+  name: string;
   nowServing: QueueParty | null;
+  callDeadline: number | null;
+}
+
+type NoShowAction = 'drop' | 'requeue';
+
+interface CallPolicy {
+  timeoutMs: number;
+  // Extra calls (fresh window and push) a party gets before the no-show action applies
+  maxRecalls: number;
+  noShowAction: NoShowAction;
+  // How many parties a re-queued no-show lands behind
+  requeuePlaces: number;
+}
+
+type SlotStatus = 'open' | 'booked' | 'admitted' | 'no_show';
+
+interface AppointmentSlot {
+  id: string;
+  startsAt: number;
+  status: SlotStatus;
+  party: { id: string; name?: string; size?: number; answers?: JoinAnswers } | null;
+}
+
+type UndoAction = 'serve' | 'call' | 'kick' | 'no_show';
+
+// Where a party sits: called to a counter, waiting at an index in the line, or gone
+type PartyPlacement =
+  | { kind: 'counter'; counterId: string }
+  | { kind: 'queue'; index: number }
+  | { kind: 'removed' };
+
+interface UndoEntry {
+  id: string;
+  action: UndoAction;
+  at: number;
+  // Every party the action moved, as it was beforehand and where the action left it
+  parties: { party: QueueParty; before: PartyPlacement; after: PartyPlacement }[];
+}
+
+// Who a host message went to: everyone in line, the next `count` parties, or one party
+type BroadcastTarget =
+  | { type: 'everyone' }
+  | { type: 'next'; count: number }
+  | { type: 'party'; partyId: string };
+
+interface HostBroadcast {
+  id: string;
+  text: string;
+  at: number;
+  // null for messages to everyone, which guests who join later see as well
+  partyIds: string[] | null;
+}
+
+// A push waiting for the next batch; `kind` is 'called' or a nudge rule's id
+interface PendingPush {
+  kind: string;
+  title: string;
+  body: string;
+}
+
+// A host message as it appears in a guest's feed
+interface GuestMessage {
+  id: string;
+  text: string;
+  sentAt: number;
+}
+
+interface StoredState {
+  // Legacy: parties live in the queue_parties table, one row each, and are only read from
+  // here for state written before that
+  queue?: QueueParty[];
+  standby?: QueueParty[];
+  counters?: ServiceCounter[];
   closed?: boolean;
-  pendingPartyId?: string | null;
   maxGuests?: number;
+  lanes?: PriorityLane[];
+  lanePolicy?: LanePolicy;
+  laneCredits?: Record<string, number>;
+  pausedAt?: number | null;
+  resumeAt?: number | null;
+  scheduleOpen?: boolean;
+  slots?: AppointmentSlot[];
+  callPolicy?: CallPolicy;
+  undoStack?: UndoEntry[];
+  nextTicket?: number;
+  broadcasts?: HostBroadcast[];
+  capacityAlerted?: boolean;
+  autoCloseWarnedFor?: number | null;
+  // Legacy single-counter fields, migrated into `counters` on restore
+  nowServing?: QueueParty | null;
+  pendingPartyId?: string | null;
   callDeadline?: number | null;
 }
 
-type ConnectionInfo = { role: 'host' } | { role: 'guest'; partyId: string };
+// `protocol` is 1 for legacy sockets (full snapshots) or QUEUE_PROTOCOL_VERSION (patches)
+type ConnectionInfo =
+  | { role: 'host'; protocol: number; window: HostWindow }
+  | { role: 'guest'; partyId: string; protocol: number }
+  | { role: 'board'; labels: BoardLabels; protocol: number };
+
+// What the display board calls each party; ticket mode keeps names off a public screen
+type BoardLabels = 'names' | 'tickets';
+
+interface BoardParty {
+  ticket: number | null;
+  name: string | null;
+}
+
+type HostPartyView = Omit<QueueParty, 'joinedAt'> & { joinedAt: number };
+
+// Live clients are WebSockets or, where those are blocked, Server-Sent Event streams
+type LiveSocket = WebSocket | EventStreamSocket;
+
+// The page of the line a protocol-2 host is watching
+interface HostWindow {
+  offset: number;
+  limit: number;
+}
+
+// What protocol-2 hosts on one window were last sent; the next change is diffed against it
+interface HostView {
+  queue: HostPartyView[];
+  counters: {
+    id: string;
+    name: string;
+    nowServing: HostPartyView | null;
+    callDeadline: number | null;
+  }[];
+  meta: Record<string, unknown>;
+}
+
+type PartyList = 'queue' | 'standby';
+
+// Where a queue_parties row sits, as last written
+interface PersistedParty {
+  list: PartyList;
+  rank: number;
+}
 
 const CALL_TIMEOUT_MS = 2 * 60 * 1000;
 const DEFAULT_MAX_GUESTS = 100;
@@ -32,29 +224,265 @@ const DEFAULT_SERVICE_MS = 3 * 60 * 1000; // 3 minutes fallback
 const MS_PER_MINUTE = 60 * 1000;
 const SERVICE_TIME_CACHE_MS = 5 * 60 * 1000; // Refresh every 5 minutes
 const MIN_SAMPLES_FOR_DYNAMIC_ETA = 3; // Need at least 3 served parties for dynamic ETA
+const DEFAULT_COUNTER_ID = 'main';
+const DEFAULT_COUNTER_NAME = 'Main';
+const DEFAULT_LANE_ID = 'standard';
+const MAX_PAUSE_MS = 12 * 60 * 60 * 1000; // A scheduled resume can be at most 12 hours out
+// How long after closing a host can still reopen the queue with its parties intact
+export const REOPEN_GRACE_MS = 30 * 60 * 1000;
+const UNDO_WINDOW_MS = 30 * 1000; // Hosts get a short window to take back a serve, kick or no-show
+// Host snapshots list this many parties unless the host asks for a different page
+const HOST_PAGE_SIZE = 100;
+const MAX_HOST_PAGE_SIZE = 1000;
+// Long polls are held well under the 100s most proxies allow an idle request
+const MAX_LONG_POLL_SECONDS = 30;
+const EVENT_STREAM_RETRY_MS = 3000; // How soon EventSource clients reconnect after a drop
+// Guests who reconnect within this long get the calls and removals they missed replayed
+const GUEST_LOG_RETENTION_MS = 60 * 60 * 1000;
+const GUEST_LOG_LIMIT = 20; // Entries kept per party
+const UNDO_STACK_LIMIT = 5;
+const BOARD_UP_NEXT = 5; // Parties listed under "next up" on the display board
+const MAX_SNOOZES = 2;
+const MAX_NOTE_LENGTH = 500;
+const MAX_PARTY_TAGS = 5;
+const MAX_TAG_LABEL_LENGTH = 24;
+const MAX_BROADCAST_LENGTH = 280;
+const BROADCAST_LIMIT = 20; // Most recent host messages kept for guests' message feeds
+const CAPACITY_ALERT_RATIO = 0.9; // Hosts are warned once the line is this full
+const AUTO_CLOSE_WARNING_MS = 10 * 60 * 1000; // How far ahead hosts hear about an auto-close
+
+const DEFAULT_CALL_POLICY: CallPolicy = {
+  timeoutMs: CALL_TIMEOUT_MS,
+  maxRecalls: 0,
+  noShowAction: 'drop',
+  requeuePlaces: 0,
+};
 
 function logPrefix(sessionId: string, scope: string): string {
   return `[QueueDO ${sessionId}] ${scope}:`;
 }
 
+function hostWindowKey(window: HostWindow): string {
+  return `${window.offset}:${window.limit}`;
+}
+
+/**
+ * Build priority lanes (highest priority first) from the `sessions.priority_lanes` JSON
+ * column. The standard lane is always present, last unless the host placed it explicitly.
+ */
+function parseLaneConfig(raw: string | null | undefined): PriorityLane[] {
+  let entries: unknown = null;
+  if (raw) {
+    try {
+      entries = JSON.parse(raw);
+    } catch {
+      entries = null;
+    }
+  }
+  const lanes: PriorityLane[] = [];
+  if (Array.isArray(entries)) {
+    for (const entry of entries) {
+      if (
+        entry &&
+        typeof entry.id === 'string' &&
+        typeof entry.name === 'string' &&
+        !lanes.some((lane) => lane.id === entry.id)
+      ) {
+        const weight = Number(entry.weight);
+        lanes.push({
+          id: entry.id,
+          name: entry.name,
+          weight: Number.isFinite(weight) && weight > 0 ? weight : 1,
+          guestSelectable: entry.guestSelectable === true,
+        });
+      }
+    }
+  }
+  if (!lanes.some((lane) => lane.id === DEFAULT_LANE_ID)) {
+    lanes.push({ id: DEFAULT_LANE_ID, name: 'Standard', weight: 1, guestSelectable: true });
+  }
+  return lanes;
+}
+
+/**
+ * Read the `sessions.call_policy` JSON column ({ timeoutSeconds, maxRecalls, noShowAction,
+ * requeuePlaces }). Missing or invalid settings keep their defaults.
+ */
+function parseCallPolicy(raw: string | null | undefined): CallPolicy {
+  let parsed: unknown = null;
+  if (raw) {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      parsed = null;
+    }
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    return { ...DEFAULT_CALL_POLICY };
+  }
+  const entry = parsed as Record<string, unknown>;
+  const timeoutSeconds = Number(entry.timeoutSeconds);
+  const maxRecalls = Number(entry.maxRecalls);
+  const requeuePlaces = Number(entry.requeuePlaces);
+  return {
+    timeoutMs:
+      Number.isInteger(timeoutSeconds) && timeoutSeconds > 0
+        ? timeoutSeconds * 1000
+        : DEFAULT_CALL_POLICY.timeoutMs,
+    maxRecalls: Number.isInteger(maxRecalls) && maxRecalls > 0 ? maxRecalls : 0,
+    noShowAction: entry.noShowAction === 'requeue' ? 'requeue' : 'drop',
+    requeuePlaces: Number.isInteger(requeuePlaces) && requeuePlaces > 0 ? requeuePlaces : 0,
+  };
+}
+
+function isTagColor(value: unknown): value is TagColor {
+  return typeof value === 'string' && (TAG_COLORS as readonly string[]).includes(value);
+}
+
+/**
+ * Read the `parties.tags` JSON column, skipping entries that aren't a label and a known colour.
+ */
+function parsePartyTags(raw: string | null | undefined): PartyTag[] | undefined {
+  if (!raw) {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      return undefined;
+    }
+    const tags = parsed
+      .filter((tag) => typeof tag?.label === 'string' && isTagColor(tag.color))
+      .map((tag) => ({ label: tag.label as string, color: tag.color as TagColor }));
+    return tags.length > 0 ? tags : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// A broadcast's `target` from the host; leaving it out means everyone
+function parseBroadcastTarget(raw: unknown): BroadcastTarget | null {
+  if (raw === undefined || raw === null) {
+    return { type: 'everyone' };
+  }
+  const target = raw as { type?: unknown; count?: unknown; partyId?: unknown };
+  if (target.type === 'everyone') {
+    return { type: 'everyone' };
+  }
+  if (
+    target.type === 'next' &&
+    typeof target.count === 'number' &&
+    Number.isInteger(target.count) &&
+    target.count > 0
+  ) {
+    return { type: 'next', count: target.count };
+  }
+  if (target.type === 'party' && typeof target.partyId === 'string' && target.partyId) {
+    return { type: 'party', partyId: target.partyId };
+  }
+  return null;
+}
+
+/**
+ * Build idle counters from the `sessions.service_counters` JSON column.
+ * Falls back to a single default counter when nothing (valid) is configured.
+ */
+function parseCounterConfig(raw: string | null | undefined): ServiceCounter[] {
+  let entries: unknown = null;
+  if (raw) {
+    try {
+      entries = JSON.parse(raw);
+    } catch {
+      entries = null;
+    }
+  }
+  const counters: ServiceCounter[] = [];
+  if (Array.isArray(entries)) {
+    for (const entry of entries) {
+      if (
+        entry &&
+        typeof entry.id === 'string' &&
+        typeof entry.name === 'string' &&
+        !counters.some((counter) => counter.id === entry.id)
+      ) {
+        counters.push({ id: entry.id, name: entry.name, nowServing: null, callDeadline: null });
+      }
+    }
+  }
+  if (counters.length === 0) {
+    counters.push({
+      id: DEFAULT_COUNTER_ID,
+      name: DEFAULT_COUNTER_NAME,
+      nowServing: null,
+      callDeadline: null,
+    });
+  }
+  return counters;
+}
+
 export class QueueDO implements DurableObject {
   private readonly sessionId: string;
   private queue: QueueParty[] = [];
-  private nowServing: QueueParty | null = null;
-  private pendingPartyId: string | null = null;
+  // Overflow once the queue is at maxGuests, promoted in join order as capacity frees up
+  private standby: QueueParty[] = [];
+  private persistedParties = new Map<string, PersistedParty>();
+  // Parties changed since the last persistState, and whether either list was reordered
+  // (joins, serves, moves), so only those rows are rewritten
+  private dirtyParties = new Map<string, QueueParty>();
+  private partyOrderChanged = false;
+  private counters: ServiceCounter[] = parseCounterConfig(null);
+  private lanes: PriorityLane[] = parseLaneConfig(null);
+  private lanePolicy: LanePolicy = 'strict';
+  // Smooth weighted round-robin state, only used by the 'weighted' lane policy
+  private laneCredits: Record<string, number> = {};
   private closed = false;
+  // Set while the host has paused the queue; resumeAt is the announced "back at" time
+  private pausedAt: number | null = null;
+  private resumeAt: number | null = null;
+  // Opening hours (null = always open) and whether they were open at the last check
+  private schedule: QueueSchedule | null = null;
+  private scheduleOpen = true;
+  private slots: AppointmentSlot[] = [];
+  private callPolicy: CallPolicy = { ...DEFAULT_CALL_POLICY };
+  // Most recent last; entries older than UNDO_WINDOW_MS are dropped
+  private undoStack: UndoEntry[] = [];
+  private nextTicket = 1;
+  // Host messages to guests, oldest first
+  private broadcasts: HostBroadcast[] = [];
   private maxGuests = DEFAULT_MAX_GUESTS;
   private eventName: string | null = null;
-  private callDeadline: number | null = null;
+  private joinFields: JoinField[] = [];
+  // Position and wait-time reminders; nudges a party was sent are remembered as
+  // `partyId:ruleId:snoozes` so each trigger doesn't queue them again
+  private nudgeRules: NudgeRule[] = DEFAULT_NUDGE_RULES;
+  private sentNudges = new Set<string>();
+  // Host tokens from other credential epochs are rejected (see sessions.host_epoch)
+  private hostEpoch = 0;
   private createdAt: number;
   private lastActivityAt: number;
 
-  private sockets = new Map<WebSocket, ConnectionInfo>();
-  private guestSockets = new Map<string, Set<WebSocket>>();
+  private sockets = new Map<LiveSocket, ConnectionInfo>();
+  private guestSockets = new Map<string, Set<LiveSocket>>();
+  // Long-poll requests waiting for the next publishState
+  private changeWaiters = new Set<() => void>();
+  // The host snapshot last written to KV, so reads don't have to wait for KV to catch up
+  private publishedSnapshot: string | null = null;
+  // Keyed by hostWindowKey; each window numbers its own patches
+  private hostViews = new Map<string, { view: HostView; seq: number }>();
+  // Per-party sequence numbers (cached from guest_events) and the last update protocol-2
+  // guests got, to skip repeats
+  private guestSeqs = new Map<string, number>();
+  private lastGuestPayloads = new Map<string, string>();
+  // Last board payload sent in each label mode, so unchanged boards aren't sent it again
+  private lastBoardPayloads = new Map<BoardLabels, string>();
 
   // Push notification batching state
-  private pendingPushes = new Map<string, 'called' | 'pos_2' | 'pos_5'>();
+  private pendingPushes = new Map<string, PendingPush>();
   private pushAlarmScheduled = false;
+  // Host alerts already sent: whether the line is over the capacity mark, and the
+  // auto-close time the host was last warned about. Stored, so a restart doesn't resend them
+  private capacityAlerted = false;
+  private autoCloseWarnedFor: number | null = null;
 
   // Cost optimization settings
   private static readonly INACTIVE_TIMEOUT_MS = 2 * 60 * 60 * 1000; // 2 hours
@@ -75,6 +503,12 @@ export class QueueDO implements DurableObject {
     this.createdAt = now;
     this.lastActivityAt = now;
     this.state.blockConcurrencyWhile(async () => {
+      this.state.storage.sql.exec(
+        'CREATE TABLE IF NOT EXISTS queue_parties (id TEXT PRIMARY KEY, list TEXT NOT NULL, rank REAL NOT NULL, data TEXT NOT NULL)'
+      );
+      this.state.storage.sql.exec(
+        'CREATE TABLE IF NOT EXISTS guest_events (party_id TEXT NOT NULL, seq INTEGER NOT NULL, at INTEGER NOT NULL, payload TEXT NOT NULL, PRIMARY KEY (party_id, seq))'
+      );
       await this.restoreState();
     });
   }
@@ -92,6 +526,11 @@ export class QueueDO implements DurableObject {
       return this.handleSnapshot(request);
     }
 
+    // GET /events - the same live updates as /connect, as Server-Sent Events
+    if (request.method === 'GET' && url.pathname === '/events') {
+      return this.handleEventStream(request, url);
+    }
+
     if (request.method !== 'POST') {
       return new Response('Method not allowed', { status: 405 });
     }
@@ -103,12 +542,34 @@ export class QueueDO implements DurableObject {
         return this.handleDeclareNearby(request);
       case '/leave':
         return this.handleLeave(request);
+      case '/snooze':
+        return this.handleSnooze(request);
       case '/advance':
         return this.handleAdvance(request);
       case '/kick':
         return this.handleKick(request);
       case '/close':
         return this.handleClose(request);
+      case '/assign-lane':
+        return this.handleAssignLane(request);
+      case '/annotate':
+        return this.handleAnnotate(request);
+      case '/reorder':
+        return this.handleReorder(request);
+      case '/broadcast':
+        return this.handleBroadcast(request);
+      case '/pause':
+        return this.handlePause(request);
+      case '/resume':
+        return this.handleResume(request);
+      case '/reopen':
+        return this.handleReopen(request);
+      case '/undo':
+        return this.handleUndo(request);
+      case '/refresh-host-auth':
+        return this.handleRefreshHostAuth();
+      case '/push-status':
+        return this.handlePushStatus(request);
       default:
         return new Response('Not found', { status: 404 });
     }
@@ -117,8 +578,18 @@ export class QueueDO implements DurableObject {
   async alarm(): Promise<void> {
     const now = Date.now();
 
-    // Check for queue expiration (cost optimization)
+    if (!this.closed && this.pausedAt !== null && this.resumeAt !== null && now >= this.resumeAt) {
+      await this.resumeQueue('scheduled');
+    }
+
     if (!this.closed) {
+      await this.applySchedule(scheduleWindow(this.schedule, now).open);
+    }
+
+    // Check for queue expiration (cost optimization). A queue paused on purpose keeps
+    // everyone's spot until the host resumes it, and one waiting for its opening hours is
+    // expected to sit idle, so neither is auto-closed.
+    if (!this.closed && this.pausedAt === null && this.scheduleOpen) {
       const lifetime = now - this.createdAt;
       const inactiveDuration = now - this.lastActivityAt;
 
@@ -131,11 +602,12 @@ export class QueueDO implements DurableObject {
         return;
       }
 
-      // Auto-close if inactive for too long AND queue is empty
+      // Auto-close if inactive for too long AND queue is empty (and nobody is booked in)
       if (
         inactiveDuration > QueueDO.INACTIVE_TIMEOUT_MS &&
         this.queue.length === 0 &&
-        !this.nowServing
+        this.busyCounterCount() === 0 &&
+        !this.slots.some((slot) => slot.status === 'booked')
       ) {
         console.log(
           `[QueueDO ${this.sessionId}] Auto-closing: inactive for ${Math.round(inactiveDuration / 60000)} minutes`
@@ -143,24 +615,35 @@ export class QueueDO implements DurableObject {
         await this.handleAutoClose('inactivity');
         return;
       }
+
+      await this.warnBeforeAutoClose(now);
     }
 
-    // Handle no-show timeout if needed
-    if (this.pendingPartyId && this.nowServing && this.nowServing.id === this.pendingPartyId) {
-      const timeElapsed = now - (this.callDeadline ?? 0);
+    // Handle no-show timeouts, each counter has its own call deadline
+    for (const counter of this.counters) {
+      if (!counter.nowServing) {
+        continue;
+      }
+      const timeElapsed = now - (counter.callDeadline ?? 0);
       const deadlineReached = timeElapsed >= 0 || this.env.TEST_MODE === 'true';
-      // Only mark as no-show if call timeout has elapsed, unless running in test mode
+      // Only act on a missed call if call timeout has elapsed, unless running in test mode
       if (deadlineReached) {
-        await this.markPartyAsNoShow(this.nowServing.id);
-        await this.callNextParty();
+        await this.handleMissedCall(counter);
       }
     }
 
+    // Booked guests join after the no-show pass so a fresh call isn't expired straight away
+    if (!this.closed) {
+      await this.admitDueAppointments(now);
+      await this.wakeSnoozedParties(now);
+    }
+
     // Process batched push notifications
     await this.processPendingPushes();
 
-    // Schedule next alarm for lifecycle checks if not closed
+    // Schedule next alarm for pending call deadlines and lifecycle checks if not closed
     if (!this.closed) {
+      await this.scheduleCallDeadlineAlarm();
       await this.scheduleLifecycleAlarm();
     }
   }
@@ -177,40 +660,89 @@ export class QueueDO implements DurableObject {
       return this.jsonError('Invalid JSON body', 400);
     }
 
-    const { name, size, userId } = payload;
+    const { name, size, userId, laneId, slotId } = payload;
     if (name !== undefined && typeof name !== 'string') {
       return this.jsonError('name must be a string', 400);
     }
     if (size !== undefined && (!Number.isInteger(size) || size <= 0)) {
       return this.jsonError('size must be a positive integer', 400);
     }
+    const answerCheck = validateJoinAnswers(this.joinFields, payload.answers);
+    if ('error' in answerCheck) {
+      return this.jsonError(answerCheck.error, 400);
+    }
+    const answers = Object.keys(answerCheck.answers).length > 0 ? answerCheck.answers : undefined;
+
+    // Booking ahead of time isn't affected by a pause or the opening hours
+    if (slotId !== undefined && slotId !== null) {
+      return this.bookSlot(slotId, name, size, userId, answers);
+    }
+
+    if (this.pausedAt !== null) {
+      return this.jsonResponse(
+        {
+          error: 'This queue is paused and not taking new guests',
+          paused: true,
+          resumeAt: this.resumeAt,
+        },
+        409
+      );
+    }
+    const hours = scheduleWindow(this.schedule, Date.now());
+    await this.applySchedule(hours.open);
+    if (!hours.open) {
+      // Outside opening hours; people already in line are still served (soft close)
+      return this.jsonResponse(
+        {
+          error: this.schedule?.openTime
+            ? `This queue opens at ${this.schedule.openTime}`
+            : 'This queue is closed for the day',
+          outsideHours: true,
+          opensAt: hours.opensAt,
+        },
+        409
+      );
+    }
+
+    let lane: PriorityLane | undefined;
+    if (laneId !== undefined && laneId !== null) {
+      lane = typeof laneId === 'string' ? this.findLane(laneId) : undefined;
+      if (!lane) {
+        return this.jsonError('Unknown laneId', 400);
+      }
+      // Guests may only pick lanes the host opened up to them (e.g. accessibility)
+      if (!lane.guestSelectable) {
+        const hostVerified = await this.verifyHostRequest(request);
+        if (hostVerified instanceof Response) {
+          return this.jsonError('Only the host can assign this lane', 403);
+        }
+      }
+    }
 
     // Check if a party with the same name already exists in the queue
     if (name && name.trim().length > 0) {
       const normalizedName = name.trim();
-      const existingParty = this.queue.find((p) => p.name?.trim() === normalizedName);
+      const existingParty = [...this.queue, ...this.standby].find(
+        (p) => p.name?.trim() === normalizedName
+      );
       if (existingParty) {
         return this.jsonError('You are already in this queue', 409);
       }
-      if (this.nowServing && this.nowServing.name?.trim() === normalizedName) {
+      if (this.servingParties().some((p) => p.name?.trim() === normalizedName)) {
         return this.jsonError('You are already in this queue', 409);
       }
     }
 
     const normalizedSize = typeof size === 'number' && Number.isFinite(size) && size > 0 ? size : 1;
     const totalGuests = this.computeGuestCount();
-    if (totalGuests + normalizedSize > this.maxGuests) {
-      return this.jsonError('Queue is full', 409);
+    // Once anyone is on standby, newcomers line up behind them rather than skipping ahead
+    if (this.standby.length > 0 || totalGuests + normalizedSize > this.maxGuests) {
+      return this.joinStandby(name, normalizedSize, userId, lane, answers);
     }
 
     // Refresh dynamic ETA model before calculating estimate
     await this.refreshAvgServiceTime();
 
-    // Calculate estimated wait BEFORE adding to queue
-    const aheadWaiting = this.queue.length;
-    const aheadCount = aheadWaiting + (this.nowServing ? 1 : 0);
-    const estimatedWaitMs = this.estimateWaitMs(aheadCount);
-
     const party: QueueParty = {
       id: crypto.randomUUID(),
       name,
@@ -218,17 +750,34 @@ export class QueueDO implements DurableObject {
       status: 'waiting',
       nearby: false,
       joinedAt: Date.now(),
+      ticket: this.nextTicket++,
+      laneId: lane && lane.id !== DEFAULT_LANE_ID ? lane.id : undefined,
+      answers,
     };
 
     this.queue.push(party);
+    this.partyOrderChanged = true;
+
+    // Lanes may slot the new party ahead of earlier arrivals, so use the lane-aware order
+    const { position, aheadCount } = this.computePosition(party.id);
+    const estimatedWaitMs = this.estimateWaitMs(aheadCount);
 
     // Validate userId if provided (should be a string or null)
     const validUserId = typeof userId === 'string' && userId.length > 0 ? userId : null;
 
     const statements = [
       this.env.DB.prepare(
-        "INSERT INTO parties (id, session_id, name, size, status, nearby, estimated_wait_ms, user_id) VALUES (?1, ?2, ?3, ?4, 'waiting', 0, ?5, ?6)"
-      ).bind(party.id, this.sessionId, name ?? null, normalizedSize, estimatedWaitMs, validUserId),
+        "INSERT INTO parties (id, session_id, name, size, status, nearby, estimated_wait_ms, user_id, lane_id, answers) VALUES (?1, ?2, ?3, ?4, 'waiting', 0, ?5, ?6, ?7, ?8)"
+      ).bind(
+        party.id,
+        this.sessionId,
+        name ?? null,
+        normalizedSize,
+        estimatedWaitMs,
+        validUserId,
+        party.laneId ?? null,
+        answers ? JSON.stringify(answers) : null
+      ),
       this.env.DB.prepare(
         "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'joined', ?3)"
       ).bind(
@@ -239,6 +788,7 @@ export class QueueDO implements DurableObject {
           size: party.size ?? null,
           estimated_wait_ms: estimatedWaitMs,
           user_id: validUserId,
+          lane_id: party.laneId ?? null,
         })
       ),
     ];
@@ -259,14 +809,13 @@ export class QueueDO implements DurableObject {
       type: 'QUEUE_MEMBER_JOINED',
       sessionId: this.sessionId,
       partyId: party.id,
-      position: this.queue.length,
+      position,
       queueLength: this.queue.length,
     });
 
     this.broadcastGuestPositions();
     await this.triggerPositionPushes();
 
-    const position = aheadCount + 1;
     const queueLength = this.computeQueueLength();
 
     return this.jsonResponse({
@@ -279,74 +828,561 @@ export class QueueDO implements DurableObject {
     });
   }
 
-  private async handleDeclareNearby(request: Request): Promise<Response> {
-    this.trackActivity(); // Cost optimization: track activity
-    const payload = await this.readJson(request);
-    if (!payload) {
-      return this.jsonError('Invalid JSON body', 400);
+  /**
+   * Put a guest on the standby list of a full queue. The party row is written with status
+   * 'standby' and promoteStandby() moves it into the line once there's room for it.
+   */
+  private async joinStandby(
+    name: string | undefined,
+    size: number,
+    userId: unknown,
+    lane: PriorityLane | undefined,
+    answers: JoinAnswers | undefined
+  ): Promise<Response> {
+    const standbyGuests = this.standby.reduce((sum, entry) => sum + this.partySize(entry), 0);
+    if (size > this.maxGuests || standbyGuests + size > this.maxGuests) {
+      return this.jsonError('Queue is full', 409);
     }
-    const { partyId } = payload;
-    if (typeof partyId !== 'string' || !partyId) {
-      return this.jsonError('partyId is required', 400);
+
+    const party: QueueParty = {
+      id: crypto.randomUUID(),
+      name,
+      size,
+      status: 'waiting',
+      nearby: false,
+      joinedAt: Date.now(),
+      ticket: this.nextTicket++,
+      laneId: lane && lane.id !== DEFAULT_LANE_ID ? lane.id : undefined,
+      answers,
+    };
+    const validUserId = typeof userId === 'string' && userId.length > 0 ? userId : null;
+
+    const results = await this.env.DB.batch([
+      this.env.DB.prepare(
+        "INSERT INTO parties (id, session_id, name, size, status, nearby, user_id, lane_id, answers) VALUES (?1, ?2, ?3, ?4, 'standby', 0, ?5, ?6, ?7)"
+      ).bind(
+        party.id,
+        this.sessionId,
+        name ?? null,
+        size,
+        validUserId,
+        party.laneId ?? null,
+        answers ? JSON.stringify(answers) : null
+      ),
+      this.env.DB.prepare(
+        "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'joined', ?3)"
+      ).bind(
+        this.sessionId,
+        party.id,
+        JSON.stringify({
+          name: party.name ?? null,
+          size,
+          user_id: validUserId,
+          lane_id: party.laneId ?? null,
+          standby: true,
+        })
+      ),
+    ]);
+    const errorResult = results.find((result) => result.error);
+    if (errorResult) {
+      console.error('Failed to persist standby join:', errorResult.error);
+      return this.jsonError('Failed to join queue', 500);
     }
 
-    const party = this.findParty(partyId);
-    if (!party) {
-      return this.jsonError('Party not found', 404);
+    this.standby.push(party);
+    this.partyOrderChanged = true;
+    await this.persistState();
+    await this.publishState();
+
+    return this.jsonResponse({
+      partyId: party.id,
+      sessionId: this.sessionId,
+      standby: true,
+      ...this.buildGuestStandbyPayload(party.id),
+    });
+  }
+
+  /**
+   * Move standby parties into the line, oldest first, while the head of the list fits
+   * under maxGuests. Stops at the first party that doesn't fit so nobody is skipped.
+   */
+  private async promoteStandby(): Promise<void> {
+    if (this.closed || this.standby.length === 0) {
+      return;
+    }
+    const promoted: QueueParty[] = [];
+    let guestCount = this.computeGuestCount();
+    while (this.standby.length > 0) {
+      const next = this.standby[0];
+      if (guestCount + this.partySize(next) > this.maxGuests) {
+        break;
+      }
+      this.standby.shift();
+      this.partyOrderChanged = true;
+      guestCount += this.partySize(next);
+      // The original joinedAt is kept, so promoted guests are still ordered by arrival
+      this.queue.push(next);
+      promoted.push(next);
+    }
+    if (promoted.length === 0) {
+      return;
     }
 
-    if (!party.nearby) {
-      party.nearby = true;
-      await this.env.DB.prepare('UPDATE parties SET nearby = 1 WHERE id = ?1').bind(partyId).run();
-      await logAnalyticsEvent({
-        db: this.env.DB,
+    await this.env.DB.batch(
+      promoted.flatMap((party) => [
+        this.env.DB.prepare("UPDATE parties SET status = 'waiting' WHERE id = ?1").bind(party.id),
+        this.env.DB.prepare(
+          "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'promoted', ?3)"
+        ).bind(
+          this.sessionId,
+          party.id,
+          JSON.stringify({ waited_ms: Date.now() - party.joinedAt })
+        ),
+      ])
+    );
+    await this.persistState();
+
+    const order = this.serviceOrder();
+    for (const party of promoted) {
+      const { position } = this.computePosition(party.id, order);
+      await this.emitEvent({
+        type: 'QUEUE_MEMBER_PROMOTED',
         sessionId: this.sessionId,
-        partyId,
-        type: 'nudge_ack',
-        details: { source: 'declare_nearby' },
+        partyId: party.id,
+        position,
+        queueLength: this.queue.length,
       });
-      await this.persistState();
-      await this.publishState();
     }
-
-    return this.jsonResponse({ ok: true });
   }
 
-  private async handleLeave(request: Request): Promise<Response> {
-    this.trackActivity(); // Cost optimization: track activity
-    const payload = await this.readJson(request);
-    if (!payload) {
-      return this.jsonError('Invalid JSON body', 400);
+  /**
+   * Reserve an appointment slot. The party row exists from now on (status 'booked') so the
+   * guest can follow along, but it only enters the line once the slot starts.
+   */
+  private async bookSlot(
+    slotId: unknown,
+    name: string | undefined,
+    size: number | undefined,
+    userId: unknown,
+    answers: JoinAnswers | undefined
+  ): Promise<Response> {
+    const slot = typeof slotId === 'string' ? this.findSlot(slotId) : undefined;
+    if (!slot) {
+      return this.jsonError('Unknown slotId', 400);
     }
-    const { partyId } = payload;
-    if (typeof partyId !== 'string' || !partyId) {
-      return this.jsonError('partyId is required', 400);
+    if (slot.status !== 'open') {
+      return this.jsonError('That slot is already taken', 409);
+    }
+    if (slot.startsAt <= Date.now()) {
+      return this.jsonError('That slot has already started', 409);
     }
 
-    // Capture position and wait time before removal
-    const party = this.findParty(partyId);
-    const positionAtLeave = party ? this.computePosition(partyId).position : null;
-    const waitMsAtLeave = party ? Date.now() - party.joinedAt : null;
-
-    const removed = await this.removeParty(partyId, 'left');
-    if (!removed) {
-      return this.jsonError('Party not found', 404);
+    const partyId = crypto.randomUUID();
+    const normalizedSize = typeof size === 'number' && size > 0 ? size : 1;
+    const validUserId = typeof userId === 'string' && userId.length > 0 ? userId : null;
+    if (validUserId) {
+      const existingBooking = await this.env.DB.prepare(
+        "SELECT id FROM parties WHERE session_id = ?1 AND user_id = ?2 AND status = 'booked' LIMIT 1"
+      )
+        .bind(this.sessionId, validUserId)
+        .first<{ id: string }>();
+      if (existingBooking) {
+        return this.jsonError('You already have a booking in this queue', 409);
+      }
     }
 
-    const completedAt = Math.floor(Date.now() / 1000);
-    await this.env.DB.batch([
+    const results = await this.env.DB.batch([
       this.env.DB.prepare(
-        "UPDATE parties SET status = 'left', completed_at = ?2, position_at_leave = ?3, wait_ms_at_leave = ?4 WHERE id = ?1"
-      ).bind(partyId, completedAt, positionAtLeave, waitMsAtLeave),
+        "INSERT INTO parties (id, session_id, name, size, status, nearby, user_id, answers) VALUES (?1, ?2, ?3, ?4, 'booked', 0, ?5, ?6)"
+      ).bind(
+        partyId,
+        this.sessionId,
+        name ?? null,
+        normalizedSize,
+        validUserId,
+        answers ? JSON.stringify(answers) : null
+      ),
       this.env.DB.prepare(
-        "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'left', ?3)"
+        "UPDATE appointment_slots SET status = 'booked', party_id = ?2 WHERE id = ?1"
+      ).bind(slot.id, partyId),
+      this.env.DB.prepare(
+        "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'slot_booked', ?3)"
       ).bind(
         this.sessionId,
         partyId,
-        JSON.stringify({
-          reason: 'guest_left',
-          position_at_leave: positionAtLeave,
-          wait_ms_at_leave: waitMsAtLeave,
+        JSON.stringify({ slot_id: slot.id, starts_at: slot.startsAt, user_id: validUserId })
+      ),
+    ]);
+    const errorResult = results.find((result) => result.error);
+    if (errorResult) {
+      console.error('Failed to persist booking:', errorResult.error);
+      return this.jsonError('Failed to book slot', 500);
+    }
+
+    slot.status = 'booked';
+    slot.party = { id: partyId, name, size: normalizedSize, answers };
+
+    await this.persistState();
+    await this.scheduleLifecycleAlarm();
+    await this.publishState();
+
+    return this.jsonResponse({
+      partyId,
+      slotId: slot.id,
+      startsAt: slot.startsAt,
+      eventName: this.eventName ?? undefined,
+    });
+  }
+
+  /**
+   * Snoozed guests whose time is up are back in their spot. Nobody is called for them:
+   * they simply count in the service order again.
+   */
+  private async wakeSnoozedParties(now: number): Promise<void> {
+    const woken = this.queue.filter(
+      (party) => typeof party.snoozedUntil === 'number' && party.snoozedUntil <= now
+    );
+    if (woken.length === 0) {
+      return;
+    }
+    for (const party of woken) {
+      party.snoozedUntil = null;
+      this.markPartyChanged(party);
+    }
+    await this.env.DB.batch(
+      woken.map((party) =>
+        this.env.DB.prepare(
+          "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'snooze_ended', NULL)"
+        ).bind(this.sessionId, party.id)
+      )
+    );
+    await this.persistState();
+    await this.publishState();
+    this.broadcastGuestPositions();
+    await this.triggerPositionPushes();
+  }
+
+  /**
+   * Move booked guests whose slot has started into the line: straight to a free counter
+   * when there is one, otherwise ahead of the walk-ins (after earlier appointments).
+   * From there a missed call is a no-show like any other.
+   */
+  private async admitDueAppointments(now: number): Promise<void> {
+    const due = this.slots.filter((slot) => slot.status === 'booked' && slot.startsAt <= now);
+    if (due.length === 0) {
+      return;
+    }
+
+    for (const slot of due) {
+      const booked = slot.party;
+      if (!booked) {
+        continue;
+      }
+      slot.status = 'admitted';
+      const party: QueueParty = {
+        id: booked.id,
+        name: booked.name,
+        size: booked.size,
+        status: 'waiting',
+        nearby: false,
+        joinedAt: now,
+        ticket: this.nextTicket++,
+        slotId: slot.id,
+        answers: booked.answers,
+      };
+      const counter =
+        this.pausedAt === null ? this.counters.find((entry) => !entry.nowServing) : undefined;
+      const joinedAt = Math.floor(now / 1000);
+
+      if (counter) {
+        party.status = 'called';
+        party.calls = 1;
+        counter.nowServing = party;
+        counter.callDeadline = now + this.callPolicy.timeoutMs;
+      } else {
+        const firstWalkIn = this.queue.findIndex((entry) => !entry.slotId);
+        this.queue.splice(firstWalkIn === -1 ? this.queue.length : firstWalkIn, 0, party);
+        this.partyOrderChanged = true;
+      }
+
+      await this.env.DB.batch([
+        counter
+          ? this.env.DB.prepare(
+              "UPDATE parties SET status = 'called', joined_at = ?2, called_at = ?2, counter_id = ?3 WHERE id = ?1"
+            ).bind(party.id, joinedAt, counter.id)
+          : this.env.DB.prepare(
+              "UPDATE parties SET status = 'waiting', joined_at = ?2 WHERE id = ?1"
+            ).bind(party.id, joinedAt),
+        this.env.DB.prepare("UPDATE appointment_slots SET status = 'admitted' WHERE id = ?1").bind(
+          slot.id
+        ),
+        this.env.DB.prepare(
+          "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'slot_admitted', ?3)"
+        ).bind(
+          this.sessionId,
+          party.id,
+          JSON.stringify({ slot_id: slot.id, called: Boolean(counter) })
+        ),
+      ]);
+
+      if (counter) {
+        this.notifyGuestCalled(party.id);
+        await this.emitEvent({
+          type: 'QUEUE_MEMBER_CALLED',
+          sessionId: this.sessionId,
+          partyId: party.id,
+          deadline: counter.callDeadline,
+          counterName: this.counters.length > 1 ? counter.name : undefined,
+        });
+      }
+    }
+
+    this.trackActivity();
+    await this.persistState();
+    await this.scheduleCallDeadlineAlarm();
+    await this.publishState();
+    this.broadcastGuestPositions();
+    await this.triggerPositionPushes();
+  }
+
+  /**
+   * A booked guest backing out before their slot starts frees it for someone else.
+   */
+  private async cancelBooking(slot: AppointmentSlot): Promise<void> {
+    const partyId = slot.party?.id;
+    slot.status = 'open';
+    slot.party = null;
+
+    await this.env.DB.batch([
+      this.env.DB.prepare(
+        "UPDATE parties SET status = 'left', completed_at = ?2 WHERE id = ?1"
+      ).bind(partyId, Math.floor(Date.now() / 1000)),
+      this.env.DB.prepare(
+        "UPDATE appointment_slots SET status = 'open', party_id = NULL WHERE id = ?1"
+      ).bind(slot.id),
+      this.env.DB.prepare(
+        "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'slot_cancelled', ?3)"
+      ).bind(this.sessionId, partyId, JSON.stringify({ slot_id: slot.id })),
+    ]);
+
+    await this.persistState();
+    await this.publishState();
+  }
+
+  private async handleDeclareNearby(request: Request): Promise<Response> {
+    this.trackActivity(); // Cost optimization: track activity
+    const payload = await this.readJson(request);
+    if (!payload) {
+      return this.jsonError('Invalid JSON body', 400);
+    }
+    const { partyId } = payload;
+    if (typeof partyId !== 'string' || !partyId) {
+      return this.jsonError('partyId is required', 400);
+    }
+
+    const party = this.findParty(partyId);
+    if (!party) {
+      return this.jsonError('Party not found', 404);
+    }
+
+    if (!party.nearby) {
+      party.nearby = true;
+      this.markPartyChanged(party);
+      await this.env.DB.prepare('UPDATE parties SET nearby = 1 WHERE id = ?1').bind(partyId).run();
+      await logAnalyticsEvent({
+        db: this.env.DB,
+        sessionId: this.sessionId,
+        partyId,
+        type: 'nudge_ack',
+        details: { source: 'declare_nearby' },
+      });
+      await this.persistState();
+      await this.publishState();
+    }
+
+    return this.jsonResponse({ ok: true });
+  }
+
+  /**
+   * Guest asks to wait longer: either let `places` parties go ahead, or step out of line
+   * until `until` (ms) and come back to the same spot. A called guest gives up the counter.
+   */
+  private async handleSnooze(request: Request): Promise<Response> {
+    this.trackActivity(); // Cost optimization: track activity
+    const payload = await this.readJson(request);
+    if (!payload) {
+      return this.jsonError('Invalid JSON body', 400);
+    }
+    const { partyId, places, until } = payload;
+    if (typeof partyId !== 'string' || !partyId) {
+      return this.jsonError('partyId is required', 400);
+    }
+
+    const party = this.findParty(partyId);
+    if (!party) {
+      return this.jsonError('Party not found', 404);
+    }
+    if ((party.snoozes ?? 0) >= MAX_SNOOZES) {
+      return this.jsonError(`You can only snooze ${MAX_SNOOZES} times`, 409);
+    }
+    if (this.isSnoozed(party)) {
+      return this.jsonError('Your spot is already snoozed', 409);
+    }
+
+    const counter = this.findCounterServing(partyId);
+    const before = this.serviceOrder();
+    const orderIndex = counter ? -1 : before.indexOf(party);
+    const stepsOut = until !== undefined && until !== null;
+    const readyBehind = before
+      .slice(orderIndex + 1)
+      .filter((entry) => !this.isSnoozed(entry)).length;
+    // Stepping out until a set time is allowed anywhere; letting others ahead needs someone behind
+    if (!stepsOut && readyBehind === 0) {
+      return this.jsonError('Nobody is waiting behind you', 409);
+    }
+
+    if (counter) {
+      counter.nowServing = null;
+      counter.callDeadline = null;
+    } else {
+      this.queue.splice(this.queue.indexOf(party), 1);
+    }
+    party.status = 'waiting';
+    party.missedCalls = 0;
+    party.snoozes = (party.snoozes ?? 0) + 1;
+    this.markPartyChanged(party);
+    this.partyOrderChanged = true;
+
+    let details: Record<string, unknown>;
+    if (stepsOut) {
+      party.snoozedUntil = until as number;
+      // Keeps their spot (a called guest goes back to the front) while others are served
+      const index = counter ? 0 : Math.max(orderIndex, 0);
+      const anchor = before.filter((entry) => entry !== party)[index];
+      this.queue.splice(anchor ? this.queue.indexOf(anchor) : this.queue.length, 0, party);
+      details = { until, was_called: Boolean(counter), count: party.snoozes };
+    } else {
+      const order = this.serviceOrder();
+      const anchorIndex = Math.min(Math.max(orderIndex, 0) + (places as number), order.length) - 1;
+      const behind = order[anchorIndex];
+      this.queue.splice(behind ? this.queue.indexOf(behind) + 1 : 0, 0, party);
+      details = { places, was_called: Boolean(counter), count: party.snoozes };
+    }
+
+    await this.env.DB.batch([
+      this.env.DB.prepare(
+        "UPDATE parties SET status = 'waiting', counter_id = NULL WHERE id = ?1"
+      ).bind(partyId),
+      this.env.DB.prepare(
+        "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'snooze', ?3)"
+      ).bind(this.sessionId, partyId, JSON.stringify(details)),
+    ]);
+
+    if (counter && this.pausedAt === null) {
+      await this.callNextParty(counter);
+    } else {
+      await this.persistState();
+      await this.publishState();
+      this.broadcastGuestPositions();
+    }
+    await this.scheduleLifecycleAlarm();
+    await this.triggerPositionPushes();
+
+    return this.jsonResponse({
+      ok: true,
+      ...this.buildGuestPositionPayload(partyId),
+      snoozesLeft: MAX_SNOOZES - party.snoozes,
+    });
+  }
+
+  /**
+   * Called by the worker after host credentials were re-issued (ownership transfer).
+   * Picks up the new epoch and drops host and board sockets opened with the old
+   * credentials.
+   */
+  private async handleRefreshHostAuth(): Promise<Response> {
+    const row = await this.env.DB.prepare('SELECT host_epoch FROM sessions WHERE id = ?1')
+      .bind(this.sessionId)
+      .first<{ host_epoch: number | null }>();
+    this.hostEpoch = row?.host_epoch ?? 0;
+
+    for (const [socket, info] of this.sockets.entries()) {
+      if (info.role === 'guest') continue;
+      try {
+        socket.close(1008, 'host_auth_reissued');
+      } catch (error) {
+        console.error('Failed to close host socket', error);
+      }
+      this.sockets.delete(socket);
+    }
+
+    return this.jsonResponse({ ok: true, hostEpoch: this.hostEpoch });
+  }
+
+  /**
+   * Called by the worker once it has tried to notify a guest, so hosts can see who was
+   * reached. Not an activity: it doesn't keep an idle queue open.
+   */
+  private async handlePushStatus(request: Request): Promise<Response> {
+    const payload = await this.readJson(request);
+    const { partyId, status } = (payload ?? {}) as { partyId?: unknown; status?: unknown };
+    if (typeof partyId !== 'string' || (status !== 'notified' && status !== 'unreachable')) {
+      return this.jsonError('partyId and a status of notified or unreachable are required', 400);
+    }
+    const party = this.findParty(partyId) ?? this.findStandby(partyId);
+    if (!party) {
+      return this.jsonError('Party not found in queue', 404);
+    }
+    if (party.pushStatus !== status) {
+      party.pushStatus = status;
+      this.markPartyChanged(party);
+      await this.persistState();
+      await this.publishState();
+    }
+    return this.jsonResponse({ ok: true });
+  }
+
+  private async handleLeave(request: Request): Promise<Response> {
+    this.trackActivity(); // Cost optimization: track activity
+    const payload = await this.readJson(request);
+    if (!payload) {
+      return this.jsonError('Invalid JSON body', 400);
+    }
+    const { partyId } = payload;
+    if (typeof partyId !== 'string' || !partyId) {
+      return this.jsonError('partyId is required', 400);
+    }
+
+    const booking = this.findBooking(partyId);
+    if (booking) {
+      await this.cancelBooking(booking);
+      return this.jsonResponse({ ok: true });
+    }
+
+    // Capture position and wait time before removal
+    const party = this.findParty(partyId);
+    const positionAtLeave = party ? this.computePosition(partyId).position : null;
+    const waitMsAtLeave = party ? Date.now() - party.joinedAt : null;
+
+    const removed = await this.removeParty(partyId, 'left');
+    if (!removed) {
+      return this.jsonError('Party not found', 404);
+    }
+
+    const completedAt = Math.floor(Date.now() / 1000);
+    await this.env.DB.batch([
+      this.env.DB.prepare(
+        "UPDATE parties SET status = 'left', completed_at = ?2, position_at_leave = ?3, wait_ms_at_leave = ?4 WHERE id = ?1"
+      ).bind(partyId, completedAt, positionAtLeave, waitMsAtLeave),
+      this.env.DB.prepare(
+        "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'left', ?3)"
+      ).bind(
+        this.sessionId,
+        partyId,
+        JSON.stringify({
+          reason: 'guest_left',
+          position_at_leave: positionAtLeave,
+          wait_ms_at_leave: waitMsAtLeave,
         })
       ),
     ]);
@@ -365,7 +1401,19 @@ export class QueueDO implements DurableObject {
       return this.jsonError('Invalid JSON body', 400);
     }
 
-    const { partyId } = payload;
+    // Kick either a specific party or whoever is currently called to a counter
+    let partyId = payload.partyId;
+    const { counterId } = payload;
+    if ((partyId === undefined || partyId === null) && typeof counterId === 'string') {
+      const counter = this.findCounter(counterId);
+      if (!counter) {
+        return this.jsonError('Counter not found', 404);
+      }
+      if (!counter.nowServing) {
+        return this.jsonError('Counter is not serving anyone', 409);
+      }
+      partyId = counter.nowServing.id;
+    }
     if (typeof partyId !== 'string' || !partyId) {
       return this.jsonError('partyId is required', 400);
     }
@@ -375,6 +1423,7 @@ export class QueueDO implements DurableObject {
     const positionAtLeave = party ? this.computePosition(partyId).position : null;
     const waitMsAtLeave = party ? Date.now() - party.joinedAt : null;
 
+    const placements = this.capturePlacements();
     const removed = await this.removeParty(partyId, 'kicked');
     if (!removed) {
       return this.jsonError('Party not found', 404);
@@ -394,9 +1443,11 @@ export class QueueDO implements DurableObject {
           reason: 'kicked',
           position_at_leave: positionAtLeave,
           wait_ms_at_leave: waitMsAtLeave,
+          acted_by: typeof payload.actedBy === 'string' ? payload.actedBy : null,
         })
       ),
     ]);
+    await this.recordUndo('kick', placements);
 
     return this.jsonResponse({ ok: true });
   }
@@ -409,64 +1460,728 @@ export class QueueDO implements DurableObject {
       return hostVerified;
     }
 
+    if (this.pausedAt !== null) {
+      return this.jsonError('Queue is paused', 409);
+    }
+
     const payload = await this.readJson(request);
     const servedParty = payload?.servedParty as string | undefined;
     const nextParty = payload?.nextParty as string | undefined;
+    const counterId = payload?.counterId as string | undefined;
+    const actedBy = (payload?.actedBy as string | null | undefined) ?? null;
+
+    const counter = this.resolveAdvanceCounter(counterId, servedParty);
+    if (!counter) {
+      return this.jsonError('Counter not found', 404);
+    }
 
-    const result = await this.advanceQueue(servedParty, nextParty);
+    const placements = this.capturePlacements();
+    const result = await this.advanceQueue(counter, servedParty, nextParty, actedBy);
     if (result instanceof Response) {
       return result;
     }
+    await this.recordUndo(servedParty ? 'serve' : 'call', placements);
 
     await this.triggerPositionPushes();
     return this.jsonResponse(result);
   }
 
-  private async handleClose(request: Request): Promise<Response> {
+  private async handleAssignLane(request: Request): Promise<Response> {
+    this.trackActivity(); // Cost optimization: track activity
+
     const hostVerified = await this.verifyHostRequest(request);
     if (hostVerified instanceof Response) {
       return hostVerified;
     }
 
-    if (this.closed) {
-      return this.jsonResponse({ ok: true });
+    const payload = await this.readJson(request);
+    const partyId = payload?.partyId;
+    const laneId = payload?.laneId;
+    if (typeof partyId !== 'string' || typeof laneId !== 'string') {
+      return this.jsonError('partyId and laneId are required', 400);
     }
 
-    this.closed = true;
-    this.queue = [];
-    this.nowServing = null;
-    this.pendingPartyId = null;
-    this.callDeadline = null;
+    const lane = this.findLane(laneId);
+    if (!lane) {
+      return this.jsonError('Lane not found', 404);
+    }
+    // Only waiting parties can move lanes; called parties are already at a counter
+    const party = this.queue.find((entry) => entry.id === partyId);
+    if (!party) {
+      return this.jsonError('Party not found in queue', 404);
+    }
+
+    const previousLaneId = party.laneId ?? DEFAULT_LANE_ID;
+    party.laneId = lane.id === DEFAULT_LANE_ID ? undefined : lane.id;
+    this.markPartyChanged(party);
 
     await this.env.DB.batch([
-      this.env.DB.prepare("UPDATE sessions SET status = 'closed' WHERE id = ?1").bind(
-        this.sessionId
+      this.env.DB.prepare('UPDATE parties SET lane_id = ?2 WHERE id = ?1').bind(
+        partyId,
+        party.laneId ?? null
       ),
       this.env.DB.prepare(
-        "INSERT INTO events (session_id, type, details) VALUES (?1, 'close', NULL)"
-      ).bind(this.sessionId),
+        "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'lane_assigned', ?3)"
+      ).bind(
+        this.sessionId,
+        partyId,
+        JSON.stringify({ lane_id: lane.id, previous_lane_id: previousLaneId })
+      ),
     ]);
 
-    await this.state.storage.deleteAlarm();
     await this.persistState();
-
     await this.publishState();
+    this.broadcastGuestPositions();
+    await this.triggerPositionPushes();
 
-    // Emit event for queue closed
-    await this.emitEvent({
-      type: 'QUEUE_CLOSED',
-      sessionId: this.sessionId,
+    return this.jsonResponse({
+      ok: true,
+      laneId: lane.id,
+      position: this.computePosition(partyId).position,
     });
+  }
 
-    this.notifyAllGuestsClosed();
+  /**
+   * Set the host's note and/or tags on a waiting or called party. Omitted fields are left
+   * alone; an empty note or tag list clears it. Only the host snapshot carries these.
+   */
+  private async handleAnnotate(request: Request): Promise<Response> {
+    this.trackActivity(); // Cost optimization: track activity
+
+    const hostVerified = await this.verifyHostRequest(request);
+    if (hostVerified instanceof Response) {
+      return hostVerified;
+    }
+
+    const payload = await this.readJson(request);
+    const partyId = payload?.partyId;
+    if (typeof partyId !== 'string') {
+      return this.jsonError('partyId is required', 400);
+    }
+    const { note, tags } = payload as { note?: unknown; tags?: unknown };
+    if (note === undefined && tags === undefined) {
+      return this.jsonError('Provide a note or tags', 400);
+    }
+    if (note !== undefined && note !== null && typeof note !== 'string') {
+      return this.jsonError('note must be a string', 400);
+    }
+    const trimmedNote = typeof note === 'string' ? note.trim() : '';
+    if (trimmedNote.length > MAX_NOTE_LENGTH) {
+      return this.jsonError(`note must be ${MAX_NOTE_LENGTH} characters or fewer`, 400);
+    }
+
+    const nextTags: PartyTag[] = [];
+    if (tags !== undefined && tags !== null) {
+      if (!Array.isArray(tags) || tags.length > MAX_PARTY_TAGS) {
+        return this.jsonError(`tags must be a list of at most ${MAX_PARTY_TAGS} entries`, 400);
+      }
+      for (const tag of tags) {
+        const label = typeof tag?.label === 'string' ? tag.label.trim() : '';
+        if (!label || label.length > MAX_TAG_LABEL_LENGTH) {
+          return this.jsonError(
+            `Each tag needs a label of ${MAX_TAG_LABEL_LENGTH} characters or fewer`,
+            400
+          );
+        }
+        if (!isTagColor(tag.color)) {
+          return this.jsonError(`Tag color must be one of: ${TAG_COLORS.join(', ')}`, 400);
+        }
+        // Tags are matched by label when filtering, so a label only appears once
+        if (!nextTags.some((existing) => existing.label.toLowerCase() === label.toLowerCase())) {
+          nextTags.push({ label, color: tag.color });
+        }
+      }
+    }
+
+    const party =
+      this.queue.find((entry) => entry.id === partyId) ??
+      this.servingParties().find((entry) => entry.id === partyId);
+    if (!party) {
+      return this.jsonError('Party not found in queue', 404);
+    }
+
+    if (note !== undefined) {
+      party.note = trimmedNote || undefined;
+    }
+    if (tags !== undefined) {
+      party.tags = nextTags.length > 0 ? nextTags : undefined;
+    }
+    this.markPartyChanged(party);
+
+    await this.env.DB.batch([
+      this.env.DB.prepare('UPDATE parties SET host_note = ?2, tags = ?3 WHERE id = ?1').bind(
+        partyId,
+        party.note ?? null,
+        party.tags ? JSON.stringify(party.tags) : null
+      ),
+      this.env.DB.prepare(
+        "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'annotated', ?3)"
+      ).bind(
+        this.sessionId,
+        partyId,
+        JSON.stringify({
+          has_note: party.note !== undefined,
+          tags: (party.tags ?? []).map((tag) => tag.label),
+        })
+      ),
+    ]);
+
+    await this.persistState();
+    await this.publishState();
+
+    return this.jsonResponse({ ok: true, note: party.note ?? null, tags: party.tags ?? [] });
+  }
+
+  /**
+   * Move a waiting party to `toIndex` in the host's (service-ordered) list. Lanes decide
+   * which spots each lane's parties take, so a party can only swap places with others in
+   * its own lane; a move onto another lane's spot is refused.
+   */
+  private async handleReorder(request: Request): Promise<Response> {
+    this.trackActivity(); // Cost optimization: track activity
+
+    const hostVerified = await this.verifyHostRequest(request);
+    if (hostVerified instanceof Response) {
+      return hostVerified;
+    }
+
+    const payload = await this.readJson(request);
+    const partyId = payload?.partyId;
+    const toIndex = payload?.toIndex;
+    if (typeof partyId !== 'string' || !Number.isInteger(toIndex) || toIndex < 0) {
+      return this.jsonError('partyId and a non-negative integer toIndex are required', 400);
+    }
+
+    const party = this.queue.find((entry) => entry.id === partyId);
+    if (!party) {
+      return this.jsonError('Party not found in queue', 404);
+    }
+
+    const order = this.serviceOrder();
+    const fromIndex = order.indexOf(party);
+    const target = order[Math.min(toIndex, order.length - 1)];
+    if (this.laneIndex(target) !== this.laneIndex(party)) {
+      return this.jsonError('Parties can only be moved within their own lane', 409);
+    }
+    if (target !== party) {
+      // Take the target's place: ahead of it moving up, behind it moving down
+      this.queue.splice(this.queue.indexOf(party), 1);
+      const targetIndex = this.queue.indexOf(target);
+      this.queue.splice(toIndex < fromIndex ? targetIndex : targetIndex + 1, 0, party);
+      this.partyOrderChanged = true;
+    }
+    const reachedIndex = this.serviceOrder().indexOf(party);
+
+    await this.env.DB.prepare(
+      "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'reordered', ?3)"
+    )
+      .bind(
+        this.sessionId,
+        partyId,
+        JSON.stringify({ from_index: fromIndex, to_index: reachedIndex })
+      )
+      .run();
+
+    await this.persistState();
+    await this.publishState();
+    this.broadcastGuestPositions();
+    await this.triggerPositionPushes();
+
+    return this.jsonResponse({ ok: true, position: this.computePosition(partyId).position });
+  }
+
+  /**
+   * Send a host message to everyone in line, the next few parties or a single party.
+   * Guests with the app open get it live; everyone else gets it as a notification.
+   */
+  private async handleBroadcast(request: Request): Promise<Response> {
+    this.trackActivity(); // Cost optimization: track activity
+
+    const hostVerified = await this.verifyHostRequest(request);
+    if (hostVerified instanceof Response) {
+      return hostVerified;
+    }
+
+    const payload = await this.readJson(request);
+    const text = typeof payload?.message === 'string' ? payload.message.trim() : '';
+    if (!text || text.length > MAX_BROADCAST_LENGTH) {
+      return this.jsonError(
+        `message must be between 1 and ${MAX_BROADCAST_LENGTH} characters`,
+        400
+      );
+    }
+    const target = parseBroadcastTarget(payload?.target);
+    if (!target) {
+      return this.jsonError(
+        "target must be 'everyone', { type: 'next', count } or { type: 'party', partyId }",
+        400
+      );
+    }
+
+    let recipients: QueueParty[];
+    if (target.type === 'everyone') {
+      recipients = [...this.servingParties(), ...this.queue, ...this.standby];
+    } else if (target.type === 'next') {
+      recipients = this.serviceOrder().slice(0, target.count);
+    } else {
+      const party =
+        this.findParty(target.partyId) ??
+        this.servingParties().find((entry) => entry.id === target.partyId) ??
+        this.findStandby(target.partyId);
+      if (!party) {
+        return this.jsonError('Party not found in queue', 404);
+      }
+      recipients = [party];
+    }
+    if (recipients.length === 0) {
+      return this.jsonError('Nobody is waiting to receive this message', 409);
+    }
+
+    const broadcast: HostBroadcast = {
+      id: crypto.randomUUID(),
+      text,
+      at: Date.now(),
+      partyIds: target.type === 'everyone' ? null : recipients.map((party) => party.id),
+    };
+    this.broadcasts = [...this.broadcasts, broadcast].slice(-BROADCAST_LIMIT);
+
+    await this.env.DB.prepare(
+      "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'broadcast', ?3)"
+    )
+      .bind(
+        this.sessionId,
+        target.type === 'party' ? target.partyId : null,
+        JSON.stringify({
+          id: broadcast.id,
+          text,
+          target: target.type,
+          count: target.type === 'next' ? target.count : undefined,
+          recipients: recipients.length,
+        })
+      )
+      .run();
+
+    await this.persistState();
+    await this.publishState();
+
+    const message = { type: 'message', id: broadcast.id, text, sentAt: broadcast.at };
+    const offline: string[] = [];
+    for (const party of recipients) {
+      if (!this.guestSockets.has(party.id)) {
+        offline.push(party.id);
+      }
+      this.sendGuestUpdate(party.id, message, 'event');
+    }
+    await Promise.all(
+      offline.map((partyId) =>
+        this.emitEvent({
+          type: 'QUEUE_BROADCAST',
+          sessionId: this.sessionId,
+          partyId,
+          broadcastId: broadcast.id,
+          message: text,
+        })
+      )
+    );
+
+    return this.jsonResponse({ ok: true, id: broadcast.id, recipients: recipients.length });
+  }
+
+  private async handlePause(request: Request): Promise<Response> {
+    this.trackActivity(); // Cost optimization: track activity
+
+    const hostVerified = await this.verifyHostRequest(request);
+    if (hostVerified instanceof Response) {
+      return hostVerified;
+    }
+
+    if (this.closed) {
+      return this.jsonError('Session closed', 409);
+    }
+
+    const payload = await this.readJson(request);
+    const resumeAt = payload?.resumeAt ?? null;
+    const now = Date.now();
+    if (
+      resumeAt !== null &&
+      (typeof resumeAt !== 'number' || resumeAt <= now || resumeAt > now + MAX_PAUSE_MS)
+    ) {
+      return this.jsonError('resumeAt must be a future timestamp within 12 hours', 400);
+    }
+
+    // Pausing again only moves the announced resume time
+    this.pausedAt = this.pausedAt ?? now;
+    this.resumeAt = resumeAt;
+
+    await this.env.DB.batch([
+      this.env.DB.prepare('UPDATE sessions SET paused_at = ?2, resume_at = ?3 WHERE id = ?1').bind(
+        this.sessionId,
+        Math.floor(this.pausedAt / 1000),
+        resumeAt === null ? null : Math.floor(resumeAt / 1000)
+      ),
+      this.env.DB.prepare(
+        "INSERT INTO events (session_id, type, details) VALUES (?1, 'pause', ?2)"
+      ).bind(this.sessionId, JSON.stringify({ resume_at: resumeAt })),
+    ]);
+
+    await this.persistState();
+    await this.scheduleLifecycleAlarm();
+    await this.publishState();
+    this.broadcastGuestPositions();
+
+    return this.jsonResponse({ ok: true, pausedAt: this.pausedAt, resumeAt: this.resumeAt });
+  }
+
+  private async handleResume(request: Request): Promise<Response> {
+    const hostVerified = await this.verifyHostRequest(request);
+    if (hostVerified instanceof Response) {
+      return hostVerified;
+    }
+
+    if (this.closed) {
+      return this.jsonError('Session closed', 409);
+    }
+
+    await this.resumeQueue('host');
+    return this.jsonResponse({ ok: true });
+  }
+
+  private async resumeQueue(reason: 'host' | 'scheduled'): Promise<void> {
+    if (this.pausedAt === null) {
+      return;
+    }
+
+    // The pause itself doesn't count as inactivity
+    this.trackActivity();
+    const pausedMs = Date.now() - this.pausedAt;
+    this.pausedAt = null;
+    this.resumeAt = null;
+
+    await this.env.DB.batch([
+      this.env.DB.prepare(
+        'UPDATE sessions SET paused_at = NULL, resume_at = NULL WHERE id = ?1'
+      ).bind(this.sessionId),
+      this.env.DB.prepare(
+        "INSERT INTO events (session_id, type, details) VALUES (?1, 'resume', ?2)"
+      ).bind(this.sessionId, JSON.stringify({ reason, paused_ms: pausedMs })),
+    ]);
+
+    await this.persistState();
+    await this.publishState();
+    this.broadcastGuestPositions();
+  }
+
+  /**
+   * Opening hours only gate joins. Crossing a boundary is logged and pushed to clients so
+   * hosts and the join screen see the queue stop (or start) taking new guests.
+   */
+  private async applySchedule(open: boolean): Promise<void> {
+    if (open === this.scheduleOpen) {
+      return;
+    }
+    this.scheduleOpen = open;
+    if (open) {
+      this.trackActivity();
+    }
+
+    await this.env.DB.prepare(
+      'INSERT INTO events (session_id, type, details) VALUES (?1, ?2, NULL)'
+    )
+      .bind(this.sessionId, open ? 'schedule_open' : 'schedule_close')
+      .run();
+
+    await this.persistState();
+    await this.publishState();
+    this.broadcastGuestPositions();
+  }
+
+  private async handleClose(request: Request): Promise<Response> {
+    const hostVerified = await this.verifyHostRequest(request);
+    if (hostVerified instanceof Response) {
+      return hostVerified;
+    }
+
+    if (this.closed) {
+      return this.jsonResponse({ ok: true });
+    }
+
+    this.closed = true;
+    this.queue = [];
+    this.standby = [];
+    this.partyOrderChanged = true;
+    this.resetCounters();
+    this.undoStack = [];
+    this.pausedAt = null;
+    this.resumeAt = null;
+
+    await this.env.DB.batch([
+      this.env.DB.prepare(
+        "UPDATE sessions SET status = 'closed', closed_at = ?2, paused_at = NULL, resume_at = NULL WHERE id = ?1"
+      ).bind(this.sessionId, Math.floor(Date.now() / 1000)),
+      this.env.DB.prepare(
+        "INSERT INTO events (session_id, type, details) VALUES (?1, 'close', NULL)"
+      ).bind(this.sessionId),
+    ]);
+
+    await this.state.storage.deleteAlarm();
+    await this.persistState();
+
+    await this.publishState();
+
+    // Emit event for queue closed
+    await this.emitEvent({
+      type: 'QUEUE_CLOSED',
+      sessionId: this.sessionId,
+    });
+
+    this.notifyAllGuestsClosed();
+
+    return this.jsonResponse({ ok: true });
+  }
+
+  /**
+   * Undo a close within REOPEN_GRACE_MS. Closing leaves the parties rows untouched, so
+   * the queue is rebuilt from D1 and everyone still waiting (or called) gets their spot back.
+   */
+  private async handleReopen(request: Request): Promise<Response> {
+    const hostVerified = await this.verifyHostRequest(request);
+    if (hostVerified instanceof Response) {
+      return hostVerified;
+    }
+
+    if (!this.closed) {
+      return this.jsonError('Queue is not closed', 409);
+    }
+
+    const sessionRow = await this.env.DB.prepare('SELECT closed_at FROM sessions WHERE id = ?1')
+      .bind(this.sessionId)
+      .first<{ closed_at?: number | null }>();
+    const closedAt = typeof sessionRow?.closed_at === 'number' ? sessionRow.closed_at * 1000 : null;
+    if (closedAt === null || Date.now() - closedAt > REOPEN_GRACE_MS) {
+      return this.jsonError('Queue can no longer be reopened', 410);
+    }
+
+    await this.env.DB.batch([
+      this.env.DB.prepare(
+        "UPDATE sessions SET status = 'active', closed_at = NULL WHERE id = ?1"
+      ).bind(this.sessionId),
+      this.env.DB.prepare(
+        "INSERT INTO events (session_id, type, details) VALUES (?1, 'reopen', ?2)"
+      ).bind(this.sessionId, JSON.stringify({ closed_ms: Date.now() - closedAt })),
+    ]);
+
+    // Guests were already told they were called (and back in line, after an earlier
+    // reopen), so each reopen numbers its pushes to get past the per-kind dedupe
+    const reopens =
+      (
+        await this.env.DB.prepare(
+          "SELECT COUNT(*) AS count FROM events WHERE session_id = ?1 AND type = 'reopen'"
+        )
+          .bind(this.sessionId)
+          .first<{ count: number }>()
+      )?.count ?? 1;
+
+    await this.loadFromDatabase();
+    this.trackActivity();
+
+    // Anyone who was mid-call gets a fresh window to show up
+    const recalled: ServiceCounter[] = [];
+    for (const counter of this.counters) {
+      if (counter.nowServing) {
+        counter.callDeadline = Date.now() + this.callPolicy.timeoutMs;
+        recalled.push(counter);
+      }
+    }
+
+    await this.persistState();
+    await this.scheduleCallDeadlineAlarm();
+    await this.scheduleLifecycleAlarm();
+    await this.publishState();
+
+    for (const counter of recalled) {
+      const party = counter.nowServing as QueueParty;
+      this.notifyGuestCalled(party.id);
+      await this.emitEvent({
+        type: 'QUEUE_MEMBER_CALLED',
+        sessionId: this.sessionId,
+        partyId: party.id,
+        reason: 'reopen',
+        attempt: reopens,
+        deadline: counter.callDeadline,
+        counterName: this.counters.length > 1 ? counter.name : undefined,
+      });
+    }
+
+    this.broadcastGuestPositions();
+    const order = this.serviceOrder();
+    for (const party of order) {
+      const { position } = this.computePosition(party.id, order);
+      await this.emitEvent({
+        type: 'QUEUE_MEMBER_RESTORED',
+        sessionId: this.sessionId,
+        partyId: party.id,
+        attempt: reopens,
+        position,
+        queueLength: this.queue.length,
+      });
+    }
+
+    return this.jsonResponse({ ok: true, restored: this.computeQueueLength() });
+  }
+
+  /**
+   * Take back the most recent serve, call, kick or no-show: every party it moved goes back
+   * to the counter or spot in line it had, and its `parties` row is reverted.
+   */
+  private async handleUndo(request: Request): Promise<Response> {
+    this.trackActivity(); // Cost optimization: track activity
+
+    const hostVerified = await this.verifyHostRequest(request);
+    if (hostVerified instanceof Response) {
+      return hostVerified;
+    }
+
+    const payload = await this.readJson(request);
+    const undoId = payload?.undoId as string | undefined;
+
+    this.pruneUndoStack(Date.now());
+    const entry = this.undoStack[this.undoStack.length - 1];
+    if (!entry) {
+      return this.jsonError('Nothing to undo', 410);
+    }
+    if (undoId && entry.id !== undoId) {
+      return this.jsonError('That action can no longer be undone', 409);
+    }
+
+    // Everyone the action moved must still be where it left them, and the counters they
+    // were taken from must be free (or held by someone this undo moves anyway)
+    const movedIds = new Set(entry.parties.map(({ party }) => party.id));
+    for (const { party, before, after } of entry.parties) {
+      const current = this.placementOf(party.id);
+      const unchanged =
+        current.kind === after.kind &&
+        (current.kind !== 'counter' ||
+          (after.kind === 'counter' && current.counterId === after.counterId));
+      const counter = before.kind === 'counter' ? this.findCounter(before.counterId) : undefined;
+      const counterTaken =
+        before.kind === 'counter' &&
+        (!counter || (counter.nowServing !== null && !movedIds.has(counter.nowServing.id)));
+      if (!unchanged || counterTaken) {
+        return this.jsonError(
+          'The queue has changed since; that action can no longer be undone',
+          409
+        );
+      }
+    }
+    this.undoStack.pop();
+
+    // The copies in the entry predate the action, so take the latest call count from the
+    // party itself; guests coming back after leaving count one more restore
+    const restoredCopy = (party: QueueParty, after: PartyPlacement): QueueParty => ({
+      ...party,
+      calls: this.findParty(party.id)?.calls ?? party.calls,
+      restores: after.kind === 'removed' ? (party.restores ?? 0) + 1 : party.restores,
+    });
+    const restoredParties = entry.parties.map(({ party, before, after }) => ({
+      party: restoredCopy(party, after),
+      before,
+      after,
+    }));
+
+    for (const { party } of entry.parties) {
+      const counter = this.findCounterServing(party.id);
+      if (counter) {
+        counter.nowServing = null;
+        counter.callDeadline = null;
+      } else {
+        this.queue = this.queue.filter((queued) => queued.id !== party.id);
+        this.partyOrderChanged = true;
+      }
+    }
+
+    // Back to the counters first, then into the line in their old order
+    const restoredToCounter: ServiceCounter[] = [];
+    const waiting: { party: QueueParty; index: number }[] = [];
+    for (const { party, before } of restoredParties) {
+      if (before.kind === 'counter') {
+        const counter = this.findCounter(before.counterId) as ServiceCounter;
+        counter.nowServing = { ...party, status: 'called' };
+        counter.callDeadline = Date.now() + this.callPolicy.timeoutMs;
+        restoredToCounter.push(counter);
+      } else if (before.kind === 'queue') {
+        waiting.push({ party, index: before.index });
+      }
+    }
+    waiting.sort((a, b) => a.index - b.index);
+    for (const { party, index } of waiting) {
+      const restored: QueueParty = { ...party, status: 'waiting' };
+      this.queue.splice(Math.min(index, this.queue.length), 0, restored);
+      this.markPartyChanged(restored);
+    }
+    this.partyOrderChanged = true;
+
+    const statements: D1PreparedStatement[] = [];
+    for (const { party, before } of entry.parties) {
+      const status = before.kind === 'counter' ? 'called' : 'waiting';
+      statements.push(
+        this.env.DB.prepare(
+          'UPDATE parties SET status = ?2, counter_id = ?3, completed_at = NULL, position_at_leave = NULL, wait_ms_at_leave = NULL WHERE id = ?1'
+        ).bind(party.id, status, before.kind === 'counter' ? before.counterId : null),
+        this.env.DB.prepare(
+          "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'undo', ?3)"
+        ).bind(
+          this.sessionId,
+          party.id,
+          JSON.stringify({ action: entry.action, undo_id: entry.id, status })
+        )
+      );
+      const slot = party.slotId ? this.findSlot(party.slotId) : undefined;
+      if (slot && slot.status === 'no_show') {
+        slot.status = 'admitted';
+        statements.push(
+          this.env.DB.prepare(
+            "UPDATE appointment_slots SET status = 'admitted' WHERE id = ?1"
+          ).bind(slot.id)
+        );
+      }
+    }
+    await this.env.DB.batch(statements);
+
+    await this.persistState();
+    await this.scheduleCallDeadlineAlarm();
+    await this.publishState();
+    this.broadcastGuestPositions();
+
+    for (const counter of restoredToCounter) {
+      this.notifyGuestCalled((counter.nowServing as QueueParty).id);
+    }
+    // Guests who were sent away get told they're back
+    for (const { party, after } of restoredParties) {
+      if (after.kind !== 'removed') {
+        continue;
+      }
+      await this.emitEvent({
+        type: 'QUEUE_MEMBER_RESTORED',
+        sessionId: this.sessionId,
+        partyId: party.id,
+        reason: 'undo',
+        attempt: (party.restores ?? 0) > 1 ? party.restores : undefined,
+        position: this.findCounterServing(party.id) ? 0 : this.computePosition(party.id).position,
+      });
+    }
 
-    return this.jsonResponse({ ok: true });
+    return this.jsonResponse({ ok: true, undone: entry.action });
   }
 
   private async handleSnapshot(request: Request): Promise<Response> {
     const url = new URL(request.url);
     const partyId = url.searchParams.get('partyId');
 
+    const board = await this.identifyBoard(url);
+    if (board) {
+      return board instanceof Response ? board : this.handleBoardSnapshot(request, board.labels);
+    }
+
     // Guest snapshot (partyId provided)
     if (partyId) {
       return this.handleGuestSnapshot(request, partyId);
@@ -478,102 +2193,175 @@ export class QueueDO implements DurableObject {
       return hostVerified;
     }
 
-    const key = `queue:${this.sessionId}:snapshot`;
-    const snapshot = await this.env.QUEUE_KV.get(key);
+    const waitMs = this.parseLongPollWait(url);
+    if (waitMs instanceof Response) {
+      return waitMs;
+    }
 
-    if (!snapshot) {
-      // No snapshot yet, return empty queue state
-      return new Response(
+    // Other pages of a long line are built on demand; the first one is already in KV
+    const offsetParam = url.searchParams.get('offset');
+    const limitParam = url.searchParams.get('limit');
+    if (offsetParam !== null || limitParam !== null) {
+      const window = this.parseHostWindow(offsetParam, limitParam);
+      if (window instanceof Response) {
+        return window;
+      }
+      return this.snapshotResponse(request, waitMs, async () =>
         JSON.stringify({
-          type: 'queue_update',
-          queue: [],
-          nowServing: null,
-          maxGuests: this.maxGuests,
-          callDeadline: null,
+          ...this.buildHostSnapshot(window.offset, window.limit),
           closed: this.closed,
           eventName: this.eventName ?? undefined,
-        }),
-        {
-          headers: {
-            'content-type': 'application/json',
-            'cache-control': 'no-cache, no-store, must-revalidate',
-          },
-        }
+        })
       );
     }
 
-    // Compute ETag from snapshot content
-    const encoder = new TextEncoder();
-    const data = encoder.encode(snapshot);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    const hashHex = hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
-    const etag = `"${hashHex.substring(0, 16)}"`;
+    return this.snapshotResponse(
+      request,
+      waitMs,
+      async () =>
+        this.publishedSnapshot ??
+        (await this.env.QUEUE_KV.get(`queue:${this.sessionId}:snapshot`)) ??
+        // No snapshot yet, return empty queue state
+        JSON.stringify({
+          ...this.buildHostSnapshot(),
+          closed: this.closed,
+          eventName: this.eventName ?? undefined,
+        })
+    );
+  }
 
-    // Check if client has current version
-    const clientEtag = request.headers.get('if-none-match');
-    if (clientEtag === etag) {
-      return new Response(null, { status: 304 });
+  private async handleBoardSnapshot(request: Request, labels: BoardLabels): Promise<Response> {
+    const waitMs = this.parseLongPollWait(new URL(request.url));
+    if (waitMs instanceof Response) {
+      return waitMs;
     }
-
-    return new Response(snapshot, {
-      headers: {
-        'content-type': 'application/json',
-        etag,
-        'cache-control': 'no-cache, no-store, must-revalidate',
-      },
-    });
+    return this.snapshotResponse(request, waitMs, async () =>
+      JSON.stringify(this.buildBoardPayload(labels))
+    );
   }
 
   private async handleGuestSnapshot(request: Request, partyId: string): Promise<Response> {
-    // Load current state from storage (needed for guest position calculation)
-    await this.restoreState();
+    const waitMs = this.parseLongPollWait(new URL(request.url));
+    if (waitMs instanceof Response) {
+      return waitMs;
+    }
 
     // Build guest-specific snapshot (same logic as sendGuestInitialState)
-    let guestSnapshot: string;
-
-    if (this.closed) {
-      guestSnapshot = JSON.stringify({ type: 'closed' });
-    } else if (this.nowServing && this.nowServing.id === partyId) {
-      guestSnapshot = JSON.stringify({
-        type: 'called',
-        deadline: this.callDeadline ?? null,
-      });
-    } else if (!this.findParty(partyId)) {
-      guestSnapshot = JSON.stringify({
-        type: 'removed',
-        reason: 'served',
-      });
-    } else {
+    return this.snapshotResponse(request, waitMs, async () => {
+      const callingCounter = this.findCounterServing(partyId);
+      const booking = this.findBooking(partyId);
+      if (this.closed) {
+        return JSON.stringify({ type: 'closed' });
+      } else if (booking) {
+        return JSON.stringify(this.buildGuestBookedPayload(booking));
+      } else if (callingCounter) {
+        return JSON.stringify(this.buildGuestCalledPayload(callingCounter));
+      } else if (this.findStandby(partyId)) {
+        return JSON.stringify(this.buildGuestStandbyPayload(partyId));
+      } else if (!this.findParty(partyId)) {
+        return JSON.stringify({
+          type: 'removed',
+          reason: 'served',
+        });
+      }
       const payload = this.buildGuestPositionPayload(partyId);
-      guestSnapshot = JSON.stringify({
+      return JSON.stringify({
         type: 'position',
         ...payload,
         eventName: this.eventName ?? undefined,
       });
+    });
+  }
+
+  // `?wait=` asks for a long poll: hold a 304 for up to that many seconds in case something changes
+  private parseLongPollWait(url: URL): number | Response {
+    const waitParam = url.searchParams.get('wait');
+    if (waitParam === null) {
+      return 0;
+    }
+    const seconds = Number(waitParam);
+    if (!Number.isInteger(seconds) || seconds < 0 || seconds > MAX_LONG_POLL_SECONDS) {
+      return this.jsonError(`wait must be an integer between 0 and ${MAX_LONG_POLL_SECONDS}`, 400);
+    }
+    return seconds * 1000;
+  }
+
+  // A page of the line from `offset`/`limit` values; missing ones take the defaults
+  private parseHostWindow(offsetValue: unknown, limitValue: unknown): HostWindow | Response {
+    const offset = offsetValue === null || offsetValue === undefined ? 0 : Number(offsetValue);
+    const limit =
+      limitValue === null || limitValue === undefined ? HOST_PAGE_SIZE : Number(limitValue);
+    if (!Number.isInteger(offset) || offset < 0) {
+      return this.jsonError('offset must be a non-negative integer', 400);
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HOST_PAGE_SIZE) {
+      return this.jsonError(`limit must be an integer between 1 and ${MAX_HOST_PAGE_SIZE}`, 400);
+    }
+    return { offset, limit };
+  }
+
+  /**
+   * Answer a snapshot request with an ETag of the content, or 304 when the client already
+   * has it. Long polls that would get a 304 wait for the next published change first, and
+   * only get the 304 if nothing changed before `waitMs` ran out.
+   */
+  private async snapshotResponse(
+    request: Request,
+    waitMs: number,
+    build: () => Promise<string>
+  ): Promise<Response> {
+    const clientEtag = request.headers.get('if-none-match');
+    const deadline = Date.now() + waitMs;
+    for (;;) {
+      const snapshot = await build();
+      const etag = await this.snapshotEtag(snapshot);
+      if (clientEtag !== etag) {
+        return new Response(snapshot, {
+          headers: {
+            'content-type': 'application/json',
+            etag,
+            'cache-control': 'no-cache, no-store, must-revalidate',
+          },
+        });
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return new Response(null, { status: 304 });
+      }
+      await this.waitForChange(remaining);
     }
+  }
 
-    // Compute ETag from guest snapshot content
+  private async snapshotEtag(snapshot: string): Promise<string> {
     const encoder = new TextEncoder();
-    const data = encoder.encode(guestSnapshot);
+    const data = encoder.encode(snapshot);
     const hashBuffer = await crypto.subtle.digest('SHA-256', data);
     const hashArray = Array.from(new Uint8Array(hashBuffer));
     const hashHex = hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
-    const etag = `"${hashHex.substring(0, 16)}"`;
+    return `"${hashHex.substring(0, 16)}"`;
+  }
 
-    // Check if client has current version
-    const clientEtag = request.headers.get('if-none-match');
-    if (clientEtag === etag) {
-      return new Response(null, { status: 304 });
+  private waitForChange(timeoutMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.changeWaiters.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, timeoutMs);
+      this.changeWaiters.add(wake);
+    });
+  }
+
+  private async handleEventStream(request: Request, url: URL): Promise<Response> {
+    const connectionInfo = await this.identifyConnection(request, url);
+    if (connectionInfo instanceof Response) {
+      return connectionInfo;
     }
 
-    return new Response(guestSnapshot, {
-      headers: {
-        'content-type': 'application/json',
-        etag,
-        'cache-control': 'no-cache, no-store, must-revalidate',
-      },
-    });
+    const stream = new EventStreamSocket(EVENT_STREAM_RETRY_MS);
+    this.openLiveConnection(stream, connectionInfo, url);
+    return stream.response;
   }
 
   private async handleWebSocket(request: Request, url: URL): Promise<Response> {
@@ -585,15 +2373,39 @@ export class QueueDO implements DurableObject {
     }
 
     server.accept();
-    this.registerSocket(server, connectionInfo);
+    this.openLiveConnection(server, connectionInfo, url);
+    return response;
+  }
 
-    if (connectionInfo.role === 'host') {
-      this.sendHostSnapshot(server);
-    } else {
-      this.sendGuestInitialState(server, connectionInfo.partyId);
+  /**
+   * Register a socket or event stream and send it the current state. Protocol-2 guests
+   * that pass `?since=<seq>` first get the logged events they missed since then; hosts
+   * pass `?offset=`/`?limit=` for the page of the line they're patched on.
+   */
+  private openLiveConnection(socket: LiveSocket, connectionInfo: ConnectionInfo, url: URL): void {
+    if (connectionInfo.role === 'host' && connectionInfo.protocol === QUEUE_PROTOCOL_VERSION) {
+      // Hosts already connected catch up first, so the newcomer's snapshot shares their seq
+      this.broadcastHostDeltas();
     }
+    this.registerSocket(socket, connectionInfo);
 
-    return response;
+    if (connectionInfo.role === 'host') {
+      this.sendHostSnapshot(socket);
+      return;
+    }
+    if (connectionInfo.role === 'board') {
+      this.safeSend(socket, JSON.stringify(this.buildBoardPayload(connectionInfo.labels)));
+      return;
+    }
+    const since = Number(url.searchParams.get('since'));
+    if (
+      connectionInfo.protocol === QUEUE_PROTOCOL_VERSION &&
+      url.searchParams.has('since') &&
+      Number.isInteger(since)
+    ) {
+      this.replayGuestEvents(socket, connectionInfo.partyId, since);
+    }
+    this.sendGuestInitialState(socket, connectionInfo.partyId);
   }
 
   private createWebSocketPair(): { response: Response; server: WebSocket } {
@@ -607,6 +2419,12 @@ export class QueueDO implements DurableObject {
   }
 
   private async identifyConnection(request: Request, url: URL): Promise<ConnectionInfo | Response> {
+    const board = await this.identifyBoard(url);
+    if (board) {
+      return board;
+    }
+
+    const protocol = url.searchParams.get('v') === String(QUEUE_PROTOCOL_VERSION) ? 2 : 1;
     const cookieHeader = request.headers.get('Cookie');
     const hostCookie = this.extractCookie(cookieHeader, HOST_COOKIE_NAME);
     const headerToken = request.headers.get('x-host-auth');
@@ -617,13 +2435,25 @@ export class QueueDO implements DurableObject {
     );
 
     for (const token of triedTokens) {
-      const valid = await verifyHostCookie(token, this.sessionId, this.env.HOST_AUTH_SECRET);
+      const valid = await verifyHostCookie(
+        token,
+        this.sessionId,
+        this.env.HOST_AUTH_SECRET,
+        this.hostEpoch
+      );
       if (valid) {
         console.log(
           logPrefix(this.sessionId, 'identifyConnection'),
           'host authenticated via token'
         );
-        return { role: 'host' };
+        const window = this.parseHostWindow(
+          url.searchParams.get('offset'),
+          url.searchParams.get('limit')
+        );
+        if (window instanceof Response) {
+          return window;
+        }
+        return { role: 'host', protocol, window };
       }
     }
 
@@ -645,24 +2475,63 @@ export class QueueDO implements DurableObject {
       return new Response('Unauthorized', { status: 401 });
     }
 
-    if (!this.findParty(partyId) && (!this.nowServing || this.nowServing.id !== partyId)) {
+    // Recently removed parties can still connect to replay how they left
+    if (
+      !this.findParty(partyId) &&
+      !this.findBooking(partyId) &&
+      !this.findStandby(partyId) &&
+      this.guestSeq(partyId) === 0
+    ) {
       console.warn(logPrefix(this.sessionId, 'identifyConnection'), 'party not found', partyId);
       return new Response('Party not found', { status: 404 });
     }
 
     console.log(logPrefix(this.sessionId, 'identifyConnection'), 'guest authenticated', partyId);
-    return { role: 'guest', partyId };
+    return { role: 'guest', partyId, protocol };
+  }
+
+  /**
+   * Display boards connect with `?board=<token>` from the host's board link, adding
+   * `labels=tickets` to show ticket numbers instead of names. Returns null when the
+   * request isn't from a board.
+   */
+  private async identifyBoard(
+    url: URL
+  ): Promise<Extract<ConnectionInfo, { role: 'board' }> | Response | null> {
+    const token = url.searchParams.get('board');
+    if (token === null) {
+      return null;
+    }
+    const valid = await verifyBoardToken(
+      token,
+      this.sessionId,
+      this.env.HOST_AUTH_SECRET,
+      this.hostEpoch
+    );
+    if (!valid) {
+      console.warn(logPrefix(this.sessionId, 'identifyBoard'), 'invalid board token');
+      return new Response('Unauthorized', { status: 401 });
+    }
+    return {
+      role: 'board',
+      labels: url.searchParams.get('labels') === 'tickets' ? 'tickets' : 'names',
+      protocol: url.searchParams.get('v') === String(QUEUE_PROTOCOL_VERSION) ? 2 : 1,
+    };
   }
 
-  private registerSocket(socket: WebSocket, info: ConnectionInfo): void {
+  private registerSocket(socket: LiveSocket, info: ConnectionInfo): void {
     this.sockets.set(socket, info);
     console.log(logPrefix(this.sessionId, 'registerSocket'), 'socket added', info.role);
-    socket.addEventListener('message', (event) => this.handleSocketMessage(socket, event));
-    socket.addEventListener('close', () => this.unregisterSocket(socket));
-    socket.addEventListener('error', () => this.unregisterSocket(socket));
+    if (socket instanceof EventStreamSocket) {
+      socket.addEventListener('close', () => this.unregisterSocket(socket));
+    } else {
+      socket.addEventListener('message', (event) => this.handleSocketMessage(socket, event));
+      socket.addEventListener('close', () => this.unregisterSocket(socket));
+      socket.addEventListener('error', () => this.unregisterSocket(socket));
+    }
 
     if (info.role === 'guest') {
-      const set = this.guestSockets.get(info.partyId) ?? new Set<WebSocket>();
+      const set = this.guestSockets.get(info.partyId) ?? new Set<LiveSocket>();
       set.add(socket);
       this.guestSockets.set(info.partyId, set);
     }
@@ -673,7 +2542,7 @@ export class QueueDO implements DurableObject {
     }
   }
 
-  private unregisterSocket(socket: WebSocket): void {
+  private unregisterSocket(socket: LiveSocket): void {
     const info = this.sockets.get(socket);
     if (!info) {
       return;
@@ -687,8 +2556,11 @@ export class QueueDO implements DurableObject {
         set.delete(socket);
         if (set.size === 0) {
           this.guestSockets.delete(info.partyId);
+          this.lastGuestPayloads.delete(info.partyId);
         }
       }
+    } else if (info.role === 'host') {
+      this.pruneHostViews();
     }
 
     // Stop heartbeat if no more sockets
@@ -712,23 +2584,46 @@ export class QueueDO implements DurableObject {
       if (data.type === 'ping') {
         socket.send(JSON.stringify({ type: 'pong' }));
         console.log(logPrefix(this.sessionId, 'handleSocketMessage'), 'pong sent to', info.role);
+      } else if (data.type === 'resync' && info.protocol === QUEUE_PROTOCOL_VERSION) {
+        // The client noticed a gap in seq; hand it the full current state. Hosts can also
+        // move to another page of the line by sending its offset/limit
+        if (info.role === 'host') {
+          if (data.offset !== undefined || data.limit !== undefined) {
+            const window = this.parseHostWindow(data.offset, data.limit);
+            if (!(window instanceof Response)) {
+              info.window = window;
+            }
+          }
+          this.broadcastHostDeltas();
+          this.sendHostSnapshot(socket);
+        } else if (info.role === 'board') {
+          this.safeSend(socket, JSON.stringify(this.buildBoardPayload(info.labels)));
+        } else {
+          this.sendGuestInitialState(socket, info.partyId);
+        }
       }
     } catch (error) {
       console.error('WebSocket message error', error);
     }
   }
 
+  /**
+   * `actedBy` is the logged-in host or staff member behind a manual advance, recorded on
+   * the events; automatic calls and hosts using the shared link leave it null.
+   */
   private async advanceQueue(
+    counter: ServiceCounter,
     servedPartyId?: string,
-    nextPartyId?: string
-  ): Promise<Response | { nowServing: QueueParty | null }> {
+    nextPartyId?: string,
+    actedBy: string | null = null
+  ): Promise<Response | { nowServing: QueueParty | null; counterId: string }> {
     if (servedPartyId) {
-      if (!this.nowServing || this.nowServing.id !== servedPartyId) {
+      if (!counter.nowServing || counter.nowServing.id !== servedPartyId) {
         return this.jsonError('servedParty does not match current', 400);
       }
 
       const completedAt = Math.floor(Date.now() / 1000);
-      const servedPartyData = this.nowServing;
+      const servedPartyData = counter.nowServing;
       const waitMs = servedPartyData ? Date.now() - servedPartyData.joinedAt : null;
 
       await this.env.DB.batch([
@@ -740,7 +2635,12 @@ export class QueueDO implements DurableObject {
         ).bind(
           this.sessionId,
           servedPartyId,
-          JSON.stringify({ action: 'served', wait_ms: waitMs })
+          JSON.stringify({
+            action: 'served',
+            wait_ms: waitMs,
+            counter_id: counter.id,
+            acted_by: actedBy,
+          })
         ),
       ]);
 
@@ -753,10 +2653,8 @@ export class QueueDO implements DurableObject {
         partyId: servedPartyId,
       });
 
-      this.nowServing = null;
-      this.pendingPartyId = null;
-      await this.state.storage.deleteAlarm();
-      this.callDeadline = null;
+      counter.nowServing = null;
+      counter.callDeadline = null;
     }
 
     let selectedParty: QueueParty | undefined;
@@ -766,27 +2664,32 @@ export class QueueDO implements DurableObject {
         return this.jsonError('nextParty not found in queue', 404);
       }
       selectedParty = this.queue.splice(index, 1)[0];
-    } else if (this.queue.length > 0) {
-      selectedParty = this.queue.shift();
+      this.partyOrderChanged = true;
+    } else {
+      selectedParty = this.takeNextParty();
     }
 
     if (selectedParty) {
       selectedParty.status = 'called';
-      this.nowServing = selectedParty;
-      this.pendingPartyId = selectedParty.id;
-      this.callDeadline = Date.now() + CALL_TIMEOUT_MS;
+      selectedParty.calls = (selectedParty.calls ?? 0) + 1;
+      counter.nowServing = selectedParty;
+      counter.callDeadline = Date.now() + this.callPolicy.timeoutMs;
       const calledAt = Math.floor(Date.now() / 1000);
 
       await this.env.DB.batch([
         this.env.DB.prepare(
-          "UPDATE parties SET status = 'called', called_at = ?2 WHERE id = ?1"
-        ).bind(selectedParty.id, calledAt),
+          "UPDATE parties SET status = 'called', called_at = ?2, counter_id = ?3 WHERE id = ?1"
+        ).bind(selectedParty.id, calledAt, counter.id),
         this.env.DB.prepare(
           "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'advanced', ?3)"
-        ).bind(this.sessionId, selectedParty.id, JSON.stringify({ action: 'called' })),
+        ).bind(
+          this.sessionId,
+          selectedParty.id,
+          JSON.stringify({ action: 'called', counter_id: counter.id, acted_by: actedBy })
+        ),
       ]);
 
-      await this.state.storage.setAlarm(this.callDeadline);
+      await this.scheduleCallDeadlineAlarm();
       await this.persistState();
 
       this.notifyGuestCalled(selectedParty.id);
@@ -796,40 +2699,160 @@ export class QueueDO implements DurableObject {
         type: 'QUEUE_MEMBER_CALLED',
         sessionId: this.sessionId,
         partyId: selectedParty.id,
-        deadline: this.callDeadline,
+        reason: selectedParty.requeued ? 'requeued' : undefined,
+        attempt: selectedParty.calls > 1 ? selectedParty.calls : undefined,
+        deadline: counter.callDeadline,
+        counterName: this.counters.length > 1 ? counter.name : undefined,
       });
     } else {
-      this.nowServing = null;
-      this.pendingPartyId = null;
-      await this.state.storage.deleteAlarm();
-      this.callDeadline = null;
+      counter.nowServing = null;
+      counter.callDeadline = null;
       await this.persistState();
     }
 
     await this.publishState();
     this.broadcastGuestPositions();
 
-    return { nowServing: this.nowServing ? this.toHostParty(this.nowServing) : null };
+    return {
+      nowServing: counter.nowServing ? this.toHostParty(counter.nowServing) : null,
+      counterId: counter.id,
+    };
   }
 
-  private async callNextParty(): Promise<void> {
-    const result = await this.advanceQueue(undefined, undefined);
+  private async callNextParty(counter: ServiceCounter): Promise<void> {
+    const result = await this.advanceQueue(counter, undefined, undefined);
     if (result instanceof Response) {
       console.error('Failed to auto-advance queue via alarm');
     }
   }
 
+  /**
+   * Apply the queue's call policy once a call window runs out: call the party again while
+   * re-calls remain, then either drop them or move them back in line (only once per party).
+   */
+  private async handleMissedCall(counter: ServiceCounter): Promise<void> {
+    const party = counter.nowServing as QueueParty;
+    const missedCalls = (party.missedCalls ?? 0) + 1;
+    if (missedCalls <= this.callPolicy.maxRecalls) {
+      await this.recallParty(counter, missedCalls);
+      return;
+    }
+
+    const placements = this.capturePlacements();
+    const requeue = this.callPolicy.noShowAction === 'requeue' && !party.requeued;
+    if (requeue) {
+      await this.requeueNoShow(counter);
+    } else {
+      await this.markPartyAsNoShow(party.id);
+    }
+
+    if (this.pausedAt === null) {
+      await this.callNextParty(counter);
+    } else {
+      // Nobody new is called while paused; just free the counter
+      await this.publishState();
+      this.broadcastGuestPositions();
+    }
+    await this.recordUndo('no_show', placements);
+    await this.emitEvent({
+      type: 'QUEUE_HOST_ALERT',
+      sessionId: this.sessionId,
+      partyId: party.id,
+      alert: 'no_show',
+      reason: requeue ? 'requeued' : 'dropped',
+      partyName: party.name?.trim() || undefined,
+    });
+
+    // A re-queued party can be called straight back when nobody else is waiting
+    if (requeue && !this.findCounterServing(party.id)) {
+      const { position } = this.computePosition(party.id);
+      await this.emitEvent({
+        type: 'QUEUE_MEMBER_REQUEUED',
+        sessionId: this.sessionId,
+        partyId: party.id,
+        position,
+      });
+    }
+  }
+
+  private async recallParty(counter: ServiceCounter, attempt: number): Promise<void> {
+    const party = counter.nowServing as QueueParty;
+    party.missedCalls = attempt;
+    counter.callDeadline = Date.now() + this.callPolicy.timeoutMs;
+
+    await this.env.DB.prepare(
+      "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'recall', ?3)"
+    )
+      .bind(this.sessionId, party.id, JSON.stringify({ counter_id: counter.id, attempt }))
+      .run();
+
+    await this.persistState();
+    await this.publishState();
+    this.notifyGuestCalled(party.id);
+    await this.emitEvent({
+      type: 'QUEUE_MEMBER_CALLED',
+      sessionId: this.sessionId,
+      partyId: party.id,
+      reason: 'recall',
+      attempt,
+      deadline: counter.callDeadline,
+      counterName: this.counters.length > 1 ? counter.name : undefined,
+    });
+  }
+
+  /**
+   * Put a no-show back in line `requeuePlaces` parties behind the front of the service order.
+   */
+  private async requeueNoShow(counter: ServiceCounter): Promise<void> {
+    const party = counter.nowServing as QueueParty;
+    const places = this.callPolicy.requeuePlaces;
+    counter.nowServing = null;
+    counter.callDeadline = null;
+    party.status = 'waiting';
+    party.missedCalls = 0;
+    party.requeued = true;
+    this.markPartyChanged(party);
+    this.partyOrderChanged = true;
+
+    const order = this.serviceOrder();
+    const behind = places > 0 ? order[Math.min(places, order.length) - 1] : undefined;
+    this.queue.splice(behind ? this.queue.indexOf(behind) + 1 : 0, 0, party);
+
+    await this.env.DB.batch([
+      this.env.DB.prepare(
+        "UPDATE parties SET status = 'waiting', counter_id = NULL WHERE id = ?1"
+      ).bind(party.id),
+      this.env.DB.prepare(
+        "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'no_show_requeued', ?3)"
+      ).bind(this.sessionId, party.id, JSON.stringify({ counter_id: counter.id, places })),
+    ]);
+
+    await this.persistState();
+  }
+
   private async markPartyAsNoShow(partyId: string): Promise<void> {
-    if (!this.nowServing || this.nowServing.id !== partyId) {
+    const counter = this.findCounterServing(partyId);
+    if (!counter) {
       return;
     }
 
+    const slot = counter.nowServing?.slotId ? this.findSlot(counter.nowServing.slotId) : undefined;
     await this.env.DB.batch([
       this.env.DB.prepare("UPDATE parties SET status = 'no_show' WHERE id = ?1").bind(partyId),
       this.env.DB.prepare(
-        "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'no_show', NULL)"
-      ).bind(this.sessionId, partyId),
+        "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'no_show', ?3)"
+      ).bind(this.sessionId, partyId, JSON.stringify({ counter_id: counter.id })),
+      ...(slot
+        ? [
+            this.env.DB.prepare(
+              "UPDATE appointment_slots SET status = 'no_show' WHERE id = ?1"
+            ).bind(slot.id),
+          ]
+        : []),
     ]);
+    if (slot) {
+      slot.status = 'no_show';
+    }
 
     this.notifyGuestRemoval(partyId, 'no_show');
 
@@ -841,24 +2864,26 @@ export class QueueDO implements DurableObject {
       reason: 'no_show',
     });
 
-    this.nowServing = null;
-    this.pendingPartyId = null;
-    this.callDeadline = null;
+    counter.nowServing = null;
+    counter.callDeadline = null;
     await this.persistState();
   }
 
   private async removeParty(partyId: string, reason: PartyRemovalReason): Promise<boolean> {
-    if (this.nowServing && this.nowServing.id === partyId) {
-      this.nowServing = null;
-      this.pendingPartyId = null;
-      await this.state.storage.deleteAlarm();
-      this.callDeadline = null;
+    const counter = this.findCounterServing(partyId);
+    if (counter) {
+      counter.nowServing = null;
+      counter.callDeadline = null;
+    } else if (this.findStandby(partyId)) {
+      this.standby = this.standby.filter((entry) => entry.id !== partyId);
+      this.partyOrderChanged = true;
     } else {
       const index = this.queue.findIndex((entry) => entry.id === partyId);
       if (index === -1) {
         return false;
       }
       this.queue.splice(index, 1);
+      this.partyOrderChanged = true;
     }
 
     await this.persistState();
@@ -892,7 +2917,12 @@ export class QueueDO implements DurableObject {
       return this.jsonError('Host authentication required', 401);
     }
 
-    const valid = await verifyHostCookie(token, this.sessionId, this.env.HOST_AUTH_SECRET);
+    const valid = await verifyHostCookie(
+      token,
+      this.sessionId,
+      this.env.HOST_AUTH_SECRET,
+      this.hostEpoch
+    );
     if (!valid) {
       return this.jsonError('Invalid host authentication', 403);
     }
@@ -906,16 +2936,13 @@ export class QueueDO implements DurableObject {
    */
   private async writeSnapshotToKV(): Promise<void> {
     const snapshot = {
-      type: 'queue_update',
-      queue: this.queue.map((entry) => this.toHostParty(entry)),
-      nowServing: this.nowServing ? this.toHostParty(this.nowServing) : null,
-      maxGuests: this.maxGuests,
-      callDeadline: this.callDeadline,
+      ...this.buildHostSnapshot(),
       closed: this.closed,
       eventName: this.eventName ?? undefined,
     };
     const key = `queue:${this.sessionId}:snapshot`;
-    await this.env.QUEUE_KV.put(key, JSON.stringify(snapshot), { expirationTtl: 60 });
+    this.publishedSnapshot = JSON.stringify(snapshot);
+    await this.env.QUEUE_KV.put(key, this.publishedSnapshot, { expirationTtl: 60 });
   }
 
   /**
@@ -925,20 +2952,37 @@ export class QueueDO implements DurableObject {
   private async emitEvent(event: {
     type:
       | 'QUEUE_MEMBER_CALLED'
-      | 'QUEUE_POSITION_2'
-      | 'QUEUE_POSITION_5'
+      | 'QUEUE_NUDGE'
+      | 'QUEUE_HOST_ALERT'
       | 'QUEUE_MEMBER_DROPPED'
       | 'QUEUE_MEMBER_SERVED'
       | 'QUEUE_MEMBER_LEFT'
       | 'QUEUE_MEMBER_KICKED'
       | 'QUEUE_CLOSED'
-      | 'QUEUE_MEMBER_JOINED';
+      | 'QUEUE_MEMBER_RESTORED'
+      | 'QUEUE_MEMBER_REQUEUED'
+      | 'QUEUE_MEMBER_PROMOTED'
+      | 'QUEUE_MEMBER_JOINED'
+      | 'QUEUE_BROADCAST';
     sessionId: string;
     partyId?: string;
     reason?: string;
+    attempt?: number;
     position?: number;
     queueLength?: number;
     deadline?: number | null;
+    counterName?: string;
+    broadcastId?: string;
+    message?: string;
+    rule?: string;
+    title?: string;
+    body?: string;
+    estimatedWaitMs?: number;
+    alert?: 'capacity' | 'no_show' | 'auto_close';
+    partyName?: string;
+    guestCount?: number;
+    maxGuests?: number;
+    minutes?: number;
   }): Promise<void> {
     try {
       await this.env.EVENTS.send(event);
@@ -948,91 +2992,355 @@ export class QueueDO implements DurableObject {
   }
 
   /**
-   * Publish current state to both KV (for polling) and WebSockets (for legacy clients).
-   * This should be called after any state mutation.
+   * Publish current state to both KV (for polling) and WebSockets (for legacy clients),
+   * and wake any long polls. This should be called after any state mutation.
    */
   private async publishState(): Promise<void> {
+    // Every mutation passes through here, so this is where freed-up capacity is handed
+    // to the standby list
+    await this.promoteStandby();
+    await this.checkCapacityAlert();
+
     // Write to KV for polling clients
     await this.writeSnapshotToKV();
 
     // Broadcast to WebSocket clients (legacy support)
     this.broadcastHostSnapshot();
+    this.broadcastBoards();
+
+    // Long polls re-check their snapshot
+    for (const wake of [...this.changeWaiters]) {
+      wake();
+    }
   }
 
   /**
-   * Legacy method kept for WebSocket support (deprecated).
-   * New clients should use HTTP polling against KV snapshot.
+   * Legacy host sockets get the full first page on every change; protocol-2 hosts get
+   * patches instead (see broadcastHostDeltas).
    */
   private broadcastHostSnapshot(): void {
-    const message = JSON.stringify({
-      type: 'queue_update',
-      queue: this.queue.map((entry) => this.toHostParty(entry)),
-      nowServing: this.nowServing ? this.toHostParty(this.nowServing) : null,
-      maxGuests: this.maxGuests,
-      callDeadline: this.callDeadline,
-    });
+    let message: string | null = null;
+    for (const [socket, info] of this.sockets.entries()) {
+      if (info.role === 'host' && info.protocol !== QUEUE_PROTOCOL_VERSION) {
+        message ??= JSON.stringify(this.buildHostSnapshot());
+        this.safeSend(socket, message);
+      }
+    }
+    this.broadcastHostDeltas();
+  }
 
+  private broadcastBoards(): void {
+    const built = new Map<BoardLabels, string>();
     for (const [socket, info] of this.sockets.entries()) {
-      if (info.role === 'host') {
+      if (info.role !== 'board') {
+        continue;
+      }
+      let message = built.get(info.labels);
+      if (message === undefined) {
+        message = JSON.stringify(this.buildBoardPayload(info.labels));
+        built.set(info.labels, message);
+      }
+      if (message !== this.lastBoardPayloads.get(info.labels)) {
         this.safeSend(socket, message);
       }
     }
+    for (const [labels, message] of built) {
+      this.lastBoardPayloads.set(labels, message);
+    }
   }
 
-  private broadcastGuestPositions(): void {
-    for (const [partyId, sockets] of this.guestSockets.entries()) {
-      if (this.nowServing && this.nowServing.id === partyId) {
+  // The windows protocol-2 hosts are watching, by hostWindowKey
+  private protocolHostWindows(): Map<string, HostWindow> {
+    const windows = new Map<string, HostWindow>();
+    for (const info of this.sockets.values()) {
+      if (info.role === 'host' && info.protocol === QUEUE_PROTOCOL_VERSION) {
+        windows.set(hostWindowKey(info.window), info.window);
+      }
+    }
+    return windows;
+  }
+
+  private pruneHostViews(windows = this.protocolHostWindows()): void {
+    for (const key of this.hostViews.keys()) {
+      if (!windows.has(key)) {
+        this.hostViews.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Send protocol-2 hosts whatever changed since the view they were last sent: parties
+   * added, removed, moved or updated, counters whose now-serving party changed and, if
+   * anything else in the snapshot changed, the rest of it. Each window the hosts are
+   * watching is diffed on its own, so a long line costs a page per window rather than
+   * the whole line. Falls back to a full snapshot when the queue can't be patched.
+   */
+  private broadcastHostDeltas(): void {
+    const windows = this.protocolHostWindows();
+    this.pruneHostViews(windows);
+    if (windows.size === 0) {
+      return;
+    }
+    const order = this.serviceOrder();
+    for (const [key, window] of windows) {
+      const previous = this.hostViews.get(key);
+      const next = this.buildHostView(window, order);
+      const entry = { view: next, seq: previous?.seq ?? 0 };
+      this.hostViews.set(key, entry);
+      if (!previous) {
         continue;
       }
-      const payload = this.buildGuestPositionPayload(partyId);
-      const message = JSON.stringify({
-        type: 'position',
-        ...payload,
+
+      let messages: Record<string, unknown>[] | null = diffQueue(previous.view.queue, next.queue);
+      const previousCounters = previous.view.counters;
+      const sameCounters =
+        previousCounters.length === next.counters.length &&
+        previousCounters.every((counter, index) => counter.id === next.counters[index].id);
+      if (messages && sameCounters) {
+        next.counters.forEach((counter, index) => {
+          if (JSON.stringify(counter) !== JSON.stringify(previousCounters[index])) {
+            messages?.push({
+              type: 'now_serving_changed',
+              counterId: counter.id,
+              nowServing: counter.nowServing,
+              callDeadline: counter.callDeadline,
+            });
+          }
+        });
+        if (JSON.stringify(next.meta) !== JSON.stringify(previous.view.meta)) {
+          messages.push({ type: 'meta_changed', meta: next.meta });
+        }
+      } else {
+        messages = [this.hostViewSnapshot(next)];
+      }
+
+      for (const message of messages) {
+        const text = JSON.stringify({ v: QUEUE_PROTOCOL_VERSION, seq: ++entry.seq, ...message });
+        for (const [socket, info] of this.sockets.entries()) {
+          if (
+            info.role === 'host' &&
+            info.protocol === QUEUE_PROTOCOL_VERSION &&
+            hostWindowKey(info.window) === key
+          ) {
+            this.safeSend(socket, text);
+          }
+        }
+      }
+    }
+  }
+
+  // One page of the queue; patches address parties by their index in it
+  private buildHostView(window: HostWindow, order = this.serviceOrder()): HostView {
+    const {
+      type: _type,
+      queue: _page,
+      nowServing: _nowServing,
+      callDeadline: _callDeadline,
+      counters,
+      ...meta
+    } = this.buildHostSnapshot(window.offset, 0, order);
+    return {
+      queue: order
+        .slice(window.offset, window.offset + window.limit)
+        .map((entry) => this.toPartyView(entry)),
+      counters: counters.map((counter) => {
+        const serving = this.findCounter(counter.id)?.nowServing;
+        return { ...counter, nowServing: serving ? this.toPartyView(serving) : null };
+      }),
+      meta: {
+        ...meta,
+        standby: this.standby.slice(0, HOST_PAGE_SIZE).map((entry) => this.toPartyView(entry)),
+        closed: this.closed,
         eventName: this.eventName ?? undefined,
+      },
+    };
+  }
+
+  private hostViewSnapshot(view: HostView): Record<string, unknown> {
+    return { type: 'snapshot', queue: view.queue, counters: view.counters, ...view.meta };
+  }
+
+  /**
+   * Send a guest update to every socket the party has open. Events (being called or
+   * removed) take the party's next seq and are logged even with nobody connected, so a
+   * guest can replay them after reconnecting. State updates (position) carry the seq of
+   * the latest event, and protocol-2 sockets don't get them when nothing changed.
+   */
+  private sendGuestUpdate(partyId: string, payload: object, kind: 'event' | 'state'): void {
+    const sockets = this.guestSockets.get(partyId);
+    if (!sockets && kind === 'state') {
+      return;
+    }
+    const message = JSON.stringify(payload);
+    let stamped: string | null = null;
+    if (kind === 'event') {
+      const seq = this.guestSeq(partyId) + 1;
+      const logged = { ...payload, at: Date.now() };
+      this.guestSeqs.set(partyId, seq);
+      this.logGuestEvent(partyId, seq, logged);
+      stamped = JSON.stringify({ v: QUEUE_PROTOCOL_VERSION, seq, ...logged });
+    } else if (this.lastGuestPayloads.get(partyId) !== message) {
+      stamped = JSON.stringify({
+        v: QUEUE_PROTOCOL_VERSION,
+        seq: this.guestSeq(partyId),
+        ...payload,
       });
-      for (const socket of sockets) {
+    }
+    this.lastGuestPayloads.set(partyId, message);
+    for (const socket of sockets ?? []) {
+      if (this.sockets.get(socket)?.protocol !== QUEUE_PROTOCOL_VERSION) {
         this.safeSend(socket, message);
+      } else if (stamped) {
+        this.safeSend(socket, stamped);
       }
     }
   }
 
-  private notifyGuestCalled(partyId: string): void {
-    const sockets = this.guestSockets.get(partyId);
-    if (!sockets) return;
-    const message = JSON.stringify({ type: 'called', deadline: this.callDeadline ?? null });
-    for (const socket of sockets) {
+  // A guest's current state for one socket, e.g. on connect
+  private sendGuestState(socket: LiveSocket, partyId: string, payload: object): void {
+    const message = JSON.stringify(payload);
+    if (this.sockets.get(socket)?.protocol !== QUEUE_PROTOCOL_VERSION) {
       this.safeSend(socket, message);
+      return;
+    }
+    this.lastGuestPayloads.set(partyId, message);
+    this.safeSend(
+      socket,
+      JSON.stringify({
+        v: QUEUE_PROTOCOL_VERSION,
+        seq: this.guestSeq(partyId),
+        ...payload,
+      })
+    );
+  }
+
+  // Seq of the party's latest logged event, or 0 before anything happened to them
+  private guestSeq(partyId: string): number {
+    const cached = this.guestSeqs.get(partyId);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const seq =
+      this.state.storage.sql
+        .exec<{
+          seq: number | null;
+        }>('SELECT MAX(seq) AS seq FROM guest_events WHERE party_id = ?', partyId)
+        .one().seq ?? 0;
+    if (seq > 0) {
+      this.guestSeqs.set(partyId, seq);
+    }
+    return seq;
+  }
+
+  private logGuestEvent(partyId: string, seq: number, payload: { at: number }): void {
+    const sql = this.state.storage.sql;
+    sql.exec(
+      'INSERT OR REPLACE INTO guest_events (party_id, seq, at, payload) VALUES (?, ?, ?, ?)',
+      partyId,
+      seq,
+      payload.at,
+      JSON.stringify(payload)
+    );
+    sql.exec(
+      'DELETE FROM guest_events WHERE at < ? OR (party_id = ? AND seq <= ?)',
+      payload.at - GUEST_LOG_RETENTION_MS,
+      partyId,
+      seq - GUEST_LOG_LIMIT
+    );
+  }
+
+  // Logged events a reconnecting guest missed, oldest first and marked as replays
+  private replayGuestEvents(socket: LiveSocket, partyId: string, since: number): void {
+    const rows = this.state.storage.sql
+      .exec<{
+        seq: number;
+        payload: string;
+      }>(
+        'SELECT seq, payload FROM guest_events WHERE party_id = ? AND seq > ? ORDER BY seq',
+        partyId,
+        since
+      )
+      .toArray();
+    for (const row of rows) {
+      this.safeSend(
+        socket,
+        JSON.stringify({
+          v: QUEUE_PROTOCOL_VERSION,
+          seq: row.seq,
+          replay: true,
+          ...JSON.parse(row.payload),
+        })
+      );
+    }
+  }
+
+  private broadcastGuestPositions(): void {
+    const order = this.serviceOrder();
+    for (const partyId of this.guestSockets.keys()) {
+      if (this.findCounterServing(partyId)) {
+        continue;
+      }
+      const payload = this.findStandby(partyId)
+        ? this.buildGuestStandbyPayload(partyId)
+        : {
+            type: 'position',
+            ...this.buildGuestPositionPayload(partyId, order),
+            eventName: this.eventName ?? undefined,
+          };
+      this.sendGuestUpdate(partyId, payload, 'state');
     }
   }
 
+  private notifyGuestCalled(partyId: string): void {
+    const counter = this.findCounterServing(partyId);
+    if (!counter) return;
+    this.sendGuestUpdate(partyId, this.buildGuestCalledPayload(counter), 'event');
+  }
+
+  /**
+   * Queue each nudge rule for the waiting parties it now applies to. Positions count every
+   * party being served, so with one busy counter the first party waiting is position 2.
+   * A rule goes to a party once, or again after they snooze (as a numbered kind).
+   */
   private async triggerPositionPushes(): Promise<void> {
-    if (!this.nowServing) return;
-    // Queue indices for position-based notifications when nowServing exists:
-    // - index 0 = position 2 (first in queue after the currently served guest)
-    // - index 3 = position 5 (fourth in queue after the currently served guest)
-    const candidates: Array<[number, 'pos_2' | 'pos_5']> = [
-      [0, 'pos_2'], // position 2
-      [3, 'pos_5'], // position 5
-    ];
-    for (const [idx, kind] of candidates) {
-      const party = this.queue[idx];
-      if (!party) continue;
-      // Emit event to Cloudflare Queue for background push notification
-      if (kind === 'pos_2') {
-        await this.emitEvent({
-          type: 'QUEUE_POSITION_2',
-          sessionId: this.sessionId,
-          partyId: party.id,
-          position: 2,
-          queueLength: this.queue.length,
-        });
-      } else if (kind === 'pos_5') {
+    const busyCount = this.busyCounterCount();
+    if (busyCount === 0 || this.nudgeRules.length === 0) return;
+    const lastPosition = Math.max(0, ...this.nudgeRules.map((rule) => rule.position ?? 0));
+    const longestEtaMs =
+      Math.max(0, ...this.nudgeRules.map((rule) => rule.etaMinutes ?? 0)) * MS_PER_MINUTE;
+    const order = this.serviceOrder();
+    for (let index = 0; index < order.length; index += 1) {
+      const aheadCount = index + busyCount;
+      const position = aheadCount + 1;
+      const estimatedWaitMs = this.estimateWaitMs(aheadCount);
+      // Later parties are further back and wait longer, so no rule can match them either
+      if (position > lastPosition && estimatedWaitMs > longestEtaMs) break;
+      const party = order[index];
+      if (this.isSnoozed(party)) continue;
+      for (const rule of this.nudgeRules) {
+        const key = `${party.id}:${rule.id}:${party.snoozes ?? 0}`;
+        if (this.sentNudges.has(key) || !nudgeRuleMatches(rule, position, estimatedWaitMs)) {
+          continue;
+        }
+        this.sentNudges.add(key);
+        const values = {
+          position,
+          ahead: aheadCount,
+          minutes: Math.max(1, Math.round(estimatedWaitMs / MS_PER_MINUTE)),
+          eventName: this.eventName ?? 'the queue',
+        };
+        // Emit event to Cloudflare Queue for background push notification
         await this.emitEvent({
-          type: 'QUEUE_POSITION_5',
+          type: 'QUEUE_NUDGE',
           sessionId: this.sessionId,
           partyId: party.id,
-          position: 5,
+          attempt: party.snoozes || undefined,
+          rule: rule.id,
+          title: renderNudgeTemplate(rule.title, values),
+          body: renderNudgeTemplate(rule.body, values),
+          position,
           queueLength: this.queue.length,
+          estimatedWaitMs,
         });
       }
     }
@@ -1043,17 +3351,12 @@ export class QueueDO implements DurableObject {
    * This defers expensive crypto operations out of the request path.
    * Later notifications for the same party override earlier ones (only send most recent state).
    */
-  private queuePushNotification(partyId: string, kind: 'called' | 'pos_2' | 'pos_5'): void {
-    // Priority: 'called' > 'pos_2' > 'pos_5'
+  private queuePushNotification(partyId: string, push: PendingPush): void {
     // If user is being called, don't send position updates
     const existing = this.pendingPushes.get(partyId);
-    if (existing === 'called') return; // Don't override 'called' with position updates
-    if (kind === 'called') {
-      this.pendingPushes.set(partyId, kind);
-    } else if (existing !== 'pos_2' || kind === 'pos_2') {
-      // Only set pos_5 if nothing better exists, always allow pos_2
-      this.pendingPushes.set(partyId, kind);
-    }
+    if (existing?.kind === 'called') return; // Don't override 'called' with nudges
+    // Otherwise the latest nudge wins, as it's the closest to the front
+    this.pendingPushes.set(partyId, push);
   }
 
   /**
@@ -1111,10 +3414,11 @@ export class QueueDO implements DurableObject {
 
     // Process all notifications concurrently for speed
     // Use allSettled to prevent one failure from blocking others
-    await Promise.allSettled(batch.map(([partyId, kind]) => this.sendPushSafe(partyId, kind)));
+    await Promise.allSettled(batch.map(([partyId, push]) => this.sendPushSafe(partyId, push)));
   }
 
-  private async sendPushSafe(partyId: string, kind: 'called' | 'pos_2' | 'pos_5'): Promise<void> {
+  private async sendPushSafe(partyId: string, push: PendingPush): Promise<void> {
+    const { kind, title, body } = push;
     try {
       // VAPID keys are required for push notifications
       if (!this.env.VAPID_PUBLIC || !this.env.VAPID_PRIVATE) {
@@ -1138,19 +3442,6 @@ export class QueueDO implements DurableObject {
         .first<{ endpoint: string; p256dh: string; auth: string }>();
       if (!sub) return;
 
-      const title =
-        kind === 'called'
-          ? "It's your turn"
-          : kind === 'pos_2'
-            ? "You're #2—almost up"
-            : "You're #5—start heading back";
-      const body =
-        kind === 'called'
-          ? 'Please check in at the host within 2 minutes to keep your spot.'
-          : kind === 'pos_2'
-            ? 'Almost your turn. Please make your way back.'
-            : 'You may want to start returning.';
-
       const payload = await buildPushPayload(
         { data: JSON.stringify({ title, body }), options: { ttl: 60 } },
         {
@@ -1201,11 +3492,13 @@ export class QueueDO implements DurableObject {
   }
 
   private notifyGuestRemoval(partyId: string, reason: PartyRemovalReason): void {
+    this.sendGuestUpdate(partyId, { type: 'removed', reason }, 'event');
+    for (const key of this.sentNudges) {
+      if (key.startsWith(`${partyId}:`)) this.sentNudges.delete(key);
+    }
     const sockets = this.guestSockets.get(partyId);
     if (!sockets) return;
-    const message = JSON.stringify({ type: 'removed', reason });
     for (const socket of sockets) {
-      this.safeSend(socket, message);
       try {
         socket.close(1000, reason);
       } catch (error) {
@@ -1213,6 +3506,8 @@ export class QueueDO implements DurableObject {
       }
     }
     this.guestSockets.delete(partyId);
+    this.guestSeqs.delete(partyId);
+    this.lastGuestPayloads.delete(partyId);
   }
 
   private notifyAllGuestsClosed(): void {
@@ -1227,79 +3522,261 @@ export class QueueDO implements DurableObject {
     }
     this.sockets.clear();
     this.guestSockets.clear();
+    this.guestSeqs.clear();
+    this.lastGuestPayloads.clear();
+    this.lastBoardPayloads.clear();
+    this.hostViews.clear();
+  }
+
+  private sendHostSnapshot(socket: LiveSocket): void {
+    const info = this.sockets.get(socket);
+    if (info?.role !== 'host' || info.protocol !== QUEUE_PROTOCOL_VERSION) {
+      this.safeSend(socket, JSON.stringify(this.buildHostSnapshot()));
+      return;
+    }
+    const key = hostWindowKey(info.window);
+    let entry = this.hostViews.get(key);
+    if (!entry) {
+      entry = { view: this.buildHostView(info.window), seq: 0 };
+      this.hostViews.set(key, entry);
+    }
+    this.safeSend(
+      socket,
+      JSON.stringify({
+        v: QUEUE_PROTOCOL_VERSION,
+        seq: entry.seq,
+        ...this.hostViewSnapshot(entry.view),
+      })
+    );
   }
 
-  private sendHostSnapshot(socket: WebSocket): void {
-    const message = JSON.stringify({
-      type: 'queue_update',
-      queue: this.queue.map((entry) => this.toHostParty(entry)),
-      nowServing: this.nowServing ? this.toHostParty(this.nowServing) : null,
+  /**
+   * Host-facing queue state. `nowServing`/`callDeadline` mirror the first counter so
+   * single-counter clients keep working; `counters` carries the full picture. The queue
+   * is listed in service order, so lanes are already interleaved. Only one page of the
+   * queue is included; `queueTotal`/`standbyTotal` say how many parties there are.
+   */
+  private buildHostSnapshot(offset = 0, limit = HOST_PAGE_SIZE, order = this.serviceOrder()) {
+    const primary = this.counters[0];
+    return {
+      type: 'queue_update' as const,
+      queue: order.slice(offset, offset + limit).map((entry) => this.toHostParty(entry)),
+      queueOffset: offset,
+      queueTotal: order.length,
+      guestCount: this.computeGuestCount(),
+      nowServing: primary.nowServing ? this.toHostParty(primary.nowServing) : null,
+      counters: this.counters.map((counter) => ({
+        id: counter.id,
+        name: counter.name,
+        nowServing: counter.nowServing ? this.toHostParty(counter.nowServing) : null,
+        callDeadline: counter.callDeadline,
+      })),
+      lanes: this.lanes,
+      lanePolicy: this.lanePolicy,
+      paused: this.pausedAt !== null,
+      resumeAt: this.resumeAt,
+      schedule: this.schedule
+        ? { ...this.schedule, ...scheduleWindow(this.schedule, Date.now()) }
+        : null,
+      appointments: this.slots,
+      undo: this.latestUndo(),
       maxGuests: this.maxGuests,
-      callDeadline: this.callDeadline,
-    });
-    this.safeSend(socket, message);
+      joinFields: this.joinFields,
+      standby: this.standby.slice(0, HOST_PAGE_SIZE).map((entry) => this.toHostParty(entry)),
+      standbyTotal: this.standby.length,
+      callDeadline: primary.callDeadline,
+    };
+  }
+
+  /**
+   * What a display board shows: who each counter is serving, the next few in line and
+   * how long someone joining now can expect to wait. Parties are sent as a name or ticket
+   * number only; their ids (which let a guest connect as that party) and host-only fields
+   * such as notes, tags and answers never leave the host view.
+   */
+  private buildBoardPayload(labels: BoardLabels) {
+    return {
+      type: 'board' as const,
+      eventName: this.eventName ?? undefined,
+      closed: this.closed,
+      paused: this.pausedAt !== null,
+      resumeAt: this.resumeAt,
+      counters: this.counters.map((counter) => ({
+        name: counter.name,
+        nowServing: counter.nowServing ? this.toBoardParty(counter.nowServing, labels) : null,
+      })),
+      upNext: this.serviceOrder()
+        .slice(0, BOARD_UP_NEXT)
+        .map((entry) => this.toBoardParty(entry, labels)),
+      queueLength: this.computeQueueLength(),
+      avgServiceMs: this.avgServiceMs,
+      estimatedWaitMs: this.estimateWaitMs(this.queue.length),
+    };
+  }
+
+  private toBoardParty(party: QueueParty, labels: BoardLabels): BoardParty {
+    return {
+      ticket: party.ticket ?? null,
+      name: labels === 'names' ? party.name?.trim() || null : null,
+    };
+  }
+
+  /**
+   * The counter is only named for guests when there is more than one to choose from.
+   */
+  private buildGuestCalledPayload(counter: ServiceCounter): {
+    type: 'called';
+    deadline: number | null;
+    counter: { id: string; name: string } | null;
+  } {
+    return {
+      type: 'called',
+      deadline: counter.callDeadline ?? null,
+      counter: this.counters.length > 1 ? { id: counter.id, name: counter.name } : null,
+    };
+  }
+
+  private buildGuestBookedPayload(slot: AppointmentSlot): {
+    type: 'booked';
+    slotId: string;
+    startsAt: number;
+    eventName?: string;
+  } {
+    return {
+      type: 'booked',
+      slotId: slot.id,
+      startsAt: slot.startsAt,
+      eventName: this.eventName ?? undefined,
+    };
+  }
+
+  private buildGuestStandbyPayload(partyId: string): {
+    type: 'standby';
+    standbyPosition: number;
+    standbyCount: number;
+    queueLength: number;
+    eventName?: string;
+    messages: GuestMessage[];
+  } {
+    return {
+      type: 'standby',
+      standbyPosition: this.standby.findIndex((entry) => entry.id === partyId) + 1,
+      standbyCount: this.standby.length,
+      queueLength: this.computeQueueLength(),
+      eventName: this.eventName ?? undefined,
+      messages: this.guestMessages(partyId),
+    };
   }
 
-  private sendGuestInitialState(socket: WebSocket, partyId: string): void {
+  private sendGuestInitialState(socket: LiveSocket, partyId: string): void {
     if (this.closed) {
-      this.safeSend(socket, JSON.stringify({ type: 'closed' }));
+      this.sendGuestState(socket, partyId, { type: 'closed' });
       socket.close(1000, 'closed');
       return;
     }
 
-    if (this.nowServing && this.nowServing.id === partyId) {
-      this.safeSend(
-        socket,
-        JSON.stringify({ type: 'called', deadline: this.callDeadline ?? null })
-      );
+    const booking = this.findBooking(partyId);
+    if (booking) {
+      this.sendGuestState(socket, partyId, this.buildGuestBookedPayload(booking));
+      return;
+    }
+
+    const callingCounter = this.findCounterServing(partyId);
+    if (callingCounter) {
+      this.sendGuestState(socket, partyId, this.buildGuestCalledPayload(callingCounter));
+      return;
+    }
+
+    if (this.findStandby(partyId)) {
+      this.sendGuestState(socket, partyId, this.buildGuestStandbyPayload(partyId));
       return;
     }
 
     if (!this.findParty(partyId)) {
-      this.safeSend(socket, JSON.stringify({ type: 'removed', reason: 'served' }));
+      this.sendGuestState(socket, partyId, { type: 'removed', reason: 'served' });
       socket.close(1000, 'served');
       return;
     }
 
     const payload = this.buildGuestPositionPayload(partyId);
-    this.safeSend(
-      socket,
-      JSON.stringify({ type: 'position', ...payload, eventName: this.eventName ?? undefined })
-    );
+    this.sendGuestState(socket, partyId, {
+      type: 'position',
+      ...payload,
+      eventName: this.eventName ?? undefined,
+    });
   }
 
-  private computePosition(partyId: string): { position: number; aheadCount: number } {
-    const index = this.queue.findIndex((entry) => entry.id === partyId);
+  private computePosition(
+    partyId: string,
+    order: QueueParty[] = this.serviceOrder()
+  ): { position: number; aheadCount: number } {
+    const index = order.findIndex((entry) => entry.id === partyId);
     const aheadWaiting = index === -1 ? 0 : index;
-    const aheadCount = aheadWaiting + (this.nowServing ? 1 : 0);
+    const aheadCount = aheadWaiting + this.busyCounterCount();
     return {
       aheadCount,
       position: aheadCount + 1,
     };
   }
 
-  private buildGuestPositionPayload(partyId: string): {
+  /**
+   * Positions follow the lane-aware service order. The lane is only named for guests
+   * when the queue has more than the standard lane.
+   */
+  private buildGuestPositionPayload(
+    partyId: string,
+    order: QueueParty[] = this.serviceOrder()
+  ): {
     position: number;
     aheadCount: number;
     queueLength: number;
     estimatedWaitMs: number;
+    lane: { id: string; name: string } | null;
+    paused: boolean;
+    resumeAt: number | null;
+    snoozedUntil: number | null;
+    snoozesLeft: number;
+    ticket: number | null;
+    messages: GuestMessage[];
   } {
-    const { position, aheadCount } = this.computePosition(partyId);
+    const { position, aheadCount } = this.computePosition(partyId, order);
+    const party = this.findParty(partyId);
+    const lane = party && this.lanes.length > 1 ? this.lanes[this.laneIndex(party)] : null;
+    const snoozedUntil = party && this.isSnoozed(party) ? (party.snoozedUntil as number) : null;
     return {
       position,
       aheadCount,
       queueLength: this.computeQueueLength(),
-      estimatedWaitMs: this.estimateWaitMs(aheadCount),
+      // A snoozed guest won't be called before they're back, however short the line
+      estimatedWaitMs: Math.max(
+        this.estimateWaitMs(aheadCount),
+        snoozedUntil !== null ? snoozedUntil - Date.now() : 0
+      ),
+      lane: lane ? { id: lane.id, name: lane.name } : null,
+      paused: this.pausedAt !== null,
+      resumeAt: this.resumeAt,
+      snoozedUntil,
+      snoozesLeft: Math.max(MAX_SNOOZES - (party?.snoozes ?? 0), 0),
+      ticket: party?.ticket ?? null,
+      messages: this.guestMessages(partyId),
     };
   }
 
+  // Host messages meant for this party, oldest first, for the guest's message feed
+  private guestMessages(partyId: string): GuestMessage[] {
+    return this.broadcasts
+      .filter((broadcast) => broadcast.partyIds === null || broadcast.partyIds.includes(partyId))
+      .map((broadcast) => ({ id: broadcast.id, text: broadcast.text, sentAt: broadcast.at }));
+  }
+
   private computeQueueLength(): number {
-    return this.queue.length + (this.nowServing ? 1 : 0);
+    return this.queue.length + this.busyCounterCount();
   }
 
   private estimateWaitMs(aheadCount: number): number {
     const safeAhead = Math.max(0, aheadCount);
-    return safeAhead * this.avgServiceMs;
+    // Parallel counters work through the line together
+    return Math.round((safeAhead * this.avgServiceMs) / this.counters.length);
   }
 
   /**
@@ -1368,7 +3845,7 @@ export class QueueDO implements DurableObject {
 
   private computeGuestCount(): number {
     const waiting = this.queue.reduce((sum, entry) => sum + this.partySize(entry), 0);
-    const serving = this.partySize(this.nowServing);
+    const serving = this.servingParties().reduce((sum, entry) => sum + this.partySize(entry), 0);
     return waiting + serving;
   }
 
@@ -1380,11 +3857,16 @@ export class QueueDO implements DurableObject {
     return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 1;
   }
 
-  private toHostParty(
-    party: QueueParty
-  ): Omit<QueueParty, 'joinedAt'> & { joinedAt: number; riskScore: number } {
+  private toHostParty(party: QueueParty): HostPartyView & { riskScore: number } {
     const waitMs = Date.now() - party.joinedAt;
-    const riskScore = this.calculateAbandonmentRisk(waitMs, party.nearby);
+    return {
+      ...this.toPartyView(party),
+      riskScore: this.calculateAbandonmentRisk(waitMs, party.nearby),
+    };
+  }
+
+  // Protocol-2 hosts get parties without the risk score, which drifts with the clock
+  private toPartyView(party: QueueParty): HostPartyView {
     return {
       id: party.id,
       name: party.name,
@@ -1392,7 +3874,15 @@ export class QueueDO implements DurableObject {
       status: party.status,
       nearby: party.nearby,
       joinedAt: party.joinedAt,
-      riskScore,
+      ticket: party.ticket,
+      laneId: party.laneId,
+      slotId: party.slotId,
+      snoozes: party.snoozes,
+      snoozedUntil: this.isSnoozed(party) ? party.snoozedUntil : null,
+      answers: party.answers,
+      note: party.note,
+      tags: party.tags,
+      pushStatus: party.pushStatus,
     };
   }
 
@@ -1436,45 +3926,351 @@ export class QueueDO implements DurableObject {
   }
 
   private findParty(partyId: string): QueueParty | undefined {
-    if (this.nowServing && this.nowServing.id === partyId) {
-      return this.nowServing;
+    const counter = this.findCounterServing(partyId);
+    if (counter) {
+      return counter.nowServing ?? undefined;
     }
     return this.queue.find((entry) => entry.id === partyId);
   }
 
+  private findStandby(partyId: string): QueueParty | undefined {
+    return this.standby.find((entry) => entry.id === partyId);
+  }
+
+  private findSlot(slotId: string): AppointmentSlot | undefined {
+    return this.slots.find((slot) => slot.id === slotId);
+  }
+
+  // The slot a guest has booked but that hasn't started yet
+  private findBooking(partyId: string): AppointmentSlot | undefined {
+    return this.slots.find((slot) => slot.status === 'booked' && slot.party?.id === partyId);
+  }
+
+  private findCounter(counterId: string): ServiceCounter | undefined {
+    return this.counters.find((counter) => counter.id === counterId);
+  }
+
+  private findCounterServing(partyId: string): ServiceCounter | undefined {
+    return this.counters.find((counter) => counter.nowServing?.id === partyId);
+  }
+
+  private placementOf(partyId: string, queueIndexes?: Map<string, number>): PartyPlacement {
+    const counter = this.findCounterServing(partyId);
+    if (counter) {
+      return { kind: 'counter', counterId: counter.id };
+    }
+    const index = queueIndexes
+      ? (queueIndexes.get(partyId) ?? -1)
+      : this.queue.findIndex((entry) => entry.id === partyId);
+    return index === -1 ? { kind: 'removed' } : { kind: 'queue', index };
+  }
+
+  // Copies of every party and where it sits, taken just before an undoable action
+  private capturePlacements(): Map<string, { party: QueueParty; before: PartyPlacement }> {
+    const placements = new Map<string, { party: QueueParty; before: PartyPlacement }>();
+    for (const counter of this.counters) {
+      if (counter.nowServing) {
+        placements.set(counter.nowServing.id, {
+          party: { ...counter.nowServing },
+          before: { kind: 'counter', counterId: counter.id },
+        });
+      }
+    }
+    this.queue.forEach((party, index) => {
+      placements.set(party.id, { party: { ...party }, before: { kind: 'queue', index } });
+    });
+    return placements;
+  }
+
+  /**
+   * Push an undo entry for the parties an action moved between counters, the line and out
+   * of the queue. Shuffles within the line (everyone behind a called party) aren't recorded.
+   */
+  private async recordUndo(
+    action: UndoAction,
+    placements: Map<string, { party: QueueParty; before: PartyPlacement }>
+  ): Promise<void> {
+    const parties: UndoEntry['parties'] = [];
+    // Every party is looked up, so index the line once instead of searching it each time
+    const queueIndexes = new Map(this.queue.map((party, index) => [party.id, index]));
+    for (const { party, before } of placements.values()) {
+      const after = this.placementOf(party.id, queueIndexes);
+      const moved =
+        after.kind !== before.kind ||
+        (after.kind === 'counter' &&
+          before.kind === 'counter' &&
+          after.counterId !== before.counterId);
+      if (moved) {
+        parties.push({ party, before, after });
+      }
+    }
+    if (parties.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    this.pruneUndoStack(now);
+    this.undoStack.push({ id: crypto.randomUUID(), action, at: now, parties });
+    this.undoStack = this.undoStack.slice(-UNDO_STACK_LIMIT);
+    await this.persistState();
+    // The action already broadcast its own update; the polled snapshot just needs the undo
+    await this.writeSnapshotToKV();
+  }
+
+  private pruneUndoStack(now: number): void {
+    this.undoStack = this.undoStack.filter((entry) => now - entry.at < UNDO_WINDOW_MS);
+  }
+
+  // The action the host UI offers to undo, named after the party it was mostly about
+  private latestUndo(): {
+    id: string;
+    action: UndoAction;
+    expiresAt: number;
+    partyName: string | null;
+  } | null {
+    const entry = this.undoStack[this.undoStack.length - 1];
+    if (!entry || Date.now() - entry.at >= UNDO_WINDOW_MS) {
+      return null;
+    }
+    const subject =
+      entry.parties.find(({ after }) => after.kind === 'removed') ??
+      entry.parties.find(({ after }) => after.kind === 'counter') ??
+      entry.parties[0];
+    return {
+      id: entry.id,
+      action: entry.action,
+      expiresAt: entry.at + UNDO_WINDOW_MS,
+      partyName: subject.party.name ?? null,
+    };
+  }
+
+  private servingParties(): QueueParty[] {
+    return this.counters
+      .map((counter) => counter.nowServing)
+      .filter((party): party is QueueParty => party !== null);
+  }
+
+  private busyCounterCount(): number {
+    return this.servingParties().length;
+  }
+
+  /**
+   * Pick the counter an advance applies to: an explicit counterId wins, then the
+   * counter serving `servedPartyId`, then the first idle counter, then the first one.
+   */
+  private resolveAdvanceCounter(
+    counterId?: string,
+    servedPartyId?: string
+  ): ServiceCounter | undefined {
+    if (counterId) {
+      return this.findCounter(counterId);
+    }
+    if (servedPartyId) {
+      const serving = this.findCounterServing(servedPartyId);
+      if (serving) {
+        return serving;
+      }
+    }
+    return this.counters.find((counter) => !counter.nowServing) ?? this.counters[0];
+  }
+
+  private findLane(laneId: string): PriorityLane | undefined {
+    return this.lanes.find((lane) => lane.id === laneId);
+  }
+
+  private laneIndex(party: QueueParty): number {
+    const index = party.laneId ? this.lanes.findIndex((lane) => lane.id === party.laneId) : -1;
+    // Parties whose lane no longer exists fall back to the standard lane
+    return index === -1 ? this.lanes.findIndex((lane) => lane.id === DEFAULT_LANE_ID) : index;
+  }
+
+  private laneBuckets(parties: QueueParty[] = this.queue): QueueParty[][] {
+    const buckets = this.lanes.map(() => [] as QueueParty[]);
+    for (const party of parties) {
+      buckets[this.laneIndex(party)].push(party);
+    }
+    return buckets;
+  }
+
+  /**
+   * Smooth weighted round-robin: every lane with parties earns its weight, the richest
+   * lane is served and pays back the total. Ties go to the higher-priority lane.
+   */
+  private pickWeightedLane(
+    credits: Record<string, number>,
+    hasParties: (laneIndex: number) => boolean
+  ): number {
+    let picked = -1;
+    let totalWeight = 0;
+    this.lanes.forEach((lane, index) => {
+      if (!hasParties(index)) return;
+      credits[lane.id] = (credits[lane.id] ?? 0) + lane.weight;
+      totalWeight += lane.weight;
+      if (picked === -1 || credits[lane.id] > credits[this.lanes[picked].id]) {
+        picked = index;
+      }
+    });
+    if (picked !== -1) {
+      credits[this.lanes[picked].id] -= totalWeight;
+    }
+    return picked;
+  }
+
+  /**
+   * Waiting parties in the order they will be called. With only the standard lane this
+   * is arrival order; otherwise lanes interleave according to the lane policy.
+   */
+  private serviceOrder(): QueueParty[] {
+    // Snoozed guests keep their place in `queue` but aren't called until they're back
+    const snoozed = this.queue.filter((party) => this.isSnoozed(party));
+    const ready =
+      snoozed.length > 0 ? this.queue.filter((party) => !this.isSnoozed(party)) : this.queue;
+    const order = this.readyOrder(ready);
+    return snoozed.length > 0 ? [...order, ...snoozed] : order;
+  }
+
+  private readyOrder(parties: QueueParty[]): QueueParty[] {
+    if (this.lanes.length <= 1) {
+      return parties;
+    }
+    const buckets = this.laneBuckets(parties);
+    if (this.lanePolicy === 'strict') {
+      return buckets.flat();
+    }
+    // Simulate upcoming picks on a copy so projections don't consume real credits
+    const credits = { ...this.laneCredits };
+    const cursors = buckets.map(() => 0);
+    const order: QueueParty[] = [];
+    while (order.length < parties.length) {
+      const laneIndex = this.pickWeightedLane(
+        credits,
+        (index) => cursors[index] < buckets[index].length
+      );
+      order.push(buckets[laneIndex][cursors[laneIndex]++]);
+    }
+    return order;
+  }
+
+  private isSnoozed(party: QueueParty): boolean {
+    return typeof party.snoozedUntil === 'number' && party.snoozedUntil > Date.now();
+  }
+
+  /**
+   * Remove and return the next party in service order, spending weighted lane credits.
+   */
+  private takeNextParty(): QueueParty | undefined {
+    const ready = this.queue.filter((party) => !this.isSnoozed(party));
+    if (ready.length === 0) {
+      return undefined;
+    }
+    let next: QueueParty;
+    if (this.lanes.length > 1 && this.lanePolicy === 'weighted') {
+      const buckets = this.laneBuckets(ready);
+      const laneIndex = this.pickWeightedLane(
+        this.laneCredits,
+        (index) => buckets[index].length > 0
+      );
+      next = buckets[laneIndex][0];
+    } else {
+      next = this.serviceOrder()[0];
+    }
+    this.queue.splice(this.queue.indexOf(next), 1);
+    this.partyOrderChanged = true;
+    return next;
+  }
+
+  private resetCounters(): void {
+    for (const counter of this.counters) {
+      counter.nowServing = null;
+      counter.callDeadline = null;
+    }
+  }
+
   private async restoreState(): Promise<void> {
     const stored = await this.state.storage.get<StoredState>('state');
     if (stored) {
-      this.queue = (stored.queue ?? []).map((entry) => ({
+      const parties = this.readStoredParties();
+      // State from before per-party rows is written out as rows on the next persist
+      this.partyOrderChanged = stored.queue !== undefined || stored.standby !== undefined;
+      this.queue = (stored.queue ?? parties.queue).map((entry) => ({
         ...entry,
         status: entry.status ?? 'waiting',
       }));
-      this.nowServing = stored.nowServing ?? null;
-      if (this.nowServing) {
-        this.nowServing.status = 'called';
+      if (stored.counters && stored.counters.length > 0) {
+        this.counters = stored.counters;
+      } else {
+        // State written before counters existed: a single counter holds nowServing
+        this.counters = parseCounterConfig(null);
+        this.counters[0].nowServing = stored.nowServing ?? null;
+        this.counters[0].callDeadline = stored.callDeadline ?? null;
+      }
+      for (const counter of this.counters) {
+        if (counter.nowServing) {
+          counter.nowServing.status = 'called';
+        }
       }
       this.closed = stored.closed ?? false;
-      this.pendingPartyId = stored.pendingPartyId ?? (this.nowServing ? this.nowServing.id : null);
       this.maxGuests = stored.maxGuests ?? DEFAULT_MAX_GUESTS;
-      this.callDeadline = stored.callDeadline ?? null;
+      this.lanes = stored.lanes && stored.lanes.length > 0 ? stored.lanes : parseLaneConfig(null);
+      this.lanePolicy = stored.lanePolicy ?? 'strict';
+      this.laneCredits = stored.laneCredits ?? {};
+      this.pausedAt = stored.pausedAt ?? null;
+      this.resumeAt = stored.resumeAt ?? null;
+      this.scheduleOpen = stored.scheduleOpen ?? true;
+      this.slots = stored.slots ?? [];
+      this.callPolicy = stored.callPolicy ?? { ...DEFAULT_CALL_POLICY };
+      this.undoStack = stored.undoStack ?? [];
+      this.nextTicket = stored.nextTicket ?? 1;
+      this.broadcasts = stored.broadcasts ?? [];
+      this.capacityAlerted = stored.capacityAlerted ?? false;
+      this.autoCloseWarnedFor = stored.autoCloseWarnedFor ?? null;
+      this.standby = stored.standby ?? parties.standby;
     } else {
       await this.loadFromDatabase();
       await this.persistState();
     }
 
-    // Always load eventName from database (it's not stored in KV state)
-    const sessionRow = await this.env.DB.prepare('SELECT event_name FROM sessions WHERE id = ?1')
+    // Always load eventName, opening hours, join form fields, nudge rules and the host
+    // credential epoch from database (they're not stored in KV state)
+    const sessionRow = await this.env.DB.prepare(
+      'SELECT event_name, open_time, close_time, timezone, host_epoch, join_fields, nudge_rules FROM sessions WHERE id = ?1'
+    )
       .bind(this.sessionId)
-      .first<{ event_name?: string | null }>();
+      .first<{
+        event_name?: string | null;
+        open_time?: string | null;
+        close_time?: string | null;
+        timezone?: string | null;
+        host_epoch?: number | null;
+        join_fields?: string | null;
+        nudge_rules?: string | null;
+      }>();
     this.eventName = sessionRow?.event_name ?? null;
+    this.joinFields = parseJoinFields(sessionRow?.join_fields);
+    this.nudgeRules = parseNudgeRules(sessionRow?.nudge_rules);
+    this.hostEpoch = sessionRow?.host_epoch ?? 0;
+    this.schedule = sessionRow ? parseSchedule(sessionRow) : null;
   }
 
   private async loadFromDatabase(): Promise<void> {
     const sessionRow = await this.env.DB.prepare(
-      'SELECT status, max_guests, event_name FROM sessions WHERE id = ?1'
+      'SELECT status, max_guests, event_name, service_counters, priority_lanes, lane_policy, paused_at, resume_at, open_time, close_time, timezone, call_policy FROM sessions WHERE id = ?1'
     )
       .bind(this.sessionId)
-      .first<{ status: string; max_guests?: number | null; event_name?: string | null }>();
+      .first<{
+        status: string;
+        max_guests?: number | null;
+        event_name?: string | null;
+        service_counters?: string | null;
+        priority_lanes?: string | null;
+        lane_policy?: string | null;
+        paused_at?: number | null;
+        resume_at?: number | null;
+        open_time?: string | null;
+        close_time?: string | null;
+        timezone?: string | null;
+        call_policy?: string | null;
+      }>();
 
     this.closed = sessionRow?.status === 'closed';
     if (typeof sessionRow?.max_guests === 'number' && Number.isFinite(sessionRow.max_guests)) {
@@ -1483,9 +4279,50 @@ export class QueueDO implements DurableObject {
       this.maxGuests = DEFAULT_MAX_GUESTS;
     }
     this.eventName = sessionRow?.event_name ?? null;
+    this.counters = parseCounterConfig(sessionRow?.service_counters);
+    this.lanes = parseLaneConfig(sessionRow?.priority_lanes);
+    this.lanePolicy = sessionRow?.lane_policy === 'weighted' ? 'weighted' : 'strict';
+    this.laneCredits = {};
+    this.callPolicy = parseCallPolicy(sessionRow?.call_policy);
+    this.pausedAt = typeof sessionRow?.paused_at === 'number' ? sessionRow.paused_at * 1000 : null;
+    this.resumeAt =
+      this.pausedAt !== null && typeof sessionRow?.resume_at === 'number'
+        ? sessionRow.resume_at * 1000
+        : null;
+    this.schedule = sessionRow ? parseSchedule(sessionRow) : null;
+    this.scheduleOpen = scheduleWindow(this.schedule, Date.now()).open;
+
+    const { results: slotRows } = await this.env.DB.prepare(
+      'SELECT s.id, s.starts_at, s.status, s.party_id, p.name, p.size, p.answers FROM appointment_slots s LEFT JOIN parties p ON p.id = s.party_id WHERE s.session_id = ?1 ORDER BY s.starts_at ASC'
+    )
+      .bind(this.sessionId)
+      .all<{
+        id: string;
+        starts_at: number;
+        status: string;
+        party_id: string | null;
+        name: string | null;
+        size: number | null;
+        answers: string | null;
+      }>();
+    this.slots = (slotRows ?? []).map((row) => ({
+      id: row.id,
+      startsAt: row.starts_at * 1000,
+      status: (['booked', 'admitted', 'no_show'].includes(row.status)
+        ? row.status
+        : 'open') as SlotStatus,
+      party: row.party_id
+        ? {
+            id: row.party_id,
+            name: row.name ?? undefined,
+            size: row.size ?? 1,
+            answers: parseJoinAnswers(row.answers) ?? undefined,
+          }
+        : null,
+    }));
 
     const { results } = await this.env.DB.prepare(
-      "SELECT id, name, size, joined_at, status, nearby FROM parties WHERE session_id = ?1 AND status IN ('waiting','called') ORDER BY joined_at ASC"
+      "SELECT id, name, size, joined_at, status, nearby, counter_id, lane_id, answers, host_note, tags FROM parties WHERE session_id = ?1 AND status IN ('waiting','called','standby') ORDER BY joined_at ASC"
     )
       .bind(this.sessionId)
       .all<{
@@ -1495,11 +4332,16 @@ export class QueueDO implements DurableObject {
         joined_at: number | null;
         status: string;
         nearby: number;
+        counter_id?: string | null;
+        lane_id?: string | null;
+        answers?: string | null;
+        host_note?: string | null;
+        tags?: string | null;
       }>();
 
     this.queue = [];
-    this.nowServing = null;
-    this.callDeadline = null;
+    this.standby = [];
+    this.partyOrderChanged = true;
     if (results) {
       for (const row of results) {
         const sizeValue =
@@ -1511,11 +4353,25 @@ export class QueueDO implements DurableObject {
           status: row.status === 'called' ? 'called' : 'waiting',
           nearby: row.nearby === 1,
           joinedAt: (row.joined_at ?? Math.floor(Date.now() / 1000)) * 1000,
+          laneId: row.lane_id ?? undefined,
+          slotId: this.slots.find((slot) => slot.party?.id === row.id)?.id,
+          answers: parseJoinAnswers(row.answers) ?? undefined,
+          note: row.host_note ?? undefined,
+          tags: parsePartyTags(row.tags),
         };
-        if (party.status === 'called') {
-          this.nowServing = party;
-          this.pendingPartyId = party.id;
+        if (row.status === 'standby') {
+          this.standby.push(party);
+          continue;
+        }
+        const counter =
+          party.status === 'called'
+            ? ((row.counter_id ? this.findCounter(row.counter_id) : undefined) ??
+              this.counters.find((entry) => !entry.nowServing))
+            : undefined;
+        if (counter && !counter.nowServing) {
+          counter.nowServing = party;
         } else {
+          party.status = 'waiting';
           this.queue.push(party);
           console.log(`[QueueDO ${this.sessionId}] handleJoin: party added`, {
             partyId: party.id,
@@ -1527,14 +4383,107 @@ export class QueueDO implements DurableObject {
     }
   }
 
+  private readStoredParties(): Record<PartyList, QueueParty[]> {
+    const parties: Record<PartyList, QueueParty[]> = { queue: [], standby: [] };
+    this.persistedParties.clear();
+    const rows = this.state.storage.sql.exec<{
+      id: string;
+      list: string;
+      rank: number;
+      data: string;
+    }>('SELECT id, list, rank, data FROM queue_parties ORDER BY rank');
+    for (const row of rows) {
+      const list: PartyList = row.list === 'standby' ? 'standby' : 'queue';
+      parties[list].push(JSON.parse(row.data) as QueueParty);
+      this.persistedParties.set(row.id, { list, rank: row.rank });
+    }
+    return parties;
+  }
+
+  private markPartyChanged(party: QueueParty): void {
+    this.dirtyParties.set(party.id, party);
+  }
+
+  /**
+   * Write each party to its own queue_parties row. Rows are ordered by rank, and ranks are
+   * only re-assigned when a list was reordered, keeping them wherever the order allows.
+   * Only parties that moved or were marked changed are serialized, so a join or serve
+   * writes a row or two however long the line is.
+   */
+  private persistParties(): void {
+    const sql = this.state.storage.sql;
+    if (this.partyOrderChanged) {
+      this.partyOrderChanged = false;
+      const current = new Set<string>();
+      for (const [list, parties] of [
+        ['queue', this.queue],
+        ['standby', this.standby],
+      ] as const) {
+        const previous = new Map<string, number>();
+        for (const party of parties) {
+          const persisted = this.persistedParties.get(party.id);
+          if (persisted?.list === list) {
+            previous.set(party.id, persisted.rank);
+          }
+        }
+        const ranks = assignRanks(
+          parties.map((party) => party.id),
+          previous
+        );
+        for (const party of parties) {
+          current.add(party.id);
+          const rank = ranks.get(party.id) as number;
+          const persisted = this.persistedParties.get(party.id);
+          if (persisted?.list !== list || persisted.rank !== rank) {
+            this.persistedParties.set(party.id, { list, rank });
+            this.dirtyParties.set(party.id, party);
+          }
+        }
+      }
+      for (const id of [...this.persistedParties.keys()]) {
+        if (!current.has(id)) {
+          sql.exec('DELETE FROM queue_parties WHERE id = ?', id);
+          this.persistedParties.delete(id);
+        }
+      }
+    }
+
+    for (const [id, party] of this.dirtyParties) {
+      const persisted = this.persistedParties.get(id);
+      // Parties at a counter live in the state blob instead
+      if (!persisted) {
+        continue;
+      }
+      sql.exec(
+        'INSERT OR REPLACE INTO queue_parties (id, list, rank, data) VALUES (?, ?, ?, ?)',
+        id,
+        persisted.list,
+        persisted.rank,
+        JSON.stringify(party)
+      );
+    }
+    this.dirtyParties.clear();
+  }
+
   private async persistState(): Promise<void> {
+    this.persistParties();
     await this.state.storage.put<StoredState>('state', {
-      queue: this.queue,
-      nowServing: this.nowServing,
+      counters: this.counters,
       closed: this.closed,
-      pendingPartyId: this.pendingPartyId,
       maxGuests: this.maxGuests,
-      callDeadline: this.callDeadline,
+      lanes: this.lanes,
+      lanePolicy: this.lanePolicy,
+      laneCredits: this.laneCredits,
+      pausedAt: this.pausedAt,
+      resumeAt: this.resumeAt,
+      scheduleOpen: this.scheduleOpen,
+      slots: this.slots,
+      callPolicy: this.callPolicy,
+      undoStack: this.undoStack,
+      nextTicket: this.nextTicket,
+      broadcasts: this.broadcasts,
+      capacityAlerted: this.capacityAlerted,
+      autoCloseWarnedFor: this.autoCloseWarnedFor,
     });
   }
 
@@ -1569,7 +4518,7 @@ export class QueueDO implements DurableObject {
     return null;
   }
 
-  private safeSend(socket: WebSocket, data: string): void {
+  private safeSend(socket: LiveSocket, data: string): void {
     try {
       const readyState = (socket as any).readyState;
       if (typeof readyState === 'number' && readyState >= 2) {
@@ -1601,13 +4550,15 @@ export class QueueDO implements DurableObject {
 
     this.closed = true;
     this.queue = [];
-    this.nowServing = null;
-    this.pendingPartyId = null;
+    this.standby = [];
+    this.partyOrderChanged = true;
+    this.resetCounters();
+    this.undoStack = [];
 
     await this.env.DB.batch([
-      this.env.DB.prepare("UPDATE sessions SET status = 'closed' WHERE id = ?1").bind(
-        this.sessionId
-      ),
+      this.env.DB.prepare(
+        "UPDATE sessions SET status = 'closed', closed_at = ?2 WHERE id = ?1"
+      ).bind(this.sessionId, Math.floor(Date.now() / 1000)),
       this.env.DB.prepare(
         "INSERT INTO events (session_id, type, details) VALUES (?1, 'auto_close', ?2)"
       ).bind(this.sessionId, JSON.stringify({ reason })),
@@ -1628,16 +4579,124 @@ export class QueueDO implements DurableObject {
     this.notifyAllGuestsClosed();
   }
 
+  /**
+   * When the queue will be closed automatically if nothing changes: at its maximum
+   * lifetime, or sooner once it's been idle and empty for the inactivity timeout. Null
+   * when it won't be, as when it's paused or outside its opening hours.
+   */
+  private autoCloseAt(): number | null {
+    if (this.closed || this.pausedAt !== null || !this.scheduleOpen) {
+      return null;
+    }
+    const lifetimeEnd = this.createdAt + QueueDO.MAX_LIFETIME_MS;
+    const idle =
+      this.queue.length === 0 &&
+      this.busyCounterCount() === 0 &&
+      !this.slots.some((slot) => slot.status === 'booked');
+    return idle
+      ? Math.min(lifetimeEnd, this.lastActivityAt + QueueDO.INACTIVE_TIMEOUT_MS)
+      : lifetimeEnd;
+  }
+
+  private async warnBeforeAutoClose(now: number): Promise<void> {
+    const closesAt = this.autoCloseAt();
+    if (
+      closesAt === null ||
+      now < closesAt - AUTO_CLOSE_WARNING_MS ||
+      this.autoCloseWarnedFor === closesAt
+    ) {
+      return;
+    }
+    this.autoCloseWarnedFor = closesAt;
+    await this.persistState();
+    await this.emitEvent({
+      type: 'QUEUE_HOST_ALERT',
+      sessionId: this.sessionId,
+      alert: 'auto_close',
+      reason:
+        closesAt === this.createdAt + QueueDO.MAX_LIFETIME_MS
+          ? 'max_lifetime_exceeded'
+          : 'inactivity',
+      minutes: Math.max(1, Math.round((closesAt - now) / MS_PER_MINUTE)),
+    });
+  }
+
+  /**
+   * Let the hosts know when the line fills past the capacity mark. They hear about it
+   * again only after it has dropped back below.
+   */
+  private async checkCapacityAlert(): Promise<void> {
+    const guestCount = this.computeGuestCount();
+    const full = !this.closed && guestCount >= this.maxGuests * CAPACITY_ALERT_RATIO;
+    if (full === this.capacityAlerted) {
+      return;
+    }
+    this.capacityAlerted = full;
+    await this.persistState();
+    if (full) {
+      await this.emitEvent({
+        type: 'QUEUE_HOST_ALERT',
+        sessionId: this.sessionId,
+        alert: 'capacity',
+        guestCount,
+        maxGuests: this.maxGuests,
+      });
+    }
+  }
+
+  /**
+   * Make sure the alarm fires by the earliest pending call deadline across counters.
+   * A sooner alarm is left alone; alarm() re-runs this after handling no-shows.
+   */
+  private async scheduleCallDeadlineAlarm(): Promise<void> {
+    const deadlines = this.counters
+      .filter((counter) => counter.nowServing && counter.callDeadline !== null)
+      .map((counter) => counter.callDeadline as number);
+    if (deadlines.length === 0) {
+      return;
+    }
+    const earliest = Math.min(...deadlines);
+    const existingAlarm = await this.state.storage.getAlarm();
+    if (!existingAlarm || existingAlarm > earliest) {
+      await this.state.storage.setAlarm(earliest);
+    }
+  }
+
   /**
    * Schedule an alarm to check queue lifecycle (inactivity/expiration).
-   * Runs every 15 minutes to check if queue should be auto-closed.
+   * Runs every 15 minutes to check if queue should be auto-closed, or sooner when a
+   * paused queue is due to resume.
    */
   private async scheduleLifecycleAlarm(): Promise<void> {
     const existingAlarm = await this.state.storage.getAlarm();
 
     // If there's already an alarm scheduled sooner, don't override it
     const CHECK_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
-    const nextCheck = Date.now() + CHECK_INTERVAL_MS;
+    let nextCheck = Date.now() + CHECK_INTERVAL_MS;
+    if (this.pausedAt !== null && this.resumeAt !== null) {
+      nextCheck = Math.min(nextCheck, this.resumeAt);
+    }
+    const hours = scheduleWindow(this.schedule, Date.now());
+    const boundary = hours.opensAt ?? hours.closesAt;
+    if (boundary !== null) {
+      nextCheck = Math.min(nextCheck, boundary);
+    }
+    for (const slot of this.slots) {
+      if (slot.status === 'booked') {
+        nextCheck = Math.min(nextCheck, slot.startsAt);
+      }
+    }
+    for (const party of this.queue) {
+      if (typeof party.snoozedUntil === 'number') {
+        nextCheck = Math.min(nextCheck, party.snoozedUntil);
+      }
+    }
+    // Wake up in time to warn the host, then again just past the limit to close on time
+    const closesAt = this.autoCloseAt();
+    if (closesAt !== null) {
+      const warnAt = closesAt - AUTO_CLOSE_WARNING_MS;
+      nextCheck = Math.min(nextCheck, warnAt > Date.now() ? warnAt : closesAt + 1);
+    }
 
     if (!existingAlarm || existingAlarm > nextCheck) {
       await this.state.storage.setAlarm(nextCheck);
@@ -1652,7 +4711,7 @@ export class QueueDO implements DurableObject {
     if (this.heartbeatTimer) return;
 
     this.heartbeatTimer = setInterval(() => {
-      const deadSockets: WebSocket[] = [];
+      const deadSockets: LiveSocket[] = [];
 
       for (const socket of this.sockets.keys()) {
         try {
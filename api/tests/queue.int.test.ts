@@ -1,5 +1,16 @@
 import { describe, expect, it } from 'vitest';
-import { env, SELF, runDurableObjectAlarm } from 'cloudflare:test';
+import {
+  createExecutionContext,
+  createMessageBatch,
+  env,
+  getQueueResult,
+  SELF,
+  runDurableObjectAlarm,
+  runInDurableObject,
+} from 'cloudflare:test';
+import worker from '../worker';
+import { createSession } from '../utils/oauth';
+import { createNotificationChannels, fakeOutbox, notifyContacts } from '../utils/notifications';
 
 interface QueueUpdateMessage {
   type: 'queue_update';
@@ -85,6 +96,36 @@ async function fetchJson(path: string, init: RequestInit = {}): Promise<Response
   return SELF.fetch(url, init);
 }
 
+// Keep the events a queue emits from now on; tests have no queue consumer to take them
+async function captureQueueEvents(sessionId: string): Promise<Record<string, unknown>[]> {
+  type Emitter = { emitEvent: (event: Record<string, unknown>) => Promise<void> };
+  const emitted: Record<string, unknown>[] = [];
+  const stub = env.QUEUE_DO.get(env.QUEUE_DO.idFromString(sessionId));
+  await runInDurableObject(stub, async (instance) => {
+    (instance as unknown as Emitter).emitEvent = async (event) => {
+      emitted.push(event);
+    };
+  });
+  return emitted;
+}
+
+// Run captured events through the worker's consumer; returns the titles texted to each number
+async function deliverQueueEvents(events: Record<string, unknown>[]) {
+  const outboxStart = fakeOutbox.length;
+  const batch = createMessageBatch(
+    'queueup-events',
+    events.map((body, index) => ({ id: String(index), timestamp: new Date(), attempts: 1, body }))
+  );
+  const ctx = createExecutionContext();
+  await worker.queue(batch, env, ctx);
+  await getQueueResult(batch, ctx);
+  const texts = new Map<string, string[]>();
+  for (const entry of fakeOutbox.slice(outboxStart)) {
+    texts.set(entry.to, [...(texts.get(entry.to) ?? []), entry.title]);
+  }
+  return texts;
+}
+
 describe('queue lifecycle integration', () => {
   it('supports create, join, real-time updates, alarms, and close flows', async () => {
     const desiredEventName = 'Integration Test Event';
@@ -161,11 +202,11 @@ describe('queue lifecycle integration', () => {
     expect(hostAfterJoin.maxGuests).toBe(desiredMaxGuests);
     expect(hostAfterJoin.callDeadline ?? null).toBeNull();
 
-    // Additional guest should not be able to join while capacity is full.
+    // A party bigger than the whole queue can't join, not even on standby.
     const overCapacityResponse = await fetchJson(`/api/queue/${shortCode}/join`, {
       method: 'POST',
       headers: { 'content-type': 'application/json' },
-      body: JSON.stringify({ name: 'Overflow', size: 1, turnstileToken: 'stub-token' }),
+      body: JSON.stringify({ name: 'Overflow', size: 3, turnstileToken: 'stub-token' }),
     });
     expect(overCapacityResponse.status).toBe(409);
 
@@ -310,4 +351,2221 @@ describe('queue lifecycle integration', () => {
     hostWs.socket.close(1000, 'done');
     guestWs.socket.close(1000, 'done');
   }, 30000);
+
+  it('serves parties in parallel across named counters', async () => {
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        eventName: 'Counters Test',
+        maxGuests: 10,
+        counters: ['Window A', 'Window B'],
+      }),
+    });
+    expect(createResponse.status).toBe(200);
+    const createBody = await createResponse.json<{
+      code: string;
+      counters: { id: string; name: string }[];
+    }>();
+    expect(createBody.counters.map((counter) => counter.name)).toEqual(['Window A', 'Window B']);
+    const shortCode = createBody.code;
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+    const [counterA, counterB] = createBody.counters;
+
+    const partyIds: string[] = [];
+    for (const name of ['Ann', 'Ben', 'Cat']) {
+      const joinResponse = await fetchJson(`/api/queue/${shortCode}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ name, size: 1, turnstileToken: 'stub-token' }),
+      });
+      expect(joinResponse.status).toBe(200);
+      partyIds.push((await joinResponse.json<{ partyId: string }>()).partyId);
+    }
+
+    const advance = (body: Record<string, unknown>) =>
+      fetchJson(`/api/queue/${shortCode}/advance`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', Cookie: hostCookie },
+        body: JSON.stringify(body),
+      });
+
+    const firstCall = await advance({ counterId: counterA.id });
+    expect(firstCall.status).toBe(200);
+    expect(await firstCall.json()).toMatchObject({
+      counterId: counterA.id,
+      nowServing: { id: partyIds[0] },
+    });
+    const secondCall = await advance({ counterId: counterB.id });
+    expect(await secondCall.json()).toMatchObject({
+      counterId: counterB.id,
+      nowServing: { id: partyIds[1] },
+    });
+
+    const snapshotResponse = await fetchJson(`/api/queue/${shortCode}/snapshot`, {
+      headers: { Cookie: hostCookie },
+    });
+    const snapshot = await snapshotResponse.json<
+      QueueUpdateMessage & {
+        counters: { id: string; nowServing: { id: string } | null; callDeadline: number | null }[];
+      }
+    >();
+    expect(snapshot.counters.map((counter) => counter.nowServing?.id)).toEqual([
+      partyIds[0],
+      partyIds[1],
+    ]);
+    expect(snapshot.counters.every((counter) => typeof counter.callDeadline === 'number')).toBe(
+      true
+    );
+    expect(snapshot.queue.map((party) => party.id)).toEqual([partyIds[2]]);
+
+    // Both counters are busy, so the last guest is third with two parties ahead.
+    const guestSnapshot = await fetchJson(
+      `/api/queue/${shortCode}/snapshot?partyId=${partyIds[2]}`
+    );
+    const guestBody = await guestSnapshot.json<PositionMessage>();
+    expect(guestBody.position).toBe(3);
+    expect(guestBody.aheadCount).toBe(2);
+
+    const calledSnapshot = await fetchJson(
+      `/api/queue/${shortCode}/snapshot?partyId=${partyIds[1]}`
+    );
+    expect(await calledSnapshot.json()).toMatchObject({
+      type: 'called',
+      counter: { id: counterB.id, name: 'Window B' },
+    });
+
+    // Serving counter B's party calls the next guest to counter B, leaving A untouched.
+    const served = await advance({ counterId: counterB.id, servedParty: partyIds[1] });
+    expect(await served.json()).toMatchObject({ nowServing: { id: partyIds[2] } });
+    const mismatch = await advance({ counterId: counterA.id, servedParty: partyIds[2] });
+    expect(mismatch.status).toBe(400);
+
+    // Kicking by counter removes whoever is called there.
+    const kickResponse = await fetchJson(`/api/queue/${shortCode}/kick`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', Cookie: hostCookie },
+      body: JSON.stringify({ counterId: counterA.id }),
+    });
+    expect(kickResponse.status).toBe(200);
+    const afterKick = await fetchJson(`/api/queue/${shortCode}/snapshot`, {
+      headers: { Cookie: hostCookie },
+    });
+    const afterKickBody = await afterKick.json<{
+      counters: { id: string; nowServing: { id: string } | null }[];
+    }>();
+    expect(afterKickBody.counters.map((counter) => counter.nowServing?.id ?? null)).toEqual([
+      null,
+      partyIds[2],
+    ]);
+
+    const partyRow = await env.DB.prepare('SELECT counter_id FROM parties WHERE id = ?1')
+      .bind(partyIds[2])
+      .first<{ counter_id: string | null }>();
+    expect(partyRow?.counter_id).toBe(counterB.id);
+  }, 30000);
+
+  it('interleaves priority lanes by weight and lets the host reassign lanes', async () => {
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        eventName: 'Lanes Test',
+        maxGuests: 10,
+        lanes: [
+          { name: 'VIP', weight: 2 },
+          { name: 'Accessibility', guestSelectable: true },
+        ],
+        lanePolicy: 'weighted',
+      }),
+    });
+    expect(createResponse.status).toBe(200);
+    const createBody = await createResponse.json<{
+      code: string;
+      lanes: { id: string; name: string }[];
+      lanePolicy: string;
+    }>();
+    expect(createBody.lanePolicy).toBe('weighted');
+    const [vipLane, accessLane] = createBody.lanes;
+    const shortCode = createBody.code;
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+
+    // Only guest-selectable lanes are advertised before joining.
+    const infoResponse = await fetchJson(`/api/queue/${shortCode}/info`);
+    expect(await infoResponse.json()).toMatchObject({
+      lanes: [{ id: accessLane.id, name: 'Accessibility' }],
+    });
+
+    const join = async (name: string, laneId?: string, headers: Record<string, string> = {}) =>
+      fetchJson(`/api/queue/${shortCode}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...headers },
+        body: JSON.stringify({ name, size: 1, turnstileToken: 'stub-token', laneId }),
+      });
+
+    const guestVip = await join('Sneaky', vipLane.id);
+    expect(guestVip.status).toBe(403);
+
+    const ids: Record<string, string> = {};
+    for (const [name, laneId, headers] of [
+      ['S1', undefined, {}],
+      ['S2', undefined, {}],
+      ['S3', undefined, {}],
+      ['A1', accessLane.id, {}],
+      ['V1', vipLane.id, { Cookie: hostCookie }],
+      ['V2', vipLane.id, { Cookie: hostCookie }],
+    ] as const) {
+      const response = await join(name, laneId, headers);
+      expect(response.status).toBe(200);
+      ids[name] = (await response.json<{ partyId: string }>()).partyId;
+    }
+
+    const hostQueueOrder = async () => {
+      const response = await fetchJson(`/api/queue/${shortCode}/snapshot`, {
+        headers: { Cookie: hostCookie },
+      });
+      const body = await response.json<QueueUpdateMessage>();
+      const names = Object.fromEntries(Object.entries(ids).map(([name, id]) => [id, name]));
+      return body.queue.map((party) => names[party.id]);
+    };
+
+    // VIP earns two turns for every one the other lanes get.
+    expect(await hostQueueOrder()).toEqual(['V1', 'A1', 'S1', 'V2', 'S2', 'S3']);
+
+    const guestSnapshot = await fetchJson(`/api/queue/${shortCode}/snapshot?partyId=${ids.S1}`);
+    expect(await guestSnapshot.json()).toMatchObject({
+      position: 3,
+      aheadCount: 2,
+      lane: { id: 'standard', name: 'Standard' },
+    });
+
+    const advanceResponse = await fetchJson(`/api/queue/${shortCode}/advance`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', Cookie: hostCookie },
+      body: JSON.stringify({}),
+    });
+    expect(await advanceResponse.json()).toMatchObject({ nowServing: { id: ids.V1 } });
+
+    const assignResponse = await fetchJson(`/api/queue/${shortCode}/assign-lane`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', Cookie: hostCookie },
+      body: JSON.stringify({ partyId: ids.S3, laneId: vipLane.id }),
+    });
+    expect(assignResponse.status).toBe(200);
+    // S3 keeps their arrival time, so they move ahead of V2 within the VIP lane.
+    expect(await hostQueueOrder()).toEqual(['A1', 'S1', 'S3', 'V2', 'S2']);
+
+    const laneRow = await env.DB.prepare('SELECT lane_id FROM parties WHERE id = ?1')
+      .bind(ids.S3)
+      .first<{ lane_id: string | null }>();
+    expect(laneRow?.lane_id).toBe(vipLane.id);
+    const eventRow = await env.DB.prepare(
+      "SELECT details FROM events WHERE party_id = ?1 AND type = 'lane_assigned'"
+    )
+      .bind(ids.S3)
+      .first<{ details: string }>();
+    expect(JSON.parse(eventRow!.details)).toEqual({
+      lane_id: vipLane.id,
+      previous_lane_id: 'standard',
+    });
+  }, 30000);
+
+  it('lets the host move a waiting party to another spot in line', async () => {
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ eventName: 'Reorder Test', maxGuests: 10 }),
+    });
+    const { code: shortCode } = await createResponse.json<{ code: string }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+
+    const partyIds: string[] = [];
+    for (const name of ['Ann', 'Ben', 'Cat']) {
+      const joinResponse = await fetchJson(`/api/queue/${shortCode}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ name, size: 1, turnstileToken: 'stub-token' }),
+      });
+      partyIds.push((await joinResponse.json<{ partyId: string }>()).partyId);
+    }
+
+    const reorder = (body: Record<string, unknown>, headers: Record<string, string> = {}) =>
+      fetchJson(`/api/queue/${shortCode}/reorder`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+      });
+
+    expect((await reorder({ partyId: partyIds[2], toIndex: 0 })).status).toBe(401);
+    expect((await reorder({ partyId: 'missing', toIndex: 0 }, { Cookie: hostCookie })).status).toBe(
+      404
+    );
+
+    const moved = await reorder({ partyId: partyIds[2], toIndex: 0 }, { Cookie: hostCookie });
+    expect(moved.status).toBe(200);
+    expect(await moved.json()).toMatchObject({ position: 1 });
+
+    const snapshotResponse = await fetchJson(`/api/queue/${shortCode}/snapshot`, {
+      headers: { Cookie: hostCookie },
+    });
+    const snapshot = await snapshotResponse.json<QueueUpdateMessage>();
+    expect(snapshot.queue.map((party) => party.id)).toEqual([
+      partyIds[2],
+      partyIds[0],
+      partyIds[1],
+    ]);
+
+    const guestSnapshot = await fetchJson(
+      `/api/queue/${shortCode}/snapshot?partyId=${partyIds[0]}`
+    );
+    expect(await guestSnapshot.json()).toMatchObject({ position: 2, aheadCount: 1 });
+
+    // Indexes past the end move the party to the back of the line.
+    await reorder({ partyId: partyIds[2], toIndex: 10 }, { Cookie: hostCookie });
+    const advanceResponse = await fetchJson(`/api/queue/${shortCode}/advance`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', Cookie: hostCookie },
+      body: JSON.stringify({}),
+    });
+    expect(await advanceResponse.json()).toMatchObject({ nowServing: { id: partyIds[0] } });
+
+    const eventRow = await env.DB.prepare(
+      "SELECT details FROM events WHERE party_id = ?1 AND type = 'reordered' ORDER BY id ASC"
+    )
+      .bind(partyIds[2])
+      .first<{ details: string }>();
+    expect(JSON.parse(eventRow!.details)).toEqual({ from_index: 2, to_index: 0 });
+
+    // With lanes, each lane holds its own spots in the order, so parties move within theirs
+    const lanesResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.27' },
+      body: JSON.stringify({
+        eventName: 'Lane Reorder Test',
+        maxGuests: 10,
+        lanes: [{ name: 'VIP' }],
+        lanePolicy: 'weighted',
+      }),
+    });
+    const lanesQueue = await lanesResponse.json<{ code: string; lanes: { id: string }[] }>();
+    const lanesCookie = lanesResponse.headers.get('set-cookie')!.split(';')[0];
+    const laneIds: Record<string, string> = {};
+    for (const [name, laneId] of [
+      ['S1', undefined],
+      ['S2', undefined],
+      ['V1', lanesQueue.lanes[0].id],
+      ['V2', lanesQueue.lanes[0].id],
+    ] as const) {
+      const joinResponse = await fetchJson(`/api/queue/${lanesQueue.code}/join`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'CF-Connecting-IP': '203.0.113.27',
+          Cookie: lanesCookie,
+        },
+        body: JSON.stringify({ name, size: 1, turnstileToken: 'stub-token', laneId }),
+      });
+      laneIds[name] = (await joinResponse.json<{ partyId: string }>()).partyId;
+    }
+    const laneReorder = (partyId: string, toIndex: number) =>
+      fetchJson(`/api/queue/${lanesQueue.code}/reorder`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', Cookie: lanesCookie },
+        body: JSON.stringify({ partyId, toIndex }),
+      });
+    const laneOrder = async () => {
+      const response = await fetchJson(`/api/queue/${lanesQueue.code}/snapshot`, {
+        headers: { Cookie: lanesCookie },
+      });
+      const names = Object.fromEntries(Object.entries(laneIds).map(([name, id]) => [id, name]));
+      return (await response.json<QueueUpdateMessage>()).queue.map((party) => names[party.id]);
+    };
+    expect(await laneOrder()).toEqual(['V1', 'S1', 'V2', 'S2']);
+
+    expect((await laneReorder(laneIds.S2, 0)).status).toBe(409);
+    expect(await laneOrder()).toEqual(['V1', 'S1', 'V2', 'S2']);
+    expect((await laneReorder(laneIds.S2, 1)).status).toBe(200);
+    expect(await laneOrder()).toEqual(['V1', 'S2', 'V2', 'S1']);
+    // Past the end means the back of the party's own lane
+    expect((await laneReorder(laneIds.S2, 10)).status).toBe(200);
+    expect(await laneOrder()).toEqual(['V1', 'S1', 'V2', 'S2']);
+
+    const laneEvents = await env.DB.prepare(
+      "SELECT details FROM events WHERE party_id = ?1 AND type = 'reordered' ORDER BY id ASC"
+    )
+      .bind(laneIds.S2)
+      .all<{ details: string }>();
+    expect(laneEvents.results.map((row) => JSON.parse(row.details))).toEqual([
+      { from_index: 3, to_index: 1 },
+      { from_index: 1, to_index: 3 },
+    ]);
+  }, 30000);
+
+  it('pauses a queue without dropping guests and resumes it on schedule', async () => {
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ eventName: 'Pause Test', maxGuests: 10 }),
+    });
+    const { code: shortCode, sessionId } = await createResponse.json<{
+      code: string;
+      sessionId: string;
+    }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+
+    const join = (name: string) =>
+      fetchJson(`/api/queue/${shortCode}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ name, size: 1, turnstileToken: 'stub-token' }),
+      });
+    const hostPost = (action: string, body?: Record<string, unknown>) =>
+      fetchJson(`/api/queue/${shortCode}/${action}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', Cookie: hostCookie },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+    const { partyId } = await (await join('Ann')).json<{ partyId: string }>();
+
+    const resumeAt = Date.now() + 10 * 60 * 1000;
+    const pauseResponse = await hostPost('pause', { resumeAt });
+    expect(pauseResponse.status).toBe(200);
+
+    const pausedJoin = await join('Ben');
+    expect(pausedJoin.status).toBe(409);
+    expect(await pausedJoin.json()).toMatchObject({ paused: true, resumeAt });
+    expect((await hostPost('advance', {})).status).toBe(409);
+
+    const guestSnapshot = await fetchJson(`/api/queue/${shortCode}/snapshot?partyId=${partyId}`);
+    expect(await guestSnapshot.json()).toMatchObject({
+      type: 'position',
+      position: 1,
+      paused: true,
+      resumeAt,
+    });
+
+    // The lifecycle alarm leaves a paused queue open.
+    const stub = env.QUEUE_DO.get(env.QUEUE_DO.idFromString(sessionId));
+    await runDurableObjectAlarm(stub);
+    const hostSnapshot = await fetchJson(`/api/queue/${shortCode}/snapshot`, {
+      headers: { Cookie: hostCookie },
+    });
+    expect(await hostSnapshot.json()).toMatchObject({ closed: false, paused: true, resumeAt });
+
+    const resumeResponse = await hostPost('resume');
+    expect(resumeResponse.status).toBe(200);
+    expect((await join('Ben')).status).toBe(200);
+
+    // A pause with a "back at" time lifts itself once that time passes.
+    expect((await hostPost('pause', { resumeAt: Date.now() + 50 })).status).toBe(200);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await runDurableObjectAlarm(stub);
+    expect((await join('Cat')).status).toBe(200);
+
+    const { results } = await env.DB.prepare(
+      "SELECT type, details FROM events WHERE session_id = ?1 AND type IN ('pause', 'resume') ORDER BY id ASC"
+    )
+      .bind(sessionId)
+      .all<{ type: string; details: string }>();
+    expect(results.map((row) => [row.type, JSON.parse(row.details).reason])).toEqual([
+      ['pause', undefined],
+      ['resume', 'host'],
+      ['pause', undefined],
+      ['resume', 'scheduled'],
+    ]);
+  }, 30000);
+
+  it('reopens a recently closed queue with its parties back in place', async () => {
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ eventName: 'Reopen Test', maxGuests: 10 }),
+    });
+    const { code: shortCode, sessionId } = await createResponse.json<{
+      code: string;
+      sessionId: string;
+    }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+
+    // Joins are rate limited per IP across the whole file, so use an address of our own
+    const join = (name: string, contacts?: Record<string, string>) =>
+      fetchJson(`/api/queue/${shortCode}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.5' },
+        body: JSON.stringify({ name, size: 1, turnstileToken: 'stub-token', contacts }),
+      });
+    const hostPost = (action: string, body?: Record<string, unknown>) =>
+      fetchJson(`/api/queue/${shortCode}/${action}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', Cookie: hostCookie },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+    const { partyId: annId } = await (
+      await join('Ann', { sms: '+1 (555) 050-0001' })
+    ).json<{ partyId: string }>();
+    const { partyId: benId } = await (
+      await join('Ben', { sms: '+1 (555) 050-0002' })
+    ).json<{ partyId: string }>();
+    const emitted = await captureQueueEvents(sessionId);
+    expect((await hostPost('advance', {})).status).toBe(200);
+
+    // Reopening only applies to a closed queue
+    expect((await hostPost('reopen')).status).toBe(409);
+
+    expect((await hostPost('close')).status).toBe(200);
+    expect((await join('Cat')).status).not.toBe(200);
+
+    const reopenResponse = await hostPost('reopen');
+    expect(reopenResponse.status).toBe(200);
+    expect(await reopenResponse.json()).toMatchObject({ ok: true, restored: 2 });
+
+    const hostSnapshot = await fetchJson(`/api/queue/${shortCode}/snapshot`, {
+      headers: { Cookie: hostCookie },
+    });
+    const snapshot = await hostSnapshot.json<{
+      closed: boolean;
+      nowServing: { id: string } | null;
+      queue: { id: string }[];
+    }>();
+    expect(snapshot.closed).toBe(false);
+    expect(snapshot.nowServing?.id).toBe(annId);
+    expect(snapshot.queue.map((party) => party.id)).toEqual([benId]);
+
+    const guestSnapshot = await fetchJson(`/api/queue/${shortCode}/snapshot?partyId=${benId}`);
+    expect(await guestSnapshot.json()).toMatchObject({ type: 'position', position: 2 });
+
+    // Each reopen tells guests again, even within the same grace window
+    expect((await hostPost('close')).status).toBe(200);
+    expect((await hostPost('reopen')).status).toBe(200);
+    const texts = await deliverQueueEvents(emitted);
+    expect(texts.get('+15550500001')).toEqual([
+      "It's your turn!",
+      "It's your turn!",
+      "It's your turn!",
+    ]);
+    const benRestored = texts.get('+15550500002')?.filter((title) => title !== 'Almost there!');
+    expect(benRestored).toEqual(["You're back in line", "You're back in line"]);
+    expect((await join('Cat')).status).toBe(200);
+
+    // Past the grace window the close sticks
+    expect((await hostPost('close')).status).toBe(200);
+    await env.DB.prepare('UPDATE sessions SET closed_at = closed_at - 3600 WHERE id = ?1')
+      .bind(sessionId)
+      .run();
+    expect((await hostPost('reopen')).status).toBe(410);
+
+    const session = await env.DB.prepare('SELECT status FROM sessions WHERE id = ?1')
+      .bind(sessionId)
+      .first<{ status: string }>();
+    expect(session?.status).toBe('closed');
+  }, 30000);
+
+  it('only takes new guests during the opening hours in the queue timezone', async () => {
+    // Pick a fixed-offset zone where it is currently 12:xx, so the hours below are stable
+    const offset = 12 - new Date().getUTCHours();
+    const timezone = offset >= 0 ? `Etc/GMT-${offset}` : `Etc/GMT+${-offset}`;
+
+    const create = (body: Record<string, unknown>) =>
+      fetchJson('/api/queue/create', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ eventName: 'Hours Test', maxGuests: 10, ...body }),
+      });
+    const join = (code: string) =>
+      fetchJson(`/api/queue/${code}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.6' },
+        body: JSON.stringify({ name: 'Ann', size: 1, turnstileToken: 'stub-token' }),
+      });
+
+    expect((await create({ openTime: '14:00', timezone: 'Mars/Olympus' })).status).toBe(400);
+
+    const laterResponse = await create({ openTime: '14:00', closeTime: '15:00', timezone });
+    const later = await laterResponse.json<{ code: string; timezone: string }>();
+    expect(later.timezone).toBe(timezone);
+
+    const before = Date.now();
+    const rejected = await join(later.code);
+    expect(rejected.status).toBe(409);
+    const rejection = await rejected.json<{ outsideHours: boolean; opensAt: number }>();
+    expect(rejection.outsideHours).toBe(true);
+    expect(rejection.opensAt).toBeGreaterThan(before + 60 * 60 * 1000);
+    expect(rejection.opensAt).toBeLessThanOrEqual(before + 2 * 60 * 60 * 1000);
+
+    const info = await fetchJson(`/api/queue/${later.code}/info`);
+    expect(await info.json()).toMatchObject({
+      schedule: { openTime: '14:00', closeTime: '15:00', timezone, open: false },
+    });
+
+    const { code: openCode } = await (
+      await create({ openTime: '10:00', closeTime: '14:00', timezone })
+    ).json<{ code: string }>();
+    expect((await join(openCode)).status).toBe(200);
+  }, 30000);
+
+  it('admits booked appointments when their slot starts and no-shows them like walk-ins', async () => {
+    const soon = Date.now() + 2500;
+    const later = Date.now() + 60 * 60 * 1000;
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ eventName: 'Slots Test', maxGuests: 10, slots: [later, soon] }),
+    });
+    const { code: shortCode, sessionId } = await createResponse.json<{
+      code: string;
+      sessionId: string;
+    }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+
+    const join = (name: string, slotId?: string) =>
+      fetchJson(`/api/queue/${shortCode}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.7' },
+        body: JSON.stringify({ name, size: 1, turnstileToken: 'stub-token', slotId }),
+      });
+    const hostSnapshot = async () =>
+      (
+        await fetchJson(`/api/queue/${shortCode}/snapshot`, { headers: { Cookie: hostCookie } })
+      ).json<{
+        nowServing: { id: string; slotId?: string } | null;
+        queue: { id: string }[];
+        appointments: { id: string; status: string; party: { id: string } | null }[];
+      }>();
+
+    const info = await (
+      await fetchJson(`/api/queue/${shortCode}/info`)
+    ).json<{
+      slots: { id: string; startsAt: number }[];
+    }>();
+    expect(info.slots).toHaveLength(2);
+    const [soonSlot, laterSlot] = info.slots;
+
+    const booked = await join('Bea', soonSlot.id);
+    expect(booked.status).toBe(200);
+    const { partyId: beaId } = await booked.json<{ partyId: string }>();
+    expect((await join('Bob', soonSlot.id)).status).toBe(409);
+
+    const guestSnapshot = await fetchJson(`/api/queue/${shortCode}/snapshot?partyId=${beaId}`);
+    expect(await guestSnapshot.json()).toMatchObject({ type: 'booked', slotId: soonSlot.id });
+
+    // Backing out of a booking frees the slot again
+    const { partyId: calId } = await (await join('Cal', laterSlot.id)).json<{ partyId: string }>();
+    const leave = await fetchJson(`/api/queue/${shortCode}/leave`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ partyId: calId }),
+    });
+    expect(leave.status).toBe(200);
+    expect((await hostSnapshot()).appointments.map((slot) => slot.status)).toEqual([
+      'booked',
+      'open',
+    ]);
+
+    const { partyId: annId } = await (await join('Ann')).json<{ partyId: string }>();
+
+    // Once the slot starts the booked guest is called ahead of the walk-in. The alarm set
+    // for the slot start fires on its own, so wait for it rather than running it here.
+    await new Promise((resolve) => setTimeout(resolve, soon - Date.now()));
+    let snapshot = await hostSnapshot();
+    for (let attempt = 0; attempt < 50 && snapshot.nowServing?.id !== beaId; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      snapshot = await hostSnapshot();
+    }
+    expect(snapshot.nowServing).toMatchObject({ id: beaId, slotId: soonSlot.id });
+    expect(snapshot.queue.map((party) => party.id)).toEqual([annId]);
+
+    // Missing the call is a no-show, and the walk-in is called next
+    await runDurableObjectAlarm(env.QUEUE_DO.get(env.QUEUE_DO.idFromString(sessionId)));
+    snapshot = await hostSnapshot();
+    expect(snapshot.nowServing?.id).toBe(annId);
+    expect(snapshot.appointments[0].status).toBe('no_show');
+
+    const slotRow = await env.DB.prepare('SELECT status FROM appointment_slots WHERE id = ?1')
+      .bind(soonSlot.id)
+      .first<{ status: string }>();
+    expect(slotRow?.status).toBe('no_show');
+
+    // A logged-in guest holds one booking, and can't walk in on top of it
+    await env.DB.prepare('INSERT INTO users (id, email) VALUES (?1, ?2)')
+      .bind('user-booker', 'booker@example.com')
+      .run();
+    const bearer = `Bearer ${(await createSession(env.DB, 'user-booker')).id}`;
+    const slotsResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.28' },
+      body: JSON.stringify({
+        eventName: 'Booking Limit Test',
+        maxGuests: 10,
+        slots: [later, later + 60000],
+      }),
+    });
+    const { code: limitCode } = await slotsResponse.json<{ code: string }>();
+    const limitSlots = (
+      await (await fetchJson(`/api/queue/${limitCode}/info`)).json<{ slots: { id: string }[] }>()
+    ).slots;
+    const bookAs = (slotId?: string) =>
+      fetchJson(`/api/queue/${limitCode}/join`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'CF-Connecting-IP': '203.0.113.28',
+          Authorization: bearer,
+        },
+        body: JSON.stringify({ name: 'Booker', size: 1, turnstileToken: 'stub-token', slotId }),
+      });
+    const firstBooking = await bookAs(limitSlots[0].id);
+    expect(firstBooking.status).toBe(200);
+    const { partyId: bookerId } = await firstBooking.json<{ partyId: string }>();
+    const secondBooking = await bookAs(limitSlots[1].id);
+    expect(secondBooking.status).toBe(409);
+    expect(await secondBooking.json()).toMatchObject({ existingPartyId: bookerId });
+    expect((await bookAs()).status).toBe(409);
+  }, 30000);
+
+  it('re-calls missed parties and moves no-shows back in line per the queue policy', async () => {
+    const create = (callPolicy: Record<string, unknown>) =>
+      fetchJson('/api/queue/create', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.8' },
+        body: JSON.stringify({ eventName: 'Policy Test', maxGuests: 10, callPolicy }),
+      });
+    expect((await create({ timeoutSeconds: 5 })).status).toBe(400);
+    expect((await create({ noShowAction: 'ignore' })).status).toBe(400);
+
+    const createResponse = await create({
+      timeoutSeconds: 60,
+      maxRecalls: 1,
+      noShowAction: 'requeue',
+      requeuePlaces: 2,
+    });
+    expect(createResponse.status).toBe(200);
+    const { code: shortCode, sessionId } = await createResponse.json<{
+      code: string;
+      sessionId: string;
+    }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+    const stub = env.QUEUE_DO.get(env.QUEUE_DO.idFromString(sessionId));
+
+    const partyIds: string[] = [];
+    for (const name of ['Ann', 'Ben', 'Cat', 'Dan']) {
+      const joinResponse = await fetchJson(`/api/queue/${shortCode}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.8' },
+        body: JSON.stringify({ name, size: 1, turnstileToken: 'stub-token' }),
+      });
+      partyIds.push((await joinResponse.json<{ partyId: string }>()).partyId);
+    }
+    const [annId, benId, catId, danId] = partyIds;
+
+    const advance = (body: Record<string, unknown>) =>
+      fetchJson(`/api/queue/${shortCode}/advance`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', Cookie: hostCookie },
+        body: JSON.stringify(body),
+      });
+    const hostSnapshot = async () =>
+      (
+        await fetchJson(`/api/queue/${shortCode}/snapshot`, { headers: { Cookie: hostCookie } })
+      ).json<QueueUpdateMessage>();
+    const eventDetails = async (partyId: string, type: string) => {
+      const { results } = await env.DB.prepare(
+        'SELECT details FROM events WHERE party_id = ?1 AND type = ?2 ORDER BY id ASC'
+      )
+        .bind(partyId, type)
+        .all<{ details: string }>();
+      return results.map((row) => JSON.parse(row.details));
+    };
+
+    const calledAt = Date.now();
+    await advance({});
+    let snapshot = await hostSnapshot();
+    expect(snapshot.nowServing?.id).toBe(annId);
+    expect(snapshot.callDeadline! - calledAt).toBeGreaterThanOrEqual(60 * 1000);
+    expect(snapshot.callDeadline! - calledAt).toBeLessThan(65 * 1000);
+
+    // The first missed window earns a re-call with a fresh window
+    await runDurableObjectAlarm(stub);
+    snapshot = await hostSnapshot();
+    expect(snapshot.nowServing?.id).toBe(annId);
+    expect(await eventDetails(annId, 'recall')).toEqual([{ counter_id: 'main', attempt: 1 }]);
+
+    // The second puts Ann back in line behind two parties, and the next party is called
+    await runDurableObjectAlarm(stub);
+    snapshot = await hostSnapshot();
+    expect(snapshot.nowServing?.id).toBe(benId);
+    expect(snapshot.queue.map((party) => party.id)).toEqual([catId, annId, danId]);
+    expect(await eventDetails(annId, 'no_show_requeued')).toEqual([
+      { counter_id: 'main', places: 2 },
+    ]);
+    const guestSnapshot = await fetchJson(`/api/queue/${shortCode}/snapshot?partyId=${annId}`);
+    expect(await guestSnapshot.json()).toMatchObject({ type: 'position', position: 3 });
+
+    // A party that was already moved back is dropped after missing their calls again
+    await advance({ servedParty: benId, nextParty: annId });
+    await runDurableObjectAlarm(stub);
+    await runDurableObjectAlarm(stub);
+    snapshot = await hostSnapshot();
+    expect(snapshot.nowServing?.id).toBe(catId);
+    expect(await eventDetails(annId, 'no_show')).toHaveLength(1);
+    const annRow = await env.DB.prepare('SELECT status FROM parties WHERE id = ?1')
+      .bind(annId)
+      .first<{ status: string }>();
+    expect(annRow?.status).toBe('no_show');
+  }, 30000);
+
+  it('undoes the last serve, call and kick while the undo window is open', async () => {
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.9' },
+      body: JSON.stringify({ eventName: 'Undo Test', maxGuests: 10 }),
+    });
+    const { code: shortCode } = await createResponse.json<{ code: string }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+
+    const partyIds: string[] = [];
+    for (const name of ['Ann', 'Ben', 'Cat', 'Dan']) {
+      const joinResponse = await fetchJson(`/api/queue/${shortCode}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.9' },
+        body: JSON.stringify({ name, size: 1, turnstileToken: 'stub-token' }),
+      });
+      partyIds.push((await joinResponse.json<{ partyId: string }>()).partyId);
+    }
+    const [annId, benId, catId, danId] = partyIds;
+
+    const hostPost = (action: string, body: Record<string, unknown> = {}) =>
+      fetchJson(`/api/queue/${shortCode}/${action}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', Cookie: hostCookie },
+        body: JSON.stringify(body),
+      });
+    const hostSnapshot = async () =>
+      (
+        await fetchJson(`/api/queue/${shortCode}/snapshot`, { headers: { Cookie: hostCookie } })
+      ).json<
+        QueueUpdateMessage & {
+          undo: { id: string; action: string; expiresAt: number; partyName: string | null } | null;
+        }
+      >();
+
+    await hostPost('advance');
+    await hostPost('advance', { servedParty: annId });
+    let snapshot = await hostSnapshot();
+    expect(snapshot.nowServing?.id).toBe(benId);
+    expect(snapshot.undo).toMatchObject({ action: 'serve', partyName: 'Ann' });
+    expect(snapshot.undo!.expiresAt).toBeGreaterThan(Date.now());
+
+    expect((await hostPost('undo', { undoId: 'stale' })).status).toBe(409);
+    const undone = await hostPost('undo', { undoId: snapshot.undo!.id });
+    expect(undone.status).toBe(200);
+    expect(await undone.json()).toEqual({ ok: true, undone: 'serve' });
+
+    // Ann is back at the counter and Ben back at the front of the line
+    snapshot = await hostSnapshot();
+    expect(snapshot.nowServing?.id).toBe(annId);
+    expect(snapshot.queue.map((party) => party.id)).toEqual([benId, catId, danId]);
+    const annRow = await env.DB.prepare('SELECT status, completed_at FROM parties WHERE id = ?1')
+      .bind(annId)
+      .first<{ status: string; completed_at: number | null }>();
+    expect(annRow).toEqual({ status: 'called', completed_at: null });
+    const undoEvents = await env.DB.prepare(
+      "SELECT party_id, details FROM events WHERE type = 'undo' AND party_id IN (?1, ?2) ORDER BY party_id"
+    )
+      .bind(annId, benId)
+      .all<{ party_id: string; details: string }>();
+    expect(undoEvents.results).toHaveLength(2);
+    expect(undoEvents.results.map((row) => JSON.parse(row.details).status).sort()).toEqual([
+      'called',
+      'waiting',
+    ]);
+
+    // A kick from the middle of the line goes back to the same spot
+    await hostPost('kick', { partyId: catId });
+    await hostPost('undo');
+    snapshot = await hostSnapshot();
+    expect(snapshot.queue.map((party) => party.id)).toEqual([benId, catId, danId]);
+
+    // Older actions can be undone in turn: the first call puts Ann back in line
+    await hostPost('undo');
+    snapshot = await hostSnapshot();
+    expect(snapshot.nowServing).toBeNull();
+    expect(snapshot.queue.map((party) => party.id)).toEqual([annId, benId, catId, danId]);
+    expect((await hostPost('undo')).status).toBe(410);
+
+    // Once a party the action moved has gone elsewhere, the action can't be undone
+    await hostPost('advance');
+    await hostPost('advance', { servedParty: annId });
+    await fetchJson(`/api/queue/${shortCode}/leave`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ partyId: benId }),
+    });
+    expect((await hostPost('undo')).status).toBe(409);
+  }, 30000);
+
+  it('tells a guest again when they are called or put back after an undo', async () => {
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.26' },
+      body: JSON.stringify({ eventName: 'Undo Push Test', maxGuests: 10 }),
+    });
+    const { code: shortCode, sessionId } = await createResponse.json<{
+      code: string;
+      sessionId: string;
+    }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+    const joinResponse = await fetchJson(`/api/queue/${shortCode}/join`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.26' },
+      body: JSON.stringify({
+        name: 'Ann',
+        size: 1,
+        turnstileToken: 'stub-token',
+        contacts: { sms: '+1 (555) 260-0026' },
+      }),
+    });
+    const { partyId: annId } = await joinResponse.json<{ partyId: string }>();
+    const emitted = await captureQueueEvents(sessionId);
+
+    const hostPost = (action: string, body: Record<string, unknown> = {}) =>
+      fetchJson(`/api/queue/${shortCode}/${action}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', Cookie: hostCookie },
+        body: JSON.stringify(body),
+      });
+    expect((await hostPost('advance')).status).toBe(200);
+    expect((await hostPost('undo')).status).toBe(200);
+    expect((await hostPost('advance')).status).toBe(200);
+    for (let round = 0; round < 2; round++) {
+      expect((await hostPost('advance', { servedParty: annId })).status).toBe(200);
+      expect((await hostPost('undo')).status).toBe(200);
+    }
+
+    expect((await deliverQueueEvents(emitted)).get('+15552600026')).toEqual([
+      "It's your turn!",
+      "It's your turn!",
+      "You're back in line",
+      "You're back in line",
+    ]);
+  }, 30000);
+
+  it('lets guests snooze by letting others go ahead or stepping out for a while', async () => {
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.10' },
+      body: JSON.stringify({ eventName: 'Snooze Test', maxGuests: 10 }),
+    });
+    const { code: shortCode } = await createResponse.json<{ code: string }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+
+    const partyIds: string[] = [];
+    for (const name of ['Ann', 'Ben', 'Cat', 'Dan']) {
+      const joinResponse = await fetchJson(`/api/queue/${shortCode}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.10' },
+        body: JSON.stringify({ name, size: 1, turnstileToken: 'stub-token' }),
+      });
+      partyIds.push((await joinResponse.json<{ partyId: string }>()).partyId);
+    }
+    const [annId, benId, catId, danId] = partyIds;
+
+    const snooze = (body: Record<string, unknown>) =>
+      fetchJson(`/api/queue/${shortCode}/snooze`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    const advance = (body: Record<string, unknown> = {}) =>
+      fetchJson(`/api/queue/${shortCode}/advance`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', Cookie: hostCookie },
+        body: JSON.stringify(body),
+      });
+    type SnoozeParty = { id: string; snoozes?: number; snoozedUntil?: number | null };
+    const hostSnapshot = async () =>
+      (
+        await fetchJson(`/api/queue/${shortCode}/snapshot`, { headers: { Cookie: hostCookie } })
+      ).json<{ queue: SnoozeParty[]; nowServing: SnoozeParty | null }>();
+
+    expect((await snooze({ partyId: annId, places: 0 })).status).toBe(400);
+    expect((await snooze({ partyId: annId, places: 1, until: Date.now() + 60000 })).status).toBe(
+      400
+    );
+
+    // Called but not ready: Ann lets two parties go ahead and the next one is called
+    await advance();
+    const snoozed = await snooze({ partyId: annId, places: 2 });
+    expect(snoozed.status).toBe(200);
+    expect(await snoozed.json()).toMatchObject({ ok: true, position: 3, snoozesLeft: 1 });
+    let snapshot = await hostSnapshot();
+    expect(snapshot.nowServing?.id).toBe(benId);
+    expect(snapshot.queue.map((party) => party.id)).toEqual([catId, annId, danId]);
+    expect(snapshot.queue[1].snoozes).toBe(1);
+    const snoozeEvent = await env.DB.prepare(
+      "SELECT details FROM events WHERE party_id = ?1 AND type = 'snooze'"
+    )
+      .bind(annId)
+      .first<{ details: string }>();
+    expect(JSON.parse(snoozeEvent!.details)).toEqual({ places: 2, was_called: true, count: 1 });
+
+    // Ann lets the rest go ahead, which uses up her snoozes
+    expect((await snooze({ partyId: annId, places: 5 })).status).toBe(200);
+    expect((await snooze({ partyId: annId, places: 1 })).status).toBe(409);
+    expect((await hostSnapshot()).queue.map((party) => party.id)).toEqual([catId, danId, annId]);
+
+    // Dan steps out for a moment and keeps his spot
+    const until = Date.now() + 1500;
+    expect((await snooze({ partyId: danId, until })).status).toBe(200);
+    snapshot = await hostSnapshot();
+    expect(snapshot.queue.find((party) => party.id === danId)?.snoozedUntil).toBe(until);
+    const danView = await (
+      await fetchJson(`/api/queue/${shortCode}/snapshot?partyId=${danId}`)
+    ).json<{ snoozedUntil: number | null; estimatedWaitMs: number }>();
+    expect(danView.snoozedUntil).toBe(until);
+    expect(danView.estimatedWaitMs).toBeGreaterThan(until - Date.now() - 100);
+
+    // Snoozed guests are skipped when calling, until they're back
+    await advance({ servedParty: benId });
+    await advance({ servedParty: catId });
+    const lastCall = await advance({ servedParty: annId });
+    expect(await lastCall.json()).toMatchObject({ nowServing: null });
+
+    await new Promise((resolve) => setTimeout(resolve, until - Date.now() + 50));
+    expect(await (await advance()).json()).toMatchObject({ nowServing: { id: danId } });
+    // Nobody is left behind Dan to let ahead
+    expect((await snooze({ partyId: danId, places: 1 })).status).toBe(409);
+  }, 30000);
+
+  it('lets the owner add co-hosts and caller-only staff and records who acted', async () => {
+    const bearer: Record<string, string> = {};
+    for (const name of ['owner', 'cohost', 'caller']) {
+      await env.DB.prepare('INSERT INTO users (id, email) VALUES (?1, ?2)')
+        .bind(`user-${name}`, `${name}@example.com`)
+        .run();
+      bearer[name] = `Bearer ${(await createSession(env.DB, `user-${name}`)).id}`;
+    }
+
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'CF-Connecting-IP': '203.0.113.11',
+        Authorization: bearer.owner,
+      },
+      body: JSON.stringify({ eventName: 'Staff Test', maxGuests: 10 }),
+    });
+    const { code: shortCode, sessionId } = await createResponse.json<{
+      code: string;
+      sessionId: string;
+    }>();
+
+    const members = (as: string, method = 'GET', body?: Record<string, unknown>) =>
+      fetchJson(`/api/queue/${shortCode}/members`, {
+        method,
+        headers: { 'content-type': 'application/json', Authorization: bearer[as] },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+    const hostAction = (as: string, action: string, body: Record<string, unknown> = {}) =>
+      fetchJson(`/api/queue/${shortCode}/${action}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', Authorization: bearer[as] },
+        body: JSON.stringify(body),
+      });
+
+    // Only the owner can invite, and only people with an account
+    expect(
+      (await members('cohost', 'POST', { email: 'cohost@example.com', role: 'cohost' })).status
+    ).toBe(401);
+    expect(
+      (await members('owner', 'POST', { email: 'nobody@example.com', role: 'cohost' })).status
+    ).toBe(404);
+    expect(
+      (await members('owner', 'POST', { email: 'caller@example.com', role: 'admin' })).status
+    ).toBe(400);
+    expect(
+      (await members('owner', 'POST', { email: 'COHOST@example.com', role: 'cohost' })).status
+    ).toBe(200);
+    expect(
+      (await members('owner', 'POST', { email: 'caller@example.com', role: 'caller' })).status
+    ).toBe(200);
+
+    expect((await members('caller')).status).toBe(403);
+    const listed = await (
+      await members('cohost')
+    ).json<{
+      members: { userId: string; role: string }[];
+    }>();
+    expect(listed.members.map(({ userId, role }) => ({ userId, role }))).toEqual([
+      { userId: 'user-cohost', role: 'cohost' },
+      { userId: 'user-caller', role: 'caller' },
+    ]);
+    expect(
+      (await members('cohost', 'POST', { email: 'caller@example.com', role: 'cohost' })).status
+    ).toBe(403);
+
+    const staffed = await (
+      await fetchJson('/api/queues/mine', { headers: { Authorization: bearer.cohost } })
+    ).json<{ queues: { shortCode: string; role: string }[] }>();
+    expect(staffed.queues).toEqual([expect.objectContaining({ shortCode, role: 'cohost' })]);
+
+    const partyIds: string[] = [];
+    for (const name of ['Ann', 'Ben']) {
+      const joinResponse = await fetchJson(`/api/queue/${shortCode}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.11' },
+        body: JSON.stringify({ name, size: 1, turnstileToken: 'stub-token' }),
+      });
+      partyIds.push((await joinResponse.json<{ partyId: string }>()).partyId);
+    }
+    const [annId, benId] = partyIds;
+
+    // Callers can call and serve guests but nothing else
+    expect((await hostAction('caller', 'advance')).status).toBe(200);
+    expect((await hostAction('caller', 'kick', { partyId: benId })).status).toBe(403);
+    expect((await hostAction('caller', 'pause')).status).toBe(403);
+    expect((await hostAction('cohost', 'kick', { partyId: benId })).status).toBe(200);
+
+    const actedBy = await env.DB.prepare(
+      "SELECT party_id, type, details FROM events WHERE session_id = ?1 AND type IN ('advanced', 'left') ORDER BY id"
+    )
+      .bind(sessionId)
+      .all<{ party_id: string; type: string; details: string }>();
+    expect(
+      actedBy.results.map((row) => [row.party_id, row.type, JSON.parse(row.details).acted_by])
+    ).toEqual([
+      [annId, 'advanced', 'user-caller'],
+      [benId, 'left', 'user-cohost'],
+    ]);
+
+    // Removed staff lose access
+    expect((await members('owner', 'DELETE', { userId: 'user-caller' })).status).toBe(200);
+    expect((await hostAction('caller', 'advance', { servedParty: annId })).status).toBe(401);
+    expect((await members('owner', 'DELETE', { userId: 'user-caller' })).status).toBe(404);
+  }, 30000);
+
+  it('hands a queue to another account and revokes the old host credentials', async () => {
+    const bearer: Record<string, string> = {};
+    for (const name of ['alice', 'bob']) {
+      await env.DB.prepare('INSERT INTO users (id, email) VALUES (?1, ?2)')
+        .bind(`user-${name}`, `${name}@example.com`)
+        .run();
+      bearer[name] = `Bearer ${(await createSession(env.DB, `user-${name}`)).id}`;
+    }
+
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'CF-Connecting-IP': '203.0.113.12',
+        Authorization: bearer.alice,
+      },
+      body: JSON.stringify({ eventName: 'Transfer Test', maxGuests: 10 }),
+    });
+    const {
+      code: shortCode,
+      sessionId,
+      hostAuthToken: oldToken,
+    } = await createResponse.json<{ code: string; sessionId: string; hostAuthToken: string }>();
+    const oldCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+
+    const transfer = (as: string, method = 'POST', body?: Record<string, unknown>) =>
+      fetchJson(`/api/queue/${shortCode}/transfer`, {
+        method,
+        headers: { 'content-type': 'application/json', Authorization: bearer[as] },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+    const accept = (as: string) =>
+      fetchJson(`/api/queue/${shortCode}/accept-transfer`, {
+        method: 'POST',
+        headers: { Authorization: bearer[as] },
+      });
+    const advance = (headers: Record<string, string>) =>
+      fetchJson(`/api/queue/${shortCode}/advance`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...headers },
+        body: JSON.stringify({}),
+      });
+
+    expect((await transfer('bob', 'POST', { email: 'bob@example.com' })).status).toBe(403);
+    expect((await transfer('alice', 'POST', { email: 'alice@example.com' })).status).toBe(400);
+    expect((await transfer('alice', 'POST', { email: 'Bob@example.com' })).status).toBe(200);
+
+    const mine = await (
+      await fetchJson('/api/queues/mine', { headers: { Authorization: bearer.alice } })
+    ).json<{ queues: { shortCode: string; pendingTransferTo: string | null }[] }>();
+    expect(mine.queues).toEqual([
+      expect.objectContaining({ shortCode, pendingTransferTo: 'bob@example.com' }),
+    ]);
+    const incoming = await (
+      await fetchJson('/api/queues/transfers', { headers: { Authorization: bearer.bob } })
+    ).json<{ transfers: { shortCode: string; fromEmail: string }[] }>();
+    expect(incoming.transfers).toEqual([
+      expect.objectContaining({ shortCode, fromEmail: 'alice@example.com' }),
+    ]);
+
+    expect((await accept('alice')).status).toBe(404);
+    const accepted = await accept('bob');
+    expect(accepted.status).toBe(200);
+    const { hostAuthToken: newToken } = await accepted.json<{ hostAuthToken: string }>();
+    expect(newToken).not.toBe(oldToken);
+    expect(accepted.headers.get('set-cookie')).toContain(newToken);
+
+    // The old owner's account, link and cookie no longer work; the new ones do
+    expect((await advance({ Authorization: bearer.alice })).status).toBe(401);
+    expect((await advance({ 'x-host-auth': oldToken })).status).toBe(403);
+    expect((await advance({ Cookie: oldCookie })).status).toBe(403);
+    expect((await advance({ 'x-host-auth': newToken })).status).toBe(200);
+    expect((await advance({ Authorization: bearer.bob })).status).toBe(200);
+
+    const session = await env.DB.prepare(
+      'SELECT owner_id, pending_owner_id, host_epoch FROM sessions WHERE id = ?1'
+    )
+      .bind(sessionId)
+      .first();
+    expect(session).toEqual({ owner_id: 'user-bob', pending_owner_id: null, host_epoch: 1 });
+
+    // A nominee can decline instead
+    expect((await transfer('bob', 'POST', { email: 'alice@example.com' })).status).toBe(200);
+    expect((await transfer('alice', 'DELETE')).status).toBe(200);
+    expect((await accept('alice')).status).toBe(404);
+    expect((await transfer('bob', 'DELETE')).status).toBe(404);
+  }, 30000);
+
+  it('collects answers to the host-defined join form fields', async () => {
+    const create = (joinFields: unknown) =>
+      fetchJson('/api/queue/create', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.13' },
+        body: JSON.stringify({ eventName: 'Join Fields Test', maxGuests: 10, joinFields }),
+      });
+    expect((await create([{ label: 'Reason', type: 'select', options: ['Only'] }])).status).toBe(
+      400
+    );
+
+    const createResponse = await create([
+      { label: 'Phone', type: 'phone', required: true },
+      { label: 'Reason for visit', type: 'select', options: ['Returns', 'Pickup'] },
+      { label: 'Has a ticket', type: 'checkbox' },
+    ]);
+    expect(createResponse.status).toBe(200);
+    const { code: shortCode, sessionId } = await createResponse.json<{
+      code: string;
+      sessionId: string;
+    }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+
+    const info = await (
+      await fetchJson(`/api/queue/${shortCode}/info`)
+    ).json<{
+      joinFields: { id: string; label: string }[];
+    }>();
+    expect(info.joinFields.map((field) => field.id)).toEqual(['field1', 'field2', 'field3']);
+
+    const join = (answers: unknown) =>
+      fetchJson(`/api/queue/${shortCode}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.13' },
+        body: JSON.stringify({ name: 'Ann', size: 1, turnstileToken: 'stub-token', answers }),
+      });
+    const missing = await join({ field2: 'Pickup' });
+    expect(missing.status).toBe(400);
+    expect(await missing.json()).toMatchObject({ error: 'Phone is required' });
+    expect((await join({ field1: '555 0100 100', field2: 'Complaints' })).status).toBe(400);
+
+    const joined = await join({ field1: '555 0100 100', field2: 'Pickup', field3: false });
+    expect(joined.status).toBe(200);
+    const { partyId } = await joined.json<{ partyId: string }>();
+
+    const snapshot = await (
+      await fetchJson(`/api/queue/${shortCode}/snapshot`, { headers: { Cookie: hostCookie } })
+    ).json<{ queue: { id: string; answers?: Record<string, unknown> }[] }>();
+    expect(snapshot.queue[0]).toMatchObject({
+      id: partyId,
+      answers: { field1: '555 0100 100', field2: 'Pickup' },
+    });
+
+    const row = await env.DB.prepare(
+      'SELECT answers FROM parties WHERE id = ?1 AND session_id = ?2'
+    )
+      .bind(partyId, sessionId)
+      .first<{ answers: string }>();
+    expect(JSON.parse(row!.answers)).toEqual({ field1: '555 0100 100', field2: 'Pickup' });
+  }, 30000);
+
+  it('keeps host notes and tags on parties without showing them to guests', async () => {
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.14' },
+      body: JSON.stringify({ eventName: 'Notes Test', maxGuests: 10 }),
+    });
+    const { code: shortCode } = await createResponse.json<{ code: string }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+
+    const joinResponse = await fetchJson(`/api/queue/${shortCode}/join`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.14' },
+      body: JSON.stringify({ name: 'Ann', size: 1, turnstileToken: 'stub-token' }),
+    });
+    const { partyId } = await joinResponse.json<{ partyId: string }>();
+
+    const annotate = (body: Record<string, unknown>, cookie?: string) =>
+      fetchJson(`/api/queue/${shortCode}/annotate`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...(cookie ? { Cookie: cookie } : {}) },
+        body: JSON.stringify({ partyId, ...body }),
+      });
+    expect((await annotate({ note: 'Needs a ramp' })).status).toBe(401);
+    expect((await annotate({}, hostCookie)).status).toBe(400);
+    expect((await annotate({ tags: [{ label: 'Paid', color: 'teal' }] }, hostCookie)).status).toBe(
+      400
+    );
+
+    const annotated = await annotate(
+      {
+        note: '  Needs wheelchair access ',
+        tags: [
+          { label: 'Accessibility', color: 'blue' },
+          { label: 'Paid', color: 'green' },
+          { label: 'paid', color: 'red' },
+        ],
+      },
+      hostCookie
+    );
+    expect(annotated.status).toBe(200);
+    expect(await annotated.json()).toEqual({
+      ok: true,
+      note: 'Needs wheelchair access',
+      tags: [
+        { label: 'Accessibility', color: 'blue' },
+        { label: 'Paid', color: 'green' },
+      ],
+    });
+
+    // Changing only the tags keeps the note
+    expect((await annotate({ tags: [{ label: 'Paid', color: 'green' }] }, hostCookie)).status).toBe(
+      200
+    );
+    const hostSnapshot = await (
+      await fetchJson(`/api/queue/${shortCode}/snapshot`, { headers: { Cookie: hostCookie } })
+    ).json<{ queue: { id: string; note?: string; tags?: unknown[] }[] }>();
+    expect(hostSnapshot.queue[0]).toMatchObject({
+      id: partyId,
+      note: 'Needs wheelchair access',
+      tags: [{ label: 'Paid', color: 'green' }],
+    });
+
+    const guestSnapshot = await (
+      await fetchJson(`/api/queue/${shortCode}/snapshot?partyId=${partyId}`)
+    ).text();
+    expect(guestSnapshot).not.toContain('wheelchair');
+    expect(guestSnapshot).not.toContain('Paid');
+
+    const row = await env.DB.prepare('SELECT host_note, tags FROM parties WHERE id = ?1')
+      .bind(partyId)
+      .first<{ host_note: string | null; tags: string | null }>();
+    expect(row?.host_note).toBe('Needs wheelchair access');
+    expect(JSON.parse(row!.tags!)).toEqual([{ label: 'Paid', color: 'green' }]);
+  }, 30000);
+
+  it('puts overflow guests on standby and promotes them as capacity frees up', async () => {
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.15' },
+      body: JSON.stringify({ eventName: 'Standby Test', maxGuests: 2 }),
+    });
+    const { code: shortCode } = await createResponse.json<{ code: string }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+
+    const join = (name: string, size: number) =>
+      fetchJson(`/api/queue/${shortCode}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.15' },
+        body: JSON.stringify({ name, size, turnstileToken: 'stub-token' }),
+      });
+    const leave = (partyId: string) =>
+      fetchJson(`/api/queue/${shortCode}/leave`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ partyId }),
+      });
+    const guestSnapshot = async (partyId: string) =>
+      (await fetchJson(`/api/queue/${shortCode}/snapshot?partyId=${partyId}`)).json<{
+        type: string;
+        position?: number;
+        standbyPosition?: number;
+        standbyCount?: number;
+      }>();
+    const hostSnapshot = async () =>
+      (
+        await fetchJson(`/api/queue/${shortCode}/snapshot`, { headers: { Cookie: hostCookie } })
+      ).json<{
+        queue: { id: string }[];
+        standby: { id: string }[];
+      }>();
+
+    const ann = await (await join('Ann', 2)).json<{ partyId: string; position: number }>();
+    expect(ann.position).toBe(1);
+
+    const bobResponse = await join('Bob', 1);
+    expect(bobResponse.status).toBe(200);
+    const bob = await bobResponse.json<{
+      partyId: string;
+      standby?: boolean;
+      standbyPosition?: number;
+    }>();
+    expect(bob).toMatchObject({ standby: true, standbyPosition: 1 });
+    const cat = await (await join('Cat', 1)).json<{ partyId: string; standbyPosition?: number }>();
+    expect(cat.standbyPosition).toBe(2);
+    // Standby is capped at maxGuests too
+    expect((await join('Dan', 1)).status).toBe(409);
+
+    expect(await guestSnapshot(bob.partyId)).toMatchObject({
+      type: 'standby',
+      standbyPosition: 1,
+      standbyCount: 2,
+    });
+    expect((await hostSnapshot()).standby.map((party) => party.id)).toEqual([
+      bob.partyId,
+      cat.partyId,
+    ]);
+
+    // Leaving the standby list moves everyone behind up
+    expect((await leave(bob.partyId)).status).toBe(200);
+    expect((await guestSnapshot(cat.partyId)).standbyPosition).toBe(1);
+
+    // Ann leaving frees the room Cat was waiting for
+    expect((await leave(ann.partyId)).status).toBe(200);
+    const afterPromotion = await hostSnapshot();
+    expect(afterPromotion.queue.map((party) => party.id)).toEqual([cat.partyId]);
+    expect(afterPromotion.standby).toEqual([]);
+    expect(await guestSnapshot(cat.partyId)).toMatchObject({ type: 'position', position: 1 });
+
+    const row = await env.DB.prepare('SELECT status FROM parties WHERE id = ?1')
+      .bind(cat.partyId)
+      .first<{ status: string }>();
+    expect(row?.status).toBe('waiting');
+    const promotedEvent = await env.DB.prepare(
+      "SELECT COUNT(*) as count FROM events WHERE party_id = ?1 AND type = 'promoted'"
+    )
+      .bind(cat.partyId)
+      .first<{ count: number }>();
+    expect(promotedEvent?.count).toBe(1);
+  }, 30000);
+
+  it('writes a row or two per join and serve with 5,000 parties in line', async () => {
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.16' },
+      body: JSON.stringify({ eventName: 'Festival Gate', maxGuests: 5000 }),
+    });
+    expect(createResponse.status).toBe(200);
+    const { code: shortCode, sessionId } = await createResponse.json<{
+      code: string;
+      sessionId: string;
+    }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+
+    // Seed the line straight into D1; the queue loads it on first use
+    const joinedAt = Math.floor(Date.now() / 1000) - 5000;
+    await env.DB.prepare(
+      `WITH RECURSIVE seq(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM seq WHERE n < 4999)
+       INSERT INTO parties (id, session_id, name, size, status, nearby, joined_at)
+       SELECT ?1 || '-' || n, ?1, 'Guest ' || n, 1, 'waiting', 0, ?2 + n FROM seq`
+    )
+      .bind(sessionId, joinedAt)
+      .run();
+
+    const hostSnapshot = async (query = '') =>
+      fetchJson(`/api/queue/${shortCode}/snapshot${query}`, { headers: { Cookie: hostCookie } });
+    const firstPage = await (
+      await hostSnapshot()
+    ).json<{ queue: { id: string }[]; queueTotal: number; queueOffset: number }>();
+    expect(firstPage.queue).toHaveLength(100);
+    expect(firstPage.queueTotal).toBe(4999);
+    expect(firstPage.queueOffset).toBe(0);
+
+    // Protocol-2 hosts are sent and patched on the same first page, not the whole line
+    const hostWs = await connectWebSocket(`/api/queue/${shortCode}/connect?v=2`, {
+      Cookie: hostCookie,
+    });
+    const liveSnapshot = await hostWs.waitForMessage<{ queue: unknown[]; queueTotal: number }>();
+    expect(liveSnapshot.queue).toHaveLength(100);
+    expect(liveSnapshot.queueTotal).toBe(4999);
+
+    // Count the queue_parties rows each mutation writes; it mustn't grow with the line
+    const stub = env.QUEUE_DO.get(env.QUEUE_DO.idFromString(sessionId));
+    const partyWrites = { count: 0 };
+    await runInDurableObject(stub, async (_instance, state) => {
+      const sql = state.storage.sql;
+      const exec = sql.exec.bind(sql);
+      sql.exec = ((query: string, ...bindings: unknown[]) => {
+        if (/^(INSERT|DELETE)\b[^]*\bqueue_parties\b/.test(query)) {
+          partyWrites.count += 1;
+        }
+        return exec(query, ...bindings);
+      }) as typeof sql.exec;
+    });
+
+    for (let served = 1; served <= 3; served++) {
+      const advanceResponse = await fetchJson(`/api/queue/${shortCode}/advance`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', Cookie: hostCookie },
+        body: JSON.stringify(served > 1 ? { servedParty: `${sessionId}-${served - 1}` } : {}),
+      });
+      expect(advanceResponse.status).toBe(200);
+      expect(
+        (await advanceResponse.json<{ nowServing: { id: string } | null }>()).nowServing?.id
+      ).toBe(`${sessionId}-${served}`);
+    }
+    // One row removed per call, as the called party moves to the counter
+    expect(partyWrites.count).toBe(3);
+
+    const joinedIds: string[] = [];
+    for (const name of ['Late Arrival', 'Later Arrival', 'Last Arrival']) {
+      const joinResponse = await fetchJson(`/api/queue/${shortCode}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.16' },
+        body: JSON.stringify({ name, size: 1, turnstileToken: 'stub-token' }),
+      });
+      expect(joinResponse.status).toBe(200);
+      const joined = await joinResponse.json<{ partyId: string; position: number }>();
+      // Behind the 4,996 still waiting and the party at the counter
+      expect(joined.position).toBe(4998 + joinedIds.length);
+      joinedIds.push(joined.partyId);
+    }
+    // One new row per join
+    expect(partyWrites.count).toBe(6);
+
+    const lastPage = await (
+      await hostSnapshot('?offset=4950&limit=100')
+    ).json<{ queue: { id: string }[]; queueTotal: number }>();
+    expect(lastPage.queueTotal).toBe(4999);
+    expect(lastPage.queue).toHaveLength(49);
+    expect(lastPage.queue[48].id).toBe(joinedIds[2]);
+    expect((await hostSnapshot('?limit=5000')).status).toBe(400);
+
+    // Every party is its own row rather than part of one state blob
+    const stored = await runInDurableObject(stub, async (_instance, state) => ({
+      rows: state.storage.sql
+        .exec<{ count: number }>('SELECT COUNT(*) AS count FROM queue_parties')
+        .one().count,
+      blob: await state.storage.get<{ queue?: unknown[] }>('state'),
+    }));
+    expect(stored.rows).toBe(4999);
+    expect(stored.blob?.queue).toBeUndefined();
+    hostWs.socket.close(1000, 'done');
+  }, 60000);
+
+  it('streams numbered patches to protocol-2 sockets and resyncs on request', async () => {
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.17' },
+      body: JSON.stringify({ eventName: 'Delta Test', maxGuests: 10 }),
+    });
+    const { code: shortCode } = await createResponse.json<{ code: string }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+    const join = async (name: string) =>
+      (
+        await fetchJson(`/api/queue/${shortCode}/join`, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.17' },
+          body: JSON.stringify({ name, size: 1, turnstileToken: 'stub-token' }),
+        })
+      ).json<{ partyId: string }>();
+
+    type DeltaMessage = {
+      v: number;
+      seq: number;
+      type: string;
+      index?: number;
+      party?: { id: string };
+      partyId?: string;
+      queue?: { id: string }[];
+      queueOffset?: number;
+      queueTotal?: number;
+      nowServing?: { id: string } | null;
+      position?: number;
+    };
+    const hostWs = await connectWebSocket(`/api/queue/${shortCode}/connect?v=2`, {
+      Cookie: hostCookie,
+    });
+    const legacyWs = await connectWebSocket(`/api/queue/${shortCode}/connect`, {
+      Cookie: hostCookie,
+    });
+    const initial = await hostWs.waitForMessage<DeltaMessage>();
+    expect(initial).toMatchObject({ v: 2, seq: 0, type: 'snapshot', queue: [] });
+    expect((await legacyWs.waitForMessage<QueueUpdateMessage>()).type).toBe('queue_update');
+
+    // Reads host messages up to the first of `type`, checking none were skipped
+    let seq = initial.seq;
+    const nextOfType = async (type: string) => {
+      for (;;) {
+        const message = await hostWs.waitForMessage<DeltaMessage>();
+        expect(message.seq).toBe(++seq);
+        if (message.type === type) {
+          return message;
+        }
+      }
+    };
+
+    const ann = await join('Ann');
+    expect(await nextOfType('party_added')).toMatchObject({ index: 0, party: { id: ann.partyId } });
+    const bob = await join('Bob');
+    expect(await nextOfType('party_added')).toMatchObject({ index: 1, party: { id: bob.partyId } });
+    // Legacy sockets on the same queue still get full snapshots
+    const legacyAfterJoin = await legacyWs.waitForMessage<QueueUpdateMessage>();
+    expect(legacyAfterJoin.queue.map((party) => party.id)).toEqual([ann.partyId]);
+
+    // Hosts are only sent the page they ask for, and can move to another with a resync
+    const pagedWs = await connectWebSocket(`/api/queue/${shortCode}/connect?v=2&limit=1`, {
+      Cookie: hostCookie,
+    });
+    expect(await pagedWs.waitForMessage<DeltaMessage>()).toMatchObject({
+      seq: 0,
+      type: 'snapshot',
+      queue: [{ id: ann.partyId }],
+      queueOffset: 0,
+      queueTotal: 2,
+    });
+    pagedWs.socket.send(JSON.stringify({ type: 'resync', offset: 1, limit: 1 }));
+    expect(await pagedWs.waitForMessage<DeltaMessage>()).toMatchObject({
+      seq: 0,
+      type: 'snapshot',
+      queue: [{ id: bob.partyId }],
+      queueOffset: 1,
+    });
+
+    const guestWs = await connectWebSocket(
+      `/api/queue/${shortCode}/connect?partyId=${bob.partyId}&v=2`
+    );
+    expect(await guestWs.waitForMessage<DeltaMessage>()).toMatchObject({
+      v: 2,
+      seq: 0,
+      type: 'position',
+      position: 2,
+    });
+
+    const advance = (body: Record<string, unknown>) =>
+      fetchJson(`/api/queue/${shortCode}/advance`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', Cookie: hostCookie },
+        body: JSON.stringify(body),
+      });
+    expect((await advance({})).status).toBe(200);
+    expect(await nextOfType('party_removed')).toMatchObject({ partyId: ann.partyId });
+    expect(await nextOfType('now_serving_changed')).toMatchObject({
+      nowServing: { id: ann.partyId },
+    });
+    // Bob moved up off the second page; its patches are numbered on their own
+    expect(await pagedWs.waitForMessage<DeltaMessage>()).toMatchObject({
+      seq: 1,
+      type: 'party_removed',
+      partyId: bob.partyId,
+    });
+
+    // Bob's position didn't change when Ann was called, so his first update is being called
+    expect((await advance({ servedParty: ann.partyId })).status).toBe(200);
+    expect(await nextOfType('party_removed')).toMatchObject({ partyId: bob.partyId });
+    expect(await guestWs.waitForMessage<DeltaMessage>()).toMatchObject({ seq: 1, type: 'called' });
+
+    // A client that lost track asks for the whole state again
+    hostWs.socket.send(JSON.stringify({ type: 'resync' }));
+    let resync = await hostWs.waitForMessage<DeltaMessage>();
+    while (resync.type !== 'snapshot') {
+      resync = await hostWs.waitForMessage<DeltaMessage>();
+    }
+    expect(resync.queue).toEqual([]);
+    expect(resync.seq).toBeGreaterThanOrEqual(seq);
+
+    hostWs.socket.close(1000, 'done');
+    legacyWs.socket.close(1000, 'done');
+    pagedWs.socket.close(1000, 'done');
+    guestWs.socket.close(1000, 'done');
+  }, 30000);
+
+  it('serves live updates as server-sent events and long polls', async () => {
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.18' },
+      body: JSON.stringify({ eventName: 'Fallback Test', maxGuests: 10 }),
+    });
+    const { code: shortCode } = await createResponse.json<{ code: string }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+    const join = async (name: string) =>
+      (
+        await fetchJson(`/api/queue/${shortCode}/join`, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.18' },
+          body: JSON.stringify({ name, size: 1, turnstileToken: 'stub-token' }),
+        })
+      ).json<{ partyId: string }>();
+
+    // Yields the JSON of each `data:` event, skipping the retry hint
+    const openEvents = async (query: string, headers?: HeadersInit) => {
+      const response = await fetchJson(`/api/queue/${shortCode}/events?${query}`, { headers });
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('text/event-stream');
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+      let buffered = '';
+      const next = async <T>(): Promise<T> => {
+        for (;;) {
+          const boundary = buffered.indexOf('\n\n');
+          if (boundary !== -1) {
+            const event = buffered.slice(0, boundary);
+            buffered = buffered.slice(boundary + 2);
+            if (event.startsWith('data: ')) {
+              return JSON.parse(event.slice('data: '.length)) as T;
+            }
+            continue;
+          }
+          const { value, done } = await reader.read();
+          if (done) {
+            throw new Error('Event stream ended');
+          }
+          buffered += value;
+        }
+      };
+      return { next, close: () => reader.cancel() };
+    };
+
+    const ann = await join('Ann');
+    expect((await fetchJson(`/api/queue/${shortCode}/events?v=2`)).status).toBe(401);
+    const hostEvents = await openEvents('v=2', { Cookie: hostCookie });
+    expect(await hostEvents.next()).toMatchObject({ v: 2, type: 'snapshot' });
+    const guestEvents = await openEvents(`partyId=${ann.partyId}&v=2`);
+    expect(await guestEvents.next()).toMatchObject({ v: 2, seq: 0, type: 'position', position: 1 });
+
+    const bob = await join('Bob');
+    expect(await hostEvents.next()).toMatchObject({
+      type: 'party_added',
+      party: { id: bob.partyId },
+    });
+    expect(await guestEvents.next()).toMatchObject({ seq: 0, type: 'position', queueLength: 2 });
+
+    // A long poll holds on to a 304 until something changes for that guest
+    const guestSnapshotUrl = `/api/queue/${shortCode}/snapshot?partyId=${ann.partyId}`;
+    const etag = (await fetchJson(guestSnapshotUrl)).headers.get('etag')!;
+    const idle = await fetchJson(`${guestSnapshotUrl}&wait=1`, {
+      headers: { 'If-None-Match': etag },
+    });
+    expect(idle.status).toBe(304);
+    const waiting = fetchJson(`${guestSnapshotUrl}&wait=20`, {
+      headers: { 'If-None-Match': etag },
+    });
+    const advanceResponse = await fetchJson(`/api/queue/${shortCode}/advance`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', Cookie: hostCookie },
+      body: JSON.stringify({}),
+    });
+    expect(advanceResponse.status).toBe(200);
+    const changed = await waiting;
+    expect(changed.status).toBe(200);
+    expect(await changed.json()).toMatchObject({ type: 'called' });
+    expect(await guestEvents.next()).toMatchObject({ seq: 1, type: 'called' });
+
+    expect((await fetchJson(`${guestSnapshotUrl}&wait=600`)).status).toBe(400);
+
+    await hostEvents.close();
+    await guestEvents.close();
+  }, 30000);
+
+  it('replays the calls and removals a guest missed while disconnected', async () => {
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.19' },
+      body: JSON.stringify({ eventName: 'Replay Test', maxGuests: 10 }),
+    });
+    const { code: shortCode } = await createResponse.json<{ code: string }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+    const joinResponse = await fetchJson(`/api/queue/${shortCode}/join`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.19' },
+      body: JSON.stringify({ name: 'Ann', size: 1, turnstileToken: 'stub-token' }),
+    });
+    const { partyId } = await joinResponse.json<{ partyId: string }>();
+    const hostAction = (action: string, body: Record<string, unknown>) =>
+      fetchJson(`/api/queue/${shortCode}/${action}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', Cookie: hostCookie },
+        body: JSON.stringify(body),
+      });
+
+    type GuestReplayMessage = {
+      seq: number;
+      type: string;
+      replay?: boolean;
+      at?: number;
+      reason?: string;
+    };
+    const connectPath = `/api/queue/${shortCode}/connect?partyId=${partyId}&v=2`;
+    const firstWs = await connectWebSocket(connectPath);
+    const initial = await firstWs.waitForMessage<GuestReplayMessage>();
+    expect(initial).toMatchObject({ seq: 0, type: 'position' });
+    firstWs.socket.close(1000, 'asleep');
+
+    // Called and then dropped for not showing up, all while the phone was asleep
+    const calledAt = Date.now();
+    expect((await hostAction('advance', {})).status).toBe(200);
+    expect((await hostAction('kick', { partyId })).status).toBe(200);
+
+    const resumedWs = await connectWebSocket(`${connectPath}&since=${initial.seq}`);
+    const called = await resumedWs.waitForMessage<GuestReplayMessage>();
+    expect(called).toMatchObject({ seq: 1, type: 'called', replay: true });
+    expect(called.at).toBeGreaterThanOrEqual(calledAt);
+    expect(await resumedWs.waitForMessage<GuestReplayMessage>()).toMatchObject({
+      seq: 2,
+      type: 'removed',
+      replay: true,
+    });
+    // Then the current state, which for a party no longer in line is a removal
+    expect(await resumedWs.waitForMessage<GuestReplayMessage>()).toMatchObject({
+      seq: 2,
+      type: 'removed',
+    });
+
+    // Nothing to replay for a guest who is already up to date
+    const currentWs = await connectWebSocket(`${connectPath}&since=2`);
+    const current = await currentWs.waitForMessage<GuestReplayMessage>();
+    expect(current.replay).toBeUndefined();
+    expect(current).toMatchObject({ seq: 2, type: 'removed' });
+  }, 30000);
+
+  it('feeds display boards names or tickets without host-only fields', async () => {
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.20' },
+      body: JSON.stringify({ eventName: 'Board Test', maxGuests: 10 }),
+    });
+    const { code: shortCode } = await createResponse.json<{ code: string }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+    const hostAction = (action: string, body: Record<string, unknown>) =>
+      fetchJson(`/api/queue/${shortCode}/${action}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', Cookie: hostCookie },
+        body: JSON.stringify(body),
+      });
+    const partyIds: string[] = [];
+    for (const name of ['Ann', 'Bob']) {
+      const joinResponse = await fetchJson(`/api/queue/${shortCode}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.20' },
+        body: JSON.stringify({ name, size: 1, turnstileToken: 'stub-token' }),
+      });
+      partyIds.push((await joinResponse.json<{ partyId: string }>()).partyId);
+    }
+    expect(
+      (await hostAction('annotate', { partyId: partyIds[0], note: 'Comped dessert' })).status
+    ).toBe(200);
+
+    const unauthorized = await fetchJson(`/api/queue/${shortCode}/board`, { method: 'POST' });
+    expect(unauthorized.status).toBe(401);
+    const boardResponse = await hostAction('board', {});
+    expect(boardResponse.status).toBe(200);
+    const { token } = await boardResponse.json<{ token: string }>();
+    expect(
+      (await fetchJson(`/api/queue/${shortCode}/snapshot?board=${token.slice(1)}`)).status
+    ).toBe(401);
+
+    type BoardMessage = {
+      type: string;
+      eventName?: string;
+      counters: { name: string; nowServing: { ticket: number; name: string | null } | null }[];
+      upNext: { ticket: number; name: string | null }[];
+      queueLength: number;
+      avgServiceMs: number;
+      estimatedWaitMs: number;
+    };
+    const board = await connectWebSocket(`/api/queue/${shortCode}/connect?board=${token}`);
+    const initial = await board.waitForMessage<BoardMessage>();
+    expect(initial).toMatchObject({
+      type: 'board',
+      eventName: 'Board Test',
+      counters: [{ nowServing: null }],
+      upNext: [
+        { ticket: 1, name: 'Ann' },
+        { ticket: 2, name: 'Bob' },
+      ],
+      queueLength: 2,
+    });
+    expect(initial.avgServiceMs).toBeGreaterThan(0);
+    expect(initial.estimatedWaitMs).toBeGreaterThan(0);
+    const sent = JSON.stringify(initial);
+    for (const hidden of [...partyIds, 'Comped dessert', 'riskScore', 'answers']) {
+      expect(sent).not.toContain(hidden);
+    }
+
+    expect((await hostAction('advance', {})).status).toBe(200);
+    expect(await board.waitForMessage<BoardMessage>()).toMatchObject({
+      counters: [{ nowServing: { ticket: 1, name: 'Ann' } }],
+      upNext: [{ ticket: 2, name: 'Bob' }],
+    });
+    board.socket.close(1000, 'done');
+
+    // Ticket mode leaves names off the screen; logged-in hosts don't turn a board into a host
+    const tickets = await fetchJson(
+      `/api/queue/${shortCode}/snapshot?board=${token}&labels=tickets`,
+      { headers: { Cookie: hostCookie } }
+    );
+    expect(tickets.status).toBe(200);
+    const ticketBoard = await tickets.json<BoardMessage>();
+    expect(ticketBoard).toMatchObject({
+      type: 'board',
+      counters: [{ nowServing: { ticket: 1, name: null } }],
+      upNext: [{ ticket: 2, name: null }],
+    });
+    expect(JSON.stringify(ticketBoard)).not.toContain('Bob');
+  }, 30000);
+
+  it('texts and emails guests who leave contact details, once per kind', async () => {
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.21' },
+      body: JSON.stringify({ eventName: 'Contact Test', maxGuests: 10 }),
+    });
+    const { code: shortCode, sessionId } = await createResponse.json<{
+      code: string;
+      sessionId: string;
+    }>();
+    const info = await fetchJson(`/api/queue/${shortCode}/info`);
+    expect((await info.json<{ contactChannels: string[] }>()).contactChannels).toEqual([
+      'sms',
+      'email',
+    ]);
+
+    const join = (contacts: Record<string, string>) =>
+      fetchJson(`/api/queue/${shortCode}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.21' },
+        body: JSON.stringify({ name: 'Ann', size: 1, turnstileToken: 'stub-token', contacts }),
+      });
+    expect((await join({ sms: '555-1234' })).status).toBe(400);
+
+    const joinResponse = await join({ sms: '+1 (555) 123-4567', email: 'Ann@Example.com' });
+    expect(joinResponse.status).toBe(200);
+    const { partyId } = await joinResponse.json<{ partyId: string }>();
+    const { results } = await env.DB.prepare(
+      'SELECT channel, address FROM party_contacts WHERE party_id = ?1 ORDER BY channel'
+    )
+      .bind(partyId)
+      .all<{ channel: string; address: string }>();
+    expect(results).toEqual([
+      { channel: 'email', address: 'ann@example.com' },
+      { channel: 'sms', address: '+15551234567' },
+    ]);
+
+    const outboxStart = fakeOutbox.length;
+    const channels = createNotificationChannels(env);
+    const message = {
+      title: "It's your turn!",
+      body: 'Please head to the host stand.',
+      kind: 'called',
+    };
+    expect(await notifyContacts(env.DB, channels, sessionId, partyId, message)).toBe(true);
+    expect(await notifyContacts(env.DB, channels, sessionId, partyId, message)).toBe(true);
+    const delivered = fakeOutbox
+      .slice(outboxStart)
+      .filter((entry) => entry.title === message.title);
+    expect(delivered.map((entry) => [entry.channel, entry.to]).sort()).toEqual([
+      ['email', 'ann@example.com'],
+      ['sms', '+15551234567'],
+    ]);
+  }, 30000);
+
+  it('sends host messages to everyone, the next few parties or one party', async () => {
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.22' },
+      body: JSON.stringify({ eventName: 'Broadcast Test', maxGuests: 10 }),
+    });
+    const { code: shortCode, sessionId } = await createResponse.json<{
+      code: string;
+      sessionId: string;
+    }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+    const broadcast = (body: Record<string, unknown>) =>
+      fetchJson(`/api/queue/${shortCode}/broadcast`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', Cookie: hostCookie },
+        body: JSON.stringify(body),
+      });
+    const partyIds: string[] = [];
+    for (const name of ['Ann', 'Bob', 'Cat']) {
+      const joinResponse = await fetchJson(`/api/queue/${shortCode}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.22' },
+        body: JSON.stringify({ name, size: 1, turnstileToken: 'stub-token' }),
+      });
+      partyIds.push((await joinResponse.json<{ partyId: string }>()).partyId);
+    }
+    const [ann, bob, cat] = partyIds;
+
+    const unauthorized = await fetchJson(`/api/queue/${shortCode}/broadcast`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ message: 'Hello' }),
+    });
+    expect(unauthorized.status).toBe(401);
+    expect((await broadcast({ message: '   ' })).status).toBe(400);
+    expect((await broadcast({ message: 'Hi', target: { type: 'next', count: 0 } })).status).toBe(
+      400
+    );
+    expect(
+      (await broadcast({ message: 'Hi', target: { type: 'party', partyId: 'nobody' } })).status
+    ).toBe(404);
+
+    const guest = await connectWebSocket(`/api/queue/${shortCode}/connect?partyId=${ann}`);
+    expect(await guest.waitForMessage()).toMatchObject({ type: 'position', messages: [] });
+
+    const everyone = await broadcast({ message: "We're running 15 minutes late" });
+    expect(everyone.status).toBe(200);
+    expect(await everyone.json()).toMatchObject({ ok: true, recipients: 3 });
+    expect(await guest.waitForMessage()).toMatchObject({
+      type: 'message',
+      text: "We're running 15 minutes late",
+    });
+
+    const next = await broadcast({
+      message: 'Have your ID ready',
+      target: { type: 'next', count: 1 },
+    });
+    expect(await next.json()).toMatchObject({ recipients: 1 });
+    expect(await guest.waitForMessage()).toMatchObject({
+      type: 'message',
+      text: 'Have your ID ready',
+    });
+    const direct = await broadcast({
+      message: 'Your table is being set',
+      target: { type: 'party', partyId: cat },
+    });
+    expect(await direct.json()).toMatchObject({ recipients: 1 });
+    guest.socket.close(1000, 'done');
+
+    // Snapshots carry each guest's feed, so messages survive a reload
+    const feed = async (partyId: string) => {
+      const response = await fetchJson(`/api/queue/${shortCode}/snapshot?partyId=${partyId}`);
+      const snapshot = await response.json<{ messages: { text: string }[] }>();
+      return snapshot.messages.map((message) => message.text);
+    };
+    expect(await feed(ann)).toEqual(["We're running 15 minutes late", 'Have your ID ready']);
+    expect(await feed(bob)).toEqual(["We're running 15 minutes late"]);
+    expect(await feed(cat)).toEqual(["We're running 15 minutes late", 'Your table is being set']);
+
+    const { results } = await env.DB.prepare(
+      "SELECT party_id, details FROM events WHERE session_id = ?1 AND type = 'broadcast' ORDER BY id"
+    )
+      .bind(sessionId)
+      .all<{ party_id: string | null; details: string }>();
+    expect(results.map((row) => [row.party_id, JSON.parse(row.details).target])).toEqual([
+      [null, 'everyone'],
+      [null, 'next'],
+      [cat, 'party'],
+    ]);
+  }, 30000);
+
+  it('sends each configured nudge rule once per party', async () => {
+    const create = (nudgeRules: unknown) =>
+      fetchJson('/api/queue/create', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.23' },
+        body: JSON.stringify({ eventName: 'Nudge Test', maxGuests: 10, nudgeRules }),
+      });
+    expect((await create([{ position: 2, title: 'Hi {name}', body: 'Soon' }])).status).toBe(400);
+    expect((await create([{ title: 'Hi', body: 'Soon' }])).status).toBe(400);
+
+    const createResponse = await create([
+      { position: 3, title: "You're #{position}", body: '{ahead} ahead of you' },
+      { etaMinutes: 180, title: 'Head back', body: 'About {minutes} min at {eventName}' },
+    ]);
+    expect(createResponse.status).toBe(200);
+    const created = await createResponse.json<{
+      code: string;
+      sessionId: string;
+      nudgeRules: { id: string }[];
+    }>();
+    expect(created.nudgeRules.map((rule) => rule.id)).toEqual(['pos_3', 'eta_180']);
+    const { code: shortCode, sessionId } = created;
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+
+    const partyIds: string[] = [];
+    for (const name of ['Ann', 'Bob', 'Cat']) {
+      const joinResponse = await fetchJson(`/api/queue/${shortCode}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.23' },
+        body: JSON.stringify({ name, size: 1, turnstileToken: 'stub-token' }),
+      });
+      partyIds.push((await joinResponse.json<{ partyId: string }>()).partyId);
+    }
+    const [ann, bob, cat] = partyIds;
+    const advance = (body: Record<string, unknown> = {}) =>
+      fetchJson(`/api/queue/${shortCode}/advance`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', Cookie: hostCookie },
+        body: JSON.stringify(body),
+      });
+    expect((await advance()).status).toBe(200);
+
+    // With Ann being served, Bob is 2nd and Cat is 3rd
+    const stub = env.QUEUE_DO.get(env.QUEUE_DO.idFromString(sessionId));
+    const sentNudges = () =>
+      runInDurableObject(stub, async (instance) =>
+        [...(instance as unknown as { sentNudges: Set<string> }).sentNudges].sort()
+      );
+    expect(await sentNudges()).toEqual(
+      [`${bob}:eta_180:0`, `${cat}:eta_180:0`, `${cat}:pos_3:0`].sort()
+    );
+
+    // Moving up doesn't repeat a nudge, and served parties are forgotten
+    expect((await advance({ servedParty: ann })).status).toBe(200);
+    expect(await sentNudges()).toEqual(
+      [`${bob}:eta_180:0`, `${cat}:eta_180:0`, `${cat}:pos_3:0`].sort()
+    );
+    expect((await advance({ servedParty: bob })).status).toBe(200);
+    expect(await sentNudges()).toEqual([`${cat}:eta_180:0`, `${cat}:pos_3:0`]);
+
+    const disabled = await create([]);
+    expect(await disabled.json()).toMatchObject({ nudgeRules: [] });
+  }, 30000);
+
+  it('registers host devices and keeps alert preferences per queue', async () => {
+    await env.DB.prepare('INSERT INTO users (id, email) VALUES (?1, ?2)')
+      .bind('user-alerts', 'alerts@example.com')
+      .run();
+    const bearer = `Bearer ${(await createSession(env.DB, 'user-alerts')).id}`;
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'CF-Connecting-IP': '203.0.113.24',
+        Authorization: bearer,
+      },
+      body: JSON.stringify({ eventName: 'Alerts Test', maxGuests: 3 }),
+    });
+    const { code: shortCode, sessionId } = await createResponse.json<{
+      code: string;
+      sessionId: string;
+    }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+
+    const subscribe = (body: Record<string, unknown>, auth?: string) =>
+      fetchJson('/api/push/host-subscribe', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...(auth ? { Authorization: auth } : {}) },
+        body: JSON.stringify(body),
+      });
+    const subscription = {
+      endpoint: 'https://push.example.com/host-device',
+      keys: { p256dh: 'p256dh-key', auth: 'auth-key' },
+    };
+    expect((await subscribe({ subscription })).status).toBe(401);
+    expect((await subscribe({ expoToken: 'not-a-token' }, bearer)).status).toBe(400);
+    expect((await subscribe({ subscription }, bearer)).status).toBe(200);
+    expect((await subscribe({ subscription }, bearer)).status).toBe(200);
+
+    const alerts = (init: RequestInit = {}) =>
+      fetchJson(`/api/queue/${shortCode}/alerts`, {
+        ...init,
+        headers: { 'content-type': 'application/json', Authorization: bearer },
+      });
+    expect(await (await alerts()).json()).toEqual({
+      alerts: { capacity: true, noShow: true, autoClose: true },
+      devices: 1,
+    });
+    const updated = await alerts({ method: 'POST', body: JSON.stringify({ noShow: false }) });
+    expect(await updated.json()).toMatchObject({
+      alerts: { capacity: true, noShow: false, autoClose: true },
+    });
+    const invalid = await alerts({ method: 'POST', body: JSON.stringify({ capacity: 'yes' }) });
+    expect(invalid.status).toBe(400);
+    // The host link alone has no account to send alerts to
+    const anonymous = await fetchJson(`/api/queue/${shortCode}/alerts`, {
+      headers: { Cookie: hostCookie },
+    });
+    expect(anonymous.status).toBe(401);
+
+    // Filling the line past 90% raises the capacity alert once, until it drops back
+    const capacityAlerted = () =>
+      runInDurableObject(
+        env.QUEUE_DO.get(env.QUEUE_DO.idFromString(sessionId)),
+        async (instance) => (instance as unknown as { capacityAlerted: boolean }).capacityAlerted
+      );
+    const partyIds: string[] = [];
+    for (const name of ['Ann', 'Bob', 'Cat']) {
+      const joinResponse = await fetchJson(`/api/queue/${shortCode}/join`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.24' },
+        body: JSON.stringify({ name, size: 1, turnstileToken: 'stub-token' }),
+      });
+      partyIds.push((await joinResponse.json<{ partyId: string }>()).partyId);
+      expect(await capacityAlerted()).toBe(partyIds.length === 3);
+    }
+    // Kept in storage, so a restarted queue doesn't alert again for the same full line
+    const storedAlert = await runInDurableObject(
+      env.QUEUE_DO.get(env.QUEUE_DO.idFromString(sessionId)),
+      async (_instance, state) =>
+        (await state.storage.get<{ capacityAlerted?: boolean }>('state'))?.capacityAlerted
+    );
+    expect(storedAlert).toBe(true);
+    const leave = await fetchJson(`/api/queue/${shortCode}/leave`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ partyId: partyIds[2] }),
+    });
+    expect(leave.status).toBe(200);
+    expect(await capacityAlerted()).toBe(false);
+  }, 30000);
+
+  it('shows hosts whether each guest was reached by their latest notification', async () => {
+    const createResponse = await fetchJson('/api/queue/create', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.25' },
+      body: JSON.stringify({ eventName: 'Push Status Test', maxGuests: 10 }),
+    });
+    const { code: shortCode, sessionId } = await createResponse.json<{
+      code: string;
+      sessionId: string;
+    }>();
+    const hostCookie = createResponse.headers.get('set-cookie')!.split(';')[0];
+
+    const joinResponse = await fetchJson(`/api/queue/${shortCode}/join`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'CF-Connecting-IP': '203.0.113.25' },
+      body: JSON.stringify({ name: 'Ann', size: 1, turnstileToken: 'stub-token' }),
+    });
+    const { partyId } = await joinResponse.json<{ partyId: string }>();
+
+    // The worker reports each outcome straight to the queue; guests can't reach that route
+    const stub = env.QUEUE_DO.get(env.QUEUE_DO.idFromString(sessionId));
+    const report = (status: string) =>
+      stub.fetch('https://queue-do/push-status', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ partyId, status }),
+      });
+    const publicRoute = await fetchJson(`/api/queue/${shortCode}/push-status`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ partyId, status: 'notified' }),
+    });
+    expect(publicRoute.status).toBe(404);
+    expect((await report('maybe')).status).toBe(400);
+
+    const hostParty = async () => {
+      const response = await fetchJson(`/api/queue/${shortCode}/snapshot`, {
+        headers: { Cookie: hostCookie },
+      });
+      const snapshot = await response.json<{ queue: { id: string; pushStatus?: string }[] }>();
+      return snapshot.queue.find((party) => party.id === partyId);
+    };
+    expect((await hostParty())?.pushStatus).toBeUndefined();
+
+    expect((await report('unreachable')).status).toBe(200);
+    expect((await hostParty())?.pushStatus).toBe('unreachable');
+    expect((await report('notified')).status).toBe(200);
+    expect((await hostParty())?.pushStatus).toBe('notified');
+
+    const guestSnapshot = await fetchJson(`/api/queue/${shortCode}/snapshot?partyId=${partyId}`);
+    expect(await guestSnapshot.json()).not.toHaveProperty('pushStatus');
+  }, 30000);
 });
@@ -1,5 +1,10 @@
 import { describe, expect, it } from 'vitest';
-import { generateHostCookieValue, verifyHostCookie } from '../utils/auth';
+import {
+  generateBoardToken,
+  generateHostCookieValue,
+  verifyBoardToken,
+  verifyHostCookie,
+} from '../utils/auth';
 import {
   generateSecureToken,
   hashToken,
@@ -9,6 +14,24 @@ import {
   createExchangeToken,
   validateExchangeToken,
 } from '../utils/oauth';
+import { parseSchedule, scheduleWindow } from '../utils/schedule';
+import {
+  formatJoinAnswers,
+  normalizeJoinFields,
+  validateJoinAnswers,
+  type JoinField,
+} from '../utils/joinFields';
+import { assignRanks } from '../utils/queueRanks';
+import { applyQueueDeltas, diffQueue } from '../utils/queueDelta';
+import { createNotificationChannels, normalizeContacts } from '../utils/notifications';
+import {
+  DEFAULT_NUDGE_RULES,
+  normalizeNudgeRules,
+  nudgeRuleMatches,
+  parseNudgeRules,
+  renderNudgeTemplate,
+} from '../utils/nudgeRules';
+import { MAX_CONSECUTIVE_FAILURES, recordPushDelivery } from '../utils/pushDeliveries';
 import { env } from 'cloudflare:test';
 
 describe('host auth helpers', () => {
@@ -35,6 +58,27 @@ describe('host auth helpers', () => {
     const ok = await verifyHostCookie(cookie, 'other-session', secret);
     expect(ok).toBe(false);
   });
+
+  it('only accepts cookies from the current credential epoch', async () => {
+    const original = await generateHostCookieValue(sessionId, secret);
+    const reissued = await generateHostCookieValue(sessionId, secret, 1);
+    expect(await verifyHostCookie(reissued, sessionId, secret, 1)).toBe(true);
+    expect(await verifyHostCookie(original, sessionId, secret, 1)).toBe(false);
+    expect(await verifyHostCookie(reissued, sessionId, secret)).toBe(false);
+    expect(await verifyHostCookie(reissued.replace('.1.', '.2.'), sessionId, secret, 2)).toBe(
+      false
+    );
+  });
+
+  it('keeps board tokens apart from host credentials', async () => {
+    const board = await generateBoardToken(sessionId, secret);
+    expect(await verifyBoardToken(board, sessionId, secret)).toBe(true);
+    expect(await verifyBoardToken(board, sessionId, secret, 1)).toBe(false);
+    expect(await verifyBoardToken(board, 'other-session', secret)).toBe(false);
+    expect(await verifyHostCookie(`${sessionId}.${board}`, sessionId, secret)).toBe(false);
+    const host = await generateHostCookieValue(sessionId, secret);
+    expect(await verifyBoardToken(host.split('.')[1], sessionId, secret)).toBe(false);
+  });
 });
 
 describe('token hashing', () => {
@@ -193,3 +237,402 @@ describe('exchange token round-trip', () => {
     expect(failures.length).toBe(2);
   });
 });
+
+describe('queue schedule', () => {
+  const schedule = { openTime: '09:00', closeTime: '17:00', timezone: 'America/New_York' };
+
+  it('is open between the opening and closing time in the queue timezone', () => {
+    // 14:00 UTC is 10:00 in New York during daylight saving time
+    const window = scheduleWindow(schedule, Date.UTC(2025, 6, 1, 14, 0));
+    expect(window.open).toBe(true);
+    expect(window.opensAt).toBeNull();
+    expect(window.closesAt).toBe(Date.UTC(2025, 6, 1, 21, 0));
+  });
+
+  it('reports the next opening while closed, across a daylight saving change', () => {
+    // 23:30 New York time on the Saturday before clocks go back (UTC-4 -> UTC-5)
+    const window = scheduleWindow(schedule, Date.UTC(2025, 10, 2, 3, 30));
+    expect(window.open).toBe(false);
+    expect(window.opensAt).toBe(Date.UTC(2025, 10, 2, 14, 0));
+    expect(window.closesAt).toBeNull();
+  });
+
+  it('treats queues without a timezone or hours as always open', () => {
+    expect(parseSchedule({ open_time: '09:00', close_time: '17:00', timezone: null })).toBeNull();
+    expect(parseSchedule({ open_time: null, close_time: null, timezone: 'UTC' })).toBeNull();
+    expect(scheduleWindow(null, Date.now())).toEqual({ open: true, opensAt: null, closesAt: null });
+  });
+});
+
+describe('join form fields', () => {
+  const normalized = normalizeJoinFields([
+    { label: 'Phone', type: 'phone', required: true },
+    { label: 'Reason for visit', type: 'select', options: ['Returns', 'Pickup', 'Returns'] },
+    { label: 'Ticket number', type: 'number', min: 1, max: 500 },
+    { label: 'I agree to the house rules', type: 'checkbox', required: true },
+  ]);
+  const fields = (normalized as { fields: JoinField[] }).fields;
+
+  it('assigns field ids and normalizes options', () => {
+    expect(fields.map((field) => field.id)).toEqual(['field1', 'field2', 'field3', 'field4']);
+    expect(fields[1]).toEqual({
+      id: 'field2',
+      label: 'Reason for visit',
+      type: 'select',
+      required: false,
+      options: ['Returns', 'Pickup'],
+    });
+  });
+
+  it('rejects malformed field definitions', () => {
+    expect(normalizeJoinFields([{ label: '', type: 'text' }])).toHaveProperty('error');
+    expect(normalizeJoinFields([{ label: 'Email', type: 'email' }])).toHaveProperty('error');
+    expect(
+      normalizeJoinFields([{ label: 'Pick', type: 'select', options: ['One'] }])
+    ).toHaveProperty('error');
+    expect(normalizeJoinFields([{ label: 'Age', type: 'number', min: 9, max: 1 }])).toHaveProperty(
+      'error'
+    );
+    expect(
+      normalizeJoinFields(Array.from({ length: 9 }, () => ({ label: 'Note', type: 'text' })))
+    ).toHaveProperty('error');
+  });
+
+  it('validates answers against the fields and drops unknown keys', () => {
+    const result = validateJoinAnswers(fields, {
+      field1: ' +1 (555) 010-0100 ',
+      field2: 'Pickup',
+      field3: '42',
+      field4: true,
+      extra: 'ignored',
+    });
+    expect(result).toEqual({
+      answers: { field1: '+1 (555) 010-0100', field2: 'Pickup', field3: 42, field4: true },
+    });
+    expect(
+      formatJoinAnswers(
+        fields,
+        (result as { answers: Record<string, string | number | boolean> }).answers
+      )
+    ).toBe(
+      'Phone: +1 (555) 010-0100; Reason for visit: Pickup; Ticket number: 42; I agree to the house rules: Yes'
+    );
+  });
+
+  it('reports missing or invalid answers', () => {
+    const valid = { field1: '5550100100', field4: true };
+    expect(validateJoinAnswers(fields, { field4: true })).toEqual({ error: 'Phone is required' });
+    expect(validateJoinAnswers(fields, { ...valid, field1: '12-34' })).toEqual({
+      error: 'Phone must be a valid phone number',
+    });
+    expect(validateJoinAnswers(fields, { ...valid, field2: 'Complaints' })).toHaveProperty('error');
+    expect(validateJoinAnswers(fields, { ...valid, field3: 501 })).toHaveProperty('error');
+    expect(validateJoinAnswers(fields, { ...valid, field4: false })).toEqual({
+      error: 'I agree to the house rules must be checked',
+    });
+    expect(validateJoinAnswers([], undefined)).toEqual({ answers: {} });
+  });
+});
+
+describe('queue ranks', () => {
+  const sortedByRank = (ranks: Map<string, number>) =>
+    [...ranks.entries()].sort((a, b) => a[1] - b[1]).map(([id]) => id);
+
+  it('ranks a fresh list in order', () => {
+    const ranks = assignRanks(['a', 'b', 'c'], new Map());
+    expect(sortedByRank(ranks)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('only re-ranks the parties that moved or joined', () => {
+    const previous = assignRanks(['a', 'b', 'c', 'd'], new Map());
+
+    const joined = assignRanks(['a', 'b', 'c', 'd', 'e'], previous);
+    expect([...joined.entries()].filter(([id, rank]) => previous.get(id) !== rank)).toEqual([
+      ['e', expect.any(Number)],
+    ]);
+
+    // Moving the last party to the front keeps everyone else's rank
+    const moved = assignRanks(['d', 'a', 'b', 'c'], previous);
+    expect(sortedByRank(moved)).toEqual(['d', 'a', 'b', 'c']);
+    expect(['a', 'b', 'c'].every((id) => moved.get(id) === previous.get(id))).toBe(true);
+
+    const removed = assignRanks(['a', 'c', 'd'], previous);
+    expect([...removed.entries()].every(([id, rank]) => previous.get(id) === rank)).toBe(true);
+  });
+
+  it('renumbers the list once repeated inserts use up the gap', () => {
+    let ids = ['a', 'z'];
+    let ranks = assignRanks(ids, new Map());
+    for (let i = 0; i < 60; i++) {
+      ids = ['a', `p${i}`, ...ids.slice(1)];
+      ranks = assignRanks(ids, ranks);
+      expect(sortedByRank(ranks)).toEqual(ids);
+    }
+  });
+});
+
+describe('queue deltas', () => {
+  const parties = (...ids: string[]) => ids.map((id) => ({ id, nearby: false }));
+
+  it('describes a join, a serve and a move in one message each', () => {
+    const line = parties('a', 'b', 'c', 'd');
+
+    expect(diffQueue(line, parties('a', 'b', 'c', 'd', 'e'))).toEqual([
+      { type: 'party_added', index: 4, party: { id: 'e', nearby: false } },
+    ]);
+    expect(diffQueue(line, parties('b', 'c', 'd'))).toEqual([
+      { type: 'party_removed', partyId: 'a' },
+    ]);
+    expect(diffQueue(line, parties('d', 'a', 'b', 'c'))).toEqual([
+      { type: 'party_moved', partyId: 'd', index: 0 },
+    ]);
+  });
+
+  it('reports changed parties and nothing for an unchanged line', () => {
+    const line = parties('a', 'b');
+    expect(diffQueue(line, parties('a', 'b'))).toEqual([]);
+    expect(diffQueue(line, [line[0], { id: 'b', nearby: true }])).toEqual([
+      { type: 'party_updated', party: { id: 'b', nearby: true } },
+    ]);
+  });
+
+  it('reproduces the new line when the deltas are applied', () => {
+    const previous = parties('a', 'b', 'c', 'd', 'e', 'f');
+    const next = parties('g', 'e', 'b', 'a', 'h', 'f');
+    const deltas = diffQueue(previous, next);
+    expect(deltas).not.toBeNull();
+    expect(applyQueueDeltas(previous, deltas ?? [])).toEqual(next);
+  });
+
+  it('gives up on lists it cannot patch', () => {
+    expect(diffQueue(parties('a'), parties('a', 'a'))).toBeNull();
+  });
+});
+
+describe('contact details', () => {
+  const both = ['sms', 'email'] as const;
+
+  it('normalizes phone numbers and email addresses', () => {
+    expect(
+      normalizeContacts({ sms: ' +1 (555) 123-4567 ', email: 'Ann@Example.COM' }, both)
+    ).toEqual({ contacts: { sms: '+15551234567', email: 'ann@example.com' } });
+    expect(normalizeContacts({ sms: '', email: null }, both)).toEqual({ contacts: {} });
+    expect(normalizeContacts(undefined, [])).toEqual({ contacts: {} });
+  });
+
+  it('rejects malformed details and channels that are switched off', () => {
+    expect(normalizeContacts({ sms: '555 123 4567' }, both)).toHaveProperty('error');
+    expect(normalizeContacts({ sms: '+1 555' }, both)).toHaveProperty('error');
+    expect(normalizeContacts({ email: 'not-an-email' }, both)).toHaveProperty('error');
+    expect(normalizeContacts({ fax: '+15551234567' }, both)).toHaveProperty('error');
+    expect(normalizeContacts(['+15551234567'], both)).toHaveProperty('error');
+    expect(normalizeContacts({ email: 'ann@example.com' }, ['sms'])).toEqual({
+      error: "This queue can't send emails",
+    });
+  });
+
+  it('only offers providers that are fully configured', () => {
+    expect([...createNotificationChannels({}).keys()]).toEqual([]);
+    expect([
+      ...createNotificationChannels({ SMS_PROVIDER: 'twilio', SMS_FROM: '+1555' }).keys(),
+    ]).toEqual([]);
+    expect(
+      [
+        ...createNotificationChannels({
+          SMS_PROVIDER: 'twilio',
+          TWILIO_ACCOUNT_SID: 'AC123',
+          TWILIO_AUTH_TOKEN: 'secret',
+          SMS_FROM: '+15550000000',
+          EMAIL_PROVIDER: 'fake',
+        }).keys(),
+      ].sort()
+    ).toEqual(['email', 'sms']);
+  });
+});
+
+describe('nudge rules', () => {
+  it('names rules after their thresholds and trims the templates', () => {
+    expect(
+      normalizeNudgeRules([
+        { position: 3, title: ' Nearly up ', body: '{ahead} ahead of you' },
+        { etaMinutes: 10, title: 'Head back', body: 'About {minutes} min at {eventName}' },
+        { position: 1, etaMinutes: 2, title: 'Now', body: 'Come to the front' },
+      ])
+    ).toEqual({
+      rules: [
+        { id: 'pos_3', position: 3, title: 'Nearly up', body: '{ahead} ahead of you' },
+        {
+          id: 'eta_10',
+          etaMinutes: 10,
+          title: 'Head back',
+          body: 'About {minutes} min at {eventName}',
+        },
+        { id: 'pos_1_eta_2', position: 1, etaMinutes: 2, title: 'Now', body: 'Come to the front' },
+      ],
+    });
+    expect(normalizeNudgeRules([])).toEqual({ rules: [] });
+  });
+
+  it('rejects rules without a trigger, bad templates and duplicates', () => {
+    expect(normalizeNudgeRules({})).toHaveProperty('error');
+    expect(normalizeNudgeRules([{ title: 'Hi', body: 'There' }])).toHaveProperty('error');
+    expect(normalizeNudgeRules([{ position: 0, title: 'Hi', body: 'There' }])).toHaveProperty(
+      'error'
+    );
+    expect(normalizeNudgeRules([{ etaMinutes: 2.5, title: 'Hi', body: 'There' }])).toHaveProperty(
+      'error'
+    );
+    expect(normalizeNudgeRules([{ position: 2, title: '', body: 'There' }])).toHaveProperty(
+      'error'
+    );
+    expect(normalizeNudgeRules([{ position: 2, title: 'Hi', body: '{name}' }])).toEqual({
+      error: 'Unknown placeholder {name}; use {position}, {ahead}, {minutes}, {eventName}',
+    });
+    expect(
+      normalizeNudgeRules([
+        { position: 2, title: 'Hi', body: 'There' },
+        { position: 2, title: 'Again', body: 'There' },
+      ])
+    ).toHaveProperty('error');
+  });
+
+  it('falls back to the defaults for missing or unreadable columns', () => {
+    expect(parseNudgeRules(null)).toEqual(DEFAULT_NUDGE_RULES);
+    expect(parseNudgeRules('not json')).toEqual(DEFAULT_NUDGE_RULES);
+    expect(parseNudgeRules('[]')).toEqual([]);
+    expect(
+      parseNudgeRules('[{"id":"eta_5","etaMinutes":5,"title":"a","body":"b"},{"id":"x"}]')
+    ).toEqual([{ id: 'eta_5', etaMinutes: 5, title: 'a', body: 'b' }]);
+  });
+
+  it('matches an exact position or any wait within the threshold', () => {
+    const rule = { id: 'pos_3_eta_10', position: 3, etaMinutes: 10, title: 'a', body: 'b' };
+    expect(nudgeRuleMatches(rule, 3, 60 * 60 * 1000)).toBe(true);
+    expect(nudgeRuleMatches(rule, 6, 10 * 60 * 1000)).toBe(true);
+    expect(nudgeRuleMatches(rule, 4, 11 * 60 * 1000)).toBe(false);
+  });
+
+  it('fills in known placeholders and leaves the rest', () => {
+    expect(
+      renderNudgeTemplate('#{position} at {eventName}, {ahead} ahead {other}', {
+        position: 3,
+        ahead: 2,
+        eventName: 'Pop-up',
+      })
+    ).toBe('#3 at Pop-up, 2 ahead {other}');
+  });
+});
+
+describe('push deliveries', () => {
+  const createParty = async (suffix: string) => {
+    const sessionId = `push-session-${suffix}`;
+    const partyId = `push-party-${suffix}`;
+    await env.DB.batch([
+      env.DB.prepare('INSERT INTO sessions (id, short_code) VALUES (?1, ?2)').bind(
+        sessionId,
+        `PD${suffix}`.toUpperCase()
+      ),
+      env.DB.prepare('INSERT INTO parties (id, session_id) VALUES (?1, ?2)').bind(
+        partyId,
+        sessionId
+      ),
+    ]);
+    return { sessionId, partyId };
+  };
+
+  it('logs each attempt and drops an expired endpoint straight away', async () => {
+    const { sessionId, partyId } = await createParty('web');
+    const endpoint = 'https://push.example/expired';
+    await env.DB.prepare(
+      "INSERT INTO push_subscriptions (session_id, party_id, endpoint, p256dh, auth) VALUES (?1, ?2, ?3, 'key', 'secret')"
+    )
+      .bind(sessionId, partyId, endpoint)
+      .run();
+
+    await recordPushDelivery(env.DB, {
+      sessionId,
+      partyId,
+      kind: 'called',
+      platform: 'web',
+      address: endpoint,
+      status: 'expired',
+      httpStatus: 410,
+      response: 'Gone',
+      latencyMs: 42,
+    });
+
+    const delivery = await env.DB.prepare(
+      'SELECT kind, status, http_status, response, latency_ms FROM push_deliveries WHERE address = ?1'
+    )
+      .bind(endpoint)
+      .first();
+    expect(delivery).toEqual({
+      kind: 'called',
+      status: 'expired',
+      http_status: 410,
+      response: 'Gone',
+      latency_ms: 42,
+    });
+    const remaining = await env.DB.prepare('SELECT 1 FROM push_subscriptions WHERE endpoint = ?1')
+      .bind(endpoint)
+      .first();
+    expect(remaining).toBeNull();
+  });
+
+  it('forgets a device only after several failures in a row', async () => {
+    const { sessionId, partyId } = await createParty('expo');
+    const token = 'ExponentPushToken[unit-test]';
+    const userId = crypto.randomUUID();
+    await env.DB.batch([
+      env.DB.prepare(
+        "INSERT INTO push_subscriptions (session_id, party_id, endpoint, p256dh, auth, expo_token) VALUES (?1, ?2, 'https://push.example/with-token', 'key', 'secret', ?3)"
+      ).bind(sessionId, partyId, token),
+      env.DB.prepare('INSERT INTO users (id, email) VALUES (?1, ?2)').bind(
+        userId,
+        `${userId}@example.com`
+      ),
+      env.DB.prepare(
+        'INSERT INTO host_push_subscriptions (user_id, expo_token) VALUES (?1, ?2)'
+      ).bind(userId, token),
+    ]);
+    const fail = () =>
+      recordPushDelivery(env.DB, {
+        sessionId,
+        partyId,
+        platform: 'expo',
+        address: token,
+        status: 'failed',
+        httpStatus: 500,
+      });
+    const registered = async () => ({
+      guest: await env.DB.prepare('SELECT 1 FROM push_subscriptions WHERE expo_token = ?1')
+        .bind(token)
+        .first(),
+      host: await env.DB.prepare('SELECT 1 FROM host_push_subscriptions WHERE expo_token = ?1')
+        .bind(token)
+        .first(),
+    });
+
+    await fail();
+    await recordPushDelivery(env.DB, {
+      sessionId,
+      partyId,
+      platform: 'expo',
+      address: token,
+      status: 'sent',
+      ticketId: 'ticket-1',
+    });
+    for (let attempt = 1; attempt < MAX_CONSECUTIVE_FAILURES; attempt++) {
+      await fail();
+    }
+    expect(await registered()).toEqual({ guest: { 1: 1 }, host: { 1: 1 } });
+
+    await fail();
+    expect(await registered()).toEqual({ guest: null, host: null });
+    // The guest's web endpoint still works, so only the token is cleared
+    const webRow = await env.DB.prepare(
+      "SELECT expo_token FROM push_subscriptions WHERE endpoint = 'https://push.example/with-token'"
+    ).first();
+    expect(webRow).toEqual({ expo_token: null });
+  });
+});
@@ -43,6 +43,23 @@ await applyD1Migrations(env.DB, [
     name: '003_add_max_guests.sql',
     queries: [`ALTER TABLE sessions ADD COLUMN max_guests INTEGER DEFAULT 100;`],
   },
+  {
+    name: '004_push.sql',
+    queries: [
+      `CREATE TABLE IF NOT EXISTS push_subscriptions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        party_id TEXT NOT NULL,
+        endpoint TEXT NOT NULL UNIQUE,
+        p256dh TEXT NOT NULL,
+        auth TEXT NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (strftime('%s','now')),
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+        FOREIGN KEY (party_id) REFERENCES parties(id) ON DELETE CASCADE
+      );`,
+      `CREATE INDEX IF NOT EXISTS idx_push_session_party ON push_subscriptions(session_id, party_id);`,
+    ],
+  },
   {
     name: '005_add_location_contact.sql',
     queries: [
@@ -161,4 +178,170 @@ await applyD1Migrations(env.DB, [
       `CREATE INDEX IF NOT EXISTS idx_parties_session_user ON parties(session_id, user_id);`,
     ],
   },
+  {
+    name: '015_add_expo_push.sql',
+    queries: [
+      `ALTER TABLE push_subscriptions ADD COLUMN expo_token TEXT;`,
+      `CREATE INDEX IF NOT EXISTS idx_push_expo_token ON push_subscriptions(expo_token) WHERE expo_token IS NOT NULL;`,
+    ],
+  },
+  {
+    name: '017_add_service_counters.sql',
+    queries: [
+      `ALTER TABLE sessions ADD COLUMN service_counters TEXT;`,
+      `ALTER TABLE parties ADD COLUMN counter_id TEXT;`,
+    ],
+  },
+  {
+    name: '018_add_priority_lanes.sql',
+    queries: [
+      `ALTER TABLE sessions ADD COLUMN priority_lanes TEXT;`,
+      `ALTER TABLE sessions ADD COLUMN lane_policy TEXT;`,
+      `ALTER TABLE parties ADD COLUMN lane_id TEXT;`,
+    ],
+  },
+  {
+    name: '019_add_queue_pause.sql',
+    queries: [
+      `ALTER TABLE sessions ADD COLUMN paused_at INTEGER;`,
+      `ALTER TABLE sessions ADD COLUMN resume_at INTEGER;`,
+    ],
+  },
+  {
+    name: '020_add_closed_at.sql',
+    queries: [`ALTER TABLE sessions ADD COLUMN closed_at INTEGER;`],
+  },
+  {
+    name: '021_add_queue_timezone.sql',
+    queries: [`ALTER TABLE sessions ADD COLUMN timezone TEXT;`],
+  },
+  {
+    name: '022_add_appointment_slots.sql',
+    queries: [
+      `CREATE TABLE IF NOT EXISTS appointment_slots (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        starts_at INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open',
+        party_id TEXT,
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+        FOREIGN KEY (party_id) REFERENCES parties(id)
+      );`,
+      `CREATE INDEX IF NOT EXISTS idx_appointment_slots_session ON appointment_slots(session_id, starts_at);`,
+    ],
+  },
+  {
+    name: '023_add_call_policy.sql',
+    queries: [`ALTER TABLE sessions ADD COLUMN call_policy TEXT;`],
+  },
+  {
+    name: '024_add_queue_members.sql',
+    queries: [
+      `CREATE TABLE IF NOT EXISTS queue_members (
+        session_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        added_by TEXT,
+        created_at INTEGER NOT NULL DEFAULT (strftime('%s','now')),
+        PRIMARY KEY (session_id, user_id),
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );`,
+      `CREATE INDEX IF NOT EXISTS idx_queue_members_user ON queue_members(user_id);`,
+    ],
+  },
+  {
+    name: '025_add_ownership_transfer.sql',
+    queries: [
+      `ALTER TABLE sessions ADD COLUMN pending_owner_id TEXT;`,
+      `ALTER TABLE sessions ADD COLUMN transfer_requested_at INTEGER;`,
+      `ALTER TABLE sessions ADD COLUMN host_epoch INTEGER NOT NULL DEFAULT 0;`,
+    ],
+  },
+  {
+    name: '026_add_join_fields.sql',
+    queries: [
+      `ALTER TABLE sessions ADD COLUMN join_fields TEXT;`,
+      `ALTER TABLE parties ADD COLUMN answers TEXT;`,
+    ],
+  },
+  {
+    name: '027_add_party_notes.sql',
+    queries: [
+      `ALTER TABLE parties ADD COLUMN host_note TEXT;`,
+      `ALTER TABLE parties ADD COLUMN tags TEXT;`,
+    ],
+  },
+  {
+    name: '028_add_party_contacts.sql',
+    queries: [
+      `CREATE TABLE IF NOT EXISTS party_contacts (
+        session_id TEXT NOT NULL,
+        party_id TEXT NOT NULL,
+        channel TEXT NOT NULL CHECK (channel IN ('sms', 'email')),
+        address TEXT NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (strftime('%s','now')),
+        PRIMARY KEY (party_id, channel),
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+        FOREIGN KEY (party_id) REFERENCES parties(id) ON DELETE CASCADE
+      );`,
+      `CREATE INDEX IF NOT EXISTS idx_party_contacts_session ON party_contacts(session_id, party_id);`,
+    ],
+  },
+  {
+    name: '029_add_nudge_rules.sql',
+    queries: [`ALTER TABLE sessions ADD COLUMN nudge_rules TEXT;`],
+  },
+  {
+    name: '030_add_host_push.sql',
+    queries: [
+      `CREATE TABLE IF NOT EXISTS host_push_subscriptions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        endpoint TEXT UNIQUE,
+        p256dh TEXT,
+        auth TEXT,
+        expo_token TEXT UNIQUE,
+        created_at INTEGER NOT NULL DEFAULT (strftime('%s','now')),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );`,
+      `CREATE INDEX IF NOT EXISTS idx_host_push_user ON host_push_subscriptions(user_id);`,
+      `CREATE TABLE IF NOT EXISTS host_alert_prefs (
+        session_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        capacity INTEGER NOT NULL DEFAULT 1,
+        no_show INTEGER NOT NULL DEFAULT 1,
+        auto_close INTEGER NOT NULL DEFAULT 1,
+        updated_at INTEGER NOT NULL DEFAULT (strftime('%s','now')),
+        PRIMARY KEY (session_id, user_id),
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );`,
+    ],
+  },
+  {
+    name: '031_add_push_deliveries.sql',
+    queries: [
+      `CREATE TABLE IF NOT EXISTS push_deliveries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT,
+        party_id TEXT,
+        kind TEXT,
+        platform TEXT NOT NULL,
+        address TEXT NOT NULL,
+        status TEXT NOT NULL,
+        http_status INTEGER,
+        response TEXT,
+        latency_ms INTEGER,
+        ticket_id TEXT,
+        receipt_status TEXT,
+        receipt_checked_at INTEGER,
+        created_at INTEGER NOT NULL DEFAULT (strftime('%s','now'))
+      );`,
+      `CREATE INDEX IF NOT EXISTS idx_push_deliveries_party ON push_deliveries(session_id, party_id, created_at);`,
+      `CREATE INDEX IF NOT EXISTS idx_push_deliveries_address ON push_deliveries(address, id);`,
+      `CREATE INDEX IF NOT EXISTS idx_push_deliveries_pending ON push_deliveries(created_at)
+        WHERE ticket_id IS NOT NULL AND receipt_status IS NULL;`,
+    ],
+  },
 ]);
@@ -3,28 +3,71 @@ const textEncoder = new TextEncoder();
 export const HOST_COOKIE_NAME = 'queue_host_auth';
 export const HOST_COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 7; // 7 days
 
-export async function generateHostCookieValue(sessionId: string, secret: string): Promise<string> {
-  const signature = await signHostToken(sessionId, secret);
-  return `${sessionId}.${signature}`;
+/**
+ * Host tokens are signed per credential epoch. The epoch is bumped whenever host
+ * credentials are re-issued (ownership transfer), which invalidates every older token.
+ * Epoch 0 keeps the original `<sessionId>.<signature>` format so existing links work.
+ */
+export async function generateHostCookieValue(
+  sessionId: string,
+  secret: string,
+  epoch = 0
+): Promise<string> {
+  if (epoch === 0) {
+    const signature = await signHostToken(sessionId, secret);
+    return `${sessionId}.${signature}`;
+  }
+  const signature = await signHostToken(`${sessionId}.${epoch}`, secret);
+  return `${sessionId}.${epoch}.${signature}`;
 }
 
 export async function verifyHostCookie(
   cookieValue: string,
   sessionId: string,
-  secret: string
+  secret: string,
+  epoch = 0
 ): Promise<boolean> {
-  const [cookieSessionId, signature] = cookieValue.split('.');
-  if (!cookieSessionId || !signature) {
+  const parts = cookieValue.split('.');
+  const cookieSessionId = parts[0];
+  const signature = parts[parts.length - 1];
+  if (!cookieSessionId || !signature || parts.length > 3) {
     return false;
   }
   if (cookieSessionId !== sessionId) {
     return false;
   }
+  const cookieEpoch = parts.length === 3 ? Number(parts[1]) : 0;
+  if (cookieEpoch !== epoch) {
+    return false;
+  }
 
-  const expected = await signHostToken(sessionId, secret);
+  const expected = await signHostToken(epoch === 0 ? sessionId : `${sessionId}.${epoch}`, secret);
   return timingSafeEqual(signature, expected);
 }
 
+/**
+ * Display board links carry their own token, which only opens the read-only board feed
+ * and can't be used as host credentials. It is signed with the host epoch too, so an
+ * ownership transfer also retires boards set up by the previous owner.
+ */
+export async function generateBoardToken(
+  sessionId: string,
+  secret: string,
+  epoch = 0
+): Promise<string> {
+  return signHostToken(`board.${sessionId}.${epoch}`, secret);
+}
+
+export async function verifyBoardToken(
+  token: string,
+  sessionId: string,
+  secret: string,
+  epoch = 0
+): Promise<boolean> {
+  const expected = await generateBoardToken(sessionId, secret, epoch);
+  return timingSafeEqual(token, expected);
+}
+
 async function signHostToken(sessionId: string, secret: string): Promise<string> {
   const key = await crypto.subtle.importKey(
     'raw',
@@ -0,0 +1,57 @@
+const encoder = new TextEncoder();
+
+/**
+ * A one-way stand-in for a server WebSocket that writes each message as a Server-Sent
+ * Event instead. It has the parts of the WebSocket interface the queue uses (send, close,
+ * readyState and 'close' events), so SSE clients sit in the same registry as sockets.
+ */
+export class EventStreamSocket extends EventTarget {
+  readonly response: Response;
+  // WebSocket ready states: 1 = OPEN, 3 = CLOSED
+  readyState = 1;
+  private readonly writer: WritableStreamDefaultWriter<Uint8Array>;
+
+  constructor(retryMs: number) {
+    super();
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    this.writer = writable.getWriter();
+    this.response = new Response(readable, {
+      headers: {
+        'content-type': 'text/event-stream',
+        'cache-control': 'no-cache, no-store, must-revalidate',
+        // Stops proxies such as nginx from holding events back in a buffer
+        'x-accel-buffering': 'no',
+      },
+    });
+    // Tells EventSource how long to wait before reconnecting after a drop
+    this.write(`retry: ${retryMs}\n\n`);
+  }
+
+  send(data: string): void {
+    if (this.readyState !== 1) {
+      return;
+    }
+    this.write(`data: ${data}\n\n`);
+  }
+
+  close(): void {
+    if (this.readyState !== 1) {
+      return;
+    }
+    this.finish();
+    this.writer.close().catch(() => undefined);
+  }
+
+  private write(chunk: string): void {
+    // Writes fail once the client has gone away
+    this.writer.write(encoder.encode(chunk)).catch(() => this.finish());
+  }
+
+  private finish(): void {
+    if (this.readyState === 3) {
+      return;
+    }
+    this.readyState = 3;
+    this.dispatchEvent(new Event('close'));
+  }
+}
@@ -0,0 +1,262 @@
+export const JOIN_FIELD_TYPES = ['text', 'phone', 'number', 'select', 'checkbox'] as const;
+export const MAX_JOIN_FIELDS = 8;
+export const MAX_JOIN_FIELD_LABEL_LENGTH = 60;
+export const MAX_JOIN_FIELD_OPTIONS = 20;
+const DEFAULT_TEXT_MAX_LENGTH = 200;
+const MAX_TEXT_MAX_LENGTH = 500;
+const MIN_PHONE_DIGITS = 7;
+const MAX_PHONE_DIGITS = 15;
+
+export type JoinFieldType = (typeof JOIN_FIELD_TYPES)[number];
+
+/**
+ * An extra question on a queue's join form. Answers are keyed by `id`. `maxLength` applies
+ * to text, `min`/`max` to number and `options` to select; a required checkbox must be ticked.
+ */
+export interface JoinField {
+  id: string;
+  label: string;
+  type: JoinFieldType;
+  required: boolean;
+  options?: string[];
+  maxLength?: number;
+  min?: number;
+  max?: number;
+}
+
+export type JoinAnswers = Record<string, string | number | boolean>;
+
+function isJoinFieldType(value: unknown): value is JoinFieldType {
+  return typeof value === 'string' && (JOIN_FIELD_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Validate the host's field definitions when a queue is created. Ids are assigned in
+ * order (`field1`, `field2`, ...) so answers stay stable even if labels repeat.
+ */
+export function normalizeJoinFields(input: unknown): { fields: JoinField[] } | { error: string } {
+  if (!Array.isArray(input)) {
+    return { error: 'joinFields must be an array' };
+  }
+  if (input.length > MAX_JOIN_FIELDS) {
+    return { error: `joinFields must have at most ${MAX_JOIN_FIELDS} entries` };
+  }
+
+  const fields: JoinField[] = [];
+  for (const entry of input) {
+    if (typeof entry !== 'object' || entry === null) {
+      return { error: 'each join field must be an object' };
+    }
+    const label = typeof entry.label === 'string' ? entry.label.trim() : '';
+    if (!label || label.length > MAX_JOIN_FIELD_LABEL_LENGTH) {
+      return {
+        error: `each join field needs a label of ${MAX_JOIN_FIELD_LABEL_LENGTH} characters or fewer`,
+      };
+    }
+    if (!isJoinFieldType(entry.type)) {
+      return { error: `join field type must be one of: ${JOIN_FIELD_TYPES.join(', ')}` };
+    }
+    const field: JoinField = {
+      id: `field${fields.length + 1}`,
+      label,
+      type: entry.type,
+      required: entry.required === true,
+    };
+
+    if (field.type === 'text') {
+      const maxLength = entry.maxLength ?? DEFAULT_TEXT_MAX_LENGTH;
+      if (!Number.isInteger(maxLength) || maxLength < 1 || maxLength > MAX_TEXT_MAX_LENGTH) {
+        return { error: `maxLength must be an integer between 1 and ${MAX_TEXT_MAX_LENGTH}` };
+      }
+      field.maxLength = maxLength;
+    }
+    if (field.type === 'number') {
+      for (const bound of ['min', 'max'] as const) {
+        if (entry[bound] !== undefined && entry[bound] !== null) {
+          if (typeof entry[bound] !== 'number' || !Number.isFinite(entry[bound])) {
+            return { error: `${bound} must be a number` };
+          }
+          field[bound] = entry[bound];
+        }
+      }
+      if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+        return { error: 'min must not be greater than max' };
+      }
+    }
+    if (field.type === 'select') {
+      const options: string[] = Array.isArray(entry.options)
+        ? entry.options
+            .filter((option: unknown): option is string => typeof option === 'string')
+            .map((option: string) => option.trim())
+            .filter((option: string) => option.length > 0)
+        : [];
+      const unique = [...new Set(options)];
+      if (unique.length < 2 || unique.length > MAX_JOIN_FIELD_OPTIONS) {
+        return {
+          error: `select fields need between 2 and ${MAX_JOIN_FIELD_OPTIONS} distinct options`,
+        };
+      }
+      if (unique.some((option) => option.length > MAX_JOIN_FIELD_LABEL_LENGTH)) {
+        return {
+          error: `select options must be ${MAX_JOIN_FIELD_LABEL_LENGTH} characters or fewer`,
+        };
+      }
+      field.options = unique;
+    }
+    fields.push(field);
+  }
+  return { fields };
+}
+
+/**
+ * Read the `sessions.join_fields` column. Malformed entries are dropped rather than
+ * failing joins for a queue whose stored schema can't be interpreted.
+ */
+export function parseJoinFields(raw: string | null | undefined): JoinField[] {
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed.filter(
+      (field): field is JoinField =>
+        typeof field?.id === 'string' &&
+        typeof field.label === 'string' &&
+        isJoinFieldType(field.type)
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Check a guest's answers against the queue's fields. Answers to unknown fields are
+ * dropped and blank optional answers are left out, so the result only holds real answers.
+ */
+export function validateJoinAnswers(
+  fields: JoinField[],
+  input: unknown
+): { answers: JoinAnswers } | { error: string } {
+  if (
+    input !== undefined &&
+    input !== null &&
+    (typeof input !== 'object' || Array.isArray(input))
+  ) {
+    return { error: 'answers must be an object' };
+  }
+  const raw = (input ?? {}) as Record<string, unknown>;
+  const answers: JoinAnswers = {};
+
+  for (const field of fields) {
+    const value = raw[field.id];
+    const blank =
+      value === undefined ||
+      value === null ||
+      (typeof value === 'string' && value.trim() === '') ||
+      (field.type === 'checkbox' && value === false);
+    if (blank) {
+      if (field.required) {
+        return {
+          error:
+            field.type === 'checkbox'
+              ? `${field.label} must be checked`
+              : `${field.label} is required`,
+        };
+      }
+      continue;
+    }
+
+    switch (field.type) {
+      case 'text': {
+        if (typeof value !== 'string') {
+          return { error: `${field.label} must be text` };
+        }
+        const text = value.trim();
+        if (text.length > (field.maxLength ?? DEFAULT_TEXT_MAX_LENGTH)) {
+          return {
+            error: `${field.label} must be ${field.maxLength ?? DEFAULT_TEXT_MAX_LENGTH} characters or fewer`,
+          };
+        }
+        answers[field.id] = text;
+        break;
+      }
+      case 'phone': {
+        const phone = typeof value === 'string' ? value.trim() : '';
+        const digits = phone.replace(/[\s().-]/g, '').replace(/^\+/, '');
+        if (
+          !/^\d+$/.test(digits) ||
+          digits.length < MIN_PHONE_DIGITS ||
+          digits.length > MAX_PHONE_DIGITS
+        ) {
+          return { error: `${field.label} must be a valid phone number` };
+        }
+        answers[field.id] = phone;
+        break;
+      }
+      case 'number': {
+        const number = typeof value === 'string' ? Number(value.trim()) : value;
+        if (typeof number !== 'number' || !Number.isFinite(number)) {
+          return { error: `${field.label} must be a number` };
+        }
+        if (
+          (field.min !== undefined && number < field.min) ||
+          (field.max !== undefined && number > field.max)
+        ) {
+          return {
+            error: `${field.label} must be between ${field.min ?? '-∞'} and ${field.max ?? '∞'}`,
+          };
+        }
+        answers[field.id] = number;
+        break;
+      }
+      case 'select': {
+        if (typeof value !== 'string' || !field.options?.includes(value)) {
+          return { error: `${field.label} must be one of the listed options` };
+        }
+        answers[field.id] = value;
+        break;
+      }
+      case 'checkbox': {
+        if (value !== true) {
+          return { error: `${field.label} must be true or false` };
+        }
+        answers[field.id] = true;
+        break;
+      }
+    }
+  }
+  return { answers };
+}
+
+/**
+ * "Phone: 555 0100; Reason: Returns" for exports, in field order.
+ */
+export function formatJoinAnswers(fields: JoinField[], answers: JoinAnswers | null): string {
+  if (!answers) {
+    return '';
+  }
+  return fields
+    .filter((field) => answers[field.id] !== undefined)
+    .map((field) => {
+      const value = answers[field.id];
+      return `${field.label}: ${typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value}`;
+    })
+    .join('; ');
+}
+
+export function parseJoinAnswers(raw: string | null | undefined): JoinAnswers | null {
+  if (!raw) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as JoinAnswers)
+      : null;
+  } catch {
+    return null;
+  }
+}
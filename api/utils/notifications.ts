@@ -0,0 +1,267 @@
+export const CONTACT_CHANNELS = ['sms', 'email'] as const;
+const MIN_PHONE_DIGITS = 7;
+const MAX_PHONE_DIGITS = 15;
+const MAX_EMAIL_LENGTH = 254;
+
+export type ContactChannel = (typeof CONTACT_CHANNELS)[number];
+
+export type PartyContacts = Partial<Record<ContactChannel, string>>;
+
+export interface NotificationMessage {
+  title: string;
+  body: string;
+  url?: string;
+}
+
+/**
+ * One way of reaching a guest outside the app. Each provider sends to an address in its
+ * own format (a phone number or an email address) and reports whether it went out.
+ */
+export interface NotificationChannel {
+  readonly channel: ContactChannel;
+  send(to: string, message: NotificationMessage): Promise<boolean>;
+}
+
+/**
+ * Provider settings, all optional: a channel whose provider isn't configured is simply
+ * not offered. `fake` providers keep messages in `fakeOutbox` instead of sending them.
+ */
+export interface NotificationEnv {
+  SMS_PROVIDER?: string; // 'twilio' or 'fake'
+  TWILIO_ACCOUNT_SID?: string;
+  TWILIO_AUTH_TOKEN?: string;
+  SMS_FROM?: string;
+  EMAIL_PROVIDER?: string; // 'resend' or 'fake'
+  RESEND_API_KEY?: string;
+  EMAIL_FROM?: string;
+}
+
+export interface FakeDelivery extends NotificationMessage {
+  channel: ContactChannel;
+  to: string;
+}
+
+// Everything the fake providers were asked to send, oldest first
+export const fakeOutbox: FakeDelivery[] = [];
+
+class FakeChannel implements NotificationChannel {
+  constructor(readonly channel: ContactChannel) {}
+
+  async send(to: string, message: NotificationMessage): Promise<boolean> {
+    fakeOutbox.push({ channel: this.channel, to, ...message });
+    return true;
+  }
+}
+
+class TwilioSmsChannel implements NotificationChannel {
+  readonly channel = 'sms';
+
+  constructor(
+    private readonly accountSid: string,
+    private readonly authToken: string,
+    private readonly from: string
+  ) {}
+
+  async send(to: string, message: NotificationMessage): Promise<boolean> {
+    const text = [`${message.title} ${message.body}`, message.url].filter(Boolean).join('\n');
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          authorization: `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+          'content-type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ To: to, From: this.from, Body: text }).toString(),
+      }
+    );
+    if (!response.ok) {
+      console.warn('SMS delivery failed', response.status, await response.text());
+    }
+    return response.ok;
+  }
+}
+
+class ResendEmailChannel implements NotificationChannel {
+  readonly channel = 'email';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly from: string
+  ) {}
+
+  async send(to: string, message: NotificationMessage): Promise<boolean> {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        authorization: `Bearer ${this.apiKey}`,
+        'content-type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [to],
+        subject: message.title,
+        text: [message.body, message.url].filter(Boolean).join('\n\n'),
+      }),
+    });
+    if (!response.ok) {
+      console.warn('Email delivery failed', response.status, await response.text());
+    }
+    return response.ok;
+  }
+}
+
+/**
+ * The channels this deployment can send on, keyed by channel. Providers missing part of
+ * their configuration are left out rather than failing on every send.
+ */
+export function createNotificationChannels(
+  env: NotificationEnv
+): Map<ContactChannel, NotificationChannel> {
+  const channels = new Map<ContactChannel, NotificationChannel>();
+
+  if (env.SMS_PROVIDER === 'fake') {
+    channels.set('sms', new FakeChannel('sms'));
+  } else if (
+    env.SMS_PROVIDER === 'twilio' &&
+    env.TWILIO_ACCOUNT_SID &&
+    env.TWILIO_AUTH_TOKEN &&
+    env.SMS_FROM
+  ) {
+    channels.set(
+      'sms',
+      new TwilioSmsChannel(env.TWILIO_ACCOUNT_SID, env.TWILIO_AUTH_TOKEN, env.SMS_FROM)
+    );
+  }
+
+  if (env.EMAIL_PROVIDER === 'fake') {
+    channels.set('email', new FakeChannel('email'));
+  } else if (env.EMAIL_PROVIDER === 'resend' && env.RESEND_API_KEY && env.EMAIL_FROM) {
+    channels.set('email', new ResendEmailChannel(env.RESEND_API_KEY, env.EMAIL_FROM));
+  }
+
+  return channels;
+}
+
+/**
+ * Check the contact details a guest gave when joining. Phone numbers are reduced to
+ * `+` and digits, and emails are lowercased; blank entries are dropped. Channels the
+ * deployment can't send on are rejected so the guest isn't left expecting messages.
+ */
+export function normalizeContacts(
+  input: unknown,
+  available: Iterable<ContactChannel>
+): { contacts: PartyContacts } | { error: string } {
+  if (input === undefined || input === null) {
+    return { contacts: {} };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'contacts must be an object' };
+  }
+
+  const enabled = new Set(available);
+  const contacts: PartyContacts = {};
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    if (!(CONTACT_CHANNELS as readonly string[]).includes(key)) {
+      return { error: `Unknown contact channel: ${key}` };
+    }
+    const channel = key as ContactChannel;
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    if (typeof value !== 'string') {
+      return { error: `${channel} must be a string` };
+    }
+    if (!enabled.has(channel)) {
+      return { error: `This queue can't send ${channel === 'sms' ? 'texts' : 'emails'}` };
+    }
+
+    if (channel === 'sms') {
+      // Providers need the international (E.164) form, so the country code is required
+      const digits = value
+        .trim()
+        .replace(/[\s().-]/g, '')
+        .replace(/^\+/, '');
+      if (
+        !value.trim().startsWith('+') ||
+        !/^\d+$/.test(digits) ||
+        digits.length < MIN_PHONE_DIGITS ||
+        digits.length > MAX_PHONE_DIGITS
+      ) {
+        return { error: 'sms must be a phone number with its country code, like +15551234567' };
+      }
+      contacts.sms = `+${digits}`;
+    } else {
+      const email = value.trim().toLowerCase();
+      if (email.length > MAX_EMAIL_LENGTH || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+        return { error: 'email must be a valid email address' };
+      }
+      contacts.email = email;
+    }
+  }
+  return { contacts };
+}
+
+/**
+ * Send a message to every address the party left for a channel this deployment has.
+ * With a `kind`, each channel only sends it once per party, as with pushes.
+ */
+export async function notifyContacts(
+  db: D1Database,
+  channels: Map<ContactChannel, NotificationChannel>,
+  sessionId: string,
+  partyId: string,
+  message: NotificationMessage & { kind?: string }
+): Promise<boolean> {
+  if (channels.size === 0) {
+    return false;
+  }
+  const { results } = await db
+    .prepare('SELECT channel, address FROM party_contacts WHERE session_id = ?1 AND party_id = ?2')
+    .bind(sessionId, partyId)
+    .all<{ channel: ContactChannel; address: string }>();
+
+  let sent = false;
+  for (const contact of results ?? []) {
+    const channel = channels.get(contact.channel);
+    if (!channel) {
+      continue;
+    }
+    if (message.kind) {
+      const exists = await db
+        .prepare(
+          "SELECT 1 AS x FROM events WHERE session_id=?1 AND party_id=?2 AND type='notification_sent' AND json_extract(details, '$.kind') = ?3 AND json_extract(details, '$.channel') = ?4 LIMIT 1"
+        )
+        .bind(sessionId, partyId, message.kind, contact.channel)
+        .first<{ x: number }>();
+      if (exists?.x) {
+        sent = true;
+        continue;
+      }
+    }
+
+    try {
+      const delivered = await channel.send(contact.address, {
+        title: message.title,
+        body: message.body,
+        url: message.url,
+      });
+      if (delivered && message.kind) {
+        await db
+          .prepare(
+            "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'notification_sent', ?3)"
+          )
+          .bind(
+            sessionId,
+            partyId,
+            JSON.stringify({ kind: message.kind, channel: contact.channel })
+          )
+          .run();
+      }
+      sent ||= delivered;
+    } catch (error) {
+      console.warn('notifyContacts error', contact.channel, error);
+    }
+  }
+  return sent;
+}
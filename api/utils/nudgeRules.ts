@@ -0,0 +1,172 @@
+export const MAX_NUDGE_RULES = 5;
+export const MAX_NUDGE_POSITION = 50;
+export const MAX_NUDGE_ETA_MINUTES = 180;
+export const MAX_NUDGE_TITLE_LENGTH = 60;
+export const MAX_NUDGE_BODY_LENGTH = 160;
+// Placeholders a title or body may use, filled in for the guest being nudged
+export const NUDGE_PLACEHOLDERS = ['position', 'ahead', 'minutes', 'eventName'] as const;
+
+export type NudgePlaceholder = (typeof NUDGE_PLACEHOLDERS)[number];
+
+/**
+ * A reminder sent once a waiting guest reaches `position` in line or is expected to be
+ * called within `etaMinutes`, whichever comes first when both are set. The id doubles as
+ * the push kind, so each rule is sent to a guest at most once (per snooze).
+ */
+export interface NudgeRule {
+  id: string;
+  position?: number;
+  etaMinutes?: number;
+  title: string;
+  body: string;
+}
+
+// What queues without their own rules send, matching the original position 2 and 5 pushes
+export const DEFAULT_NUDGE_RULES: NudgeRule[] = [
+  { id: 'pos_2', position: 2, title: 'Almost there!', body: "You're next in line." },
+  { id: 'pos_5', position: 5, title: 'Getting close!', body: "You're 5th in line." },
+];
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+function nudgeRuleId(position: number | undefined, etaMinutes: number | undefined): string {
+  return [
+    position !== undefined ? `pos_${position}` : null,
+    etaMinutes !== undefined ? `eta_${etaMinutes}` : null,
+  ]
+    .filter(Boolean)
+    .join('_');
+}
+
+function checkTemplate(
+  label: string,
+  value: unknown,
+  maxLength: number
+): string | { error: string } {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text || text.length > maxLength) {
+    return { error: `each nudge rule needs a ${label} of ${maxLength} characters or fewer` };
+  }
+  for (const [, name] of text.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!(NUDGE_PLACEHOLDERS as readonly string[]).includes(name)) {
+      return {
+        error: `Unknown placeholder {${name}}; use ${NUDGE_PLACEHOLDERS.map((p) => `{${p}}`).join(', ')}`,
+      };
+    }
+  }
+  return text;
+}
+
+/**
+ * Validate the host's nudge rules when a queue is created. An empty list turns nudges
+ * off. Ids are derived from the thresholds (`pos_3`, `eta_10`, `pos_3_eta_10`), so two
+ * rules can't share a trigger.
+ */
+export function normalizeNudgeRules(input: unknown): { rules: NudgeRule[] } | { error: string } {
+  if (!Array.isArray(input)) {
+    return { error: 'nudgeRules must be an array' };
+  }
+  if (input.length > MAX_NUDGE_RULES) {
+    return { error: `nudgeRules must have at most ${MAX_NUDGE_RULES} entries` };
+  }
+
+  const rules: NudgeRule[] = [];
+  for (const entry of input) {
+    if (typeof entry !== 'object' || entry === null) {
+      return { error: 'each nudge rule must be an object' };
+    }
+    const { position, etaMinutes } = entry as { position?: unknown; etaMinutes?: unknown };
+    if (
+      position !== undefined &&
+      position !== null &&
+      (!Number.isInteger(position) ||
+        (position as number) < 1 ||
+        (position as number) > MAX_NUDGE_POSITION)
+    ) {
+      return { error: `position must be an integer between 1 and ${MAX_NUDGE_POSITION}` };
+    }
+    if (
+      etaMinutes !== undefined &&
+      etaMinutes !== null &&
+      (!Number.isInteger(etaMinutes) ||
+        (etaMinutes as number) < 1 ||
+        (etaMinutes as number) > MAX_NUDGE_ETA_MINUTES)
+    ) {
+      return { error: `etaMinutes must be an integer between 1 and ${MAX_NUDGE_ETA_MINUTES}` };
+    }
+    const rule: Partial<NudgeRule> = {};
+    if (typeof position === 'number') {
+      rule.position = position;
+    }
+    if (typeof etaMinutes === 'number') {
+      rule.etaMinutes = etaMinutes;
+    }
+    if (rule.position === undefined && rule.etaMinutes === undefined) {
+      return { error: 'each nudge rule needs a position, etaMinutes or both' };
+    }
+
+    const title = checkTemplate('title', entry.title, MAX_NUDGE_TITLE_LENGTH);
+    if (typeof title !== 'string') {
+      return title;
+    }
+    const body = checkTemplate('body', entry.body, MAX_NUDGE_BODY_LENGTH);
+    if (typeof body !== 'string') {
+      return body;
+    }
+
+    const id = nudgeRuleId(rule.position, rule.etaMinutes);
+    if (rules.some((existing) => existing.id === id)) {
+      return { error: 'two nudge rules have the same position and etaMinutes' };
+    }
+    rules.push({ id, ...rule, title, body });
+  }
+  return { rules };
+}
+
+/**
+ * Read the `sessions.nudge_rules` column. NULL means the defaults; malformed entries are
+ * dropped rather than failing every position update.
+ */
+export function parseNudgeRules(raw: string | null | undefined): NudgeRule[] {
+  if (raw === null || raw === undefined) {
+    return DEFAULT_NUDGE_RULES;
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      return DEFAULT_NUDGE_RULES;
+    }
+    return parsed.filter(
+      (rule): rule is NudgeRule =>
+        typeof rule?.id === 'string' &&
+        typeof rule.title === 'string' &&
+        typeof rule.body === 'string' &&
+        (typeof rule.position === 'number' || typeof rule.etaMinutes === 'number')
+    );
+  } catch {
+    return DEFAULT_NUDGE_RULES;
+  }
+}
+
+// Whether a guest at `position`, expected to be called in `estimatedWaitMs`, is due this nudge
+export function nudgeRuleMatches(
+  rule: NudgeRule,
+  position: number,
+  estimatedWaitMs: number
+): boolean {
+  return (
+    (rule.position !== undefined && position === rule.position) ||
+    (rule.etaMinutes !== undefined && estimatedWaitMs <= rule.etaMinutes * 60 * 1000)
+  );
+}
+
+// Fill in a title or body; placeholders without a value are left as written
+export function renderNudgeTemplate(
+  template: string,
+  values: Partial<Record<NudgePlaceholder, string | number>>
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    const value = values[name as NudgePlaceholder];
+    return value === undefined ? match : String(value);
+  });
+}
@@ -0,0 +1,193 @@
+export type PushPlatform = 'web' | 'expo';
+
+// sent: the provider accepted it; delivered: Expo's receipt says it reached Apple or
+// Google; failed: rejected or errored; expired: the subscription is gone and was removed
+export type PushDeliveryStatus = 'sent' | 'delivered' | 'failed' | 'expired';
+
+export interface PushDelivery {
+  sessionId: string | null;
+  partyId: string | null; // Null for host devices
+  kind?: string;
+  platform: PushPlatform;
+  address: string; // Web push endpoint or Expo push token
+  status: PushDeliveryStatus;
+  httpStatus?: number | null;
+  response?: string | null;
+  latencyMs?: number | null;
+  ticketId?: string | null; // Expo push ticket, exchanged for a receipt later
+}
+
+export interface ReceiptUpdate {
+  sessionId: string | null;
+  partyId: string | null;
+  deliveryId: number;
+  status: PushDeliveryStatus;
+}
+
+// Subscriptions are dropped after this many failed attempts in a row
+export const MAX_CONSECUTIVE_FAILURES = 3;
+const MAX_RESPONSE_LENGTH = 500;
+// Expo asks for receipts to be fetched a while after sending, and keeps them for a day
+const RECEIPT_DELAY_SECONDS = 15 * 60;
+const RECEIPT_RETENTION_SECONDS = 24 * 60 * 60;
+const MAX_RECEIPTS_PER_POLL = 300;
+const EXPO_RECEIPTS_URL = 'https://exp.host/--/api/v2/push/getReceipts';
+
+/**
+ * Forget a device everywhere it was registered, for guests and for hosts. Guest rows for
+ * native devices only carry the token, so they're deleted rather than left empty.
+ */
+export async function pruneSubscription(
+  db: D1Database,
+  platform: PushPlatform,
+  address: string
+): Promise<void> {
+  if (platform === 'web') {
+    await db.batch([
+      db.prepare('DELETE FROM push_subscriptions WHERE endpoint = ?1').bind(address),
+      db.prepare('DELETE FROM host_push_subscriptions WHERE endpoint = ?1').bind(address),
+    ]);
+    return;
+  }
+  await db.batch([
+    db
+      .prepare("DELETE FROM push_subscriptions WHERE expo_token = ?1 AND endpoint = ''")
+      .bind(address),
+    db
+      .prepare('UPDATE push_subscriptions SET expo_token = NULL WHERE expo_token = ?1')
+      .bind(address),
+    db.prepare('DELETE FROM host_push_subscriptions WHERE expo_token = ?1').bind(address),
+  ]);
+}
+
+/**
+ * Log one push attempt. Expired subscriptions are pruned straight away, and so are ones
+ * whose last few attempts all failed.
+ */
+export async function recordPushDelivery(db: D1Database, delivery: PushDelivery): Promise<void> {
+  try {
+    await db
+      .prepare(
+        `INSERT INTO push_deliveries
+           (session_id, party_id, kind, platform, address, status, http_status, response, latency_ms, ticket_id)
+           VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10)`
+      )
+      .bind(
+        delivery.sessionId,
+        delivery.partyId,
+        delivery.kind ?? null,
+        delivery.platform,
+        delivery.address,
+        delivery.status,
+        delivery.httpStatus ?? null,
+        delivery.response ? delivery.response.slice(0, MAX_RESPONSE_LENGTH) : null,
+        delivery.latencyMs ?? null,
+        delivery.ticketId ?? null
+      )
+      .run();
+
+    if (delivery.status === 'expired') {
+      await pruneSubscription(db, delivery.platform, delivery.address);
+    } else if (delivery.status === 'failed') {
+      const { results } = await db
+        .prepare('SELECT status FROM push_deliveries WHERE address = ?1 ORDER BY id DESC LIMIT ?2')
+        .bind(delivery.address, MAX_CONSECUTIVE_FAILURES)
+        .all<{ status: PushDeliveryStatus }>();
+      if (
+        results.length === MAX_CONSECUTIVE_FAILURES &&
+        results.every((row) => row.status === 'failed')
+      ) {
+        await pruneSubscription(db, delivery.platform, delivery.address);
+      }
+    }
+  } catch (error) {
+    console.warn('recordPushDelivery error', error);
+  }
+}
+
+/**
+ * Swap Expo push tickets that are old enough for their receipts, marking each delivery
+ * delivered or failed. Receipts that aren't ready yet are tried again on the next poll.
+ */
+export async function pollExpoReceipts(db: D1Database, now = Date.now()): Promise<ReceiptUpdate[]> {
+  const nowSeconds = Math.floor(now / 1000);
+  const { results } = await db
+    .prepare(
+      `SELECT id, session_id, party_id, address, ticket_id FROM push_deliveries
+         WHERE ticket_id IS NOT NULL AND receipt_status IS NULL
+           AND created_at <= ?1 AND created_at > ?2
+         ORDER BY id LIMIT ?3`
+    )
+    .bind(
+      nowSeconds - RECEIPT_DELAY_SECONDS,
+      nowSeconds - RECEIPT_RETENTION_SECONDS,
+      MAX_RECEIPTS_PER_POLL
+    )
+    .all<{
+      id: number;
+      session_id: string | null;
+      party_id: string | null;
+      address: string;
+      ticket_id: string;
+    }>();
+  if (results.length === 0) {
+    return [];
+  }
+
+  const response = await fetch(EXPO_RECEIPTS_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify({ ids: results.map((row) => row.ticket_id) }),
+  });
+  if (!response.ok) {
+    console.warn('Expo receipts failed:', response.status, await response.text());
+    return [];
+  }
+  const { data } = (await response.json()) as {
+    data?: Record<
+      string,
+      { status: 'ok' | 'error'; message?: string; details?: { error?: string } }
+    >;
+  };
+
+  const updates: ReceiptUpdate[] = [];
+  for (const row of results) {
+    const receipt = data?.[row.ticket_id];
+    if (!receipt) {
+      continue;
+    }
+    const status: PushDeliveryStatus =
+      receipt.status === 'ok'
+        ? 'delivered'
+        : receipt.details?.error === 'DeviceNotRegistered'
+          ? 'expired'
+          : 'failed';
+    await db
+      .prepare(
+        `UPDATE push_deliveries
+           SET status = ?2, receipt_status = ?3, receipt_checked_at = ?4,
+               response = COALESCE(?5, response)
+           WHERE id = ?1`
+      )
+      .bind(
+        row.id,
+        status,
+        receipt.status,
+        nowSeconds,
+        receipt.status === 'error'
+          ? [receipt.message, receipt.details?.error].filter(Boolean).join(' ') || null
+          : null
+      )
+      .run();
+    if (status === 'expired') {
+      await pruneSubscription(db, 'expo', row.address);
+    }
+    updates.push({
+      sessionId: row.session_id,
+      partyId: row.party_id,
+      deliveryId: row.id,
+      status,
+    });
+  }
+  return updates;
+}
@@ -0,0 +1,94 @@
+import { longestIncreasingRun } from './queueRanks';
+
+/**
+ * Version of the live-update protocol spoken to sockets that connect with `?v=2`. Every
+ * message carries `v` and a `seq`. Host messages count up by one, so a host that sees a
+ * jump knows it missed something and sends `{ type: 'resync' }`. Guest messages carry
+ * the seq of the party's latest logged event, which they can reconnect `?since=`.
+ */
+export const QUEUE_PROTOCOL_VERSION = 2;
+
+interface Identified {
+  id: string;
+}
+
+export type QueueDelta<P extends Identified> =
+  | { type: 'party_added'; index: number; party: P }
+  | { type: 'party_removed'; partyId: string }
+  | { type: 'party_moved'; partyId: string; index: number }
+  | { type: 'party_updated'; party: P };
+
+/**
+ * Patches that turn `previous` into `next` when applied in order. Parties whose relative
+ * order didn't change stay put and everyone else is moved, so a join or serve is a single
+ * message however long the line is. Returns null when the patches wouldn't reproduce
+ * `next` (e.g. duplicate ids); a full snapshot should be sent instead.
+ */
+export function diffQueue<P extends Identified>(previous: P[], next: P[]): QueueDelta<P>[] | null {
+  const deltas: QueueDelta<P>[] = [];
+  const nextIds = new Set(next.map((party) => party.id));
+  const before = new Map(previous.map((party) => [party.id, JSON.stringify(party)]));
+
+  for (const party of previous) {
+    if (!nextIds.has(party.id)) {
+      deltas.push({ type: 'party_removed', partyId: party.id });
+    }
+  }
+
+  const survivors = previous.filter((party) => nextIds.has(party.id));
+  const oldIndex = new Map(survivors.map((party, index) => [party.id, index]));
+  const kept = longestIncreasingRun(next.map((party) => oldIndex.get(party.id)));
+  next.forEach((party, index) => {
+    if (!oldIndex.has(party.id)) {
+      deltas.push({ type: 'party_added', index, party });
+    } else if (!kept.has(index)) {
+      deltas.push({ type: 'party_moved', partyId: party.id, index });
+    }
+  });
+
+  for (const party of next) {
+    const old = before.get(party.id);
+    if (old !== undefined && old !== JSON.stringify(party)) {
+      deltas.push({ type: 'party_updated', party });
+    }
+  }
+
+  const result = applyQueueDeltas(previous, deltas);
+  const matches =
+    result.length === next.length && result.every((party, index) => party.id === next[index].id);
+  return matches ? deltas : null;
+}
+
+export function applyQueueDeltas<P extends Identified>(list: P[], deltas: QueueDelta<P>[]): P[] {
+  const result = [...list];
+  for (const delta of deltas) {
+    switch (delta.type) {
+      case 'party_added':
+        result.splice(delta.index, 0, delta.party);
+        break;
+      case 'party_removed': {
+        const index = result.findIndex((party) => party.id === delta.partyId);
+        if (index !== -1) {
+          result.splice(index, 1);
+        }
+        break;
+      }
+      case 'party_moved': {
+        const index = result.findIndex((party) => party.id === delta.partyId);
+        if (index !== -1) {
+          const [party] = result.splice(index, 1);
+          result.splice(delta.index, 0, party);
+        }
+        break;
+      }
+      case 'party_updated': {
+        const index = result.findIndex((party) => party.id === delta.party.id);
+        if (index !== -1) {
+          result[index] = delta.party;
+        }
+        break;
+      }
+    }
+  }
+  return result;
+}
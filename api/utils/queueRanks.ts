@@ -0,0 +1,97 @@
+// Gap left between neighbours when ranks are handed out from scratch
+const RANK_STEP = 1024;
+// Below this, midpoints stop being distinguishable and the whole list is renumbered
+const MIN_RANK_GAP = 1e-6;
+
+/**
+ * Give every id in `ids` a rank so that sorting by rank reproduces the list order, while
+ * keeping as many of the `previous` ranks as possible. The longest run of ids whose old
+ * ranks are already in order keeps them; everyone else gets a rank in the gap around it.
+ * A join at the end or a single move therefore only re-ranks the parties that moved.
+ */
+export function assignRanks(ids: string[], previous: Map<string, number>): Map<string, number> {
+  const keep = longestIncreasingRun(ids.map((id) => previous.get(id)));
+  const ranks = new Map<string, number>();
+
+  let index = 0;
+  while (index < ids.length) {
+    if (keep.has(index)) {
+      ranks.set(ids[index], previous.get(ids[index]) as number);
+      index++;
+      continue;
+    }
+
+    // A run of ids that need new ranks, bounded by the kept ranks on either side
+    let end = index;
+    while (end < ids.length && !keep.has(end)) {
+      end++;
+    }
+    const count = end - index;
+    const low = index > 0 ? (ranks.get(ids[index - 1]) as number) : undefined;
+    const high = end < ids.length ? (previous.get(ids[end]) as number) : undefined;
+
+    let start: number;
+    let step: number;
+    if (low === undefined && high === undefined) {
+      start = RANK_STEP;
+      step = RANK_STEP;
+    } else if (low === undefined) {
+      step = RANK_STEP;
+      start = (high as number) - count * RANK_STEP;
+    } else if (high === undefined) {
+      step = RANK_STEP;
+      start = low + RANK_STEP;
+    } else {
+      step = (high - low) / (count + 1);
+      start = low + step;
+      if (step < MIN_RANK_GAP) {
+        return renumber(ids);
+      }
+    }
+    for (let offset = 0; offset < count; offset++) {
+      ranks.set(ids[index + offset], start + offset * step);
+    }
+    index = end;
+  }
+  return ranks;
+}
+
+function renumber(ids: string[]): Map<string, number> {
+  return new Map(ids.map((id, index) => [id, (index + 1) * RANK_STEP]));
+}
+
+/**
+ * Indexes of the longest subsequence of `values` that strictly increases. Undefined
+ * entries are never part of it.
+ */
+export function longestIncreasingRun(values: (number | undefined)[]): Set<number> {
+  // tails[k] is the index ending the best run of length k + 1 found so far
+  const tails: number[] = [];
+  const parent = new Array<number>(values.length).fill(-1);
+
+  values.forEach((value, index) => {
+    if (value === undefined) {
+      return;
+    }
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if ((values[tails[mid]] as number) < value) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+    parent[index] = lo > 0 ? tails[lo - 1] : -1;
+    tails[lo] = index;
+  });
+
+  const keep = new Set<number>();
+  let cursor = tails.length > 0 ? tails[tails.length - 1] : -1;
+  while (cursor !== -1) {
+    keep.add(cursor);
+    cursor = parent[cursor];
+  }
+  return keep;
+}
@@ -0,0 +1,104 @@
+const MS_PER_MINUTE = 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+/**
+ * Daily opening hours in the queue's own timezone. Either bound may be missing: no
+ * openTime means open from midnight, no closeTime means open until midnight.
+ */
+export interface QueueSchedule {
+  openTime: string | null;
+  closeTime: string | null;
+  timezone: string;
+}
+
+export interface ScheduleWindow {
+  open: boolean;
+  // Next time the window opens (only while closed) or closes (only while open), in ms
+  opensAt: number | null;
+  closesAt: number | null;
+}
+
+export function normalizeTimeString(value: string): string | null {
+  const trimmed = value.trim();
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(trimmed);
+  return match ? `${match[1]}:${match[2]}` : null;
+}
+
+export function timeStringToMinutes(value: string): number {
+  const [hours, minutes] = value.split(':').map((part) => Number(part));
+  return hours * 60 + minutes;
+}
+
+export function isValidTimezone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sessions created before timezones were stored have no schedule we can interpret,
+ * so they are treated as always open.
+ */
+export function parseSchedule(row: {
+  open_time?: string | null;
+  close_time?: string | null;
+  timezone?: string | null;
+}): QueueSchedule | null {
+  if (!row.timezone || (!row.open_time && !row.close_time)) {
+    return null;
+  }
+  return {
+    openTime: row.open_time ? normalizeTimeString(row.open_time) : null,
+    closeTime: row.close_time ? normalizeTimeString(row.close_time) : null,
+    timezone: isValidTimezone(row.timezone) ? row.timezone : DEFAULT_TIMEZONE,
+  };
+}
+
+function zonedMinutes(at: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(at));
+  const hour = Number(parts.find((part) => part.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find((part) => part.type === 'minute')?.value ?? 0);
+  return (hour % 24) * 60 + minute;
+}
+
+/**
+ * Next instant after `at` when the clock in `timezone` reads `time`. One correction pass
+ * absorbs a daylight saving shift between now and then.
+ */
+function nextOccurrence(at: number, time: string, timezone: string): number {
+  const target = timeStringToMinutes(time);
+  const startOfMinute = Math.floor(at / MS_PER_MINUTE) * MS_PER_MINUTE;
+  const delta = (target - zonedMinutes(at, timezone) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const candidate = startOfMinute + (delta === 0 ? MINUTES_PER_DAY : delta) * MS_PER_MINUTE;
+  let drift = target - zonedMinutes(candidate, timezone);
+  if (drift > MINUTES_PER_DAY / 2) drift -= MINUTES_PER_DAY;
+  if (drift < -MINUTES_PER_DAY / 2) drift += MINUTES_PER_DAY;
+  const corrected = candidate + drift * MS_PER_MINUTE;
+  return corrected > at ? corrected : candidate;
+}
+
+export function scheduleWindow(schedule: QueueSchedule | null, at: number): ScheduleWindow {
+  if (!schedule) {
+    return { open: true, opensAt: null, closesAt: null };
+  }
+  const { openTime, closeTime, timezone } = schedule;
+  const minutes = zonedMinutes(at, timezone);
+  const open =
+    (!openTime || minutes >= timeStringToMinutes(openTime)) &&
+    (!closeTime || minutes < timeStringToMinutes(closeTime));
+  return {
+    open,
+    opensAt: open ? null : nextOccurrence(at, openTime ?? '00:00', timezone),
+    closesAt: open ? nextOccurrence(at, closeTime ?? '00:00', timezone) : null,
+  };
+}
@@ -13,6 +13,9 @@ export default defineWorkersConfig({
       workers: {
         main: resolve(rootDir, 'worker.ts'),
         isolatedStorage: false,
+        // Test files share one D1, so they run one after another; otherwise both setup
+        // files race to apply the same migrations
+        singleWorker: true,
         wrangler: {
           configPath: wranglerConfigPath,
         },
@@ -24,6 +27,8 @@ export default defineWorkersConfig({
             TURNSTILE_BYPASS: 'true',
             TEST_MODE: 'true',
             ALLOWED_ORIGINS: 'https://example.com',
+            SMS_PROVIDER: 'fake',
+            EMAIL_PROVIDER: 'fake',
           },
           kvNamespaces: ['QUEUE_KV'],
           d1Databases: ['DB'],
@@ -2,6 +2,7 @@ import { buildPushPayload } from '@block65/webcrypto-web-push';
 import {
   HOST_COOKIE_MAX_AGE_SECONDS,
   HOST_COOKIE_NAME,
+  generateBoardToken,
   generateHostCookieValue,
   verifyHostCookie,
 } from './utils/auth';
@@ -30,7 +31,36 @@ import {
   validateOAuthState,
   validateSession,
 } from './utils/oauth';
+import {
+  DEFAULT_TIMEZONE,
+  isValidTimezone,
+  normalizeTimeString,
+  parseSchedule,
+  scheduleWindow,
+  timeStringToMinutes,
+} from './utils/schedule';
+import {
+  formatJoinAnswers,
+  normalizeJoinFields,
+  parseJoinAnswers,
+  parseJoinFields,
+  validateJoinAnswers,
+  type JoinField,
+} from './utils/joinFields';
+import {
+  createNotificationChannels,
+  normalizeContacts,
+  notifyContacts,
+} from './utils/notifications';
+import { DEFAULT_NUDGE_RULES, normalizeNudgeRules, type NudgeRule } from './utils/nudgeRules';
+import {
+  pollExpoReceipts,
+  recordPushDelivery,
+  type PushDelivery,
+  type PushDeliveryStatus,
+} from './utils/pushDeliveries';
 import { logAnalyticsEvent } from './analytics';
+import { REOPEN_GRACE_MS } from './queue-do';
 export { QueueDO } from './queue-do';
 
 export interface Env {
@@ -56,6 +86,14 @@ export interface Env {
   GOOGLE_CLIENT_SECRET?: string;
   // Admin emails (comma-separated)
   ADMIN_EMAILS?: string;
+  // Text and email notifications; see NotificationEnv in utils/notifications
+  SMS_PROVIDER?: string;
+  TWILIO_ACCOUNT_SID?: string;
+  TWILIO_AUTH_TOKEN?: string;
+  SMS_FROM?: string;
+  EMAIL_PROVIDER?: string;
+  RESEND_API_KEY?: string;
+  EMAIL_FROM?: string;
 }
 
 const DEFAULT_APP_BASE_URL = 'https://forkfriends.github.io/';
@@ -74,14 +112,44 @@ function safeRedirectUrl(uri: string | null | undefined): URL {
 }
 
 const ROUTE =
-  /^\/api\/queue(?:\/(create|[A-Za-z0-9]{6})(?:\/(join|declare-nearby|leave|advance|kick|close|connect|snapshot))?)?$/;
+  /^\/api\/queue(?:\/(create|[A-Za-z0-9]{6})(?:\/(join|declare-nearby|leave|snooze|advance|kick|close|pause|resume|reopen|undo|assign-lane|annotate|reorder|broadcast|board|members|alerts|transfer|accept-transfer|connect|events|snapshot|info))?)?$/;
 const SHORT_CODE_LENGTH = 6;
 const SHORT_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
 const TURNSTILE_VERIFY_URL = 'https://challenges.cloudflare.com/turnstile/v0/siteverify';
 const MIN_QUEUE_CAPACITY = 1;
-const MAX_QUEUE_CAPACITY = 100;
+const MAX_QUEUE_CAPACITY = 5000;
 const MAX_LOCATION_LENGTH = 240;
 const MAX_CONTACT_LENGTH = 500;
+const MAX_SERVICE_COUNTERS = 10;
+const MAX_COUNTER_NAME_LENGTH = 40;
+const MAX_PRIORITY_LANES = 5;
+const MAX_LANE_NAME_LENGTH = 40;
+const MAX_LANE_WEIGHT = 10;
+const MAX_APPOINTMENT_SLOTS = 48;
+const MAX_SLOT_LEAD_MS = 7 * 24 * 60 * 60 * 1000; // Slots can be published up to a week ahead
+const MIN_CALL_TIMEOUT_SECONDS = 30;
+const MAX_CALL_TIMEOUT_SECONDS = 15 * 60;
+const MAX_CALL_RECALLS = 3;
+const MAX_REQUEUE_PLACES = 50;
+const MAX_SNOOZE_PLACES = 10;
+const MAX_SNOOZE_MS = 60 * 60 * 1000;
+const STAFF_ROLES = ['cohost', 'caller'] as const;
+// Host actions caller-only staff may take; everything else needs a co-host or the owner
+const CALLER_ACTIONS = new Set(['advance', 'undo']);
+// A nominated owner has this long to accept before the transfer lapses
+const TRANSFER_EXPIRY_MS = 24 * 60 * 60 * 1000;
+// Push alerts hosts can get about their queue; each is also a host_alert_prefs column
+const HOST_ALERTS = ['capacity', 'no_show', 'auto_close'] as const;
+
+type StaffRole = (typeof STAFF_ROLES)[number];
+type HostRole = 'owner' | StaffRole;
+type HostAlert = (typeof HOST_ALERTS)[number];
+
+interface HostAuth {
+  token: string; // Host token to forward to the QueueDO
+  userId: string | null; // Logged-in user acting as host, when known
+  role: HostRole;
+}
 
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
@@ -797,7 +865,7 @@ export default {
     // Host Dashboard / Queue Management Routes
     // ============================================
 
-    // GET /api/queues/mine - List all queues owned by the authenticated user
+    // GET /api/queues/mine - List all queues the authenticated user owns or staffs
     if (request.method === 'GET' && url.pathname === '/api/queues/mine') {
       try {
         const sessionId = getSessionFromRequest(request);
@@ -810,7 +878,7 @@ export default {
           return applyCors(jsonError('Invalid session', 401), corsOrigin);
         }
 
-        // Get all queues owned by this user with stats
+        // Get all queues owned or staffed by this user with stats
         const result = await env.DB.prepare(
           `SELECT 
             s.id,
@@ -818,12 +886,16 @@ export default {
             s.event_name,
             s.status,
             s.created_at,
+            s.closed_at,
             s.max_guests,
             s.location,
             s.contact_info,
             s.open_time,
             s.close_time,
             s.requires_auth,
+            COALESCE(m.role, 'owner') as role,
+            (SELECT COALESCE(u.email, u.google_email) FROM users u
+              WHERE u.id = s.pending_owner_id AND s.transfer_requested_at > ?2) as pending_owner_email,
             (SELECT COUNT(*) FROM parties p WHERE p.session_id = s.id AND p.status IN ('waiting', 'called')) as active_count,
             (SELECT COUNT(*) FROM parties p WHERE p.session_id = s.id AND p.status = 'served') as served_count,
             (SELECT COUNT(*) FROM parties p WHERE p.session_id = s.id AND p.status = 'left') as left_count,
@@ -831,22 +903,26 @@ export default {
             (SELECT AVG((p.completed_at - p.joined_at)) FROM parties p 
               WHERE p.session_id = s.id AND p.status = 'served' AND p.completed_at IS NOT NULL) as avg_wait_seconds
           FROM sessions s
-          WHERE s.owner_id = ?1
+          LEFT JOIN queue_members m ON m.session_id = s.id AND m.user_id = ?1
+          WHERE s.owner_id = ?1 OR m.user_id IS NOT NULL
           ORDER BY s.created_at DESC`
         )
-          .bind(user.id)
+          .bind(user.id, Math.floor((Date.now() - TRANSFER_EXPIRY_MS) / 1000))
           .all<{
             id: string;
             short_code: string;
             event_name: string | null;
             status: string;
             created_at: number;
+            closed_at: number | null;
             max_guests: number | null;
             location: string | null;
             contact_info: string | null;
             open_time: string | null;
             close_time: string | null;
             requires_auth: number;
+            role: HostRole;
+            pending_owner_email: string | null;
             active_count: number;
             served_count: number;
             left_count: number;
@@ -854,18 +930,29 @@ export default {
             avg_wait_seconds: number | null;
           }>();
 
+        const now = Date.now();
         const queues = (result.results || []).map((q) => ({
           id: q.id,
           shortCode: q.short_code,
           eventName: q.event_name,
           status: q.status,
           createdAt: q.created_at,
+          // Millisecond deadline for the host's reopen action, null once it has lapsed
+          reopenableUntil:
+            q.status === 'closed' &&
+            typeof q.closed_at === 'number' &&
+            q.closed_at * 1000 + REOPEN_GRACE_MS > now
+              ? q.closed_at * 1000 + REOPEN_GRACE_MS
+              : null,
           maxGuests: q.max_guests,
           location: q.location,
           contactInfo: q.contact_info,
           openTime: q.open_time,
           closeTime: q.close_time,
           requiresAuth: q.requires_auth === 1,
+          role: q.role,
+          // Only the owner sees who they have offered the queue to
+          pendingTransferTo: q.role === 'owner' ? q.pending_owner_email : null,
           stats: {
             activeCount: q.active_count,
             servedCount: q.served_count,
@@ -888,6 +975,61 @@ export default {
       }
     }
 
+    // GET /api/queues/transfers - Queues other owners want to hand to the authenticated user
+    if (request.method === 'GET' && url.pathname === '/api/queues/transfers') {
+      try {
+        const sessionId = getSessionFromRequest(request);
+        if (!sessionId) {
+          return applyCors(jsonError('Authentication required', 401), corsOrigin);
+        }
+
+        const user = await validateSession(env.DB, sessionId);
+        if (!user) {
+          return applyCors(jsonError('Invalid session', 401), corsOrigin);
+        }
+
+        const result = await env.DB.prepare(
+          `SELECT s.id, s.short_code, s.event_name, s.transfer_requested_at,
+             u.email, u.google_email, u.google_name, u.github_username
+           FROM sessions s
+           LEFT JOIN users u ON u.id = s.owner_id
+           WHERE s.pending_owner_id = ?1 AND s.transfer_requested_at > ?2
+           ORDER BY s.transfer_requested_at DESC`
+        )
+          .bind(user.id, Math.floor((Date.now() - TRANSFER_EXPIRY_MS) / 1000))
+          .all<{
+            id: string;
+            short_code: string;
+            event_name: string | null;
+            transfer_requested_at: number;
+            email: string | null;
+            google_email: string | null;
+            google_name: string | null;
+            github_username: string | null;
+          }>();
+
+        const transfers = (result.results || []).map((row) => ({
+          sessionId: row.id,
+          shortCode: row.short_code,
+          eventName: row.event_name,
+          fromName: row.google_name ?? row.github_username,
+          fromEmail: row.email ?? row.google_email,
+          expiresAt: row.transfer_requested_at * 1000 + TRANSFER_EXPIRY_MS,
+        }));
+
+        return applyCors(
+          new Response(JSON.stringify({ transfers }), {
+            status: 200,
+            headers: { 'content-type': 'application/json' },
+          }),
+          corsOrigin
+        );
+      } catch (e) {
+        console.error('queues/transfers error:', e);
+        return applyCors(jsonError('Failed to fetch transfers', 500), corsOrigin);
+      }
+    }
+
     // GET /api/user/memberships - List all queues the authenticated user has joined as a guest
     if (request.method === 'GET' && url.pathname === '/api/user/memberships') {
       try {
@@ -1005,7 +1147,8 @@ export default {
             const isValid = await verifyHostCookie(
               queue.hostAuthToken,
               queue.sessionId,
-              env.HOST_AUTH_SECRET
+              env.HOST_AUTH_SECRET,
+              await getHostEpoch(env, queue.sessionId)
             );
             if (isValid) {
               // Update the session to set owner_id (only if not already owned by someone else)
@@ -1294,6 +1437,52 @@ export default {
       }
     }
 
+    // Push API: register a host's device for alerts about the queues they run
+    if (request.method === 'POST' && url.pathname === '/api/push/host-subscribe') {
+      try {
+        const authSessionId = getSessionFromRequest(request);
+        const user = authSessionId ? await validateSession(env.DB, authSessionId) : null;
+        if (!user) {
+          return applyCors(jsonError('Authentication required', 401), corsOrigin);
+        }
+        const { subscription, expoToken } = (await readJson(request)) ?? {};
+        if (typeof expoToken === 'string') {
+          if (
+            !expoToken.startsWith('ExponentPushToken[') &&
+            !expoToken.startsWith('ExpoPushToken[')
+          ) {
+            return applyCors(jsonError('Invalid Expo push token format', 400), corsOrigin);
+          }
+          await env.DB.prepare(
+            `INSERT INTO host_push_subscriptions (user_id, expo_token) VALUES (?1, ?2)
+               ON CONFLICT(expo_token) DO UPDATE SET
+                 user_id=excluded.user_id,
+                 created_at=strftime('%s','now')`
+          )
+            .bind(user.id, expoToken)
+            .run();
+        } else if (subscription?.endpoint && subscription.keys?.p256dh && subscription.keys?.auth) {
+          await env.DB.prepare(
+            `INSERT INTO host_push_subscriptions (user_id, endpoint, p256dh, auth)
+               VALUES (?1, ?2, ?3, ?4)
+               ON CONFLICT(endpoint) DO UPDATE SET
+                 user_id=excluded.user_id,
+                 p256dh=excluded.p256dh,
+                 auth=excluded.auth,
+                 created_at=strftime('%s','now')`
+          )
+            .bind(user.id, subscription.endpoint, subscription.keys.p256dh, subscription.keys.auth)
+            .run();
+        } else {
+          return applyCors(jsonError('Invalid subscription payload', 400), corsOrigin);
+        }
+        return applyCors(new Response('ok'), corsOrigin);
+      } catch (e) {
+        console.error('host subscribe error', e);
+        return applyCors(new Response('fail', { status: 500 }), corsOrigin);
+      }
+    }
+
     // Analytics dashboard data
     if (request.method === 'GET' && url.pathname === '/api/analytics') {
       // Require admin authentication
@@ -1659,7 +1848,9 @@ export default {
               END as wait_seconds,
               p.estimated_wait_ms / 1000 as estimated_wait_seconds,
               p.position_at_leave,
-              p.wait_ms_at_leave / 1000 as wait_at_leave_seconds
+              p.wait_ms_at_leave / 1000 as wait_at_leave_seconds,
+              p.answers,
+              s.join_fields
             FROM parties p
             LEFT JOIN sessions s ON p.session_id = s.id
             WHERE p.joined_at > ?1
@@ -1681,12 +1872,18 @@ export default {
               estimated_wait_seconds: number | null;
               position_at_leave: number | null;
               wait_at_leave_seconds: number | null;
+              answers: string | null;
+              join_fields: string | null;
             }>();
 
           csv =
-            'id,session_id,event_name,short_code,name,size,joined_at,status,called_at,completed_at,wait_seconds,estimated_wait_seconds,position_at_leave,wait_at_leave_seconds\n';
+            'id,session_id,event_name,short_code,name,size,joined_at,status,called_at,completed_at,wait_seconds,estimated_wait_seconds,position_at_leave,wait_at_leave_seconds,answers\n';
           for (const row of result.results || []) {
-            csv += `"${row.id}","${row.session_id}","${row.event_name || ''}","${row.short_code || ''}","${(row.name || '').replace(/"/g, '""')}",${row.size || 1},"${row.joined_at || ''}","${row.status}","${row.called_at || ''}","${row.completed_at || ''}",${row.wait_seconds ?? ''},${row.estimated_wait_seconds ?? ''},${row.position_at_leave ?? ''},${row.wait_at_leave_seconds ?? ''}\n`;
+            const answers = formatJoinAnswers(
+              parseJoinFields(row.join_fields),
+              parseJoinAnswers(row.answers)
+            );
+            csv += `"${row.id}","${row.session_id}","${row.event_name || ''}","${row.short_code || ''}","${(row.name || '').replace(/"/g, '""')}",${row.size || 1},"${row.joined_at || ''}","${row.status}","${row.called_at || ''}","${row.completed_at || ''}",${row.wait_seconds ?? ''},${row.estimated_wait_seconds ?? ''},${row.position_at_leave ?? ''},${row.wait_at_leave_seconds ?? ''},"${answers.replace(/"/g, '""')}"\n`;
           }
           filename = `parties_export_${days}d.csv`;
         } else if (dataType === 'events') {
@@ -2128,11 +2325,42 @@ export default {
         return applyCors(response, corsOrigin, ['set-cookie']);
       }
 
+      if (primary && action === 'events' && request.method === 'GET') {
+        const response = await handleConnect(request, env, primary, '/events');
+        return applyCors(response, corsOrigin);
+      }
+
       if (primary && action === 'snapshot' && request.method === 'GET') {
         const response = await handleSnapshot(request, env, primary);
         return applyCors(response, corsOrigin, ['etag']);
       }
 
+      if (primary && action === 'info' && request.method === 'GET') {
+        const response = await handleInfo(env, primary);
+        return applyCors(response, corsOrigin);
+      }
+
+      if (primary && action === 'members') {
+        const response = await handleMembers(request, env, primary);
+        return applyCors(response, corsOrigin);
+      }
+
+      if (primary && action === 'alerts') {
+        const response = await handleHostAlerts(request, env, primary);
+        return applyCors(response, corsOrigin);
+      }
+
+      if (primary && (action === 'transfer' || action === 'accept-transfer')) {
+        const response = await handleTransfer(
+          request,
+          env,
+          primary,
+          action,
+          corsOrigin ?? url.origin
+        );
+        return applyCors(response, corsOrigin, ['set-cookie']);
+      }
+
       if (request.method === 'POST' && primary && action) {
         const response = await handleAction(request, env, primary, action);
         return applyCors(response, corsOrigin);
@@ -2150,6 +2378,25 @@ export default {
     const { cleanupExpiredAuth } = await import('./utils/oauth');
     await cleanupExpiredAuth(env.DB);
     console.log('[Scheduled] Cleaned up expired auth tokens');
+
+    // Check Expo receipts; a guest whose push bounced, with nothing reaching them since,
+    // shows as unreachable
+    try {
+      const updates = await pollExpoReceipts(env.DB);
+      for (const update of updates) {
+        if (
+          (update.status === 'failed' || update.status === 'expired') &&
+          update.sessionId &&
+          update.partyId &&
+          !(await reachedPartySince(env.DB, update.deliveryId, update.sessionId, update.partyId))
+        ) {
+          await reportPushStatus(env, update.sessionId, update.partyId, 'unreachable');
+        }
+      }
+      console.log(`[Scheduled] Checked ${updates.length} push receipts`);
+    } catch (error) {
+      console.warn('[Scheduled] Push receipt check failed', error);
+    }
   },
 
   async queue(batch: MessageBatch, env: Env, ctx: ExecutionContext): Promise<void> {
@@ -2163,13 +2410,33 @@ export default {
           queueLength?: number;
           deadline?: number | null;
           reason?: string;
+          attempt?: number;
+          counterName?: string;
+          broadcastId?: string;
+          message?: string;
+          rule?: string;
+          title?: string;
+          body?: string;
+          estimatedWaitMs?: number;
+          alert?: HostAlert;
+          partyName?: string;
+          guestCount?: number;
+          maxGuests?: number;
+          minutes?: number;
         };
 
         console.log(
           `[Queue Consumer] Processing event: ${event.type} for session ${event.sessionId}`
         );
 
-        // Handle push notifications
+        // Warnings for the people running the queue rather than its guests
+        if (event.type === 'QUEUE_HOST_ALERT' && event.alert) {
+          await notifyHosts(env, event.sessionId, event.alert, (eventName) =>
+            describeHostAlert(event, eventName)
+          );
+        }
+
+        // Notify the guest on every channel they opted into
         if (event.partyId) {
           switch (event.type) {
             case 'QUEUE_MEMBER_CALLED':
@@ -2180,20 +2447,31 @@ export default {
                     : FALLBACK_CALL_WINDOW_MINUTES * MS_PER_MINUTE;
                 const minutesRemaining = Math.max(1, Math.ceil(msRemaining / MS_PER_MINUTE));
                 const minuteLabel = minutesRemaining === 1 ? 'minute' : 'minutes';
-                await sendPushToParty(env, event.sessionId, event.partyId, {
-                  title: "It's your turn!",
-                  body: `Please confirm within ${minutesRemaining} ${minuteLabel}.`,
-                  kind: 'called',
+                const counterHint = event.counterName ? `Head to ${event.counterName}. ` : '';
+                const kind = pushKind(
+                  event.reason === 'recall'
+                    ? 'recall'
+                    : event.reason === 'requeued'
+                      ? 'called_requeued'
+                      : event.reason === 'reopen'
+                        ? 'called_reopen'
+                        : 'called',
+                  event.attempt
+                );
+                await notifyParty(env, event.sessionId, event.partyId, {
+                  title: event.reason === 'recall' ? 'Still your turn!' : "It's your turn!",
+                  body: `${counterHint}Please confirm within ${minutesRemaining} ${minuteLabel}.`,
+                  kind,
                 });
               }
               break;
 
-            case 'QUEUE_POSITION_2':
-              {
-                const sent = await sendPushToParty(env, event.sessionId, event.partyId, {
-                  title: 'Almost there!',
-                  body: "You're next in line.",
-                  kind: 'pos_2',
+            case 'QUEUE_NUDGE':
+              if (event.rule && event.title && event.body) {
+                const sent = await notifyParty(env, event.sessionId, event.partyId, {
+                  title: event.title,
+                  body: event.body,
+                  kind: pushKind(event.rule, event.attempt),
                 });
                 if (sent) {
                   await logAnalyticsEvent({
@@ -2202,35 +2480,69 @@ export default {
                     partyId: event.partyId,
                     type: 'nudge_sent',
                     details: {
-                      kind: 'pos_2',
-                      position: event.position ?? 2,
+                      kind: event.rule,
+                      position: event.position ?? null,
                       queueLength: event.queueLength ?? null,
+                      estimatedWaitMs: event.estimatedWaitMs ?? null,
                     },
                   });
                 }
               }
               break;
 
-            case 'QUEUE_POSITION_5':
+            case 'QUEUE_MEMBER_RESTORED':
               {
-                const sent = await sendPushToParty(env, event.sessionId, event.partyId, {
-                  title: 'Getting close!',
-                  body: "You're 5th in line.",
-                  kind: 'pos_5',
-                });
-                if (sent) {
-                  await logAnalyticsEvent({
-                    db: env.DB,
-                    sessionId: event.sessionId,
-                    partyId: event.partyId,
-                    type: 'nudge_sent',
-                    details: {
-                      kind: 'pos_5',
-                      position: event.position ?? 5,
-                      queueLength: event.queueLength ?? null,
-                    },
-                  });
+                // Restored either by reopening the queue or by the host undoing a removal
+                const inLine = typeof event.position === 'number' && event.position > 0;
+                const undo = event.reason === 'undo';
+                let body: string;
+                if (undo) {
+                  body = inLine
+                    ? `The host put you back. You're number ${event.position} in line.`
+                    : "The host put you back. It's your turn!";
+                } else {
+                  body = inLine
+                    ? `The queue reopened. You're number ${event.position} in line.`
+                    : 'The queue reopened and your spot was kept.';
                 }
+                await notifyParty(env, event.sessionId, event.partyId, {
+                  title: "You're back in line",
+                  body,
+                  kind: pushKind(undo ? 'restored_undo' : 'restored', event.attempt),
+                });
+              }
+              break;
+
+            case 'QUEUE_MEMBER_REQUEUED':
+              await notifyParty(env, event.sessionId, event.partyId, {
+                title: 'You missed your call',
+                body:
+                  typeof event.position === 'number' && event.position > 0
+                    ? `You've been moved back to number ${event.position} in line.`
+                    : "You've been moved back in line.",
+                kind: 'requeued',
+              });
+              break;
+
+            case 'QUEUE_MEMBER_PROMOTED':
+              await notifyParty(env, event.sessionId, event.partyId, {
+                title: "You're in the queue!",
+                body:
+                  typeof event.position === 'number' && event.position > 0
+                    ? `A spot opened up. You're number ${event.position} in line.`
+                    : 'A spot opened up and you moved off the waitlist.',
+                kind: 'promoted',
+              });
+              break;
+
+            case 'QUEUE_BROADCAST':
+              // Only sent for guests who didn't have the queue open when the host wrote
+              if (event.message) {
+                await notifyParty(env, event.sessionId, event.partyId, {
+                  title: 'Message from the host',
+                  body: event.message,
+                  kind: `broadcast_${event.broadcastId}`,
+                });
               }
               break;
 
@@ -2265,7 +2577,20 @@ export default {
   },
 };
 
-async function sendPushToParty(
+/**
+ * Pushes are deduped per party by kind. A guest can rightly get the same kind again (a
+ * re-call, being called or put back again after an undo, or reaching #2 again after
+ * snoozing), so repeats carry a numbered kind.
+ */
+function pushKind(base: string, attempt?: number): string {
+  return attempt ? `${base}_${attempt}` : base;
+}
+
+/**
+ * Reach the guest on every channel they opted into: Web Push or Expo if they allowed
+ * notifications, plus text and email if they left a number or address when joining.
+ */
+async function notifyParty(
   env: Env,
   sessionId: string,
   partyId: string,
@@ -2275,57 +2600,254 @@ async function sendPushToParty(
     kind?: string;
   }
 ): Promise<boolean> {
-  // Fetch all subscriptions for this party (both web and expo)
-  const sub = await env.DB.prepare(
-    'SELECT endpoint, p256dh, auth, expo_token FROM push_subscriptions WHERE session_id=?1 AND party_id=?2 ORDER BY created_at DESC LIMIT 1'
+  const [push, contacted] = await Promise.all([
+    sendPushToParty(env, sessionId, partyId, params),
+    notifyContacts(env.DB, createNotificationChannels(env), sessionId, partyId, {
+      ...params,
+      url: buildAppUrl(env),
+    }),
+  ]);
+  const delivered = push.delivered || contacted;
+  // Guests with no way to reach them keep whatever the host was shown before
+  if (push.attempted || contacted) {
+    await reportPushStatus(env, sessionId, partyId, delivered ? 'notified' : 'unreachable');
+  }
+  return delivered;
+}
+
+// Whether another of the party's devices took a push sent with or after this delivery
+async function reachedPartySince(
+  db: D1Database,
+  deliveryId: number,
+  sessionId: string,
+  partyId: string
+): Promise<boolean> {
+  const reached = await db
+    .prepare(
+      `SELECT 1 AS x FROM push_deliveries
+         WHERE session_id = ?2 AND party_id = ?3 AND id != ?1
+           AND status IN ('sent', 'delivered')
+           AND created_at >= (SELECT created_at FROM push_deliveries WHERE id = ?1)
+         LIMIT 1`
+    )
+    .bind(deliveryId, sessionId, partyId)
+    .first<{ x: number }>();
+  return Boolean(reached?.x);
+}
+
+// Tell the queue whether the latest notification reached the guest, for the host's list
+async function reportPushStatus(
+  env: Env,
+  sessionId: string,
+  partyId: string,
+  status: 'notified' | 'unreachable'
+): Promise<void> {
+  try {
+    await proxyJsonToQueueDO(env, sessionId, 'push-status', { partyId, status }, new Headers());
+  } catch (error) {
+    console.warn('reportPushStatus error', error);
+  }
+}
+
+/**
+ * Push an alert to every device the queue's owner and staff registered, skipping hosts
+ * who turned this alert off for the queue. Returns how many devices it reached.
+ */
+async function notifyHosts(
+  env: Env,
+  sessionId: string,
+  alert: HostAlert,
+  buildMessage: (eventName: string | null) => { title: string; body: string }
+): Promise<number> {
+  if (!(HOST_ALERTS as readonly string[]).includes(alert)) {
+    return 0;
+  }
+  // `alert` is one of HOST_ALERTS, each of which is a column of host_alert_prefs
+  const { results } = await env.DB.prepare(
+    `SELECT h.endpoint, h.p256dh, h.auth, h.expo_token, s.event_name
+       FROM sessions s
+       JOIN host_push_subscriptions h
+         ON h.user_id = s.owner_id
+         OR h.user_id IN (SELECT user_id FROM queue_members WHERE session_id = s.id)
+       LEFT JOIN host_alert_prefs p ON p.session_id = s.id AND p.user_id = h.user_id
+       WHERE s.id = ?1 AND COALESCE(p.${alert}, 1) = 1`
+  )
+    .bind(sessionId)
+    .all<{
+      endpoint: string | null;
+      p256dh: string | null;
+      auth: string | null;
+      expo_token: string | null;
+      event_name: string | null;
+    }>();
+
+  let sent = 0;
+  for (const device of results ?? []) {
+    const { title, body } = buildMessage(device.event_name);
+    const kind = `host_${alert}`;
+    const delivered =
+      device.endpoint && device.p256dh && device.auth
+        ? await sendPushNotification(env, {
+            sessionId,
+            partyId: null,
+            subscription: { endpoint: device.endpoint, p256dh: device.p256dh, auth: device.auth },
+            title,
+            body,
+            url: buildAppUrl(env),
+            kind,
+            dedupe: false,
+          })
+        : device.expo_token
+          ? await sendExpoPushNotification({
+              expoToken: device.expo_token,
+              title,
+              body,
+              sessionId,
+              db: env.DB,
+              kind,
+              dedupe: false,
+              data: { sessionId, alert },
+            })
+          : false;
+    if (delivered) {
+      sent += 1;
+    }
+  }
+  if (sent > 0) {
+    await logAnalyticsEvent({
+      db: env.DB,
+      sessionId,
+      type: 'host_alert_sent',
+      details: { alert, devices: sent },
+    });
+  }
+  return sent;
+}
+
+function describeHostAlert(
+  event: {
+    alert?: HostAlert;
+    reason?: string;
+    partyName?: string;
+    guestCount?: number;
+    maxGuests?: number;
+    minutes?: number;
+  },
+  eventName: string | null
+): { title: string; body: string } {
+  const queueName = eventName || 'Your queue';
+  switch (event.alert) {
+    case 'capacity':
+      return {
+        title: `${queueName} is almost full`,
+        body: `${event.guestCount ?? 0} of ${event.maxGuests ?? 0} spots are taken. New guests will wait on standby.`,
+      };
+    case 'no_show':
+      return {
+        title: `${event.partyName || 'A called guest'} didn't show`,
+        body:
+          event.reason === 'requeued'
+            ? `They were moved back in line at ${queueName}.`
+            : `They were removed from ${queueName}.`,
+      };
+    default: {
+      const minutes = event.minutes ?? 10;
+      return {
+        title: `${queueName} closes soon`,
+        body:
+          event.reason === 'inactivity'
+            ? `It has been idle and will close automatically in ${minutes} min.`
+            : `It reaches its time limit and will close automatically in ${minutes} min.`,
+      };
+    }
+  }
+}
+
+/**
+ * Push to every device the party subscribed, web and native. `attempted` is false when
+ * the party has no subscriptions; a kind already sent counts as delivered without resending.
+ */
+async function sendPushToParty(
+  env: Env,
+  sessionId: string,
+  partyId: string,
+  params: {
+    title: string;
+    body: string;
+    kind?: string;
+  }
+): Promise<{ attempted: boolean; delivered: boolean }> {
+  const { results } = await env.DB.prepare(
+    'SELECT endpoint, p256dh, auth, expo_token FROM push_subscriptions WHERE session_id=?1 AND party_id=?2 ORDER BY created_at DESC'
   )
     .bind(sessionId, partyId)
-    .first<{ endpoint: string; p256dh: string; auth: string; expo_token: string | null }>();
+    .all<{ endpoint: string; p256dh: string; auth: string; expo_token: string | null }>();
 
-  if (!sub) {
+  if (!results || results.length === 0) {
     console.log(`[sendPushToParty] No subscription found for party ${partyId}`);
-    return false;
+    return { attempted: false, delivered: false };
   }
 
-  let webSent = false;
-  let expoSent = false;
-
-  // Send web push if we have a valid endpoint
-  if (sub.endpoint && sub.endpoint.length > 0 && sub.p256dh && sub.auth) {
-    webSent = await sendPushNotification(env, {
-      sessionId,
-      partyId,
-      subscription: { endpoint: sub.endpoint, p256dh: sub.p256dh, auth: sub.auth },
-      title: params.title,
-      body: params.body,
-      url: buildAppUrl(env),
-      kind: params.kind,
-    });
+  if (params.kind && (await pushAlreadySent(env.DB, sessionId, partyId, params.kind))) {
+    return { attempted: true, delivered: true };
   }
 
-  // Send Expo push if we have a token
-  if (sub.expo_token) {
-    expoSent = await sendExpoPushNotification({
-      expoToken: sub.expo_token,
-      title: params.title,
-      body: params.body,
-      sessionId,
-      partyId,
-      db: env.DB,
-      kind: params.kind,
-      // Skip dedupe for expo if we already deduped in web push
-      dedupe: !webSent,
-    });
+  let delivered = false;
+  for (const sub of results) {
+    // Send web push if we have a valid endpoint
+    if (sub.endpoint && sub.endpoint.length > 0 && sub.p256dh && sub.auth) {
+      const webSent = await sendPushNotification(env, {
+        sessionId,
+        partyId,
+        subscription: { endpoint: sub.endpoint, p256dh: sub.p256dh, auth: sub.auth },
+        title: params.title,
+        body: params.body,
+        url: buildAppUrl(env),
+        kind: params.kind,
+        dedupe: false,
+      });
+      delivered ||= webSent;
+    }
+
+    // Send Expo push if we have a token
+    if (sub.expo_token) {
+      const expoSent = await sendExpoPushNotification({
+        expoToken: sub.expo_token,
+        title: params.title,
+        body: params.body,
+        sessionId,
+        partyId,
+        db: env.DB,
+        kind: params.kind,
+        dedupe: false,
+      });
+      delivered ||= expoSent;
+    }
   }
 
-  return webSent || expoSent;
+  return { attempted: true, delivered };
+}
+
+async function pushAlreadySent(
+  db: D1Database,
+  sessionId: string,
+  partyId: string,
+  kind: string
+): Promise<boolean> {
+  const exists = await db
+    .prepare(
+      "SELECT 1 AS x FROM events WHERE session_id=?1 AND party_id=?2 AND type='push_sent' AND json_extract(details, '$.kind') = ?3 LIMIT 1"
+    )
+    .bind(sessionId, partyId, kind)
+    .first<{ x: number }>();
+  return Boolean(exists?.x);
 }
 
 async function sendPushNotification(
   env: Env,
   params: {
     sessionId: string;
-    partyId: string;
+    partyId: string | null; // Null for host devices
     subscription: { endpoint: string; p256dh: string; auth: string };
     title: string;
     body: string;
@@ -2338,17 +2860,23 @@ async function sendPushNotification(
     return false;
   }
 
-  if (params.kind && params.dedupe !== false) {
-    const exists = await env.DB.prepare(
-      "SELECT 1 AS x FROM events WHERE session_id=?1 AND party_id=?2 AND type='push_sent' AND json_extract(details, '$.kind') = ?3 LIMIT 1"
-    )
-      .bind(params.sessionId, params.partyId, params.kind)
-      .first<{ x: number }>();
-    if (exists?.x) {
-      return true;
-    }
+  if (
+    params.kind &&
+    params.dedupe !== false &&
+    params.partyId &&
+    (await pushAlreadySent(env.DB, params.sessionId, params.partyId, params.kind))
+  ) {
+    return true;
   }
 
+  const delivery = {
+    sessionId: params.sessionId,
+    partyId: params.partyId,
+    kind: params.kind,
+    platform: 'web' as const,
+    address: params.subscription.endpoint,
+  };
+  const startedAt = Date.now();
   try {
     const payload = await buildPushPayload(
       {
@@ -2377,19 +2905,32 @@ async function sendPushNotification(
       headers: payload.headers as any,
       body: payload.body as any,
     });
-
-    if (!resp.ok && (resp.status === 404 || resp.status === 410)) {
-      await env.DB.prepare('DELETE FROM push_subscriptions WHERE endpoint=?1')
-        .bind(params.subscription.endpoint)
-        .run();
-      return false;
-    }
+    const latencyMs = Date.now() - startedAt;
 
     if (!resp.ok) {
-      console.warn('push delivery failed', resp.status, await resp.text());
+      const responseText = await resp.text();
+      // 404 and 410 mean the browser dropped the subscription; it's pruned when logged
+      const status: PushDeliveryStatus =
+        resp.status === 404 || resp.status === 410 ? 'expired' : 'failed';
+      if (status === 'failed') {
+        console.warn('push delivery failed', resp.status, responseText);
+      }
+      await recordPushDelivery(env.DB, {
+        ...delivery,
+        status,
+        httpStatus: resp.status,
+        response: responseText,
+        latencyMs,
+      });
       return false;
     }
 
+    await recordPushDelivery(env.DB, {
+      ...delivery,
+      status: 'sent',
+      httpStatus: resp.status,
+      latencyMs,
+    });
     if (params.kind) {
       await env.DB.prepare(
         "INSERT INTO events (session_id, party_id, type, details) VALUES (?1, ?2, 'push_sent', ?3)"
@@ -2401,13 +2942,14 @@ async function sendPushNotification(
     return true;
   } catch (error: any) {
     const status = error?.status ?? error?.code;
-    if (status === 404 || status === 410) {
-      await env.DB.prepare('DELETE FROM push_subscriptions WHERE endpoint=?1')
-        .bind(params.subscription.endpoint)
-        .run()
-        .catch(() => {});
-    }
     console.warn('sendPushNotification error', error);
+    await recordPushDelivery(env.DB, {
+      ...delivery,
+      status: status === 404 || status === 410 ? 'expired' : 'failed',
+      httpStatus: typeof status === 'number' ? status : null,
+      response: String(error?.message ?? error),
+      latencyMs: Date.now() - startedAt,
+    });
     return false;
   }
 }
@@ -2428,18 +2970,33 @@ async function sendExpoPushNotification(params: {
   data?: Record<string, unknown>;
 }): Promise<boolean> {
   // Dedupe check
-  if (params.kind && params.dedupe !== false && params.db && params.sessionId && params.partyId) {
-    const exists = await params.db
-      .prepare(
-        "SELECT 1 AS x FROM events WHERE session_id=?1 AND party_id=?2 AND type='push_sent' AND json_extract(details, '$.kind') = ?3 LIMIT 1"
-      )
-      .bind(params.sessionId, params.partyId, params.kind)
-      .first<{ x: number }>();
-    if (exists?.x) {
-      return true;
-    }
+  if (
+    params.kind &&
+    params.dedupe !== false &&
+    params.db &&
+    params.sessionId &&
+    params.partyId &&
+    (await pushAlreadySent(params.db, params.sessionId, params.partyId, params.kind))
+  ) {
+    return true;
   }
 
+  const db = params.db;
+  const record = async (
+    delivery: Pick<PushDelivery, 'status' | 'httpStatus' | 'response' | 'latencyMs' | 'ticketId'>
+  ) => {
+    if (db) {
+      await recordPushDelivery(db, {
+        sessionId: params.sessionId ?? null,
+        partyId: params.partyId ?? null,
+        kind: params.kind,
+        platform: 'expo',
+        address: params.expoToken,
+        ...delivery,
+      });
+    }
+  };
+  const startedAt = Date.now();
   try {
     const response = await fetch('https://exp.host/--/api/v2/push/send', {
       method: 'POST',
@@ -2455,46 +3012,47 @@ async function sendExpoPushNotification(params: {
         data: params.data ?? {},
       }),
     });
+    const latencyMs = Date.now() - startedAt;
 
     if (!response.ok) {
       const errorText = await response.text();
       console.warn('Expo push failed:', response.status, errorText);
-
-      // Check if token is invalid and clean up
-      if (response.status === 400 && params.db) {
-        await params.db
-          .prepare('UPDATE push_subscriptions SET expo_token = NULL WHERE expo_token = ?1')
-          .bind(params.expoToken)
-          .run()
-          .catch(() => {});
-      }
+      // A 400 means Expo rejected the token itself, so it's pruned with the log entry
+      await record({
+        status: response.status === 400 ? 'expired' : 'failed',
+        httpStatus: response.status,
+        response: errorText,
+        latencyMs,
+      });
       return false;
     }
 
     const result = (await response.json()) as {
-      data?: { status: string; message?: string; details?: { error?: string } };
+      data?: { status: string; id?: string; message?: string; details?: { error?: string } };
     };
 
     // Check for push ticket errors
     if (result.data?.status === 'error') {
       console.warn('Expo push error:', result.data.message, result.data.details);
-
-      // Clean up invalid tokens
-      if (
-        result.data.details?.error === 'DeviceNotRegistered' ||
-        result.data.details?.error === 'InvalidCredentials'
-      ) {
-        if (params.db) {
-          await params.db
-            .prepare('UPDATE push_subscriptions SET expo_token = NULL WHERE expo_token = ?1')
-            .bind(params.expoToken)
-            .run()
-            .catch(() => {});
-        }
-      }
+      const error = result.data.details?.error;
+      await record({
+        status:
+          error === 'DeviceNotRegistered' || error === 'InvalidCredentials' ? 'expired' : 'failed',
+        httpStatus: response.status,
+        response: [result.data.message, error].filter(Boolean).join(' '),
+        latencyMs,
+      });
       return false;
     }
 
+    // The ticket is swapped for a receipt later, which says whether it reached the device
+    await record({
+      status: 'sent',
+      httpStatus: response.status,
+      latencyMs,
+      ticketId: result.data?.id ?? null,
+    });
+
     // Log successful push
     if (params.kind && params.db && params.sessionId && params.partyId) {
       await params.db
@@ -2512,6 +3070,11 @@ async function sendExpoPushNotification(params: {
     return true;
   } catch (error) {
     console.warn('sendExpoPushNotification error', error);
+    await record({
+      status: 'failed',
+      response: String(error instanceof Error ? error.message : error),
+      latencyMs: Date.now() - startedAt,
+    });
     return false;
   }
 }
@@ -2528,17 +3091,6 @@ function buildAppUrl(env: Env): string {
   }
 }
 
-function normalizeTimeString(value: string): string | null {
-  const trimmed = value.trim();
-  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(trimmed);
-  return match ? `${match[1]}:${match[2]}` : null;
-}
-
-function timeStringToMinutes(value: string): number {
-  const [hours, minutes] = value.split(':').map((part) => Number(part));
-  return hours * 60 + minutes;
-}
-
 async function handleCreate(
   request: Request,
   env: Env,
@@ -2601,6 +3153,15 @@ async function handleCreate(
     }
   }
 
+  // Opening hours are read in the host's timezone; without one they would be ambiguous
+  const rawTimezone =
+    typeof (payload as any).timezone === 'string' ? (payload as any).timezone.trim() : '';
+  if (rawTimezone.length > 0 && !isValidTimezone(rawTimezone)) {
+    return jsonError('timezone must be an IANA timezone name', 400);
+  }
+  const timezone =
+    normalizedOpenTime || normalizedCloseTime ? rawTimezone || DEFAULT_TIMEZONE : null;
+
   const rawMaxGuests = (payload as any).maxGuests;
   let maxGuests: number | null = null;
   if (typeof rawMaxGuests === 'number') {
@@ -2616,27 +3177,209 @@ async function handleCreate(
     return jsonError('maxGuests must be an integer', 400);
   }
   if (maxGuests < MIN_QUEUE_CAPACITY || maxGuests > MAX_QUEUE_CAPACITY) {
-    return jsonError('maxGuests must be between 1 and 100', 400);
+    return jsonError(
+      `maxGuests must be between ${MIN_QUEUE_CAPACITY} and ${MAX_QUEUE_CAPACITY}`,
+      400
+    );
   }
 
-  // Check if requiresAuth is requested
-  const rawRequiresAuth = (payload as any).requiresAuth;
-  const requiresAuth = rawRequiresAuth === true || rawRequiresAuth === 'true';
+  // Optional named service counters (e.g. "Window 1", "Window 2") served in parallel
+  const rawCounters = (payload as any).counters;
+  let serviceCounters: { id: string; name: string }[] | null = null;
+  if (rawCounters !== undefined && rawCounters !== null) {
+    if (!Array.isArray(rawCounters) || rawCounters.some((entry) => typeof entry !== 'string')) {
+      return jsonError('counters must be an array of names', 400);
+    }
+    const counterNames = rawCounters
+      .map((entry: string) => entry.trim())
+      .filter((entry: string) => entry.length > 0);
+    if (counterNames.length > MAX_SERVICE_COUNTERS) {
+      return jsonError(`counters must have at most ${MAX_SERVICE_COUNTERS} entries`, 400);
+    }
+    if (counterNames.some((entry: string) => entry.length > MAX_COUNTER_NAME_LENGTH)) {
+      return jsonError(`counter names must be ${MAX_COUNTER_NAME_LENGTH} characters or fewer`, 400);
+    }
+    const lowered = counterNames.map((entry: string) => entry.toLowerCase());
+    if (new Set(lowered).size !== lowered.length) {
+      return jsonError('counter names must be unique', 400);
+    }
+    if (counterNames.length > 0) {
+      serviceCounters = counterNames.map((name: string, index: number) => ({
+        id: `c${index + 1}`,
+        name,
+      }));
+    }
+  }
 
-  // Check for authenticated user (optional - queue creation works without auth)
-  let ownerId: string | null = null;
-  const sessionId_auth = getSessionFromRequest(request);
-  if (sessionId_auth) {
-    const user = await validateSession(env.DB, sessionId_auth);
-    if (user) {
-      ownerId = user.id;
+  // Optional priority lanes (e.g. "VIP", "Accessibility"), highest priority first.
+  // Entries are names or { name, weight?, guestSelectable? }; the standard lane is implicit.
+  const rawLanes = (payload as any).lanes;
+  let priorityLanes:
+    | {
+        id: string;
+        name: string;
+        weight: number;
+        guestSelectable: boolean;
+      }[]
+    | null = null;
+  if (rawLanes !== undefined && rawLanes !== null) {
+    if (!Array.isArray(rawLanes)) {
+      return jsonError('lanes must be an array', 400);
+    }
+    const lanes: { name: string; weight: number; guestSelectable: boolean }[] = [];
+    for (const entry of rawLanes) {
+      const rawName = typeof entry === 'string' ? entry : entry?.name;
+      if (typeof rawName !== 'string') {
+        return jsonError('each lane needs a name', 400);
+      }
+      const name = rawName.trim();
+      if (!name) {
+        continue;
+      }
+      if (name.length > MAX_LANE_NAME_LENGTH) {
+        return jsonError(`lane names must be ${MAX_LANE_NAME_LENGTH} characters or fewer`, 400);
+      }
+      const weight = typeof entry === 'string' || entry.weight === undefined ? 1 : entry.weight;
+      if (!Number.isInteger(weight) || weight < 1 || weight > MAX_LANE_WEIGHT) {
+        return jsonError(`lane weight must be an integer between 1 and ${MAX_LANE_WEIGHT}`, 400);
+      }
+      lanes.push({
+        name,
+        weight,
+        guestSelectable: typeof entry === 'object' && entry.guestSelectable === true,
+      });
+    }
+    if (lanes.length > MAX_PRIORITY_LANES) {
+      return jsonError(`lanes must have at most ${MAX_PRIORITY_LANES} entries`, 400);
+    }
+    const lowered = lanes.map((lane) => lane.name.toLowerCase());
+    if (new Set(lowered).size !== lowered.length || lowered.includes('standard')) {
+      return jsonError('lane names must be unique and cannot be "Standard"', 400);
+    }
+    if (lanes.length > 0) {
+      priorityLanes = lanes.map((lane, index) => ({ id: `lane${index + 1}`, ...lane }));
     }
   }
 
-  // Only authenticated users can create queues that require guest authentication
-  if (requiresAuth && !ownerId) {
-    return jsonError(
-      'You must be logged in to create a queue that requires guest authentication',
+  const rawLanePolicy = (payload as any).lanePolicy;
+  if (rawLanePolicy !== undefined && rawLanePolicy !== 'strict' && rawLanePolicy !== 'weighted') {
+    return jsonError("lanePolicy must be 'strict' or 'weighted'", 400);
+  }
+  const lanePolicy: 'strict' | 'weighted' = rawLanePolicy ?? 'strict';
+
+  // Optional appointment slots (start times in ms) offered next to the walk-in queue
+  const rawSlots = (payload as any).slots;
+  let slotStarts: number[] = [];
+  if (rawSlots !== undefined && rawSlots !== null) {
+    const now = Date.now();
+    if (
+      !Array.isArray(rawSlots) ||
+      rawSlots.some(
+        (entry) =>
+          typeof entry !== 'number' ||
+          !Number.isInteger(entry) ||
+          entry <= now ||
+          entry > now + MAX_SLOT_LEAD_MS
+      )
+    ) {
+      return jsonError('slots must be future timestamps in milliseconds, within 7 days', 400);
+    }
+    slotStarts = [...new Set(rawSlots.map((entry: number) => Math.floor(entry / 1000)))].sort(
+      (a, b) => a - b
+    );
+    if (slotStarts.length > MAX_APPOINTMENT_SLOTS) {
+      return jsonError(`At most ${MAX_APPOINTMENT_SLOTS} appointment slots are allowed`, 400);
+    }
+  }
+
+  // Optional call window and no-show handling; omitted fields keep the defaults
+  const rawCallPolicy = (payload as any).callPolicy;
+  let callPolicy: {
+    timeoutSeconds: number;
+    maxRecalls: number;
+    noShowAction: 'drop' | 'requeue';
+    requeuePlaces: number;
+  } | null = null;
+  if (rawCallPolicy !== undefined && rawCallPolicy !== null) {
+    if (typeof rawCallPolicy !== 'object' || Array.isArray(rawCallPolicy)) {
+      return jsonError('callPolicy must be an object', 400);
+    }
+    const timeoutSeconds = rawCallPolicy.timeoutSeconds ?? FALLBACK_CALL_WINDOW_MINUTES * 60;
+    if (
+      !Number.isInteger(timeoutSeconds) ||
+      timeoutSeconds < MIN_CALL_TIMEOUT_SECONDS ||
+      timeoutSeconds > MAX_CALL_TIMEOUT_SECONDS
+    ) {
+      return jsonError(
+        `callPolicy.timeoutSeconds must be an integer between ${MIN_CALL_TIMEOUT_SECONDS} and ${MAX_CALL_TIMEOUT_SECONDS}`,
+        400
+      );
+    }
+    const maxRecalls = rawCallPolicy.maxRecalls ?? 0;
+    if (!Number.isInteger(maxRecalls) || maxRecalls < 0 || maxRecalls > MAX_CALL_RECALLS) {
+      return jsonError(
+        `callPolicy.maxRecalls must be an integer between 0 and ${MAX_CALL_RECALLS}`,
+        400
+      );
+    }
+    const noShowAction = rawCallPolicy.noShowAction ?? 'drop';
+    if (noShowAction !== 'drop' && noShowAction !== 'requeue') {
+      return jsonError("callPolicy.noShowAction must be 'drop' or 'requeue'", 400);
+    }
+    const requeuePlaces = noShowAction === 'requeue' ? (rawCallPolicy.requeuePlaces ?? 3) : 0;
+    if (
+      !Number.isInteger(requeuePlaces) ||
+      requeuePlaces < 0 ||
+      requeuePlaces > MAX_REQUEUE_PLACES
+    ) {
+      return jsonError(
+        `callPolicy.requeuePlaces must be an integer between 0 and ${MAX_REQUEUE_PLACES}`,
+        400
+      );
+    }
+    callPolicy = { timeoutSeconds, maxRecalls, noShowAction, requeuePlaces };
+  }
+
+  // Optional extra questions on the join form
+  let joinFields: JoinField[] = [];
+  const rawJoinFields = (payload as any).joinFields;
+  if (rawJoinFields !== undefined && rawJoinFields !== null) {
+    const normalized = normalizeJoinFields(rawJoinFields);
+    if ('error' in normalized) {
+      return jsonError(normalized.error, 400);
+    }
+    joinFields = normalized.fields;
+  }
+
+  // Optional position and wait-time reminders; leaving them out keeps the defaults
+  let nudgeRules: NudgeRule[] | null = null;
+  const rawNudgeRules = (payload as any).nudgeRules;
+  if (rawNudgeRules !== undefined && rawNudgeRules !== null) {
+    const normalized = normalizeNudgeRules(rawNudgeRules);
+    if ('error' in normalized) {
+      return jsonError(normalized.error, 400);
+    }
+    nudgeRules = normalized.rules;
+  }
+
+  // Check if requiresAuth is requested
+  const rawRequiresAuth = (payload as any).requiresAuth;
+  const requiresAuth = rawRequiresAuth === true || rawRequiresAuth === 'true';
+
+  // Check for authenticated user (optional - queue creation works without auth)
+  let ownerId: string | null = null;
+  const sessionId_auth = getSessionFromRequest(request);
+  if (sessionId_auth) {
+    const user = await validateSession(env.DB, sessionId_auth);
+    if (user) {
+      ownerId = user.id;
+    }
+  }
+
+  // Only authenticated users can create queues that require guest authentication
+  if (requiresAuth && !ownerId) {
+    return jsonError(
+      'You must be logged in to create a queue that requires guest authentication',
       400
     );
   }
@@ -2689,7 +3432,7 @@ async function handleCreate(
   const shortCode = await generateUniqueCode(env);
 
   const insertResult = await env.DB.prepare(
-    "INSERT INTO sessions (id, short_code, status, event_name, max_guests, location, contact_info, open_time, close_time, owner_id, requires_auth) VALUES (?1, ?2, 'active', ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10)"
+    "INSERT INTO sessions (id, short_code, status, event_name, max_guests, location, contact_info, open_time, close_time, owner_id, requires_auth, service_counters, priority_lanes, lane_policy, timezone, call_policy, join_fields, nudge_rules) VALUES (?1, ?2, 'active', ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14, ?15, ?16, ?17)"
   )
     .bind(
       sessionId,
@@ -2701,7 +3444,14 @@ async function handleCreate(
       normalizedOpenTime,
       normalizedCloseTime,
       ownerId,
-      requiresAuth ? 1 : 0
+      requiresAuth ? 1 : 0,
+      serviceCounters ? JSON.stringify(serviceCounters) : null,
+      priorityLanes ? JSON.stringify(priorityLanes) : null,
+      lanePolicy,
+      timezone,
+      callPolicy ? JSON.stringify(callPolicy) : null,
+      joinFields.length > 0 ? JSON.stringify(joinFields) : null,
+      nudgeRules ? JSON.stringify(nudgeRules) : null
     )
     .run();
 
@@ -2710,6 +3460,20 @@ async function handleCreate(
     return new Response('Failed to create session', { status: 500 });
   }
 
+  const appointmentSlots = slotStarts.map((startsAt) => ({
+    id: crypto.randomUUID(),
+    startsAt: startsAt * 1000,
+  }));
+  if (appointmentSlots.length > 0) {
+    await env.DB.batch(
+      appointmentSlots.map((slot) =>
+        env.DB.prepare(
+          'INSERT INTO appointment_slots (id, session_id, starts_at) VALUES (?1, ?2, ?3)'
+        ).bind(slot.id, sessionId, slot.startsAt / 1000)
+      )
+    );
+  }
+
   await env.QUEUE_KV.put(shortCode, sessionId, { expirationTtl: HOST_COOKIE_MAX_AGE_SECONDS });
 
   const origin = url.origin;
@@ -2737,14 +3501,102 @@ async function handleCreate(
     contactInfo: normalizedContactInfo,
     openTime: normalizedOpenTime,
     closeTime: normalizedCloseTime,
+    timezone,
     requiresAuth,
     ownerId,
+    counters: serviceCounters,
+    lanes: priorityLanes,
+    lanePolicy,
+    slots: appointmentSlots,
+    callPolicy,
+    joinFields,
+    nudgeRules: nudgeRules ?? DEFAULT_NUDGE_RULES,
   });
 
   return new Response(body, { status: 200, headers });
 }
 
-async function handleConnect(request: Request, env: Env, code: string): Promise<Response> {
+/**
+ * Public, pre-join queue metadata. Only lanes guests may pick for themselves are listed.
+ */
+async function handleInfo(env: Env, code: string): Promise<Response> {
+  const sessionId = await resolveSessionId(env, code.toUpperCase());
+  if (!sessionId) {
+    return jsonError('Session not found', 404);
+  }
+
+  const sessionRow = await env.DB.prepare(
+    'SELECT event_name, status, priority_lanes, paused_at, resume_at, open_time, close_time, timezone, join_fields FROM sessions WHERE id = ?1'
+  )
+    .bind(sessionId)
+    .first<{
+      event_name: string | null;
+      status: string;
+      priority_lanes: string | null;
+      join_fields: string | null;
+      paused_at: number | null;
+      resume_at: number | null;
+      open_time: string | null;
+      close_time: string | null;
+      timezone: string | null;
+    }>();
+  if (!sessionRow) {
+    return jsonError('Session not found', 404);
+  }
+
+  let lanes: { id: string; name: string }[] = [];
+  if (sessionRow.priority_lanes) {
+    try {
+      const parsed = JSON.parse(sessionRow.priority_lanes) as {
+        id: string;
+        name: string;
+        guestSelectable?: boolean;
+      }[];
+      lanes = parsed
+        .filter((lane) => lane.guestSelectable === true)
+        .map((lane) => ({ id: lane.id, name: lane.name }));
+    } catch {
+      lanes = [];
+    }
+  }
+
+  const schedule = parseSchedule(sessionRow);
+  const openWindow = scheduleWindow(schedule, Date.now());
+
+  const { results: slotRows } = await env.DB.prepare(
+    "SELECT id, starts_at FROM appointment_slots WHERE session_id = ?1 AND status = 'open' AND starts_at > ?2 ORDER BY starts_at ASC"
+  )
+    .bind(sessionId, Math.floor(Date.now() / 1000))
+    .all<{ id: string; starts_at: number }>();
+
+  return new Response(
+    JSON.stringify({
+      eventName: sessionRow.event_name,
+      status: sessionRow.status,
+      paused: sessionRow.paused_at !== null,
+      resumeAt: sessionRow.resume_at !== null ? sessionRow.resume_at * 1000 : null,
+      lanes,
+      schedule: schedule ? { ...schedule, ...openWindow } : null,
+      // Appointment slots still free to book
+      slots: (slotRows ?? []).map((row) => ({ id: row.id, startsAt: row.starts_at * 1000 })),
+      joinFields: parseJoinFields(sessionRow.join_fields),
+      // Channels guests can leave a number or address for when joining
+      contactChannels: [...createNotificationChannels(env).keys()],
+    }),
+    { headers: { 'content-type': 'application/json' } }
+  );
+}
+
+/**
+ * Forward a live-update connection to the queue's DO: a WebSocket on /connect, or a
+ * Server-Sent Event stream on /events for networks that block WebSockets.
+ */
+async function handleConnect(
+  request: Request,
+  env: Env,
+  code: string,
+  doPath: '/connect' | '/events' = '/connect'
+): Promise<Response> {
   const normalizedCode = code.toUpperCase();
   const sessionId = await resolveSessionId(env, normalizedCode);
   if (!sessionId) {
@@ -2761,7 +3613,25 @@ async function handleConnect(request: Request, env: Env, code: string): Promise<
   }
 
   const doUrl = new URL(request.url);
-  doUrl.pathname = '/connect';
+  doUrl.pathname = doPath;
+
+  // Logged-in owners and staff can open the host socket without a host token, as with
+  // snapshots. Boards stay boards even on a host's own browser.
+  if (
+    !headers.has('x-host-auth') &&
+    !doUrl.searchParams.has('partyId') &&
+    !doUrl.searchParams.has('board')
+  ) {
+    const hostUser = await resolveHostUser(request, sessionId, env);
+    if (hostUser) {
+      const hostToken = await generateHostCookieValue(
+        sessionId,
+        env.HOST_AUTH_SECRET,
+        await getHostEpoch(env, sessionId)
+      );
+      headers.set('x-host-auth', hostToken);
+    }
+  }
 
   const init: RequestInit = {
     method: request.method,
@@ -2793,21 +3663,18 @@ async function handleSnapshot(request: Request, env: Env, code: string): Promise
   const headers = new Headers(request.headers);
   headers.set('x-session-id', sessionId);
 
-  // Check if authenticated user owns this queue and add host token if so
+  // Check if authenticated user owns or staffs this queue and add host token if so
   // This enables cross-browser/cross-device access for logged-in users
-  const authSessionId = getSessionFromRequest(request);
-  if (authSessionId && !headers.has('x-host-auth')) {
-    const user = await validateSession(env.DB, authSessionId);
-    if (user) {
-      const queue = await env.DB.prepare('SELECT owner_id FROM sessions WHERE id = ?1')
-        .bind(sessionId)
-        .first<{ owner_id: string | null }>();
-
-      if (queue?.owner_id === user.id) {
-        // User owns this queue - generate a valid host token for the DO
-        const hostToken = await generateHostCookieValue(sessionId, env.HOST_AUTH_SECRET);
-        headers.set('x-host-auth', hostToken);
-      }
+  if (!headers.has('x-host-auth')) {
+    const hostUser = await resolveHostUser(request, sessionId, env);
+    if (hostUser) {
+      // Generate a valid host token for the DO
+      const hostToken = await generateHostCookieValue(
+        sessionId,
+        env.HOST_AUTH_SECRET,
+        await getHostEpoch(env, sessionId)
+      );
+      headers.set('x-host-auth', hostToken);
     }
   }
 
@@ -2839,16 +3706,46 @@ async function handleAction(
       return handleJoin(request, env, sessionId);
     case 'declare-nearby':
     case 'leave':
+    case 'snooze':
       return handleGuestAction(request, env, sessionId, action);
     case 'advance':
     case 'kick':
     case 'close':
+    case 'pause':
+    case 'resume':
+    case 'reopen':
+    case 'undo':
+    case 'assign-lane':
+    case 'annotate':
+    case 'reorder':
+    case 'broadcast':
       return handleHostAction(request, env, sessionId, action);
+    case 'board':
+      return handleBoardLink(request, env, sessionId);
     default:
       return new Response('Not found', { status: 404 });
   }
 }
 
+/**
+ * Hands the host a token for the read-only display board. The app puts it in the board
+ * link, which opens `/connect` or `/events` with `?board=<token>`.
+ */
+async function handleBoardLink(request: Request, env: Env, sessionId: string): Promise<Response> {
+  const hostAuth = await requireHostAuth(request, sessionId, env, 'board');
+  if (hostAuth instanceof Response) {
+    return hostAuth;
+  }
+  const token = await generateBoardToken(
+    sessionId,
+    env.HOST_AUTH_SECRET,
+    await getHostEpoch(env, sessionId)
+  );
+  return new Response(JSON.stringify({ token }), {
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
 async function handleJoin(request: Request, env: Env, sessionId: string): Promise<Response> {
   // Rate limit: 20 queue joins per minute per IP
   const clientIp = getClientIp(request);
@@ -2861,21 +3758,40 @@ async function handleJoin(request: Request, env: Env, sessionId: string): Promis
     return jsonError('Invalid JSON body', 400);
   }
 
-  const { name, size, turnstileToken } = payload;
+  const { name, size, turnstileToken, laneId, slotId, answers } = payload;
   if (name !== undefined && typeof name !== 'string') {
     return jsonError('name must be a string', 400);
   }
   if (size !== undefined && (!Number.isInteger(size) || size <= 0)) {
     return jsonError('size must be a positive integer', 400);
   }
+  if (laneId !== undefined && (typeof laneId !== 'string' || !laneId)) {
+    return jsonError('laneId must be a string', 400);
+  }
+  if (slotId !== undefined && (typeof slotId !== 'string' || !slotId)) {
+    return jsonError('slotId must be a string', 400);
+  }
 
   // Check if this queue requires authentication
-  const sessionRow = await env.DB.prepare('SELECT requires_auth FROM sessions WHERE id = ?1')
+  const sessionRow = await env.DB.prepare(
+    'SELECT requires_auth, join_fields FROM sessions WHERE id = ?1'
+  )
     .bind(sessionId)
-    .first<{ requires_auth: number | null }>();
+    .first<{ requires_auth: number | null; join_fields: string | null }>();
 
   const requiresAuth = sessionRow?.requires_auth === 1;
 
+  const answerCheck = validateJoinAnswers(parseJoinFields(sessionRow?.join_fields), answers);
+  if ('error' in answerCheck) {
+    return jsonError(answerCheck.error, 400);
+  }
+
+  // Where to text or email the guest, for the channels this deployment can send on
+  const contactCheck = normalizeContacts(payload.contacts, createNotificationChannels(env).keys());
+  if ('error' in contactCheck) {
+    return jsonError(contactCheck.error, 400);
+  }
+
   // Check for authenticated user
   let userId: string | null = null;
   const authSessionId = getSessionFromRequest(request);
@@ -2893,10 +3809,11 @@ async function handleJoin(request: Request, env: Env, sessionId: string): Promis
     });
   }
 
-  // If user is authenticated, check for duplicate joins (one user = one spot in queue)
+  // If user is authenticated, check for duplicate joins (one user = one spot in queue,
+  // whether in line or booked for a slot)
   if (userId) {
     const existingParty = await env.DB.prepare(
-      "SELECT id FROM parties WHERE session_id = ?1 AND user_id = ?2 AND status IN ('waiting', 'called') LIMIT 1"
+      "SELECT id FROM parties WHERE session_id = ?1 AND user_id = ?2 AND status IN ('waiting', 'called', 'standby', 'booked') LIMIT 1"
     )
       .bind(sessionId, userId)
       .first<{ id: string }>();
@@ -2948,19 +3865,58 @@ async function handleJoin(request: Request, env: Env, sessionId: string): Promis
     }
   }
 
+  // Hosts adding a guest to a host-only lane; the QueueDO rejects those lanes for guests
+  let hostCookie: string | undefined;
+  if (laneId) {
+    const hostAuth = await requireHostAuth(request, sessionId, env, 'join');
+    if (!(hostAuth instanceof Response)) {
+      hostCookie = hostAuth.token;
+    }
+  }
+
   const body = {
     name,
     size,
     userId, // Pass user_id to QueueDO if authenticated
+    laneId,
+    slotId, // Books that appointment slot instead of joining the walk-in line
+    answers: answerCheck.answers,
   };
-  return proxyJsonToQueueDO(env, sessionId, 'join', body, request.headers);
+  const response = await proxyJsonToQueueDO(
+    env,
+    sessionId,
+    'join',
+    body,
+    request.headers,
+    hostCookie
+  );
+  const contacts = Object.entries(contactCheck.contacts);
+  if (response.ok && contacts.length > 0) {
+    // The guest is already in line, so a failed write only costs them texts and emails;
+    // failing the request would invite a retry that joins them twice
+    try {
+      const { partyId } = await response.clone().json<{ partyId?: string }>();
+      if (partyId) {
+        await env.DB.batch(
+          contacts.map(([channel, address]) =>
+            env.DB.prepare(
+              'INSERT OR REPLACE INTO party_contacts (session_id, party_id, channel, address) VALUES (?1, ?2, ?3, ?4)'
+            ).bind(sessionId, partyId, channel, address)
+          )
+        );
+      }
+    } catch (error) {
+      console.warn('party contacts insert warning', error);
+    }
+  }
+  return response;
 }
 
 async function handleGuestAction(
   request: Request,
   env: Env,
   sessionId: string,
-  action: 'declare-nearby' | 'leave'
+  action: 'declare-nearby' | 'leave' | 'snooze'
 ): Promise<Response> {
   const payload = await readJson(request);
   if (!payload) {
@@ -2972,6 +3928,30 @@ async function handleGuestAction(
     return jsonError('partyId is required', 400);
   }
 
+  if (action === 'snooze') {
+    // Either let a few parties go ahead, or step out until a time
+    const { places, until } = payload as { places?: unknown; until?: unknown };
+    if ((places === undefined) === (until === undefined)) {
+      return jsonError('Provide either places or until', 400);
+    }
+    if (
+      places !== undefined &&
+      (typeof places !== 'number' ||
+        !Number.isInteger(places) ||
+        places < 1 ||
+        places > MAX_SNOOZE_PLACES)
+    ) {
+      return jsonError(`places must be an integer between 1 and ${MAX_SNOOZE_PLACES}`, 400);
+    }
+    if (
+      until !== undefined &&
+      (typeof until !== 'number' || until <= Date.now() || until > Date.now() + MAX_SNOOZE_MS)
+    ) {
+      return jsonError('until must be a future timestamp in milliseconds, within an hour', 400);
+    }
+    return proxyJsonToQueueDO(env, sessionId, action, { partyId, places, until }, request.headers);
+  }
+
   return proxyJsonToQueueDO(env, sessionId, action, { partyId }, request.headers);
 }
 
@@ -2979,15 +3959,26 @@ async function handleHostAction(
   request: Request,
   env: Env,
   sessionId: string,
-  action: 'advance' | 'kick' | 'close'
+  action:
+    | 'advance'
+    | 'kick'
+    | 'close'
+    | 'pause'
+    | 'resume'
+    | 'reopen'
+    | 'undo'
+    | 'assign-lane'
+    | 'annotate'
+    | 'reorder'
+    | 'broadcast'
 ): Promise<Response> {
-  const hostCookie = await requireHostAuth(request, sessionId, env);
-  if (hostCookie instanceof Response) {
-    return hostCookie;
+  const hostAuth = await requireHostAuth(request, sessionId, env, action);
+  if (hostAuth instanceof Response) {
+    return hostAuth;
   }
 
   let payload: any = {};
-  if (action !== 'close') {
+  if (action !== 'close' && action !== 'resume' && action !== 'reopen') {
     const data = await readJson(request);
     payload = typeof data === 'object' && data !== null ? data : {};
   }
@@ -2995,9 +3986,10 @@ async function handleHostAction(
   let body: Record<string, unknown> = {};
   switch (action) {
     case 'advance': {
-      const { servedParty, nextParty } = payload as {
+      const { servedParty, nextParty, counterId } = payload as {
         servedParty?: string;
         nextParty?: string;
+        counterId?: string;
       };
       if (servedParty !== undefined && typeof servedParty !== 'string') {
         return jsonError('servedParty must be a string', 400);
@@ -3005,24 +3997,99 @@ async function handleHostAction(
       if (nextParty !== undefined && typeof nextParty !== 'string') {
         return jsonError('nextParty must be a string', 400);
       }
-      body = { servedParty, nextParty };
+      if (counterId !== undefined && typeof counterId !== 'string') {
+        return jsonError('counterId must be a string', 400);
+      }
+      body = { servedParty, nextParty, counterId, actedBy: hostAuth.userId };
       break;
     }
     case 'kick': {
-      const { partyId } = payload as { partyId?: string };
+      const { partyId, counterId } = payload as { partyId?: string; counterId?: string };
+      if (counterId !== undefined && (typeof counterId !== 'string' || !counterId)) {
+        return jsonError('counterId must be a string', 400);
+      }
+      if (!counterId && (typeof partyId !== 'string' || !partyId)) {
+        return jsonError('partyId is required', 400);
+      }
+      body = { partyId, counterId, actedBy: hostAuth.userId };
+      break;
+    }
+    case 'assign-lane': {
+      const { partyId, laneId } = payload as { partyId?: string; laneId?: string };
+      if (typeof partyId !== 'string' || !partyId) {
+        return jsonError('partyId is required', 400);
+      }
+      if (typeof laneId !== 'string' || !laneId) {
+        return jsonError('laneId is required', 400);
+      }
+      body = { partyId, laneId };
+      break;
+    }
+    case 'annotate': {
+      const { partyId, note, tags } = payload as {
+        partyId?: string;
+        note?: string | null;
+        tags?: unknown;
+      };
       if (typeof partyId !== 'string' || !partyId) {
         return jsonError('partyId is required', 400);
       }
-      body = { partyId };
+      if (note !== undefined && note !== null && typeof note !== 'string') {
+        return jsonError('note must be a string', 400);
+      }
+      if (tags !== undefined && tags !== null && !Array.isArray(tags)) {
+        return jsonError('tags must be an array', 400);
+      }
+      body = { partyId, note, tags };
       break;
     }
-    case 'close': {
+    case 'reorder': {
+      const { partyId, toIndex } = payload as { partyId?: string; toIndex?: number };
+      if (typeof partyId !== 'string' || !partyId) {
+        return jsonError('partyId is required', 400);
+      }
+      if (typeof toIndex !== 'number' || !Number.isInteger(toIndex) || toIndex < 0) {
+        return jsonError('toIndex must be a non-negative integer', 400);
+      }
+      body = { partyId, toIndex };
+      break;
+    }
+    case 'broadcast': {
+      const { message, target } = payload as { message?: string; target?: unknown };
+      if (typeof message !== 'string' || !message.trim()) {
+        return jsonError('message is required', 400);
+      }
+      if (target !== undefined && (typeof target !== 'object' || target === null)) {
+        return jsonError('target must be an object', 400);
+      }
+      body = { message, target };
+      break;
+    }
+    case 'undo': {
+      const { undoId } = payload as { undoId?: string };
+      if (undoId !== undefined && (typeof undoId !== 'string' || !undoId)) {
+        return jsonError('undoId must be a string', 400);
+      }
+      body = { undoId };
+      break;
+    }
+    case 'pause': {
+      const { resumeAt } = payload as { resumeAt?: number | null };
+      if (resumeAt !== undefined && resumeAt !== null && typeof resumeAt !== 'number') {
+        return jsonError('resumeAt must be a timestamp in milliseconds', 400);
+      }
+      body = { resumeAt: resumeAt ?? null };
+      break;
+    }
+    case 'close':
+    case 'resume':
+    case 'reopen': {
       body = {};
       break;
     }
   }
 
-  return proxyJsonToQueueDO(env, sessionId, action, body, request.headers, hostCookie);
+  return proxyJsonToQueueDO(env, sessionId, action, body, request.headers, hostAuth.token);
 }
 
 async function proxyJsonToQueueDO(
@@ -3139,7 +4206,7 @@ function applyCors(
       'Access-Control-Allow-Headers',
       'content-type, cf-connecting-ip, authorization, x-host-auth, if-none-match'
     );
-    headers.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    headers.set('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
     headers.set('Access-Control-Max-Age', '600');
   }
   return new Response(response.body, {
@@ -3197,54 +4264,436 @@ async function verifyTurnstile(
   return data;
 }
 
-async function requireHostAuth(
+/**
+ * The logged-in user behind a request and their role on this queue: the owner, or staff
+ * the owner invited. Null for anonymous requests and users with no role.
+ */
+async function resolveHostUser(
   request: Request,
   sessionId: string,
   env: Env
-): Promise<string | Response> {
-  // First, check if the user is authenticated and owns this queue
-  // This enables cross-browser/cross-device access for logged-in users
+): Promise<{ userId: string; role: HostRole } | null> {
   const authSessionId = getSessionFromRequest(request);
-  if (authSessionId) {
-    const user = await validateSession(env.DB, authSessionId);
-    if (user) {
-      // Check if this user owns the queue
-      const queue = await env.DB.prepare('SELECT owner_id FROM sessions WHERE id = ?1')
-        .bind(sessionId)
-        .first<{ owner_id: string | null }>();
+  if (!authSessionId) {
+    return null;
+  }
+  const user = await validateSession(env.DB, authSessionId);
+  if (!user) {
+    return null;
+  }
 
-      if (queue?.owner_id === user.id) {
-        // User owns this queue - generate a valid host token for downstream use
-        const hostToken = await generateHostCookieValue(sessionId, env.HOST_AUTH_SECRET);
-        return hostToken;
-      }
-    }
+  const row = await env.DB.prepare(
+    `SELECT s.owner_id, m.role FROM sessions s
+       LEFT JOIN queue_members m ON m.session_id = s.id AND m.user_id = ?2
+       WHERE s.id = ?1`
+  )
+    .bind(sessionId, user.id)
+    .first<{ owner_id: string | null; role: StaffRole | null }>();
+  if (row?.owner_id === user.id) {
+    return { userId: user.id, role: 'owner' };
+  }
+  return row?.role ? { userId: user.id, role: row.role } : null;
+}
+
+async function getHostEpoch(env: Env, sessionId: string): Promise<number> {
+  const row = await env.DB.prepare('SELECT host_epoch FROM sessions WHERE id = ?1')
+    .bind(sessionId)
+    .first<{ host_epoch: number | null }>();
+  return row?.host_epoch ?? 0;
+}
+
+async function findUserByEmail(env: Env, email: string): Promise<{ id: string } | null> {
+  return env.DB.prepare(
+    'SELECT id FROM users WHERE lower(email) = ?1 OR lower(google_email) = ?1 LIMIT 1'
+  )
+    .bind(email.trim().toLowerCase())
+    .first<{ id: string }>();
+}
+
+async function requireHostAuth(
+  request: Request,
+  sessionId: string,
+  env: Env,
+  action: string
+): Promise<HostAuth | Response> {
+  // First, check if the user is authenticated and owns or staffs this queue
+  // This enables cross-browser/cross-device access for logged-in users
+  const hostEpoch = await getHostEpoch(env, sessionId);
+  const hostUser = await resolveHostUser(request, sessionId, env);
+  if (hostUser && (hostUser.role !== 'caller' || CALLER_ACTIONS.has(action))) {
+    // Generate a valid host token for downstream use
+    const hostToken = await generateHostCookieValue(sessionId, env.HOST_AUTH_SECRET, hostEpoch);
+    return { token: hostToken, ...hostUser };
   }
 
-  // Fall back to traditional host auth token validation
+  // Fall back to traditional host auth token validation. The shared link carries full
+  // host rights, so whoever holds it is treated as the owner.
+  const userId = hostUser?.userId ?? null;
   const headerToken = request.headers.get('x-host-auth');
   if (headerToken) {
-    const headerValid = await verifyHostCookie(headerToken, sessionId, env.HOST_AUTH_SECRET);
+    const headerValid = await verifyHostCookie(
+      headerToken,
+      sessionId,
+      env.HOST_AUTH_SECRET,
+      hostEpoch
+    );
     if (headerValid) {
-      return headerToken;
+      return { token: headerToken, userId, role: 'owner' };
     }
   }
 
   const cookies = parseCookies(request.headers.get('Cookie'));
   const cookieValue = cookies.get(HOST_COOKIE_NAME);
   if (!cookieValue) {
+    if (hostUser) {
+      return jsonError('Callers can only call and serve guests', 403);
+    }
     if (headerToken) {
       return jsonError('Invalid host authentication', 403);
     }
     return jsonError('Host authentication required', 401);
   }
 
-  const valid = await verifyHostCookie(cookieValue, sessionId, env.HOST_AUTH_SECRET);
+  const valid = await verifyHostCookie(cookieValue, sessionId, env.HOST_AUTH_SECRET, hostEpoch);
   if (!valid) {
     return jsonError('Invalid host authentication', 403);
   }
 
-  return cookieValue;
+  return { token: cookieValue, userId, role: 'owner' };
+}
+
+/**
+ * Staff management for a queue. Owners and co-hosts can list staff; only the logged-in
+ * owner can invite (by the email on their account) or remove them.
+ */
+async function handleMembers(request: Request, env: Env, code: string): Promise<Response> {
+  const sessionId = await resolveSessionId(env, code.toUpperCase());
+  if (!sessionId) {
+    return new Response('Session not found', { status: 404 });
+  }
+
+  if (request.method === 'GET') {
+    const hostAuth = await requireHostAuth(request, sessionId, env, 'members');
+    if (hostAuth instanceof Response) {
+      return hostAuth;
+    }
+    const result = await env.DB.prepare(
+      `SELECT m.user_id, m.role, m.created_at, u.email, u.google_email, u.google_name, u.github_username
+         FROM queue_members m JOIN users u ON u.id = m.user_id
+         WHERE m.session_id = ?1
+         ORDER BY m.created_at, m.rowid`
+    )
+      .bind(sessionId)
+      .all<{
+        user_id: string;
+        role: StaffRole;
+        created_at: number;
+        email: string | null;
+        google_email: string | null;
+        google_name: string | null;
+        github_username: string | null;
+      }>();
+    const members = (result.results || []).map((row) => ({
+      userId: row.user_id,
+      role: row.role,
+      name: row.google_name ?? row.github_username,
+      email: row.email ?? row.google_email,
+      addedAt: row.created_at * 1000,
+    }));
+    return new Response(JSON.stringify({ members }), {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+    });
+  }
+
+  if (request.method !== 'POST' && request.method !== 'DELETE') {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const hostUser = await resolveHostUser(request, sessionId, env);
+  if (!hostUser) {
+    return jsonError('Authentication required', 401);
+  }
+  if (hostUser.role !== 'owner') {
+    return jsonError('Only the queue owner can manage staff', 403);
+  }
+
+  const payload = await readJson(request);
+  if (!payload) {
+    return jsonError('Invalid JSON body', 400);
+  }
+
+  if (request.method === 'DELETE') {
+    const { userId } = payload as { userId?: unknown };
+    if (typeof userId !== 'string' || !userId) {
+      return jsonError('userId is required', 400);
+    }
+    const removed = await env.DB.prepare(
+      'DELETE FROM queue_members WHERE session_id = ?1 AND user_id = ?2'
+    )
+      .bind(sessionId, userId)
+      .run();
+    if (!removed.meta.changes) {
+      return jsonError('Staff member not found', 404);
+    }
+    await env.DB.prepare(
+      "INSERT INTO events (session_id, type, details) VALUES (?1, 'staff_removed', ?2)"
+    )
+      .bind(sessionId, JSON.stringify({ user_id: userId, acted_by: hostUser.userId }))
+      .run();
+    return new Response(JSON.stringify({ ok: true }), {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+    });
+  }
+
+  const { email, role } = payload as { email?: unknown; role?: unknown };
+  if (typeof email !== 'string' || !email.trim()) {
+    return jsonError('email is required', 400);
+  }
+  if (typeof role !== 'string' || !(STAFF_ROLES as readonly string[]).includes(role)) {
+    return jsonError(`role must be one of: ${STAFF_ROLES.join(', ')}`, 400);
+  }
+
+  // Staff must have signed in once so there is an account to attach the role to
+  const invitee = await findUserByEmail(env, email);
+  if (!invitee) {
+    return jsonError('No account found for that email. Ask them to sign in once first.', 404);
+  }
+  if (invitee.id === hostUser.userId) {
+    return jsonError('You already own this queue', 400);
+  }
+
+  await env.DB.batch([
+    env.DB.prepare(
+      `INSERT INTO queue_members (session_id, user_id, role, added_by) VALUES (?1, ?2, ?3, ?4)
+         ON CONFLICT(session_id, user_id) DO UPDATE SET role = excluded.role`
+    ).bind(sessionId, invitee.id, role, hostUser.userId),
+    env.DB.prepare(
+      "INSERT INTO events (session_id, type, details) VALUES (?1, 'staff_added', ?2)"
+    ).bind(sessionId, JSON.stringify({ user_id: invitee.id, role, acted_by: hostUser.userId })),
+  ]);
+
+  return new Response(JSON.stringify({ ok: true, userId: invitee.id, role }), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+/**
+ * A signed-in host's push alert preferences for a queue (GET), or changes to them (POST
+ * with any of `capacity`, `noShow` and `autoClose`). Alerts go to the devices on the
+ * host's account, so anonymous hosts holding only the host link can't set them.
+ */
+async function handleHostAlerts(request: Request, env: Env, code: string): Promise<Response> {
+  const sessionId = await resolveSessionId(env, code.toUpperCase());
+  if (!sessionId) {
+    return new Response('Session not found', { status: 404 });
+  }
+  if (request.method !== 'GET' && request.method !== 'POST') {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const hostUser = await resolveHostUser(request, sessionId, env);
+  if (!hostUser) {
+    return jsonError('Sign in to get alerts about this queue', 401);
+  }
+
+  if (request.method === 'POST') {
+    const payload = await readJson(request);
+    if (!payload || typeof payload !== 'object') {
+      return jsonError('Invalid JSON body', 400);
+    }
+    const { capacity, noShow, autoClose } = payload as Record<string, unknown>;
+    for (const value of [capacity, noShow, autoClose]) {
+      if (value !== undefined && typeof value !== 'boolean') {
+        return jsonError('capacity, noShow and autoClose must be booleans', 400);
+      }
+    }
+    // Omitted alerts keep their current setting
+    const setting = (value: unknown) => (value === undefined ? null : value ? 1 : 0);
+    await env.DB.prepare(
+      `INSERT INTO host_alert_prefs (session_id, user_id, capacity, no_show, auto_close)
+         VALUES (?1, ?2, COALESCE(?3, 1), COALESCE(?4, 1), COALESCE(?5, 1))
+         ON CONFLICT(session_id, user_id) DO UPDATE SET
+           capacity = COALESCE(?3, capacity),
+           no_show = COALESCE(?4, no_show),
+           auto_close = COALESCE(?5, auto_close),
+           updated_at = strftime('%s','now')`
+    )
+      .bind(sessionId, hostUser.userId, setting(capacity), setting(noShow), setting(autoClose))
+      .run();
+  }
+
+  const prefs = await env.DB.prepare(
+    'SELECT capacity, no_show, auto_close FROM host_alert_prefs WHERE session_id = ?1 AND user_id = ?2'
+  )
+    .bind(sessionId, hostUser.userId)
+    .first<{ capacity: number; no_show: number; auto_close: number }>();
+  const devices = await env.DB.prepare(
+    'SELECT COUNT(*) AS count FROM host_push_subscriptions WHERE user_id = ?1'
+  )
+    .bind(hostUser.userId)
+    .first<{ count: number }>();
+  return new Response(
+    JSON.stringify({
+      alerts: {
+        capacity: (prefs?.capacity ?? 1) === 1,
+        noShow: (prefs?.no_show ?? 1) === 1,
+        autoClose: (prefs?.auto_close ?? 1) === 1,
+      },
+      devices: devices?.count ?? 0,
+    }),
+    { status: 200, headers: { 'content-type': 'application/json' } }
+  );
+}
+
+/**
+ * Ownership transfer. The logged-in owner nominates an account by email (POST transfer)
+ * and can withdraw it, or the nominee can decline (DELETE transfer). When the nominee
+ * accepts, they become the owner and the host credential epoch is bumped, so the host
+ * link and cookies the old owner holds stop working; the new owner gets a fresh token.
+ */
+async function handleTransfer(
+  request: Request,
+  env: Env,
+  code: string,
+  action: 'transfer' | 'accept-transfer',
+  origin: string
+): Promise<Response> {
+  const sessionId = await resolveSessionId(env, code.toUpperCase());
+  if (!sessionId) {
+    return new Response('Session not found', { status: 404 });
+  }
+  const method = action === 'transfer' ? request.method : 'POST';
+  if (request.method !== method || (method !== 'POST' && method !== 'DELETE')) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const authSessionId = getSessionFromRequest(request);
+  const user = authSessionId ? await validateSession(env.DB, authSessionId) : null;
+  if (!user) {
+    return jsonError('Authentication required', 401);
+  }
+
+  const queue = await env.DB.prepare(
+    'SELECT owner_id, pending_owner_id, transfer_requested_at FROM sessions WHERE id = ?1'
+  )
+    .bind(sessionId)
+    .first<{
+      owner_id: string | null;
+      pending_owner_id: string | null;
+      transfer_requested_at: number | null;
+    }>();
+  const pendingOwnerId =
+    queue?.pending_owner_id &&
+    typeof queue.transfer_requested_at === 'number' &&
+    queue.transfer_requested_at * 1000 + TRANSFER_EXPIRY_MS > Date.now()
+      ? queue.pending_owner_id
+      : null;
+  const isOwner = queue?.owner_id === user.id;
+
+  if (action === 'transfer' && request.method === 'POST') {
+    if (!isOwner) {
+      return jsonError('Only the queue owner can transfer it', 403);
+    }
+    const payload = await readJson(request);
+    const email = payload?.email;
+    if (typeof email !== 'string' || !email.trim()) {
+      return jsonError('email is required', 400);
+    }
+    const nominee = await findUserByEmail(env, email);
+    if (!nominee) {
+      return jsonError('No account found for that email. Ask them to sign in once first.', 404);
+    }
+    if (nominee.id === user.id) {
+      return jsonError('You already own this queue', 400);
+    }
+
+    const requestedAt = Math.floor(Date.now() / 1000);
+    await env.DB.batch([
+      env.DB.prepare(
+        'UPDATE sessions SET pending_owner_id = ?2, transfer_requested_at = ?3 WHERE id = ?1'
+      ).bind(sessionId, nominee.id, requestedAt),
+      env.DB.prepare(
+        "INSERT INTO events (session_id, type, details) VALUES (?1, 'transfer_requested', ?2)"
+      ).bind(sessionId, JSON.stringify({ to_user_id: nominee.id, acted_by: user.id })),
+    ]);
+    return new Response(
+      JSON.stringify({
+        ok: true,
+        pendingOwnerId: nominee.id,
+        expiresAt: requestedAt * 1000 + TRANSFER_EXPIRY_MS,
+      }),
+      { status: 200, headers: { 'content-type': 'application/json' } }
+    );
+  }
+
+  if (action === 'transfer') {
+    // Withdrawn by the owner or declined by the nominee
+    if (!isOwner && pendingOwnerId !== user.id) {
+      return jsonError('Not authorized to cancel this transfer', 403);
+    }
+    if (!pendingOwnerId) {
+      return jsonError('No transfer is pending', 404);
+    }
+    await env.DB.batch([
+      env.DB.prepare(
+        'UPDATE sessions SET pending_owner_id = NULL, transfer_requested_at = NULL WHERE id = ?1'
+      ).bind(sessionId),
+      env.DB.prepare(
+        "INSERT INTO events (session_id, type, details) VALUES (?1, 'transfer_cancelled', ?2)"
+      ).bind(
+        sessionId,
+        JSON.stringify({ to_user_id: pendingOwnerId, acted_by: user.id, declined: !isOwner })
+      ),
+    ]);
+    return new Response(JSON.stringify({ ok: true }), {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+    });
+  }
+
+  if (!pendingOwnerId || pendingOwnerId !== user.id) {
+    return jsonError('No transfer is waiting for you on this queue', 404);
+  }
+
+  const [accepted] = await env.DB.batch([
+    env.DB.prepare(
+      `UPDATE sessions SET owner_id = ?2, pending_owner_id = NULL, transfer_requested_at = NULL,
+         host_epoch = host_epoch + 1
+         WHERE id = ?1 AND pending_owner_id = ?2`
+    ).bind(sessionId, user.id),
+    // The new owner no longer needs a staff role
+    env.DB.prepare('DELETE FROM queue_members WHERE session_id = ?1 AND user_id = ?2').bind(
+      sessionId,
+      user.id
+    ),
+    env.DB.prepare(
+      "INSERT INTO events (session_id, type, details) VALUES (?1, 'ownership_transferred', ?2)"
+    ).bind(
+      sessionId,
+      JSON.stringify({ from_user_id: queue?.owner_id ?? null, to_user_id: user.id })
+    ),
+  ]);
+  if (!accepted.meta.changes) {
+    return jsonError('No transfer is waiting for you on this queue', 404);
+  }
+
+  // Drop host connections made with the old credentials
+  await proxyJsonToQueueDO(env, sessionId, 'refresh-host-auth', {}, request.headers);
+
+  const hostAuthToken = await generateHostCookieValue(
+    sessionId,
+    env.HOST_AUTH_SECRET,
+    await getHostEpoch(env, sessionId)
+  );
+  const headers = new Headers({ 'content-type': 'application/json' });
+  headers.append('set-cookie', buildSetCookie(hostAuthToken, HOST_COOKIE_MAX_AGE_SECONDS, origin));
+  return new Response(
+    JSON.stringify({ ok: true, sessionId, code: code.toUpperCase(), hostAuthToken }),
+    { status: 200, headers }
+  );
 }
 
 function parseCookies(header: string | null): Map<string, string> {
@@ -0,0 +1,148 @@
+import { StyleSheet } from 'react-native';
+
+export default StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#111',
+    padding: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 24,
+  },
+  eventName: {
+    color: '#fff',
+    fontSize: 36,
+    fontWeight: '800',
+    flexShrink: 1,
+  },
+  status: {
+    color: '#FBBF24',
+    fontSize: 22,
+    fontWeight: '700',
+    marginLeft: 16,
+  },
+  body: {
+    flex: 1,
+    flexDirection: 'row',
+    gap: 32,
+  },
+  bodyStacked: {
+    flexDirection: 'column',
+  },
+  main: {
+    flex: 2,
+    gap: 24,
+  },
+  sectionLabel: {
+    color: '#9CA3AF',
+    fontSize: 18,
+    fontWeight: '700',
+    letterSpacing: 2,
+    textTransform: 'uppercase',
+    marginBottom: 12,
+  },
+  servingGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 16,
+  },
+  servingCard: {
+    flexGrow: 1,
+    minWidth: 240,
+    backgroundColor: '#1F2937',
+    borderRadius: 20,
+    paddingVertical: 24,
+    paddingHorizontal: 28,
+  },
+  counterName: {
+    color: '#9CA3AF',
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  servingName: {
+    color: '#fff',
+    fontSize: 56,
+    fontWeight: '800',
+  },
+  servingIdle: {
+    color: '#6B7280',
+    fontSize: 40,
+    fontWeight: '700',
+  },
+  upNextRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#374151',
+  },
+  upNextPlace: {
+    color: '#6B7280',
+    fontSize: 28,
+    fontWeight: '700',
+    width: 48,
+  },
+  upNextName: {
+    color: '#E5E7EB',
+    fontSize: 32,
+    fontWeight: '600',
+    flexShrink: 1,
+  },
+  emptyText: {
+    color: '#6B7280',
+    fontSize: 28,
+  },
+  side: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#1F2937',
+    borderRadius: 20,
+    padding: 24,
+    gap: 12,
+  },
+  waitValue: {
+    color: '#fff',
+    fontSize: 48,
+    fontWeight: '800',
+  },
+  waitLabel: {
+    color: '#9CA3AF',
+    fontSize: 20,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  qrFrame: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 16,
+    marginTop: 12,
+  },
+  joinCode: {
+    color: '#fff',
+    fontSize: 32,
+    fontWeight: '800',
+    letterSpacing: 6,
+  },
+  joinHint: {
+    color: '#9CA3AF',
+    fontSize: 18,
+    textAlign: 'center',
+  },
+  message: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+  },
+  messageText: {
+    color: '#E5E7EB',
+    fontSize: 28,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+});
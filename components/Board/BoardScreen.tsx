@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Text, View, useWindowDimensions } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import QRCode from 'react-native-qrcode-svg';
+
+import styles from './BoardScreen.Styles';
+import type { RootStackParamList } from '../../types/navigation';
+import { openQueueStream, type BoardParty, type BoardState } from '../../lib/backend';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'BoardScreen'>;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+function partyLabel(party: BoardParty): string {
+  if (party.name) {
+    return party.name;
+  }
+  return party.ticket !== null ? `#${party.ticket}` : 'Guest';
+}
+
+function formatWait(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / MS_PER_MINUTE));
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} hr ${minutes % 60} min`;
+}
+
+/**
+ * Read-only, full-screen view of a queue for a TV at the venue. It opens the live feed
+ * with the board token from the host's link, so it only ever sees names or ticket
+ * numbers, never the host's notes or the parties' ids.
+ */
+export default function BoardScreen({ route }: Props) {
+  const { code, token, labels } = route.params;
+  const { width, height } = useWindowDimensions();
+  const [board, setBoard] = useState<BoardState | null>(null);
+  const [connectionLost, setConnectionLost] = useState(false);
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+    const stream = openQueueStream({
+      code,
+      board: { token, labels: labels === 'tickets' ? 'tickets' : 'names' },
+      onMessage: (message) => {
+        if (message.type === 'board') {
+          setBoard(message as unknown as BoardState);
+          setConnectionLost(false);
+        } else if (message.type === 'closed') {
+          setBoard((prev) => (prev ? { ...prev, closed: true } : prev));
+        }
+      },
+      onError: (message) => {
+        console.warn('[BoardScreen] Live updates failed:', message);
+        setConnectionLost(true);
+      },
+    });
+    return () => stream.close();
+  }, [code, token, labels]);
+
+  const joinUrl = useMemo(() => {
+    const base =
+      typeof window !== 'undefined' && window.location?.origin
+        ? `${window.location.origin}/queue/${code}`
+        : `https://forkfriends.github.io/queueup/queue/${code}`;
+    const url = new URL(base);
+    url.searchParams.set('src', 'qr');
+    return url.toString();
+  }, [code]);
+
+  if (!token) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.message}>
+          <Text style={styles.messageText}>
+            This board link is incomplete. Open the display board again from the host screen.
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (!board) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.message}>
+          <ActivityIndicator size="large" color="#fff" />
+          <Text style={styles.messageText}>
+            {connectionLost ? 'Unable to reach the queue. Retrying…' : 'Connecting…'}
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (board.closed) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.message}>
+          <Text style={styles.messageText}>
+            {board.eventName ? `${board.eventName} is closed.` : 'This queue is closed.'}
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  const stacked = width < height;
+  const showCounterNames = board.counters.length > 1;
+  const status = connectionLost ? 'Reconnecting…' : board.paused ? 'Paused' : null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.eventName} numberOfLines={1}>
+          {board.eventName || `Queue ${code}`}
+        </Text>
+        {status ? <Text style={styles.status}>{status}</Text> : null}
+      </View>
+      <View style={[styles.body, stacked && styles.bodyStacked]}>
+        <View style={styles.main}>
+          <View>
+            <Text style={styles.sectionLabel}>Now serving</Text>
+            <View style={styles.servingGrid}>
+              {board.counters.map((counter, index) => (
+                <View key={`${counter.name}-${index}`} style={styles.servingCard}>
+                  {showCounterNames ? <Text style={styles.counterName}>{counter.name}</Text> : null}
+                  {counter.nowServing ? (
+                    <Text style={styles.servingName} numberOfLines={1}>
+                      {partyLabel(counter.nowServing)}
+                    </Text>
+                  ) : (
+                    <Text style={styles.servingIdle}>—</Text>
+                  )}
+                </View>
+              ))}
+            </View>
+          </View>
+          <View>
+            <Text style={styles.sectionLabel}>Up next</Text>
+            {board.upNext.length === 0 ? (
+              <Text style={styles.emptyText}>Nobody waiting</Text>
+            ) : (
+              board.upNext.map((party, index) => (
+                <View key={`${party.ticket ?? 'guest'}-${index}`} style={styles.upNextRow}>
+                  <Text style={styles.upNextPlace}>{index + 1}</Text>
+                  <Text style={styles.upNextName} numberOfLines={1}>
+                    {partyLabel(party)}
+                  </Text>
+                </View>
+              ))
+            )}
+          </View>
+        </View>
+        <View style={styles.side}>
+          <Text style={styles.waitValue}>
+            {board.upNext.length > 0 ? formatWait(board.estimatedWaitMs) : 'No wait'}
+          </Text>
+          <Text style={styles.waitLabel}>
+            {board.queueLength === 1 ? '1 in line' : `${board.queueLength} in line`}
+            {` · about ${formatWait(board.avgServiceMs)} per guest`}
+          </Text>
+          <View style={styles.qrFrame}>
+            <QRCode value={joinUrl} size={Math.min(220, Math.round(width / 6))} />
+          </View>
+          <Text style={styles.joinCode}>{code}</Text>
+          <Text style={styles.joinHint}>Scan to join the line</Text>
+        </View>
+      </View>
+    </View>
+  );
+}
@@ -225,6 +225,24 @@ export default StyleSheet.create({
     color: '#444',
     marginBottom: 6,
   },
+  pausedBanner: {
+    backgroundColor: '#fff8e1',
+    borderColor: '#ffe08a',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 4,
+  },
+  pausedBannerText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#7a5b00',
+  },
+  pausedBannerSubtext: {
+    fontSize: 13,
+    color: '#7a5b00',
+  },
   connectionText: {
     fontSize: 13,
     color: '#586069',
@@ -401,6 +419,35 @@ export default StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  snoozeRow: {
+    flexDirection: 'row',
+    gap: 12,
+    width: '100%',
+  },
+  snoozeButton: {
+    flex: 1,
+    width: 'auto',
+    paddingHorizontal: 12,
+  },
+  snoozeNote: {
+    fontSize: 13,
+    color: '#555',
+    textAlign: 'center',
+  },
+  messageRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+    gap: 4,
+  },
+  messageText: {
+    fontSize: 15,
+    color: '#111',
+  },
+  messageTime: {
+    fontSize: 12,
+    color: '#586069',
+  },
   webModalBackdrop: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.4)',
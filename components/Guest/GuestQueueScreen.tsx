@@ -20,9 +20,13 @@ import {
   API_BASE_URL,
   getVapidPublicKey,
   leaveQueue,
+  openQueueStream,
+  snoozeQueue,
   savePushSubscription,
   saveExpoPushToken,
+  type GuestMessage,
   type PushSubscriptionParams,
+  type QueueStream,
 } from '../../lib/backend';
 import { trackEvent, trackTrustSurveySubmitted } from '../../utils/analytics';
 import { storage } from '../../utils/storage';
@@ -33,8 +37,33 @@ import AdBanner from '../Ads/AdBanner';
 type Props = NativeStackScreenProps<RootStackParamList, 'GuestQueueScreen'>;
 
 const MS_PER_MINUTE = 60 * 1000;
-const POLL_INTERVAL_MS = 10000;
 const ANALYTICS_SCREEN = 'guest_queue';
+// Snooze choices offered to guests; the server caps how often they can be used
+const SNOOZE_PLACES = 2;
+const SNOOZE_MINUTES = 15;
+
+function formatClockTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const hours = date.getHours();
+  const period = hours >= 12 ? 'PM' : 'AM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${date.getMinutes().toString().padStart(2, '0')} ${period}`;
+}
+
+// Add host messages the guest hasn't seen yet; the same message can arrive live and in a snapshot
+function mergeMessages(existing: GuestMessage[], incoming: unknown[]): GuestMessage[] {
+  const added = incoming.filter(
+    (message): message is GuestMessage =>
+      typeof (message as GuestMessage)?.id === 'string' &&
+      typeof (message as GuestMessage).text === 'string' &&
+      typeof (message as GuestMessage).sentAt === 'number' &&
+      !existing.some((entry) => entry.id === (message as GuestMessage).id)
+  );
+  if (added.length === 0) {
+    return existing;
+  }
+  return [...existing, ...added].sort((a, b) => a.sentAt - b.sentAt);
+}
 
 export default function GuestQueueScreen({ route, navigation }: Props) {
   const anonymousNames = [
@@ -77,6 +106,8 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
     initialEtaMs,
     guestName,
     partySize,
+    appointmentAt,
+    standbyPosition: initialStandbyPosition,
   } = route.params;
 
   // State for recovered partyId (when missing from route params on page refresh)
@@ -151,18 +182,30 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
   const [statusText, setStatusText] = useState(
     typeof initialPosition === 'number'
       ? `You're number ${initialPosition} in line.`
-      : 'Connecting for live updates…'
+      : typeof appointmentAt === 'number'
+        ? `Your appointment is at ${formatClockTime(appointmentAt)}.`
+        : typeof initialStandbyPosition === 'number'
+          ? `The queue is full. You're number ${initialStandbyPosition} on the waitlist.`
+          : 'Connecting for live updates…'
   );
   const [connectionState, setConnectionState] = useState<'idle' | 'connecting' | 'open' | 'closed'>(
     'idle'
   );
   const [pushReady, setPushReady] = useState(false);
   const [leaveLoading, setLeaveLoading] = useState(false);
+  const [snoozeLoading, setSnoozeLoading] = useState(false);
+  const [snoozedUntil, setSnoozedUntil] = useState<number | null>(null);
+  const [snoozesLeft, setSnoozesLeft] = useState<number | null>(null);
   const [isActive, setIsActive] = useState(true);
   const [sessionId] = useState<string | null>(initialSessionId ?? null);
   const [infoMessage, setInfoMessage] = useState<string | null>(null);
   const [called, setCalled] = useState(false);
+  // Set while the host has paused the line; resumeAt is when they said they'd be back
+  const [pause, setPause] = useState<{ resumeAt: number | null } | null>(null);
   const [callDeadline, setCallDeadline] = useState<number | null>(null);
+  const [counterName, setCounterName] = useState<string | null>(null);
+  // Messages the host sent to the line or to this party, oldest first
+  const [messages, setMessages] = useState<GuestMessage[]>([]);
   const [trustSurveyStatus, setTrustSurveyStatus] = useState<'pending' | 'submitted'>('pending');
   const [trustSurveySubmitting, setTrustSurveySubmitting] = useState(false);
   const [eventName, setEventName] = useState<string | null>(null);
@@ -186,7 +229,9 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
     void loadEventName();
   }, [code]);
 
-  const pollInterval = useRef<ReturnType<typeof setInterval> | null>(null);
+  const streamRef = useRef<QueueStream | null>(null);
+  // When the guest was last called while their connection was down
+  const missedCallAt = useRef<number | null>(null);
   const reconnectTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const shouldReconnectRef = useRef(true);
   const autoPushAttemptRef = useRef<string | null>(null);
@@ -200,11 +245,9 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
     }
   }, []);
 
-  const stopPolling = useCallback(() => {
-    if (pollInterval.current) {
-      clearInterval(pollInterval.current);
-      pollInterval.current = null;
-    }
+  const stopStream = useCallback(() => {
+    streamRef.current?.close();
+    streamRef.current = null;
   }, []);
 
   const endSession = useCallback(
@@ -215,7 +258,7 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
     ) => {
       shouldReconnectRef.current = false;
       clearReconnect();
-      stopPolling();
+      stopStream();
       setConnectionState('closed');
       setIsActive(false);
       setStatusText(message);
@@ -234,7 +277,7 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
         }, 3000);
       }
     },
-    [clearReconnect, stopPolling, code, navigation]
+    [clearReconnect, stopStream, code, navigation]
   );
 
   const snapshotUrl = useMemo(() => {
@@ -245,6 +288,33 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
   const handleSnapshot = useCallback(
     (data: Record<string, unknown>) => {
       try {
+        // Host messages go on the feed whether they arrive live or replayed
+        if (data.type === 'message') {
+          setMessages((prev) => mergeMessages(prev, [data]));
+          return;
+        }
+        if (Array.isArray(data.messages)) {
+          const snapshotMessages = data.messages as unknown[];
+          setMessages((prev) => mergeMessages(prev, snapshotMessages));
+        }
+
+        // Events replayed after a reconnect: a missed call is worth mentioning, and a
+        // replayed removal says why the guest lost their spot
+        if (data.replay === true) {
+          if (data.type === 'called' && typeof data.at === 'number') {
+            missedCallAt.current = data.at;
+          }
+          if (data.type !== 'removed') {
+            return;
+          }
+        } else if (data.type === 'called') {
+          missedCallAt.current = null;
+        }
+        const missedCall =
+          missedCallAt.current !== null
+            ? `You were called at ${formatClockTime(missedCallAt.current)}`
+            : null;
+
         switch (data.type) {
           case 'position': {
             const newPosition = Number(data.position);
@@ -252,6 +322,11 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
             const newQueueLength = typeof data.queueLength === 'number' ? data.queueLength : null;
             const newEtaMs = typeof data.estimatedWaitMs === 'number' ? data.estimatedWaitMs : null;
             const snapshotEventName = typeof data.eventName === 'string' ? data.eventName : null;
+            const lane = data.lane as { name?: unknown } | null | undefined;
+            const laneSuffix = typeof lane?.name === 'string' ? ` (${lane.name} lane)` : '';
+            // Matches what the venue's display board shows in ticket mode
+            const ticketNote =
+              typeof data.ticket === 'number' ? ` Your ticket number is ${data.ticket}.` : '';
 
             // Update eventName from snapshot if available and not already set
             if (snapshotEventName && snapshotEventName !== eventName) {
@@ -275,13 +350,13 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
               if (!Number.isNaN(newAhead)) {
                 setStatusText(
                   newAhead >= 0
-                    ? `You're number ${newPosition} in line. ${newAhead} ${
+                    ? `You're number ${newPosition} in line${laneSuffix}. ${newAhead} ${
                         newAhead === 1 ? 'party' : 'parties'
-                      } ahead.`
-                    : `You're number ${newPosition} in line.`
+                      } ahead.${ticketNote}`
+                    : `You're number ${newPosition} in line${laneSuffix}.${ticketNote}`
                 );
               } else {
-                setStatusText(`You're number ${newPosition} in line.`);
+                setStatusText(`You're number ${newPosition} in line${laneSuffix}.${ticketNote}`);
               }
             }
 
@@ -297,20 +372,84 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
               setEstimatedWaitMs(newEtaMs);
             }
 
+            setPause(
+              data.paused === true
+                ? { resumeAt: typeof data.resumeAt === 'number' ? data.resumeAt : null }
+                : null
+            );
+            setSnoozedUntil(typeof data.snoozedUntil === 'number' ? data.snoozedUntil : null);
+            if (typeof data.snoozesLeft === 'number') {
+              setSnoozesLeft(data.snoozesLeft);
+            }
+            setCalled(false);
+            setInfoMessage(missedCall ? `${missedCall} while you were away.` : null);
+            setCallDeadline(null);
+            break;
+          }
+          case 'booked': {
+            // Booked guests have no place in line until their slot starts
+            const startsAt = typeof data.startsAt === 'number' ? data.startsAt : null;
+            setStatusText(
+              startsAt !== null
+                ? `Your appointment is at ${formatClockTime(startsAt)}. You'll join the line then.`
+                : 'Your appointment is booked.'
+            );
+            if (typeof data.eventName === 'string' && data.eventName !== eventName) {
+              setEventName(data.eventName);
+            }
+            setPosition(null);
+            setAheadCount(null);
+            setEstimatedWaitMs(null);
+            setCalled(false);
+            setCallDeadline(null);
+            break;
+          }
+          case 'standby': {
+            // On the waitlist of a full queue; the server moves them into line when a spot frees up
+            const standbyPosition =
+              typeof data.standbyPosition === 'number' ? data.standbyPosition : null;
+            setStatusText(
+              standbyPosition !== null && standbyPosition > 0
+                ? `The queue is full. You're number ${standbyPosition} on the waitlist.`
+                : "The queue is full. You're on the waitlist."
+            );
+            setInfoMessage("We'll move you into the line as soon as a spot opens up.");
+            if (typeof data.eventName === 'string' && data.eventName !== eventName) {
+              setEventName(data.eventName);
+            }
+            if (typeof data.queueLength === 'number') {
+              setQueueLength(data.queueLength);
+            }
+            setPosition(null);
+            setAheadCount(null);
+            setEstimatedWaitMs(null);
             setCalled(false);
-            setInfoMessage(null);
             setCallDeadline(null);
             break;
           }
           case 'called': {
+            const counterInfo = data.counter as { name?: unknown } | null | undefined;
+            const calledCounter =
+              typeof counterInfo?.name === 'string' && counterInfo.name ? counterInfo.name : null;
             setCalled(true);
-            setStatusText("You're being served now! Please head to the host.");
-            setInfoMessage('Head to the host stand within 2 minutes to keep your spot.');
+            setPause(null);
+            setSnoozedUntil(null);
+            setCounterName(calledCounter);
+            setStatusText(
+              calledCounter
+                ? `You're being served now! Please head to ${calledCounter}.`
+                : "You're being served now! Please head to the host."
+            );
+            const deadlineValue = typeof data.deadline === 'number' ? data.deadline : null;
+            setInfoMessage(
+              deadlineValue !== null
+                ? `Head to ${calledCounter ?? 'the host stand'} by ${formatClockTime(deadlineValue)} to keep your spot.`
+                : `Head to ${calledCounter ?? 'the host stand'} soon to keep your spot.`
+            );
             setEstimatedWaitMs(0);
             setPosition(1);
             setAheadCount(0);
             setQueueLength((prev) => (prev != null ? Math.max(prev, 1) : 1));
-            const deadlineValue = typeof data.deadline === 'number' ? data.deadline : null;
             setCallDeadline(deadlineValue);
             break;
           }
@@ -324,7 +463,9 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
               left: 'You have left the queue.',
             };
             const key = typeof reason === 'string' ? reason : '';
-            const message = reasonMessages[key] ?? 'You have left the queue.';
+            const reasonMessage = reasonMessages[key] ?? 'You have left the queue.';
+            const message =
+              missedCall && key !== 'served' ? `${missedCall}. ${reasonMessage}` : reasonMessage;
             setInfoMessage(message);
             setPosition(null);
             setAheadCount(null);
@@ -418,23 +559,29 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
     }
   }, [snapshotUrl, handleSnapshot]);
 
-  const startPolling = useCallback(() => {
-    if (!snapshotUrl) {
+  // Updates come over a socket, or an event stream or long polls where sockets are blocked
+  const startStream = useCallback(() => {
+    if (!code || !partyId) {
       return;
     }
 
     clearReconnect();
-    stopPolling();
+    stopStream();
     setConnectionState('connecting');
 
-    // Poll immediately
-    poll();
-
-    // Then poll every POLL_INTERVAL_MS
-    pollInterval.current = setInterval(() => {
-      poll();
-    }, POLL_INTERVAL_MS);
-  }, [snapshotUrl, clearReconnect, stopPolling, poll]);
+    streamRef.current = openQueueStream({
+      code,
+      partyId,
+      onMessage: (data) => {
+        handleSnapshot(data);
+        setConnectionState('open');
+      },
+      onError: (message) => {
+        console.warn('[GuestQueueScreen] Live updates failed:', message);
+        setConnectionState('closed');
+      },
+    });
+  }, [code, partyId, clearReconnect, stopStream, handleSnapshot]);
 
   // Handle visibility changes - pause polling when tab is hidden, resume when visible
   useEffect(() => {
@@ -465,29 +612,29 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
     }
 
     shouldReconnectRef.current = true;
-    startPolling();
+    startStream();
 
     return () => {
       shouldReconnectRef.current = false;
       clearReconnect();
-      stopPolling();
+      stopStream();
       // Cancel any in-flight requests
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
       }
     };
-  }, [code, partyId, isActive, clearReconnect, stopPolling, startPolling]);
+  }, [code, partyId, isActive, clearReconnect, stopStream, startStream]);
 
   useEffect(() => {
     return () => {
       clearReconnect();
-      stopPolling();
+      stopStream();
       // Cancel any in-flight requests on unmount
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
       }
     };
-  }, [clearReconnect, stopPolling]);
+  }, [clearReconnect, stopStream]);
 
   const disablePush = useCallback(async () => {
     // Native: Currently we don't support disabling on native (would need to clear token from server)
@@ -911,6 +1058,43 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
     alert,
   ]);
 
+  const performSnooze = useCallback(
+    async (choice: { places: number } | { until: number }) => {
+      if (!code || !partyId) {
+        return;
+      }
+      setSnoozeLoading(true);
+      try {
+        const result = await snoozeQueue({ code, partyId, ...choice });
+        void trackEvent('guest_snooze', {
+          sessionId,
+          partyId,
+          queueCode: code,
+          props: { ...choice, called, snoozesLeft: result.snoozesLeft },
+        });
+        setSnoozesLeft(result.snoozesLeft);
+        setSnoozedUntil(result.snoozedUntil);
+        setPosition(result.position);
+        setAheadCount(Math.max(result.aheadCount, 0));
+        setEstimatedWaitMs(result.estimatedWaitMs);
+        setCalled(false);
+        setCallDeadline(null);
+        setInfoMessage(null);
+        setStatusText(
+          result.snoozedUntil !== null
+            ? `Your spot is held until ${formatClockTime(result.snoozedUntil)}.`
+            : `You're number ${result.position} in line.`
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to snooze';
+        alert({ title: 'Unable to snooze', message });
+      } finally {
+        setSnoozeLoading(false);
+      }
+    },
+    [code, partyId, sessionId, called, alert]
+  );
+
   const confirmLeave = useCallback(() => {
     if (!code || !partyId || leaveLoading) {
       return;
@@ -1040,6 +1224,20 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
     );
   };
 
+  // Render the host's messages, newest first
+  const renderMessages = (useDesktopStyles = false) =>
+    messages.length > 0 ? (
+      <View style={useDesktopStyles ? styles.desktopCard : styles.card}>
+        <Text style={styles.sectionTitle}>Messages from the host</Text>
+        {[...messages].reverse().map((message) => (
+          <View key={message.id} style={styles.messageRow}>
+            <Text style={styles.messageText}>{message.text}</Text>
+            <Text style={styles.messageTime}>{formatClockTime(message.sentAt)}</Text>
+          </View>
+        ))}
+      </View>
+    ) : null;
+
   // Render party details card
   const renderPartyDetails = (useDesktopStyles = false) => (
     <View style={useDesktopStyles ? styles.desktopCard : styles.card}>
@@ -1058,8 +1256,30 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
   // Render leave queue button
   const renderLeaveButton = () => {
     if (!isActive) return null;
+    const canSnooze = position !== null && snoozedUntil === null && snoozesLeft !== 0;
     return (
       <View style={styles.actions}>
+        {snoozedUntil !== null ? (
+          <Text style={styles.snoozeNote}>
+            Your spot is held until {formatClockTime(snoozedUntil)}. Others go ahead until then.
+          </Text>
+        ) : null}
+        {canSnooze ? (
+          <View style={styles.snoozeRow}>
+            <Pressable
+              style={[styles.secondaryButton, styles.snoozeButton]}
+              onPress={() => void performSnooze({ places: SNOOZE_PLACES })}
+              disabled={snoozeLoading}>
+              <Text style={styles.secondaryButtonText}>Let {SNOOZE_PLACES} go ahead</Text>
+            </Pressable>
+            <Pressable
+              style={[styles.secondaryButton, styles.snoozeButton]}
+              onPress={() => void performSnooze({ until: Date.now() + SNOOZE_MINUTES * 60 * 1000 })}
+              disabled={snoozeLoading}>
+              <Text style={styles.secondaryButtonText}>Step out {SNOOZE_MINUTES} min</Text>
+            </Pressable>
+          </View>
+        ) : null}
         <Pressable
           style={[styles.leaveButton, leaveLoading ? styles.leaveButtonDisabled : undefined]}
           onPress={confirmLeave}
@@ -1082,13 +1302,15 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
       <View style={styles.desktopStatusColumn}>
         <View style={styles.desktopCard}>
           {renderQueueBadge()}
+          {renderPausedBanner()}
 
           {/* Position display */}
           {called ? (
             <View style={styles.desktopCalledBanner}>
               <Text style={styles.desktopCalledText}>{"It's your turn!"}</Text>
               <Text style={styles.desktopCalledSubtext}>
-                Head to the host stand within 2 minutes to keep your spot.
+                Head to {counterName ?? 'the host stand'}{' '}
+                {callDeadline ? `by ${formatClockTime(callDeadline)}` : 'soon'} to keep your spot.
               </Text>
               {callDeadline ? (
                 <View style={styles.timerRow}>
@@ -1115,6 +1337,8 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
           {isActive ? <Text style={styles.connectionText}>{connectionLabel}</Text> : null}
         </View>
 
+        {renderMessages(true)}
+
         {/* Metrics card - always visible on desktop */}
         {isActive ? (
           <View style={styles.desktopCard}>
@@ -1153,6 +1377,18 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
     </View>
   );
 
+  const renderPausedBanner = () =>
+    pause && !called ? (
+      <View style={styles.pausedBanner}>
+        <Text style={styles.pausedBannerText}>
+          {pause.resumeAt
+            ? `Line paused: back at ${formatClockTime(pause.resumeAt)}`
+            : 'Line paused: the host will resume shortly'}
+        </Text>
+        <Text style={styles.pausedBannerSubtext}>You keep your spot while the line is paused.</Text>
+      </View>
+    ) : null;
+
   // Mobile layout
   const renderMobileLayout = () => (
     <ScrollView contentContainerStyle={styles.scroll}>
@@ -1160,6 +1396,7 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
 
       <View style={styles.card}>
         {renderQueueBadge()}
+        {renderPausedBanner()}
         <Text style={styles.statusText}>{statusText}</Text>
         {infoMessage ? <Text style={styles.infoText}>{infoMessage}</Text> : null}
         {isActive ? (
@@ -1196,6 +1433,7 @@ export default function GuestQueueScreen({ route, navigation }: Props) {
         ) : null}
       </View>
 
+      {renderMessages(false)}
       {renderPartyDetails(false)}
       {renderLeaveButton()}
     </ScrollView>
@@ -236,6 +236,25 @@ const styles = StyleSheet.create({
   timerRow: {
     marginTop: 4,
   },
+  counterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  counterInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  counterName: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#586069',
+    textTransform: 'uppercase',
+  },
   timerHint: {
     marginTop: 6,
     fontSize: 13,
@@ -272,6 +291,144 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: '#606060',
   },
+  reorderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  reorderContent: {
+    flex: 1,
+    gap: 4,
+  },
+  desktopReorderContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  dragHandle: {
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  reorderArrows: {
+    gap: 4,
+  },
+  reorderDisabled: {
+    opacity: 0.35,
+  },
+  laneBadge: {
+    alignSelf: 'flex-start',
+    marginTop: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#f1f3f5',
+  },
+  laneBadgePriority: {
+    backgroundColor: '#fff4e5',
+  },
+  laneBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#586069',
+  },
+  pushBadgeNotified: {
+    backgroundColor: '#e6f4ea',
+  },
+  pushBadgeNotifiedText: {
+    color: '#1e7e34',
+  },
+  pushBadgeUnreachable: {
+    backgroundColor: '#fff4e5',
+  },
+  pushBadgeUnreachableText: {
+    color: '#b35900',
+  },
+  partyTagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 4,
+  },
+  partyTag: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#f1f3f5',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  partyTagText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#586069',
+  },
+  partyNote: {
+    marginTop: 4,
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: '#444',
+  },
+  partyNotesLink: {
+    marginTop: 4,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#1f6feb',
+  },
+  tagFilterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 10,
+  },
+  tagFilterSelected: {
+    borderColor: '#111',
+  },
+  loadMoreRow: {
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+  },
+  loadMoreButton: {
+    borderWidth: 1,
+    borderColor: '#1f6feb',
+    borderRadius: 999,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  loadMoreButtonText: {
+    color: '#1f6feb',
+    fontWeight: '600',
+  },
+  notesInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#111',
+  },
+  tagInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  tagInput: {
+    flex: 1,
+  },
+  tagSwatch: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  tagSwatchSelected: {
+    borderColor: '#111',
+  },
+  notesSaveButton: {
+    backgroundColor: '#1f6feb',
+  },
   queueActionsRow: {
     flexDirection: 'row',
     gap: 12,
@@ -288,6 +445,47 @@ const styles = StyleSheet.create({
   primaryButtonDisabled: {
     backgroundColor: '#999',
   },
+  pauseButton: {
+    flex: 1,
+    backgroundColor: '#b26a00',
+    borderRadius: 14,
+    paddingVertical: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  undoSnackbar: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    backgroundColor: '#24292f',
+  },
+  undoSnackbarText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#fff',
+  },
+  undoSnackbarAction: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#58a6ff',
+  },
+  appointmentList: {
+    marginTop: 16,
+  },
+  pausedNotice: {
+    marginTop: 10,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#7a5b00',
+  },
   destructiveButton: {
     flex: 1,
     backgroundColor: '#c1121f',
@@ -394,6 +592,25 @@ const styles = StyleSheet.create({
     color: '#444',
     lineHeight: 21,
   },
+  alertRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  alertLabelContainer: {
+    flex: 1,
+  },
+  alertLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111',
+  },
+  alertHint: {
+    fontSize: 13,
+    color: '#606060',
+    marginTop: 2,
+  },
   webModalActions: {
     flexDirection: 'row',
     justifyContent: 'flex-end',
@@ -7,7 +7,9 @@ import {
   Pressable,
   ScrollView,
   Share,
+  Switch,
   Text,
+  TextInput,
   ToastAndroid,
   View,
   useWindowDimensions,
@@ -18,13 +20,44 @@ import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import * as Clipboard from 'expo-clipboard';
 import { File, Paths } from 'expo-file-system';
 import * as MediaLibrary from 'expo-media-library';
+import * as Notifications from 'expo-notifications';
 import QRCode from 'react-native-qrcode-svg';
 import type { RootStackParamList } from '../../types/navigation';
 import styles from './HostQueueScreen.Styles';
 import {
   advanceQueueHost,
+  annotatePartyHost,
+  applyHostQueueMessage,
+  AppointmentSlot,
+  assignLaneHost,
+  broadcastMessageHost,
+  BroadcastTarget,
   closeQueueHost,
+  getBoardToken,
+  getHostAlerts,
+  getVapidPublicKey,
+  BoardLabels,
+  HostAlertPrefs,
+  HostAlertSettings,
+  HostLiveState,
+  HostQueueMessage,
+  openQueueStream,
+  QueueStream,
+  pauseQueueHost,
+  PushSubscriptionParams,
+  reorderQueueHost,
+  saveHostPushSubscription,
+  updateHostAlerts,
+  resumeQueueHost,
+  undoHostAction,
   HostParty,
+  JoinField,
+  PartyTag,
+  PriorityLane,
+  QueueSchedule,
+  ServiceCounter,
+  TagColor,
+  UndoOffer,
   API_BASE_URL,
   getAuthHeaders,
 } from '../../lib/backend';
@@ -37,10 +70,16 @@ import Timer from '../Timer';
 import { trackEvent } from '../../utils/analytics';
 import { generatePosterImage } from './posterGenerator';
 import PosterNative, { PosterNativeHandle } from './PosterNative';
+import ReorderableQueueItem from './ReorderableQueueItem';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'HostQueueScreen'>;
 
 const ANALYTICS_SCREEN = 'host_console';
+const HOST_ALERT_OPTIONS: { key: keyof HostAlertPrefs; label: string; hint: string }[] = [
+  { key: 'capacity', label: 'Queue almost full', hint: 'When the line reaches 90% of its size' },
+  { key: 'noShow', label: 'No-shows', hint: "When a called guest doesn't show up" },
+  { key: 'autoClose', label: 'Closing soon', hint: '10 minutes before the queue closes itself' },
+];
 
 function formatTimeLabel(value?: string | null): string | null {
   if (!value) {
@@ -58,6 +97,14 @@ function formatTimeLabel(value?: string | null): string | null {
   return `${displayHours}:${minuteString} ${period}`;
 }
 
+function formatClockTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const hours = date.getHours();
+  const period = hours >= 12 ? 'PM' : 'AM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${date.getMinutes().toString().padStart(2, '0')} ${period}`;
+}
+
 function formatScheduleLine(openTime?: string | null, closeTime?: string | null): string | null {
   const openLabel = formatTimeLabel(openTime);
   const closeLabel = formatTimeLabel(closeTime);
@@ -77,7 +124,18 @@ type HostMessage =
   | {
       type: 'queue_update';
       queue?: HostParty[];
+      queueTotal?: number;
       nowServing?: HostParty | null;
+      counters?: ServiceCounter[];
+      lanes?: PriorityLane[];
+      paused?: boolean;
+      resumeAt?: number | null;
+      schedule?: QueueSchedule | null;
+      appointments?: AppointmentSlot[];
+      undo?: UndoOffer | null;
+      joinFields?: JoinField[];
+      standby?: HostParty[];
+      standbyTotal?: number;
       maxGuests?: number;
       callDeadline?: number | null;
       closed?: boolean;
@@ -88,7 +146,24 @@ type HostMessage =
 
 type ConnectionState = 'connecting' | 'open' | 'closed';
 
-const POLL_INTERVAL_MS = 10000; // Poll every 10 seconds
+// Long lines are sent a page at a time; "Show more" asks for this many more parties
+const HOST_PAGE_SIZE = 100;
+const MAX_HOST_PAGE_SIZE = 1000;
+const MS_PER_MINUTE = 60 * 1000;
+const STANDARD_LANE_ID = 'standard';
+const MAX_PARTY_TAGS = 5;
+const MAX_BROADCAST_LENGTH = 280;
+// "Next N" choices when messaging the front of the line
+const BROADCAST_NEXT_COUNTS = [3, 5];
+const TAG_COLORS: Record<TagColor, { background: string; text: string }> = {
+  gray: { background: '#f1f3f5', text: '#586069' },
+  red: { background: '#ffebe9', text: '#c1121f' },
+  orange: { background: '#fff4e5', text: '#b35900' },
+  yellow: { background: '#fff8c5', text: '#7d5e00' },
+  green: { background: '#e6f4ea', text: '#1a7f37' },
+  blue: { background: '#eef4ff', text: '#1f6feb' },
+  purple: { background: '#f3ecff', text: '#6f42c1' },
+};
 
 export default function HostQueueScreen({ route, navigation }: Props) {
   const { width } = useWindowDimensions();
@@ -216,10 +291,42 @@ export default function HostQueueScreen({ route, navigation }: Props) {
   const storageCodeKey = code ? `queueup-host-auth-code:${code}` : '';
 
   const displayEventName = eventName?.trim() || null;
-  const scheduleLine = useMemo(
-    () => formatScheduleLine(openTime, closeTime),
-    [openTime, closeTime]
+  const [schedule, setSchedule] = useState<QueueSchedule | null>(null);
+  const [appointments, setAppointments] = useState<AppointmentSlot[]>([]);
+  const [joinFields, setJoinFields] = useState<JoinField[]>([]);
+  // Guests waiting for room once the queue is at capacity, in the order they'll be let in
+  const [standby, setStandby] = useState<HostParty[]>([]);
+  const [standbyTotal, setStandbyTotal] = useState(0);
+  // How many parties of the line are listed, and how many there are in total
+  const [queueLimit, setQueueLimit] = useState(HOST_PAGE_SIZE);
+  const [queueTotal, setQueueTotal] = useState<number | null>(null);
+  const [undoOffer, setUndoOffer] = useState<UndoOffer | null>(null);
+  // Host-only notes and tags: the list filter and the party being edited
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [notesParty, setNotesParty] = useState<HostParty | null>(null);
+  const [noteDraft, setNoteDraft] = useState('');
+  const [tagsDraft, setTagsDraft] = useState<PartyTag[]>([]);
+  const [tagLabelDraft, setTagLabelDraft] = useState('');
+  const [tagColorDraft, setTagColorDraft] = useState<TagColor>('blue');
+  const [notesSaving, setNotesSaving] = useState(false);
+  // Message to guests being written, and who it's for (a single party is named)
+  const [messageTo, setMessageTo] = useState<{ target: BroadcastTarget; name?: string } | null>(
+    null
   );
+  const [messageDraft, setMessageDraft] = useState('');
+  const [messageSending, setMessageSending] = useState(false);
+  // Push alerts for this signed-in host; null while loading
+  const [alertsVisible, setAlertsVisible] = useState(false);
+  const [alertSettings, setAlertSettings] = useState<HostAlertSettings | null>(null);
+  const [alertsSaving, setAlertsSaving] = useState(false);
+  const scheduleLine = useMemo(() => {
+    const line = formatScheduleLine(openTime, closeTime);
+    // Name the queue's timezone when it isn't the one this device is in
+    const deviceTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return line && schedule && schedule.timezone !== deviceTimezone
+      ? `${line} (${schedule.timezone})`
+      : line;
+  }, [openTime, closeTime, schedule]);
   const [capacity, setCapacity] = useState<number | null>(
     typeof initialMaxGuests === 'number' ? initialMaxGuests : null
   );
@@ -246,6 +353,10 @@ export default function HostQueueScreen({ route, navigation }: Props) {
   const [queue, setQueue] = useState<HostParty[]>([]);
   const [nowServing, setNowServing] = useState<HostParty | null>(null);
   const [callDeadline, setCallDeadline] = useState<number | null>(null);
+  const [counters, setCounters] = useState<ServiceCounter[]>([]);
+  const [lanes, setLanes] = useState<PriorityLane[]>([]);
+  const [paused, setPaused] = useState(false);
+  const [resumeAt, setResumeAt] = useState<number | null>(null);
   const [closed, setClosed] = useState(false);
   const [actionLoading, setActionLoading] = useState(false);
   const [closeLoading, setCloseLoading] = useState(false);
@@ -262,7 +373,11 @@ export default function HostQueueScreen({ route, navigation }: Props) {
   const qrCodeRef = useRef<any>(null);
   const canGeneratePoster = true; // Web uses canvas, native uses view-shot
 
-  const pollInterval = useRef<ReturnType<typeof setInterval> | null>(null);
+  const streamRef = useRef<QueueStream | null>(null);
+  // The first queueLimit parties of the line as patched over the socket
+  const liveState = useRef<HostLiveState | null>(null);
+  const awaitingResync = useRef(false);
+  const queueLimitRef = useRef(HOST_PAGE_SIZE);
   const reconnectTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
   const etag = useRef<string | null>(null);
   const hasInitializedQueue = useRef(false);
@@ -355,20 +470,37 @@ export default function HostQueueScreen({ route, navigation }: Props) {
     }
   }, []);
 
-  const stopPolling = useCallback(() => {
-    if (pollInterval.current) {
-      clearInterval(pollInterval.current);
-      pollInterval.current = null;
-    }
-  }, []);
-
   const handleSnapshot = useCallback((snapshot: HostMessage) => {
     try {
       if (snapshot.type === 'queue_update') {
         const queueEntries = Array.isArray(snapshot.queue) ? (snapshot.queue as HostParty[]) : [];
         const serving = (snapshot.nowServing ?? null) as HostParty | null;
+        const counterEntries = Array.isArray(snapshot.counters)
+          ? (snapshot.counters as ServiceCounter[])
+          : [];
         setQueue(queueEntries);
+        setQueueTotal(typeof snapshot.queueTotal === 'number' ? snapshot.queueTotal : null);
         setNowServing(serving);
+        setCounters(counterEntries);
+        setLanes(Array.isArray(snapshot.lanes) ? (snapshot.lanes as PriorityLane[]) : []);
+        setPaused(snapshot.paused === true);
+        setResumeAt(typeof snapshot.resumeAt === 'number' ? snapshot.resumeAt : null);
+        setSchedule((snapshot.schedule as QueueSchedule | null | undefined) ?? null);
+        setAppointments(
+          Array.isArray(snapshot.appointments) ? (snapshot.appointments as AppointmentSlot[]) : []
+        );
+        setJoinFields(
+          Array.isArray(snapshot.joinFields) ? (snapshot.joinFields as JoinField[]) : []
+        );
+        const standbyEntries = Array.isArray(snapshot.standby)
+          ? (snapshot.standby as HostParty[])
+          : [];
+        setStandby(standbyEntries);
+        setStandbyTotal(
+          typeof snapshot.standbyTotal === 'number' ? snapshot.standbyTotal : standbyEntries.length
+        );
+        const offer = (snapshot.undo as UndoOffer | null | undefined) ?? null;
+        setUndoOffer(offer && offer.expiresAt > Date.now() ? offer : null);
         if (typeof snapshot.maxGuests === 'number') {
           setCapacity(snapshot.maxGuests);
         }
@@ -378,13 +510,18 @@ export default function HostQueueScreen({ route, navigation }: Props) {
         // Check the closed field from the snapshot - this syncs across devices
         if (snapshot.closed === true) {
           setClosed(true);
-        } else if (queueEntries.length > 0 || serving) {
+        } else if (
+          queueEntries.length > 0 ||
+          serving ||
+          counterEntries.some((counter) => counter.nowServing)
+        ) {
           setClosed(false);
         }
         setConnectionError(null);
       } else if (snapshot.type === 'closed') {
         setQueue([]);
         setNowServing(null);
+        setCounters([]);
         setCallDeadline(null);
         setClosed(true);
       }
@@ -393,11 +530,31 @@ export default function HostQueueScreen({ route, navigation }: Props) {
     }
   }, []);
 
+  const publishLiveState = useCallback(
+    (state: HostLiveState) => {
+      const primary = state.counters[0];
+      handleSnapshot({
+        ...state.meta,
+        type: 'queue_update',
+        queue: state.queue,
+        counters: state.counters,
+        nowServing: primary?.nowServing ?? null,
+        callDeadline: primary?.callDeadline ?? null,
+      });
+    },
+    [handleSnapshot]
+  );
+
   const poll = useCallback(async () => {
     // Need either hostToken OR isAuthenticated (backend verifies ownership for authenticated users)
     if (!hasHostAuth || !snapshotUrl) {
       return;
     }
+    // The default page comes straight from the cached snapshot; longer lists are built on demand
+    const pageUrl =
+      queueLimitRef.current > HOST_PAGE_SIZE
+        ? `${snapshotUrl}?limit=${queueLimitRef.current}`
+        : snapshotUrl;
 
     // Create a new AbortController for this request
     const controller = new AbortController();
@@ -417,7 +574,7 @@ export default function HostQueueScreen({ route, navigation }: Props) {
         headers['If-None-Match'] = etag.current;
       }
 
-      const response = await fetch(snapshotUrl, {
+      const response = await fetch(pageUrl, {
         headers,
         credentials: 'include', // Include auth cookies for same-origin
         cache: 'no-store', // Bypass Safari's aggressive caching
@@ -449,7 +606,7 @@ export default function HostQueueScreen({ route, navigation }: Props) {
         if (hostToken) {
           retryHeaders['x-host-auth'] = hostToken;
         }
-        const retryResponse = await fetch(snapshotUrl, {
+        const retryResponse = await fetch(pageUrl, {
           headers: retryHeaders,
           credentials: 'include',
           cache: 'no-store',
@@ -498,29 +655,78 @@ export default function HostQueueScreen({ route, navigation }: Props) {
     }
   }, [hasHostAuth, hostToken, snapshotUrl, handleSnapshot]);
 
-  const startPolling = useCallback(() => {
-    if (!hasHostAuth) {
-      setConnectionState('closed');
-      setConnectionError(
-        'Missing host authentication. Reopen the host controls on the device that created this queue.'
-      );
-      setConnectionErrorModalVisible(true);
-      return;
-    }
+  const stopStream = useCallback(() => {
+    streamRef.current?.close();
+    streamRef.current = null;
+    liveState.current = null;
+  }, []);
 
+  // Live updates arrive as patches over a socket, or an event stream or long polls
+  // where sockets are blocked
+  const connect = useCallback(() => {
+    stopStream();
     clearReconnectTimeout();
-    stopPolling();
     setConnectionState('connecting');
     setConnectionError(null);
+    awaitingResync.current = false;
 
-    // Poll immediately
-    poll();
-
-    // Then poll every POLL_INTERVAL_MS
-    pollInterval.current = setInterval(() => {
-      poll();
-    }, POLL_INTERVAL_MS);
-  }, [hasHostAuth, clearReconnectTimeout, stopPolling, poll]);
+    const stream = openQueueStream({
+      code,
+      hostAuthToken: hostToken,
+      snapshotParams: (): Record<string, string> =>
+        // The default page comes straight from the cached snapshot; longer lists are built on demand
+        queueLimitRef.current > HOST_PAGE_SIZE ? { limit: String(queueLimitRef.current) } : {},
+      onTransport: () => {
+        // Patches numbered on the previous connection don't carry over
+        liveState.current = null;
+        awaitingResync.current = false;
+      },
+      onError: (message) => {
+        setConnectionError(message);
+        setConnectionErrorModalVisible(true);
+      },
+      onMessage: (data) => {
+        const message = data as HostQueueMessage;
+        if (typeof message.seq !== 'number') {
+          // Long-poll snapshots and unversioned messages such as 'closed'
+          handleSnapshot(data as HostMessage);
+        } else {
+          const next = applyHostQueueMessage(liveState.current, message);
+          if (!next) {
+            // We missed an update; patches are ignored until the full state comes back
+            if (!awaitingResync.current) {
+              awaitingResync.current = true;
+              stream.resync();
+            }
+            return;
+          }
+          if (message.type === 'snapshot') {
+            awaitingResync.current = false;
+          } else if (awaitingResync.current) {
+            return;
+          }
+          liveState.current = next;
+          publishLiveState(next);
+        }
+        hasInitializedQueue.current = true;
+        setConnectionState('open');
+        setConnectionErrorModalVisible(false);
+      },
+    });
+    streamRef.current = stream;
+  }, [code, hostToken, stopStream, clearReconnectTimeout, handleSnapshot, publishLiveState]);
+
+  const showMoreParties = useCallback(() => {
+    const limit = Math.min(queueLimitRef.current + HOST_PAGE_SIZE, MAX_HOST_PAGE_SIZE);
+    queueLimitRef.current = limit;
+    setQueueLimit(limit);
+    // The socket only carries the page it asked for, so fetch the longer one; patches
+    // numbered for the old page are ignored until its snapshot arrives
+    if (liveState.current) {
+      awaitingResync.current = true;
+    }
+    streamRef.current?.resync();
+  }, []);
 
   // Handle visibility changes - pause polling when tab is hidden, resume when visible
   useEffect(() => {
@@ -532,7 +738,13 @@ export default function HostQueueScreen({ route, navigation }: Props) {
       if (document.visibilityState === 'visible') {
         // Tab became visible - poll immediately and restart interval
         // Note: hasHostAuth already accounts for both token AND isAuthenticated
-        if (hasHostAuth && snapshotUrl && !isRecoveringParams && !recoveringHostAuth) {
+        if (
+          hasHostAuth &&
+          snapshotUrl &&
+          !liveState.current &&
+          !isRecoveringParams &&
+          !recoveringHostAuth
+        ) {
           // Clear stale ETag to force fresh data after being backgrounded
           etag.current = null;
           poll();
@@ -560,25 +772,55 @@ export default function HostQueueScreen({ route, navigation }: Props) {
       setConnectionErrorModalVisible(true);
       return;
     }
-    startPolling();
+    connect();
     return () => {
       clearReconnectTimeout();
-      stopPolling();
+      stopStream();
       // Cancel any in-flight requests
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
       }
     };
   }, [
-    startPolling,
+    connect,
     clearReconnectTimeout,
-    stopPolling,
+    stopStream,
     hasHostAuth,
     isRecoveringParams,
     recoveringHostAuth,
   ]);
 
-  const queueCount = queue.length;
+  const queueCount = queueTotal ?? queue.length;
+  // Every tag in use, so hosts can narrow the list down to one of them
+  const tagsInUse = useMemo(() => {
+    const byLabel = new Map<string, PartyTag>();
+    for (const party of [...queue, ...(nowServing ? [nowServing] : [])]) {
+      for (const tag of party.tags ?? []) {
+        if (!byLabel.has(tag.label)) {
+          byLabel.set(tag.label, tag);
+        }
+      }
+    }
+    return [...byLabel.values()];
+  }, [queue, nowServing]);
+  const activeTagFilter =
+    tagFilter && tagsInUse.some((tag) => tag.label === tagFilter) ? tagFilter : null;
+  const visibleQueue = activeTagFilter
+    ? queue.filter((party) => party.tags?.some((tag) => tag.label === activeTagFilter))
+    : queue;
+  // Each lane holds its own spots in the service order, so a party can only be moved to
+  // the indexes its lane holds (its own included); parties in a removed lane count as standard
+  const laneSlots = useMemo(() => {
+    const laneOf = (party: HostParty) =>
+      lanes.some((lane) => lane.id === party.laneId) ? (party.laneId as string) : STANDARD_LANE_ID;
+    const byLane = new Map<string, number[]>();
+    queue.forEach((party, index) => {
+      const indexes = byLane.get(laneOf(party)) ?? [];
+      indexes.push(index);
+      byLane.set(laneOf(party), indexes);
+    });
+    return new Map(queue.map((party) => [party.id, byLane.get(laneOf(party)) ?? []]));
+  }, [queue, lanes]);
   const shareableLink = useMemo(() => {
     if (joinUrl) return joinUrl;
     // On web, use current origin
@@ -623,7 +865,13 @@ export default function HostQueueScreen({ route, navigation }: Props) {
   }, [capacity, code, contactInfo, displayEventName, location, scheduleLine, shareableLink]);
 
   const disabledAdvance =
-    !hasHostAuth || actionLoading || closeLoading || closed || (queueCount === 0 && !nowServing);
+    !hasHostAuth ||
+    actionLoading ||
+    closeLoading ||
+    closed ||
+    paused ||
+    (queueCount === 0 && !nowServing);
+  const isMultiCounter = counters.length > 1;
   const disabledClose = !hasHostAuth || closeLoading || closed;
 
   const trackHostAction = useCallback(
@@ -641,17 +889,22 @@ export default function HostQueueScreen({ route, navigation }: Props) {
   );
 
   const advance = useCallback(
-    async (nextPartyId?: string) => {
+    async (nextPartyId?: string, counterId?: string) => {
       if (!hasHostAuth || actionLoading) {
         return;
       }
+      // Without an explicit counter, call to the first free one (or finish the first counter)
+      const targetCounter = counterId
+        ? counters.find((counter) => counter.id === counterId)
+        : (counters.find((counter) => !counter.nowServing) ?? counters[0]);
       setActionLoading(true);
       try {
         const result = await advanceQueueHost({
           code,
           hostAuthToken: hostToken, // Optional - backend will verify ownership via session for authenticated users
-          servedPartyId: nowServing?.id,
+          servedPartyId: targetCounter ? targetCounter.nowServing?.id : nowServing?.id,
           nextPartyId,
+          counterId: targetCounter?.id,
         });
         const updatedNowServing = result.nowServing ?? null;
         setNowServing(updatedNowServing);
@@ -662,6 +915,7 @@ export default function HostQueueScreen({ route, navigation }: Props) {
         trackHostAction(nextPartyId ? 'host_call_specific' : 'host_call_next', {
           targetPartyId: nextPartyId ?? updatedNowServing?.id ?? null,
           queueLength: queue.length,
+          counterId: result.counterId ?? null,
         });
         await poll();
       } catch (error) {
@@ -674,6 +928,7 @@ export default function HostQueueScreen({ route, navigation }: Props) {
     [
       actionLoading,
       code,
+      counters,
       hasHostAuth,
       hostToken,
       nowServing?.id,
@@ -694,6 +949,551 @@ export default function HostQueueScreen({ route, navigation }: Props) {
     advance();
   }, [advance]);
 
+  // The server only keeps an action undoable for a short while; hide the offer with it
+  useEffect(() => {
+    if (!undoOffer) {
+      return;
+    }
+    const timeout = setTimeout(() => setUndoOffer(null), undoOffer.expiresAt - Date.now());
+    return () => clearTimeout(timeout);
+  }, [undoOffer]);
+
+  const undoLastAction = useCallback(async () => {
+    if (!hasHostAuth || actionLoading || !undoOffer) {
+      return;
+    }
+    setActionLoading(true);
+    try {
+      const result = await undoHostAction({
+        code,
+        hostAuthToken: hostToken,
+        undoId: undoOffer.id,
+      });
+      trackHostAction('host_undo', { action: result.undone });
+      setUndoOffer(null);
+      await poll();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to undo';
+      setUndoOffer(null);
+      alert({ title: 'Unable to undo', message });
+    } finally {
+      setActionLoading(false);
+    }
+  }, [actionLoading, alert, code, hasHostAuth, hostToken, poll, trackHostAction, undoOffer]);
+
+  // Tapping a party's lane badge moves them to the next lane (wrapping around)
+  const cycleLane = useCallback(
+    async (party: HostParty) => {
+      if (!hasHostAuth || actionLoading || lanes.length < 2) {
+        return;
+      }
+      const currentIndex = lanes.findIndex(
+        (lane) => lane.id === (party.laneId ?? STANDARD_LANE_ID)
+      );
+      const nextLane = lanes[(currentIndex + 1) % lanes.length];
+      setActionLoading(true);
+      try {
+        await assignLaneHost({
+          code,
+          hostAuthToken: hostToken,
+          partyId: party.id,
+          laneId: nextLane.id,
+        });
+        trackHostAction('host_assign_lane', { partyId: party.id, laneId: nextLane.id });
+        await poll();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to change lane';
+        alert({ title: 'Unable to change lane', message });
+      } finally {
+        setActionLoading(false);
+      }
+    },
+    [actionLoading, alert, code, hasHostAuth, hostToken, lanes, poll, trackHostAction]
+  );
+
+  const moveParty = useCallback(
+    async (fromIndex: number, toIndex: number) => {
+      const party = queue[fromIndex];
+      const slots = party ? (laneSlots.get(party.id) ?? []) : [];
+      if (!hasHostAuth || actionLoading || !party || !slots.includes(toIndex)) {
+        return;
+      }
+      // Show the new order right away: the lane's parties shift between the spots it holds,
+      // as they will on the server. The next poll reconciles with the server
+      const laneParties = slots.map((index) => queue[index]);
+      laneParties.splice(slots.indexOf(fromIndex), 1);
+      laneParties.splice(slots.indexOf(toIndex), 0, party);
+      const reordered = [...queue];
+      slots.forEach((index, slot) => {
+        reordered[index] = laneParties[slot];
+      });
+      setQueue(reordered);
+      setActionLoading(true);
+      try {
+        await reorderQueueHost({ code, hostAuthToken: hostToken, partyId: party.id, toIndex });
+        trackHostAction('host_reorder', { partyId: party.id, fromIndex, toIndex });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to reorder queue';
+        alert({ title: 'Unable to reorder', message });
+      } finally {
+        setActionLoading(false);
+        await poll();
+      }
+    },
+    [actionLoading, alert, code, hasHostAuth, hostToken, laneSlots, poll, queue, trackHostAction]
+  );
+
+  const openNotes = useCallback((party: HostParty) => {
+    setNotesParty(party);
+    setNoteDraft(party.note ?? '');
+    setTagsDraft(party.tags ?? []);
+    setTagLabelDraft('');
+  }, []);
+
+  const closeNotes = useCallback(() => {
+    setNotesParty(null);
+  }, []);
+
+  const addTagDraft = useCallback(() => {
+    const label = tagLabelDraft.trim();
+    if (!label || tagsDraft.length >= MAX_PARTY_TAGS) {
+      return;
+    }
+    if (!tagsDraft.some((tag) => tag.label.toLowerCase() === label.toLowerCase())) {
+      setTagsDraft([...tagsDraft, { label, color: tagColorDraft }]);
+    }
+    setTagLabelDraft('');
+  }, [tagColorDraft, tagLabelDraft, tagsDraft]);
+
+  const saveNotes = useCallback(async () => {
+    if (!notesParty || notesSaving) {
+      return;
+    }
+    setNotesSaving(true);
+    try {
+      await annotatePartyHost({
+        code,
+        hostAuthToken: hostToken,
+        partyId: notesParty.id,
+        note: noteDraft.trim(),
+        tags: tagsDraft,
+      });
+      trackHostAction('host_annotate', {
+        partyId: notesParty.id,
+        hasNote: noteDraft.trim().length > 0,
+        tagCount: tagsDraft.length,
+      });
+      setNotesParty(null);
+      await poll();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to save notes';
+      alert({ title: 'Unable to save notes', message });
+    } finally {
+      setNotesSaving(false);
+    }
+  }, [
+    alert,
+    code,
+    hostToken,
+    noteDraft,
+    notesParty,
+    notesSaving,
+    poll,
+    tagsDraft,
+    trackHostAction,
+  ]);
+
+  const openMessage = useCallback((target: BroadcastTarget, name?: string) => {
+    setMessageTo({ target, name });
+    setMessageDraft('');
+  }, []);
+
+  const closeMessage = useCallback(() => {
+    setMessageTo(null);
+  }, []);
+
+  const sendMessage = useCallback(async () => {
+    const message = messageDraft.trim();
+    if (!messageTo || !message || messageSending) {
+      return;
+    }
+    setMessageSending(true);
+    try {
+      const { recipients } = await broadcastMessageHost({
+        code,
+        hostAuthToken: hostToken,
+        message,
+        target: messageTo.target,
+      });
+      trackHostAction('host_broadcast', { target: messageTo.target.type, recipients });
+      setMessageTo(null);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to send message';
+      alert({ title: 'Unable to send message', message: errorMessage });
+    } finally {
+      setMessageSending(false);
+    }
+  }, [alert, code, hostToken, messageDraft, messageSending, messageTo, trackHostAction]);
+
+  // Ask for notification permission and register this device on the host's account
+  const registerHostDevice = useCallback(async (): Promise<boolean> => {
+    if (Platform.OS !== 'web') {
+      const { status: existingStatus } = await Notifications.getPermissionsAsync();
+      const finalStatus =
+        existingStatus === 'granted'
+          ? existingStatus
+          : (await Notifications.requestPermissionsAsync()).status;
+      if (finalStatus !== 'granted') {
+        return false;
+      }
+      const tokenData = await Notifications.getExpoPushTokenAsync({
+        projectId: process.env.EXPO_PUBLIC_PROJECT_ID,
+      });
+      await saveHostPushSubscription({ expoToken: tokenData.data });
+      return true;
+    }
+    if (
+      typeof navigator === 'undefined' ||
+      !('serviceWorker' in navigator) ||
+      typeof window === 'undefined' ||
+      !('PushManager' in window) ||
+      typeof Notification === 'undefined'
+    ) {
+      return false;
+    }
+    const publicKey = await getVapidPublicKey();
+    if (!publicKey) {
+      return false;
+    }
+    const registration = await navigator.serviceWorker.register('/sw.js', { scope: '/' });
+    let subscription = await registration.pushManager.getSubscription();
+    if (!subscription) {
+      const permission =
+        Notification.permission === 'default'
+          ? await Notification.requestPermission()
+          : Notification.permission;
+      if (permission !== 'granted') {
+        return false;
+      }
+      subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: Uint8Array.from(
+          atob(publicKey.replace(/-/g, '+').replace(/_/g, '/')),
+          (c) => c.charCodeAt(0)
+        ),
+      });
+    }
+    await saveHostPushSubscription({
+      subscription: subscription.toJSON() as PushSubscriptionParams,
+    });
+    return true;
+  }, []);
+
+  const openAlerts = useCallback(async () => {
+    setAlertsVisible(true);
+    setAlertSettings(null);
+    try {
+      setAlertSettings(await getHostAlerts(code));
+    } catch (error) {
+      setAlertsVisible(false);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to load alerts';
+      alert({ title: 'Unable to load alerts', message: errorMessage });
+    }
+  }, [alert, code]);
+
+  const closeAlerts = useCallback(() => {
+    setAlertsVisible(false);
+  }, []);
+
+  const saveAlerts = useCallback(
+    async (changes: Partial<HostAlertPrefs>, addDevice: boolean) => {
+      if (alertsSaving) {
+        return;
+      }
+      setAlertsSaving(true);
+      try {
+        if (addDevice && !(await registerHostDevice())) {
+          alert({
+            title: 'Notifications blocked',
+            message: 'Allow notifications for QueueUp on this device to get host alerts.',
+          });
+          return;
+        }
+        const settings = await updateHostAlerts(code, changes);
+        setAlertSettings(settings);
+        trackHostAction('host_alerts_updated', { ...settings.alerts, devices: settings.devices });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to save alerts';
+        alert({ title: 'Unable to save alerts', message: errorMessage });
+      } finally {
+        setAlertsSaving(false);
+      }
+    },
+    [alert, alertsSaving, code, registerHostDevice, trackHostAction]
+  );
+
+  const renderTag = (tag: PartyTag, onPress?: () => void) => (
+    <Pressable
+      key={tag.label}
+      style={[styles.partyTag, { backgroundColor: TAG_COLORS[tag.color].background }]}
+      onPress={onPress}
+      disabled={!onPress}>
+      <Text style={[styles.partyTagText, { color: TAG_COLORS[tag.color].text }]}>
+        {tag.label}
+        {onPress ? ' ✕' : ''}
+      </Text>
+    </Pressable>
+  );
+
+  const renderPartyNotes = (party: HostParty) => (
+    <>
+      {party.tags && party.tags.length > 0 ? (
+        <View style={styles.partyTagRow}>{party.tags.map((tag) => renderTag(tag))}</View>
+      ) : null}
+      {party.note ? <Text style={styles.partyNote}>{party.note}</Text> : null}
+      {hasHostAuth && !closed ? (
+        <Pressable
+          onPress={() => openNotes(party)}
+          accessibilityRole="button"
+          accessibilityLabel={`Notes for ${party.name?.trim() || 'guest'}`}>
+          <Text style={styles.partyNotesLink}>
+            {party.note || party.tags?.length ? 'Edit notes' : 'Add note'}
+          </Text>
+        </Pressable>
+      ) : null}
+      {hasHostAuth && !closed ? (
+        <Pressable
+          onPress={() =>
+            openMessage({ type: 'party', partyId: party.id }, party.name?.trim() || 'guest')
+          }
+          accessibilityRole="button"
+          accessibilityLabel={`Message ${party.name?.trim() || 'guest'}`}>
+          <Text style={styles.partyNotesLink}>Send message</Text>
+        </Pressable>
+      ) : null}
+    </>
+  );
+
+  const renderTagFilter = () => {
+    if (tagsInUse.length === 0) {
+      return null;
+    }
+    return (
+      <View style={styles.tagFilterRow}>
+        {[null, ...tagsInUse].map((tag) => {
+          const selected = activeTagFilter === (tag?.label ?? null);
+          return (
+            <Pressable
+              key={tag?.label ?? 'all'}
+              style={[
+                styles.partyTag,
+                tag ? { backgroundColor: TAG_COLORS[tag.color].background } : undefined,
+                selected ? styles.tagFilterSelected : undefined,
+              ]}
+              onPress={() => setTagFilter(tag?.label ?? null)}
+              accessibilityRole="button"
+              accessibilityState={{ selected }}>
+              <Text
+                style={[
+                  styles.partyTagText,
+                  tag ? { color: TAG_COLORS[tag.color].text } : undefined,
+                ]}>
+                {tag?.label ?? 'All'}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderLaneBadge = (party: HostParty) => {
+    if (lanes.length < 2) {
+      return null;
+    }
+    const laneId = party.laneId ?? STANDARD_LANE_ID;
+    const lane = lanes.find((entry) => entry.id === laneId);
+    return (
+      <Pressable
+        style={[
+          styles.laneBadge,
+          laneId !== STANDARD_LANE_ID ? styles.laneBadgePriority : undefined,
+        ]}
+        onPress={() => cycleLane(party)}
+        disabled={!hasHostAuth || actionLoading || closed}
+        accessibilityRole="button"
+        accessibilityLabel={`Change lane for ${party.name?.trim() || 'guest'}`}>
+        <Text style={styles.laneBadgeText}>{lane?.name ?? 'Standard'}</Text>
+      </Pressable>
+    );
+  };
+
+  const renderSlotBadge = (party: HostParty) => {
+    const slot = party.slotId ? appointments.find((entry) => entry.id === party.slotId) : null;
+    if (!slot) {
+      return null;
+    }
+    return (
+      <View style={styles.laneBadge}>
+        <Text style={styles.laneBadgeText}>Appointment {formatClockTime(slot.startsAt)}</Text>
+      </View>
+    );
+  };
+
+  const renderSnoozeBadge = (party: HostParty) => {
+    if (party.snoozedUntil) {
+      return (
+        <View style={styles.laneBadge}>
+          <Text style={styles.laneBadgeText}>
+            Snoozed until {formatClockTime(party.snoozedUntil)}
+          </Text>
+        </View>
+      );
+    }
+    if (party.snoozes) {
+      return (
+        <View style={styles.laneBadge}>
+          <Text style={styles.laneBadgeText}>Let others ahead</Text>
+        </View>
+      );
+    }
+    return null;
+  };
+
+  // Whether the guest's latest notification reached any of their devices
+  const renderPushStatus = (party: HostParty) => {
+    if (!party.pushStatus) {
+      return null;
+    }
+    const reached = party.pushStatus === 'notified';
+    return (
+      <View
+        style={[
+          styles.laneBadge,
+          reached ? styles.pushBadgeNotified : styles.pushBadgeUnreachable,
+        ]}>
+        <Text
+          style={[
+            styles.laneBadgeText,
+            reached ? styles.pushBadgeNotifiedText : styles.pushBadgeUnreachableText,
+          ]}>
+          {reached ? 'Notified ✓' : 'Unreachable ⚠'}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderAnswers = (party: HostParty) => {
+    const answers = party.answers;
+    if (!answers) {
+      return null;
+    }
+    const answered = joinFields.filter((field) => answers[field.id] !== undefined);
+    if (answered.length === 0) {
+      return null;
+    }
+    return (
+      <Text style={styles.queueItemMeta}>
+        {answered
+          .map((field) => {
+            const value = answers[field.id];
+            return `${field.label}: ${typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value}`;
+          })
+          .join(' · ')}
+      </Text>
+    );
+  };
+
+  const renderAppointments = () => {
+    if (appointments.length === 0) {
+      return null;
+    }
+    const statusLabels: Record<AppointmentSlot['status'], string> = {
+      open: 'Open',
+      booked: 'Booked',
+      admitted: 'In line',
+      no_show: 'No-show',
+    };
+    return (
+      <View style={styles.appointmentList}>
+        <Text style={styles.nowServingHeading}>Appointments</Text>
+        {appointments.map((slot) => (
+          <View key={slot.id} style={styles.counterRow}>
+            <View style={styles.counterInfo}>
+              <Text style={styles.counterName}>{formatClockTime(slot.startsAt)}</Text>
+              <Text style={styles.nowServingValue}>
+                {slot.party
+                  ? `${slot.party.name?.trim() || 'Guest'}${slot.party.size ? ` (${slot.party.size})` : ''}`
+                  : 'Available'}
+              </Text>
+            </View>
+            <Text style={styles.laneBadgeText}>{statusLabels[slot.status]}</Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderStandby = () => {
+    if (standby.length === 0) {
+      return null;
+    }
+    return (
+      <View style={styles.appointmentList}>
+        <Text style={styles.nowServingHeading}>Standby ({standbyTotal})</Text>
+        {standby.map((party, index) => (
+          <View key={party.id} style={styles.counterRow}>
+            <View style={styles.counterInfo}>
+              <Text style={styles.counterName}>#{index + 1}</Text>
+              <Text style={styles.nowServingValue}>
+                {`${party.name?.trim() || 'Guest'}${party.size ? ` (${party.size})` : ''}`}
+              </Text>
+            </View>
+            <Text style={styles.laneBadgeText}>Waiting for room</Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderCounterRows = () =>
+    counters.map((counter) => {
+      const party = counter.nowServing;
+      const disabled =
+        !hasHostAuth ||
+        actionLoading ||
+        closeLoading ||
+        closed ||
+        paused ||
+        (queueCount === 0 && !party);
+      return (
+        <View key={counter.id} style={styles.counterRow}>
+          <View style={styles.counterInfo}>
+            <Text style={styles.counterName}>{counter.name}</Text>
+            <Text style={styles.nowServingValue}>
+              {party
+                ? `${party.name?.trim() || 'Guest'}${party.size ? ` (${party.size})` : ''}`
+                : 'Idle'}
+            </Text>
+            {party ? renderPushStatus(party) : null}
+            {party ? (
+              <View style={styles.timerRow}>
+                <Timer targetTimestamp={counter.callDeadline ?? null} label="Time left" compact />
+              </View>
+            ) : null}
+          </View>
+          <Pressable
+            style={[styles.queueItemButton, disabled ? styles.primaryButtonDisabled : undefined]}
+            disabled={disabled}
+            onPress={() => advance(undefined, counter.id)}
+            accessibilityRole="button"
+            accessibilityLabel={`Call next party to ${counter.name}`}>
+            <Text style={styles.queueItemButtonText}>{party ? 'Served · Next' : 'Call Next'}</Text>
+          </Pressable>
+        </View>
+      );
+    });
+
   // use browser-compatible timeout type (number in RN/web, Timeout in Node)
   const copyTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -833,6 +1633,46 @@ export default function HostQueueScreen({ route, navigation }: Props) {
     }
   }, [shareableLink, displayEventName, code, trackHostAction]);
 
+  // Opens the venue display board in a new tab, or shares its link from the app
+  const openBoard = useCallback(
+    async (labels: BoardLabels) => {
+      try {
+        const token = await getBoardToken({ code, hostAuthToken: hostToken });
+        const base =
+          typeof window !== 'undefined' && window.location?.origin
+            ? window.location.origin
+            : 'https://forkfriends.github.io/queueup';
+        const boardUrl = `${base}/board/${code}?token=${encodeURIComponent(token)}&labels=${labels}`;
+        trackHostAction('host_open_board', { labels });
+        if (isWeb) {
+          window.open(boardUrl, '_blank', 'noopener');
+        } else {
+          await Share.share({ message: boardUrl, url: boardUrl });
+        }
+      } catch (error) {
+        console.warn('Failed to open display board', error);
+        alert({
+          title: 'Display board unavailable',
+          message: error instanceof Error ? error.message : 'Please try again.',
+        });
+      }
+    },
+    [code, hostToken, isWeb, trackHostAction, alert]
+  );
+
+  const handleOpenBoard = useCallback(() => {
+    alert({
+      title: 'Display Board',
+      message:
+        'Show the line on a TV at your venue. Anyone who can see the screen will see what it shows.',
+      buttons: [
+        { text: 'Show names', onPress: () => openBoard('names') },
+        { text: 'Show ticket numbers', onPress: () => openBoard('tickets') },
+        { text: 'Cancel', style: 'cancel' },
+      ],
+    });
+  }, [alert, openBoard]);
+
   const handleViewQrCode = useCallback(async () => {
     if (isWeb) {
       // Web: use canvas-based poster generation
@@ -1058,6 +1898,79 @@ export default function HostQueueScreen({ route, navigation }: Props) {
     });
   }, [closeLoading, hasHostAuth, performCloseQueue, confirm, trackHostAction]);
 
+  const updatePause = useCallback(
+    async (pauseMinutes: number | null | 'resume') => {
+      if (!hasHostAuth || actionLoading) {
+        return;
+      }
+      setActionLoading(true);
+      try {
+        if (pauseMinutes === 'resume') {
+          await resumeQueueHost({ code, hostAuthToken: hostToken });
+        } else {
+          await pauseQueueHost({
+            code,
+            hostAuthToken: hostToken,
+            resumeAt: pauseMinutes === null ? null : Date.now() + pauseMinutes * MS_PER_MINUTE,
+          });
+        }
+        trackHostAction(pauseMinutes === 'resume' ? 'host_resume_queue' : 'host_pause_queue', {
+          pauseMinutes: pauseMinutes === 'resume' ? undefined : pauseMinutes,
+        });
+        await poll();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to update queue';
+        alert({ title: 'Unable to update queue', message });
+      } finally {
+        setActionLoading(false);
+      }
+    },
+    [actionLoading, alert, code, hasHostAuth, hostToken, poll, trackHostAction]
+  );
+
+  const handlePauseQueue = useCallback(() => {
+    if (paused) {
+      void updatePause('resume');
+      return;
+    }
+    alert({
+      title: 'Pause Queue',
+      message:
+        'New guests cannot join and nobody is called while paused. Everyone keeps their spot.',
+      buttons: [
+        { text: '15 minutes', onPress: () => updatePause(15) },
+        { text: '30 minutes', onPress: () => updatePause(30) },
+        { text: '1 hour', onPress: () => updatePause(60) },
+        { text: 'Until I resume', onPress: () => updatePause(null) },
+        { text: 'Cancel', style: 'cancel' },
+      ],
+    });
+  }, [alert, paused, updatePause]);
+
+  const renderPauseButton = () => (
+    <Pressable
+      style={[styles.pauseButton, disabledClose ? styles.primaryButtonDisabled : undefined]}
+      disabled={disabledClose || actionLoading}
+      onPress={handlePauseQueue}>
+      <Text style={styles.buttonText}>{paused ? 'Resume Queue' : 'Pause Queue'}</Text>
+    </Pressable>
+  );
+
+  const renderPausedNotice = () =>
+    paused && !closed ? (
+      <Text style={styles.pausedNotice}>
+        {resumeAt
+          ? `Paused: guests see you're back at ${formatClockTime(resumeAt)}`
+          : 'Paused until you resume'}
+      </Text>
+    ) : schedule && !schedule.open && !closed ? (
+      <Text style={styles.pausedNotice}>
+        {schedule.opensAt
+          ? `Outside opening hours: new guests can join from ${formatClockTime(schedule.opensAt)}`
+          : 'Outside opening hours: not taking new guests'}
+      </Text>
+    ) : null;
+
   const handleCloseConnectionErrorModal = useCallback(() => {
     setConnectionErrorModalVisible(false);
   }, []);
@@ -1065,9 +1978,9 @@ export default function HostQueueScreen({ route, navigation }: Props) {
   const handleGoHome = useCallback(() => {
     setConnectionErrorModalVisible(false);
     clearReconnectTimeout();
-    stopPolling();
+    stopStream();
     navigation.replace('HomeScreen');
-  }, [clearReconnectTimeout, stopPolling, navigation]);
+  }, [clearReconnectTimeout, stopStream, navigation]);
 
   const handleRetryConnection = useCallback(() => {
     setConnectionErrorModalVisible(false);
@@ -1084,6 +1997,28 @@ export default function HostQueueScreen({ route, navigation }: Props) {
     }
   }, [requiresAuth, isAuthLoading, isAuthenticated, navigation]);
 
+  const renderLoadMore = () => {
+    if (activeTagFilter !== null || queue.length >= queueCount) {
+      return null;
+    }
+    const canLoadMore = queueLimit < MAX_HOST_PAGE_SIZE;
+    return (
+      <View style={styles.loadMoreRow}>
+        <Text style={styles.queueItemMeta}>
+          Showing {queue.length} of {queueCount} parties
+        </Text>
+        {canLoadMore ? (
+          <Pressable
+            style={styles.loadMoreButton}
+            onPress={showMoreParties}
+            accessibilityRole="button">
+            <Text style={styles.loadMoreButtonText}>Show more</Text>
+          </Pressable>
+        ) : null}
+      </View>
+    );
+  };
+
   const renderQueueList = () => {
     if (queueCount === 0) {
       return (
@@ -1095,30 +2030,49 @@ export default function HostQueueScreen({ route, navigation }: Props) {
       );
     }
 
-    return queue.map((party, index) => {
-      const isLast = index === queueCount - 1;
-      return (
-        <View key={party.id} style={[styles.queueItem, isLast ? styles.queueItemLast : undefined]}>
-          <Text style={styles.queueItemName}>
-            {party.name?.trim() || 'Guest'} {party.size ? `(${party.size})` : ''}
-          </Text>
-          <Text style={styles.queueItemMeta}>
-            Status: {party.status === 'waiting' ? 'Waiting' : 'Called'} ·{' '}
-            {party.nearby ? 'Nearby' : 'Not nearby'}
-          </Text>
-          <Pressable
-            style={styles.queueItemButton}
-            onPress={() => advanceSpecific(party.id)}
-            disabled={!hasHostAuth || actionLoading || closed}>
-            {actionLoading ? (
-              <ActivityIndicator color="#fff" size="small" />
-            ) : (
-              <Text style={styles.queueItemButtonText}>Call This Party</Text>
-            )}
-          </Pressable>
-        </View>
-      );
-    });
+    // Reordering works on the full list, so it's off while a tag filter is applied
+    return (
+      <>
+        {renderTagFilter()}
+        {visibleQueue.map((party, index) => {
+          const isLast = index === visibleQueue.length - 1;
+          return (
+            <ReorderableQueueItem
+              key={party.id}
+              index={index}
+              slots={laneSlots.get(party.id) ?? [index]}
+              disabled={!hasHostAuth || actionLoading || closed || activeTagFilter !== null}
+              onMove={moveParty}
+              style={[styles.queueItem, isLast ? styles.queueItemLast : undefined]}>
+              <Text style={styles.queueItemName}>
+                {party.name?.trim() || 'Guest'} {party.size ? `(${party.size})` : ''}
+              </Text>
+              <Text style={styles.queueItemMeta}>
+                Status: {party.status === 'waiting' ? 'Waiting' : 'Called'} ·{' '}
+                {party.nearby ? 'Nearby' : 'Not nearby'}
+              </Text>
+              {renderLaneBadge(party)}
+              {renderSlotBadge(party)}
+              {renderSnoozeBadge(party)}
+              {renderPushStatus(party)}
+              {renderAnswers(party)}
+              {renderPartyNotes(party)}
+              <Pressable
+                style={styles.queueItemButton}
+                onPress={() => advanceSpecific(party.id)}
+                disabled={!hasHostAuth || actionLoading || closed}>
+                {actionLoading ? (
+                  <ActivityIndicator color="#fff" size="small" />
+                ) : (
+                  <Text style={styles.queueItemButtonText}>Call This Party</Text>
+                )}
+              </Pressable>
+            </ReorderableQueueItem>
+          );
+        })}
+        {renderLoadMore()}
+      </>
+    );
   };
 
   const content = (
@@ -1184,40 +2138,71 @@ export default function HostQueueScreen({ route, navigation }: Props) {
               <Feather name="share-2" size={18} color="#111" />
               <Text style={styles.posterButtonSecondaryText}>Share</Text>
             </Pressable>
+            {hasHostAuth ? (
+              <Pressable style={styles.posterButtonSecondary} onPress={handleOpenBoard}>
+                <Feather name="monitor" size={18} color="#111" />
+                <Text style={styles.posterButtonSecondaryText}>Board</Text>
+              </Pressable>
+            ) : null}
+            {hasHostAuth && !closed ? (
+              <Pressable
+                style={styles.posterButtonSecondary}
+                onPress={() => openMessage({ type: 'everyone' })}>
+                <Feather name="message-square" size={18} color="#111" />
+                <Text style={styles.posterButtonSecondaryText}>Message</Text>
+              </Pressable>
+            ) : null}
+            {isAuthenticated && !closed ? (
+              <Pressable style={styles.posterButtonSecondary} onPress={openAlerts}>
+                <Feather name="bell" size={18} color="#111" />
+                <Text style={styles.posterButtonSecondaryText}>Alerts</Text>
+              </Pressable>
+            ) : null}
           </View>
         ) : null}
       </View>
 
       <View style={styles.nowServingCard}>
         <Text style={styles.nowServingHeading}>Now Serving</Text>
-        <Text style={styles.nowServingValue}>
-          {nowServing
-            ? `${nowServing.name?.trim() || 'Anonymous Guest'}${
-                nowServing.size ? ` (${nowServing.size})` : ''
-              }`
-            : 'No party currently called.'}
-        </Text>
-        {nowServing ? (
-          <View style={styles.timerRow}>
-            <Timer targetTimestamp={callDeadline ?? null} label="Time left" compact />
-          </View>
-        ) : null}
+        {isMultiCounter ? (
+          renderCounterRows()
+        ) : (
+          <>
+            <Text style={styles.nowServingValue}>
+              {nowServing
+                ? `${nowServing.name?.trim() || 'Anonymous Guest'}${
+                    nowServing.size ? ` (${nowServing.size})` : ''
+                  }`
+                : 'No party currently called.'}
+            </Text>
+            {nowServing ? renderPushStatus(nowServing) : null}
+            {nowServing ? (
+              <View style={styles.timerRow}>
+                <Timer targetTimestamp={callDeadline ?? null} label="Time left" compact />
+              </View>
+            ) : null}
+          </>
+        )}
         <View style={styles.queueActionsRow}>
-          <Pressable
-            style={[
-              styles.primaryButton,
-              disabledAdvance ? styles.primaryButtonDisabled : undefined,
-            ]}
-            disabled={disabledAdvance}
-            onPress={advanceCurrent}>
-            {actionLoading ? (
-              <ActivityIndicator color="#fff" />
-            ) : (
-              <Text style={styles.buttonText}>
-                {nowServing ? 'Mark Served & Call Next' : 'Call First Party'}
-              </Text>
-            )}
-          </Pressable>
+          {isMultiCounter ? null : (
+            <Pressable
+              style={[
+                styles.primaryButton,
+                disabledAdvance ? styles.primaryButtonDisabled : undefined,
+              ]}
+              disabled={disabledAdvance}
+              onPress={advanceCurrent}>
+              {actionLoading ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>
+                  {nowServing ? 'Mark Served & Call Next' : 'Call First Party'}
+                </Text>
+              )}
+            </Pressable>
+          )}
+
+          {renderPauseButton()}
 
           <Pressable
             style={styles.destructiveButton}
@@ -1230,6 +2215,9 @@ export default function HostQueueScreen({ route, navigation }: Props) {
             )}
           </Pressable>
         </View>
+        {renderPausedNotice()}
+        {renderAppointments()}
+        {renderStandby()}
       </View>
 
       <View style={styles.queueCard}>
@@ -1297,6 +2285,212 @@ export default function HostQueueScreen({ route, navigation }: Props) {
     </Modal>
   );
 
+  const notesModal = (
+    <Modal
+      visible={notesParty !== null}
+      transparent
+      animationType="fade"
+      onRequestClose={closeNotes}>
+      <View style={styles.webModalBackdrop}>
+        <View style={styles.webModalCard}>
+          <Text style={styles.webModalTitle}>Notes for {notesParty?.name?.trim() || 'guest'}</Text>
+          <Text style={styles.webModalMessage}>Only hosts can see notes and tags.</Text>
+          <TextInput
+            placeholder="e.g. Needs wheelchair access"
+            value={noteDraft}
+            onChangeText={setNoteDraft}
+            style={styles.notesInput}
+            multiline
+            maxLength={500}
+          />
+          {tagsDraft.length > 0 ? (
+            <View style={styles.partyTagRow}>
+              {tagsDraft.map((tag) =>
+                renderTag(tag, () =>
+                  setTagsDraft(tagsDraft.filter((entry) => entry.label !== tag.label))
+                )
+              )}
+            </View>
+          ) : null}
+          {tagsDraft.length < MAX_PARTY_TAGS ? (
+            <>
+              <View style={styles.tagInputRow}>
+                <TextInput
+                  placeholder="Add a tag, e.g. Paid"
+                  value={tagLabelDraft}
+                  onChangeText={setTagLabelDraft}
+                  onSubmitEditing={addTagDraft}
+                  style={[styles.notesInput, styles.tagInput]}
+                  maxLength={24}
+                />
+                <Pressable style={styles.webModalCancelButton} onPress={addTagDraft}>
+                  <Text style={styles.webModalCancelText}>Add</Text>
+                </Pressable>
+              </View>
+              <View style={styles.partyTagRow}>
+                {(Object.keys(TAG_COLORS) as TagColor[]).map((color) => (
+                  <Pressable
+                    key={color}
+                    style={[
+                      styles.tagSwatch,
+                      { backgroundColor: TAG_COLORS[color].text },
+                      tagColorDraft === color ? styles.tagSwatchSelected : undefined,
+                    ]}
+                    onPress={() => setTagColorDraft(color)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`${color} tag`}
+                    accessibilityState={{ selected: tagColorDraft === color }}
+                  />
+                ))}
+              </View>
+            </>
+          ) : null}
+          <View style={styles.webModalActions}>
+            <Pressable style={styles.webModalCancelButton} onPress={closeNotes}>
+              <Text style={styles.webModalCancelText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              style={[
+                styles.webModalConfirmButton,
+                styles.notesSaveButton,
+                notesSaving ? styles.webModalConfirmButtonDisabled : undefined,
+              ]}
+              onPress={saveNotes}
+              disabled={notesSaving}>
+              <Text style={styles.webModalConfirmText}>{notesSaving ? 'Saving…' : 'Save'}</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+
+  const messageTargets: { target: BroadcastTarget; label: string }[] = [
+    { target: { type: 'everyone' }, label: 'Everyone' },
+    ...BROADCAST_NEXT_COUNTS.map((count) => ({
+      target: { type: 'next', count } as BroadcastTarget,
+      label: `Next ${count}`,
+    })),
+  ];
+
+  const messageModal = (
+    <Modal
+      visible={messageTo !== null}
+      transparent
+      animationType="fade"
+      onRequestClose={closeMessage}>
+      <View style={styles.webModalBackdrop}>
+        <View style={styles.webModalCard}>
+          <Text style={styles.webModalTitle}>
+            {messageTo?.name ? `Message ${messageTo.name}` : 'Message the line'}
+          </Text>
+          <Text style={styles.webModalMessage}>
+            Guests see it in the app, or get it as a notification if they have it closed.
+          </Text>
+          {messageTo && messageTo.target.type !== 'party' ? (
+            <View style={styles.tagFilterRow}>
+              {messageTargets.map(({ target, label }) => {
+                const current = messageTo.target;
+                const selected =
+                  current.type === target.type &&
+                  (target.type !== 'next' ||
+                    (current.type === 'next' && current.count === target.count));
+                return (
+                  <Pressable
+                    key={label}
+                    style={[styles.partyTag, selected ? styles.tagFilterSelected : undefined]}
+                    onPress={() => setMessageTo({ target })}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}>
+                    <Text style={styles.partyTagText}>{label}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          ) : null}
+          <TextInput
+            placeholder="e.g. We're running about 15 minutes late"
+            value={messageDraft}
+            onChangeText={setMessageDraft}
+            style={styles.notesInput}
+            multiline
+            maxLength={MAX_BROADCAST_LENGTH}
+          />
+          <View style={styles.webModalActions}>
+            <Pressable style={styles.webModalCancelButton} onPress={closeMessage}>
+              <Text style={styles.webModalCancelText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              style={[
+                styles.webModalConfirmButton,
+                styles.notesSaveButton,
+                messageSending || !messageDraft.trim()
+                  ? styles.webModalConfirmButtonDisabled
+                  : undefined,
+              ]}
+              onPress={sendMessage}
+              disabled={messageSending || !messageDraft.trim()}>
+              <Text style={styles.webModalConfirmText}>{messageSending ? 'Sending…' : 'Send'}</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+
+  const alertsModal = (
+    <Modal visible={alertsVisible} transparent animationType="fade" onRequestClose={closeAlerts}>
+      <View style={styles.webModalBackdrop}>
+        <View style={styles.webModalCard}>
+          <Text style={styles.webModalTitle}>Host alerts</Text>
+          {alertSettings ? (
+            <>
+              <Text style={styles.webModalMessage}>
+                {alertSettings.devices === 0
+                  ? 'Get a notification about this queue even when the app is closed.'
+                  : `Alerts go to ${alertSettings.devices === 1 ? '1 device' : `${alertSettings.devices} devices`} signed in to your account.`}
+              </Text>
+              {HOST_ALERT_OPTIONS.map(({ key, label, hint }) => (
+                <View key={key} style={styles.alertRow}>
+                  <View style={styles.alertLabelContainer}>
+                    <Text style={styles.alertLabel}>{label}</Text>
+                    <Text style={styles.alertHint}>{hint}</Text>
+                  </View>
+                  <Switch
+                    value={alertSettings.alerts[key]}
+                    onValueChange={(value) =>
+                      saveAlerts({ [key]: value }, value && alertSettings.devices === 0)
+                    }
+                    disabled={alertsSaving}
+                    trackColor={{ false: '#d0d7de', true: '#1f6feb' }}
+                    thumbColor={alertSettings.alerts[key] ? '#fff' : '#f4f3f4'}
+                  />
+                </View>
+              ))}
+            </>
+          ) : (
+            <ActivityIndicator />
+          )}
+          <View style={styles.webModalActions}>
+            {alertSettings ? (
+              <Pressable
+                style={styles.webModalCancelButton}
+                onPress={() => saveAlerts({}, true)}
+                disabled={alertsSaving}>
+                <Text style={styles.webModalCancelText}>
+                  {alertSettings.devices === 0 ? 'Turn on for this device' : 'Add this device'}
+                </Text>
+              </Pressable>
+            ) : null}
+            <Pressable style={styles.webModalCancelButton} onPress={closeAlerts}>
+              <Text style={styles.webModalCancelText}>Done</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+
   const connectionErrorModal = (
     <Modal
       visible={connectionErrorModalVisible}
@@ -1419,37 +2613,54 @@ export default function HostQueueScreen({ route, navigation }: Props) {
       );
     }
 
-    return queue.map((party, index) => {
-      const isLast = index === queueCount - 1;
-      return (
-        <View
-          key={party.id}
-          style={[styles.desktopQueueItem, isLast ? styles.desktopQueueItemLast : undefined]}>
-          <View style={styles.desktopQueueItemPosition}>
-            <Text style={styles.desktopQueueItemPositionText}>{index + 1}</Text>
-          </View>
-          <View style={styles.desktopQueueItemInfo}>
-            <Text style={styles.queueItemName}>
-              {party.name?.trim() || 'Anonymous Guest'} {party.size ? `(${party.size})` : ''}
-            </Text>
-            <Text style={styles.queueItemMeta}>
-              {party.status === 'waiting' ? 'Waiting' : 'Called'} ·{' '}
-              {party.nearby ? 'Nearby' : 'Not nearby'}
-            </Text>
-          </View>
-          <Pressable
-            style={styles.queueItemButton}
-            onPress={() => advanceSpecific(party.id)}
-            disabled={!hasHostAuth || actionLoading || closed}>
-            {actionLoading ? (
-              <ActivityIndicator color="#fff" size="small" />
-            ) : (
-              <Text style={styles.queueItemButtonText}>Call</Text>
-            )}
-          </Pressable>
-        </View>
-      );
-    });
+    return (
+      <>
+        {renderTagFilter()}
+        {visibleQueue.map((party, index) => {
+          const isLast = index === visibleQueue.length - 1;
+          return (
+            <ReorderableQueueItem
+              key={party.id}
+              index={index}
+              slots={laneSlots.get(party.id) ?? [index]}
+              disabled={!hasHostAuth || actionLoading || closed || activeTagFilter !== null}
+              onMove={moveParty}
+              style={[styles.desktopQueueItem, isLast ? styles.desktopQueueItemLast : undefined]}
+              contentStyle={styles.desktopReorderContent}>
+              <View style={styles.desktopQueueItemPosition}>
+                <Text style={styles.desktopQueueItemPositionText}>{queue.indexOf(party) + 1}</Text>
+              </View>
+              <View style={styles.desktopQueueItemInfo}>
+                <Text style={styles.queueItemName}>
+                  {party.name?.trim() || 'Anonymous Guest'} {party.size ? `(${party.size})` : ''}
+                </Text>
+                <Text style={styles.queueItemMeta}>
+                  {party.status === 'waiting' ? 'Waiting' : 'Called'} ·{' '}
+                  {party.nearby ? 'Nearby' : 'Not nearby'}
+                </Text>
+                {renderLaneBadge(party)}
+                {renderSlotBadge(party)}
+                {renderSnoozeBadge(party)}
+                {renderPushStatus(party)}
+                {renderAnswers(party)}
+                {renderPartyNotes(party)}
+              </View>
+              <Pressable
+                style={styles.queueItemButton}
+                onPress={() => advanceSpecific(party.id)}
+                disabled={!hasHostAuth || actionLoading || closed}>
+                {actionLoading ? (
+                  <ActivityIndicator color="#fff" size="small" />
+                ) : (
+                  <Text style={styles.queueItemButtonText}>Call</Text>
+                )}
+              </Pressable>
+            </ReorderableQueueItem>
+          );
+        })}
+        {renderLoadMore()}
+      </>
+    );
   };
 
   const renderControlsPanel = () => (
@@ -1509,40 +2720,71 @@ export default function HostQueueScreen({ route, navigation }: Props) {
               <Feather name="share-2" size={18} color="#111" />
               <Text style={styles.posterButtonSecondaryText}>Share</Text>
             </Pressable>
+            {hasHostAuth ? (
+              <Pressable style={styles.posterButtonSecondary} onPress={handleOpenBoard}>
+                <Feather name="monitor" size={18} color="#111" />
+                <Text style={styles.posterButtonSecondaryText}>Board</Text>
+              </Pressable>
+            ) : null}
+            {hasHostAuth && !closed ? (
+              <Pressable
+                style={styles.posterButtonSecondary}
+                onPress={() => openMessage({ type: 'everyone' })}>
+                <Feather name="message-square" size={18} color="#111" />
+                <Text style={styles.posterButtonSecondaryText}>Message</Text>
+              </Pressable>
+            ) : null}
+            {isAuthenticated && !closed ? (
+              <Pressable style={styles.posterButtonSecondary} onPress={openAlerts}>
+                <Feather name="bell" size={18} color="#111" />
+                <Text style={styles.posterButtonSecondaryText}>Alerts</Text>
+              </Pressable>
+            ) : null}
           </View>
         ) : null}
       </View>
 
       <View style={styles.nowServingCard}>
         <Text style={styles.nowServingHeading}>Now Serving</Text>
-        <Text style={styles.nowServingValue}>
-          {nowServing
-            ? `${nowServing.name?.trim() || 'Guest'}${
-                nowServing.size ? ` (${nowServing.size})` : ''
-              }`
-            : 'No party currently called.'}
-        </Text>
-        {nowServing ? (
-          <View style={styles.timerRow}>
-            <Timer targetTimestamp={callDeadline ?? null} label="Time left" compact />
-          </View>
-        ) : null}
+        {isMultiCounter ? (
+          renderCounterRows()
+        ) : (
+          <>
+            <Text style={styles.nowServingValue}>
+              {nowServing
+                ? `${nowServing.name?.trim() || 'Guest'}${
+                    nowServing.size ? ` (${nowServing.size})` : ''
+                  }`
+                : 'No party currently called.'}
+            </Text>
+            {nowServing ? renderPushStatus(nowServing) : null}
+            {nowServing ? (
+              <View style={styles.timerRow}>
+                <Timer targetTimestamp={callDeadline ?? null} label="Time left" compact />
+              </View>
+            ) : null}
+          </>
+        )}
         <View style={styles.queueActionsRow}>
-          <Pressable
-            style={[
-              styles.primaryButton,
-              disabledAdvance ? styles.primaryButtonDisabled : undefined,
-            ]}
-            disabled={disabledAdvance}
-            onPress={advanceCurrent}>
-            {actionLoading ? (
-              <ActivityIndicator color="#fff" />
-            ) : (
-              <Text style={styles.buttonText}>
-                {nowServing ? 'Mark Served & Call Next' : 'Call First Party'}
-              </Text>
-            )}
-          </Pressable>
+          {isMultiCounter ? null : (
+            <Pressable
+              style={[
+                styles.primaryButton,
+                disabledAdvance ? styles.primaryButtonDisabled : undefined,
+              ]}
+              disabled={disabledAdvance}
+              onPress={advanceCurrent}>
+              {actionLoading ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>
+                  {nowServing ? 'Mark Served & Call Next' : 'Call First Party'}
+                </Text>
+              )}
+            </Pressable>
+          )}
+
+          {renderPauseButton()}
 
           <Pressable
             style={styles.destructiveButton}
@@ -1555,6 +2797,9 @@ export default function HostQueueScreen({ route, navigation }: Props) {
             )}
           </Pressable>
         </View>
+        {renderPausedNotice()}
+        {renderAppointments()}
+        {renderStandby()}
       </View>
     </View>
   );
@@ -1573,11 +2818,37 @@ export default function HostQueueScreen({ route, navigation }: Props) {
     </View>
   );
 
+  const undoLabels: Record<UndoOffer['action'], string> = {
+    serve: 'Served',
+    call: 'Called',
+    kick: 'Removed',
+    no_show: 'No-show:',
+  };
+  const undoSnackbar =
+    undoOffer && hasHostAuth && !closed ? (
+      <View style={styles.undoSnackbar}>
+        <Text style={styles.undoSnackbarText} numberOfLines={1}>
+          {undoLabels[undoOffer.action]} {undoOffer.partyName?.trim() || 'guest'}
+        </Text>
+        <Pressable
+          onPress={undoLastAction}
+          disabled={actionLoading}
+          accessibilityRole="button"
+          accessibilityLabel="Undo last action">
+          <Text style={styles.undoSnackbarAction}>Undo</Text>
+        </Pressable>
+      </View>
+    ) : null;
+
   const modals = (
     <>
+      {undoSnackbar}
       {posterNativeHidden}
       {posterModal}
       {connectionErrorModal}
+      {notesModal}
+      {messageModal}
+      {alertsModal}
       {nativeQrModal}
     </>
   );
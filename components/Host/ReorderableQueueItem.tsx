@@ -0,0 +1,109 @@
+import React, { useMemo, useRef } from 'react';
+import {
+  Animated,
+  PanResponder,
+  Pressable,
+  View,
+  type StyleProp,
+  type ViewStyle,
+} from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import styles from './HostQueueScreen.Styles';
+
+type Props = {
+  index: number;
+  // Indexes the row can move to, in order and including its own: the spots its lane holds
+  slots: number[];
+  disabled: boolean;
+  onMove: (fromIndex: number, toIndex: number) => void;
+  style?: StyleProp<ViewStyle>;
+  contentStyle?: StyleProp<ViewStyle>;
+  children: React.ReactNode;
+};
+
+/**
+ * Queue row the host can drag by its handle (or nudge with the arrows) to change its
+ * place in line. Drops snap to the nearest of its `slots` using the row's measured height.
+ */
+export default function ReorderableQueueItem({
+  index,
+  slots,
+  disabled,
+  onMove,
+  style,
+  contentStyle,
+  children,
+}: Props) {
+  const translateY = useRef(new Animated.Value(0)).current;
+  const rowHeight = useRef(0);
+  // The pan responder is created once, so it reads the latest props through a ref
+  const latest = useRef({ index, slots, disabled, onMove });
+  latest.current = { index, slots, disabled, onMove };
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => !latest.current.disabled,
+        onMoveShouldSetPanResponder: () => !latest.current.disabled,
+        onPanResponderMove: Animated.event([null, { dy: translateY }], {
+          useNativeDriver: false,
+        }),
+        onPanResponderRelease: (_event, gesture) => {
+          const { index: fromIndex, slots: targets, onMove: move } = latest.current;
+          const offset = rowHeight.current > 0 ? Math.round(gesture.dy / rowHeight.current) : 0;
+          const dropIndex = fromIndex + offset;
+          const toIndex = targets.reduce(
+            (nearest, slot) =>
+              Math.abs(slot - dropIndex) < Math.abs(nearest - dropIndex) ? slot : nearest,
+            fromIndex
+          );
+          translateY.setValue(0);
+          if (toIndex !== fromIndex) {
+            move(fromIndex, toIndex);
+          }
+        },
+        onPanResponderTerminate: () => {
+          translateY.setValue(0);
+        },
+      }),
+    [translateY]
+  );
+
+  const slot = slots.indexOf(index);
+  const previous = slot > 0 ? slots[slot - 1] : undefined;
+  const next = slot !== -1 && slot < slots.length - 1 ? slots[slot + 1] : undefined;
+
+  return (
+    <Animated.View
+      style={[style, styles.reorderRow, { transform: [{ translateY }] }]}
+      onLayout={(event) => {
+        rowHeight.current = event.nativeEvent.layout.height;
+      }}>
+      <View
+        {...panResponder.panHandlers}
+        style={[styles.dragHandle, disabled ? styles.reorderDisabled : undefined]}
+        accessibilityLabel="Drag to reorder">
+        <Feather name="menu" size={18} color="#8c959f" />
+      </View>
+      <View style={[styles.reorderContent, contentStyle]}>{children}</View>
+      <View style={styles.reorderArrows}>
+        <Pressable
+          onPress={() => previous !== undefined && onMove(index, previous)}
+          disabled={disabled || previous === undefined}
+          style={disabled || previous === undefined ? styles.reorderDisabled : undefined}
+          accessibilityRole="button"
+          accessibilityLabel="Move up">
+          <Feather name="chevron-up" size={20} color="#586069" />
+        </Pressable>
+        <Pressable
+          onPress={() => next !== undefined && onMove(index, next)}
+          disabled={disabled || next === undefined}
+          style={disabled || next === undefined ? styles.reorderDisabled : undefined}
+          accessibilityRole="button"
+          accessibilityLabel="Move down">
+          <Feather name="chevron-down" size={20} color="#586069" />
+        </Pressable>
+      </View>
+    </Animated.View>
+  );
+}
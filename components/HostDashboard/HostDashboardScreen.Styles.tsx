@@ -310,6 +310,68 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#999',
   },
+  reopenButton: {
+    borderWidth: 1,
+    borderColor: '#2563eb',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  reopenButtonText: {
+    fontSize: 12,
+    color: '#2563eb',
+    fontWeight: '600',
+  },
+  transferPanel: {
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#bfdbfe',
+    padding: 16,
+    marginBottom: 16,
+    gap: 10,
+    width: '100%',
+  },
+  transferTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111',
+  },
+  transferRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  transferText: {
+    flexShrink: 1,
+    fontSize: 13,
+    color: '#444',
+  },
+  transferInput: {
+    borderWidth: 1,
+    borderColor: '#d4d4d4',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  transferActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  transferButton: {
+    backgroundColor: '#2563eb',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  transferButtonText: {
+    fontSize: 12,
+    color: '#fff',
+    fontWeight: '600',
+  },
   authBadge: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -6,13 +6,25 @@ import {
   Pressable,
   ActivityIndicator,
   RefreshControl,
+  TextInput,
   useWindowDimensions,
 } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { Plus } from 'lucide-react-native';
 import type { RootStackParamList } from '../../types/navigation';
-import { getMyQueues, buildHostWsUrlFromCode, type MyQueue } from '../../lib/backend';
+import {
+  getMyQueues,
+  buildHostWsUrlFromCode,
+  reopenQueueHost,
+  getIncomingTransfers,
+  requestQueueTransfer,
+  cancelQueueTransfer,
+  acceptQueueTransfer,
+  type IncomingTransfer,
+  type MyQueue,
+} from '../../lib/backend';
+import { trackEvent } from '../../utils/analytics';
 import { useAuth } from '../../contexts/AuthContext';
 import { storage } from '../../utils/storage';
 import styles from './HostDashboardScreen.Styles';
@@ -43,14 +55,21 @@ export default function HostDashboardScreen({ navigation }: Props) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  const [reopeningId, setReopeningId] = useState<string | null>(null);
+  const [transfers, setTransfers] = useState<IncomingTransfer[]>([]);
+  // Queue the owner is handing over, while the email form is open
+  const [transferQueue, setTransferQueue] = useState<MyQueue | null>(null);
+  const [transferEmail, setTransferEmail] = useState('');
+  const [transferBusyId, setTransferBusyId] = useState<string | null>(null);
   const { width } = useWindowDimensions();
   const isDesktop = width >= 900;
 
   const fetchQueues = useCallback(async () => {
     try {
       setError(null);
-      const result = await getMyQueues();
+      const [result, incoming] = await Promise.all([getMyQueues(), getIncomingTransfers()]);
       setQueues(result.queues);
+      setTransfers(incoming);
     } catch (err) {
       if (err instanceof Error) {
         if (
@@ -84,6 +103,86 @@ export default function HostDashboardScreen({ navigation }: Props) {
     void fetchQueues();
   }, [fetchQueues]);
 
+  const handleReopen = useCallback(
+    async (queue: MyQueue) => {
+      setReopeningId(queue.id);
+      try {
+        const result = await reopenQueueHost({ code: queue.shortCode });
+        void trackEvent('host_reopen_queue', {
+          sessionId: queue.id,
+          queueCode: queue.shortCode,
+          props: { screen: 'host_dashboard', restored: result.restored },
+        });
+        await fetchQueues();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to reopen queue');
+      } finally {
+        setReopeningId(null);
+      }
+    },
+    [fetchQueues]
+  );
+
+  const handleSendTransfer = useCallback(async () => {
+    if (!transferQueue || !transferEmail.trim()) {
+      return;
+    }
+    setTransferBusyId(transferQueue.id);
+    try {
+      await requestQueueTransfer({ code: transferQueue.shortCode, email: transferEmail.trim() });
+      void trackEvent('host_transfer_requested', {
+        sessionId: transferQueue.id,
+        queueCode: transferQueue.shortCode,
+        props: { screen: 'host_dashboard' },
+      });
+      setTransferQueue(null);
+      setTransferEmail('');
+      await fetchQueues();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to offer queue');
+    } finally {
+      setTransferBusyId(null);
+    }
+  }, [transferQueue, transferEmail, fetchQueues]);
+
+  // Withdraws the owner's offer, or declines one made to this user
+  const handleCancelTransfer = useCallback(
+    async (sessionId: string, code: string) => {
+      setTransferBusyId(sessionId);
+      try {
+        await cancelQueueTransfer(code);
+        await fetchQueues();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to cancel transfer');
+      } finally {
+        setTransferBusyId(null);
+      }
+    },
+    [fetchQueues]
+  );
+
+  const handleAcceptTransfer = useCallback(
+    async (transfer: IncomingTransfer) => {
+      setTransferBusyId(transfer.sessionId);
+      try {
+        const result = await acceptQueueTransfer(transfer.shortCode);
+        // The previous owner's host token was revoked; keep the re-issued one
+        await storage.setHostAuth(result.sessionId, result.hostAuthToken, result.code);
+        void trackEvent('host_transfer_accepted', {
+          sessionId: result.sessionId,
+          queueCode: result.code,
+          props: { screen: 'host_dashboard' },
+        });
+        await fetchQueues();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to accept transfer');
+      } finally {
+        setTransferBusyId(null);
+      }
+    },
+    [fetchQueues]
+  );
+
   const handleQueuePress = useCallback(
     async (queue: MyQueue) => {
       // Build the WebSocket URL from the queue code
@@ -203,6 +302,74 @@ export default function HostDashboardScreen({ navigation }: Props) {
     );
   }
 
+  // Offers from other owners waiting for this user
+  const renderIncomingTransfers = () =>
+    transfers.length === 0 ? null : (
+      <View style={styles.transferPanel}>
+        <Text style={styles.transferTitle}>Queues offered to you</Text>
+        {transfers.map((transfer) => (
+          <View key={transfer.sessionId} style={styles.transferRow}>
+            <Text style={styles.transferText}>
+              {transfer.eventName || transfer.shortCode}
+              {transfer.fromName || transfer.fromEmail
+                ? ` from ${transfer.fromName || transfer.fromEmail}`
+                : ''}
+            </Text>
+            <View style={styles.transferActions}>
+              <Pressable
+                style={styles.transferButton}
+                onPress={() => void handleAcceptTransfer(transfer)}
+                disabled={transferBusyId === transfer.sessionId}>
+                <Text style={styles.transferButtonText}>Accept</Text>
+              </Pressable>
+              <Pressable
+                style={styles.reopenButton}
+                onPress={() => void handleCancelTransfer(transfer.sessionId, transfer.shortCode)}
+                disabled={transferBusyId === transfer.sessionId}>
+                <Text style={styles.reopenButtonText}>Decline</Text>
+              </Pressable>
+            </View>
+          </View>
+        ))}
+      </View>
+    );
+
+  // Email form for the queue the owner is handing over
+  const renderTransferForm = () =>
+    !transferQueue ? null : (
+      <View style={styles.transferPanel}>
+        <Text style={styles.transferTitle}>
+          Transfer {transferQueue.eventName || transferQueue.shortCode}
+        </Text>
+        <Text style={styles.transferText}>
+          They become the owner once they accept, and your host link stops working.
+        </Text>
+        <TextInput
+          style={styles.transferInput}
+          value={transferEmail}
+          onChangeText={setTransferEmail}
+          placeholder="Their account email"
+          autoCapitalize="none"
+          keyboardType="email-address"
+        />
+        <View style={styles.transferActions}>
+          <Pressable
+            style={styles.transferButton}
+            onPress={() => void handleSendTransfer()}
+            disabled={transferBusyId === transferQueue.id || !transferEmail.trim()}>
+            {transferBusyId === transferQueue.id ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.transferButtonText}>Send offer</Text>
+            )}
+          </Pressable>
+          <Pressable style={styles.reopenButton} onPress={() => setTransferQueue(null)}>
+            <Text style={styles.reopenButtonText}>Cancel</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+
   if (queues.length === 0) {
     return (
       <SafeAreaProvider style={styles.safe}>
@@ -211,6 +378,7 @@ export default function HostDashboardScreen({ navigation }: Props) {
           <Text style={isDesktop ? styles.desktopEmptyText : styles.emptyText}>
             You have not created any queues yet. Create your first queue to start managing guests.
           </Text>
+          {renderIncomingTransfers()}
           <Pressable
             style={isDesktop ? styles.desktopCreateButton : styles.createButton}
             onPress={() => navigation.navigate('MakeQueueScreen', undefined)}>
@@ -289,11 +457,56 @@ export default function HostDashboardScreen({ navigation }: Props) {
 
       <View style={useDesktopStyles ? styles.desktopQueueMeta : styles.queueMeta}>
         <Text style={styles.queueDate}>Created {formatDate(queue.createdAt)}</Text>
+        {queue.role !== 'caller' &&
+          queue.reopenableUntil !== null &&
+          queue.reopenableUntil > Date.now() && (
+            <Pressable
+              style={styles.reopenButton}
+              onPress={() => void handleReopen(queue)}
+              disabled={reopeningId === queue.id}
+              accessibilityRole="button"
+              accessibilityLabel="Reopen queue">
+              {reopeningId === queue.id ? (
+                <ActivityIndicator size="small" color="#2563eb" />
+              ) : (
+                <Text style={styles.reopenButtonText}>Reopen</Text>
+              )}
+            </Pressable>
+          )}
         {queue.requiresAuth && (
           <View style={styles.authBadge}>
             <Text style={styles.authBadgeText}>Login Required</Text>
           </View>
         )}
+        {queue.role === 'owner' &&
+          (queue.pendingTransferTo ? (
+            <Pressable
+              style={styles.reopenButton}
+              onPress={() => void handleCancelTransfer(queue.id, queue.shortCode)}
+              disabled={transferBusyId === queue.id}
+              accessibilityRole="button"
+              accessibilityLabel="Cancel transfer">
+              <Text style={styles.reopenButtonText}>Offered to {queue.pendingTransferTo} ✕</Text>
+            </Pressable>
+          ) : (
+            <Pressable
+              style={styles.reopenButton}
+              onPress={() => {
+                setTransferQueue(queue);
+                setTransferEmail('');
+              }}
+              accessibilityRole="button"
+              accessibilityLabel="Transfer queue">
+              <Text style={styles.reopenButtonText}>Transfer</Text>
+            </Pressable>
+          ))}
+        {queue.role !== 'owner' && (
+          <View style={styles.authBadge}>
+            <Text style={styles.authBadgeText}>
+              {queue.role === 'cohost' ? 'Co-host' : 'Caller'}
+            </Text>
+          </View>
+        )}
       </View>
     </Pressable>
   );
@@ -321,6 +534,9 @@ export default function HostDashboardScreen({ navigation }: Props) {
             </Pressable>
           </View>
 
+          {renderIncomingTransfers()}
+          {renderTransferForm()}
+
           <View style={styles.desktopQueueGrid}>
             {queues.map((queue) => renderQueueCard(queue, true))}
           </View>
@@ -341,6 +557,9 @@ export default function HostDashboardScreen({ navigation }: Props) {
           {queues.length} {queues.length === 1 ? 'queue' : 'queues'}
         </Text>
 
+        {renderIncomingTransfers()}
+        {renderTransferForm()}
+
         {queues.map((queue) => renderQueueCard(queue, false))}
       </ScrollView>
     </SafeAreaProvider>
@@ -196,6 +196,62 @@ export default StyleSheet.create({
     backgroundColor: '#f1f1f1',
     color: '#777',
   },
+  hoursNotice: {
+    marginTop: 12,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#9a6700',
+  },
+  laneChipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  laneChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#d0d7de',
+  },
+  laneChipSelected: {
+    borderColor: '#1f6feb',
+    backgroundColor: '#eef4ff',
+  },
+  laneChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#222',
+  },
+  checkboxRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    gap: 10,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#d0d7de',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxChecked: {
+    borderColor: '#1f6feb',
+    backgroundColor: '#1f6feb',
+  },
+  checkboxMark: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  checkboxLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: '#222',
+  },
   actionsRow: {
     marginTop: 22,
     flexDirection: 'row',
@@ -19,13 +19,19 @@ import type { RootStackParamList } from '../../types/navigation';
 import styles from './JoinQueueScreen.Styles';
 import {
   buildGuestConnectUrl,
+  getQueueInfo,
+  bookAppointment,
   joinQueue,
   leaveQueue,
   getVapidPublicKey,
   savePushSubscription,
   API_BASE_URL,
   type PushSubscriptionParams,
+  type ContactChannel,
+  type JoinAnswers,
+  type JoinField,
   type JoinQueueError,
+  type PartyContacts,
 } from '../../lib/backend';
 import { trackEvent } from '../../utils/analytics';
 import { storage } from '../../utils/storage';
@@ -50,6 +56,14 @@ const DEFAULT_QUEUE_SIZE = 1;
 const POLL_INTERVAL_MS = 10000;
 const ANALYTICS_SCREEN = 'join_queue';
 
+function formatClockTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const hours = date.getHours();
+  const period = hours >= 12 ? 'PM' : 'AM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${date.getMinutes().toString().padStart(2, '0')} ${period}`;
+}
+
 export default function JoinQueueScreen({ navigation, route }: Props) {
   const { showModal } = useModal();
   const { login } = useAuth();
@@ -63,6 +77,17 @@ export default function JoinQueueScreen({ navigation, route }: Props) {
   const [key, setKey] = useState(routeCode);
   const [name, setName] = useState('');
   const [partySize, setPartySize] = useState<number>(DEFAULT_QUEUE_SIZE);
+  const [laneOptions, setLaneOptions] = useState<{ id: string; name: string }[]>([]);
+  const [slotOptions, setSlotOptions] = useState<{ id: string; startsAt: number }[]>([]);
+  const [slotId, setSlotId] = useState<string | null>(null);
+  // Set when the queue is outside its opening hours: when it opens next (null = unknown)
+  const [closedUntil, setClosedUntil] = useState<number | null | undefined>(undefined);
+  const [laneId, setLaneId] = useState<string | null>(null);
+  const [joinFields, setJoinFields] = useState<JoinField[]>([]);
+  const [answers, setAnswers] = useState<Record<string, string | boolean>>({});
+  // Text and email updates, for guests who'd rather not allow push notifications
+  const [contactChannels, setContactChannels] = useState<ContactChannel[]>([]);
+  const [contacts, setContacts] = useState<PartyContacts>({});
   const [loading, setLoading] = useState(false);
   const [resultText, setResultText] = useState<string | null>(null);
   const [connectionState, setConnectionState] = useState<'idle' | 'connecting' | 'open' | 'closed'>(
@@ -102,6 +127,46 @@ export default function JoinQueueScreen({ navigation, route }: Props) {
     setKey((current) => (current === normalized ? current : normalized));
   }, [route.params?.code, inQueue]);
 
+  // Fetch the lanes guests may pick (and the opening hours) once a full key is entered
+  useEffect(() => {
+    const code = key.trim().toUpperCase();
+    if (inQueue || code.length !== 6) {
+      setLaneOptions([]);
+      setLaneId(null);
+      setSlotOptions([]);
+      setSlotId(null);
+      setJoinFields([]);
+      setAnswers({});
+      setContactChannels([]);
+      setContacts({});
+      setClosedUntil(undefined);
+      return;
+    }
+    let cancelled = false;
+    getQueueInfo(code)
+      .then((info) => {
+        if (!cancelled) {
+          setLaneOptions(info.lanes);
+          setSlotOptions(info.slots ?? []);
+          setJoinFields(info.joinFields ?? []);
+          setContactChannels(info.contactChannels ?? []);
+          setClosedUntil(info.schedule && !info.schedule.open ? info.schedule.opensAt : undefined);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setLaneOptions([]);
+          setSlotOptions([]);
+          setJoinFields([]);
+          setContactChannels([]);
+          setClosedUntil(undefined);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [key, inQueue]);
+
   // Track QR code scans when src=qr parameter is present in URL
   useEffect(() => {
     if (Platform.OS !== 'web' || typeof window === 'undefined') {
@@ -144,6 +209,33 @@ export default function JoinQueueScreen({ navigation, route }: Props) {
       return;
     }
 
+    // The server checks answers too; this just saves a round trip for missing ones
+    const answerPayload: JoinAnswers = {};
+    for (const field of joinFields) {
+      const value = answers[field.id];
+      if (typeof value === 'string' ? value.trim() : value) {
+        answerPayload[field.id] = typeof value === 'string' ? value.trim() : true;
+      } else if (field.required) {
+        showModal({
+          title: 'Missing details',
+          message:
+            field.type === 'checkbox'
+              ? `Please check "${field.label}" to join.`
+              : `Please fill in "${field.label}" to join.`,
+        });
+        return;
+      }
+    }
+
+    const contactPayload: PartyContacts = {};
+    for (const channel of contactChannels) {
+      const value = contacts[channel]?.trim();
+      if (value) {
+        contactPayload[channel] = value;
+      }
+    }
+    const hasContacts = Object.keys(contactPayload).length > 0;
+
     // Check if already in this specific queue
     try {
       const joinedQueues = await storage.getJoinedQueues();
@@ -191,11 +283,54 @@ export default function JoinQueueScreen({ navigation, route }: Props) {
     console.log('[QueueUp][join] Turnstile token:', turnstileToken ? 'present' : 'MISSING');
 
     try {
+      if (slotId) {
+        const booking = await bookAppointment({
+          code: trimmed,
+          slotId,
+          name,
+          size: partySize,
+          turnstileToken: turnstileToken ?? undefined,
+          answers: joinFields.length > 0 ? answerPayload : undefined,
+          contacts: hasContacts ? contactPayload : undefined,
+        });
+        setTurnstileToken(null);
+        if (turnstileRef.current?.reset) {
+          turnstileRef.current.reset();
+        }
+        void trackEvent('appointment_booked', {
+          partyId: booking.partyId,
+          queueCode: trimmed,
+          props: { partySize, startsAt: booking.startsAt },
+        });
+        try {
+          await storage.setJoinedQueue({
+            code: trimmed,
+            sessionId: '',
+            partyId: booking.partyId,
+            eventName: booking.eventName,
+            joinedAt: Date.now(),
+          });
+        } catch (storageError) {
+          console.warn('Failed to store joined queue info', storageError);
+        }
+        navigation.replace('GuestQueueScreen', {
+          code: trimmed,
+          partyId: booking.partyId,
+          guestName: name.trim() || undefined,
+          partySize,
+          appointmentAt: booking.startsAt,
+        });
+        return;
+      }
+
       const joinResult = await joinQueue({
         code: trimmed,
         name,
         size: partySize,
         turnstileToken: turnstileToken ?? undefined,
+        laneId: laneId ?? undefined,
+        answers: joinFields.length > 0 ? answerPayload : undefined,
+        contacts: hasContacts ? contactPayload : undefined,
       });
       setTurnstileToken(null);
       if (turnstileRef.current?.reset) {
@@ -243,7 +378,11 @@ export default function JoinQueueScreen({ navigation, route }: Props) {
         partyId: joinResult.partyId,
         sessionId: joinResult.sessionId ?? null,
         initialPosition: joinResult.position,
-        initialAheadCount: Math.max(joinResult.position - 1, 0),
+        initialAheadCount:
+          typeof joinResult.position === 'number'
+            ? Math.max(joinResult.position - 1, 0)
+            : undefined,
+        standbyPosition: joinResult.standby ? joinResult.standbyPosition : undefined,
         initialQueueLength: joinResult.queueLength ?? null,
         initialEtaMs: joinResult.estimatedWaitMs ?? null,
         guestName: guestName || undefined,
@@ -276,6 +415,21 @@ export default function JoinQueueScreen({ navigation, route }: Props) {
             },
           ],
         });
+      } else if (joinError.paused) {
+        showModal({
+          title: 'Queue Paused',
+          message: joinError.resumeAt
+            ? `The host has paused this line. It should be back at ${formatClockTime(joinError.resumeAt)}.`
+            : 'The host has paused this line. Please try again shortly.',
+        });
+      } else if (joinError.outsideHours) {
+        setClosedUntil(joinError.opensAt ?? null);
+        showModal({
+          title: 'Not Open Yet',
+          message: joinError.opensAt
+            ? `This queue isn't taking guests right now. It opens at ${formatClockTime(joinError.opensAt)}.`
+            : "This queue isn't taking guests right now.",
+        });
       } else if (
         message.includes('Turnstile verification') ||
         message.includes('verification required')
@@ -886,6 +1040,74 @@ export default function JoinQueueScreen({ navigation, route }: Props) {
     </Modal>
   ) : null;
 
+  const setAnswer = (fieldId: string, value: string | boolean) => {
+    setAnswers((previous) => ({ ...previous, [fieldId]: value }));
+  };
+
+  const renderJoinField = (field: JoinField) => {
+    const label = field.required ? field.label : `${field.label} (optional)`;
+    const value = answers[field.id];
+    if (field.type === 'checkbox') {
+      const checked = value === true;
+      return (
+        <Pressable
+          key={field.id}
+          style={styles.checkboxRow}
+          onPress={() => setAnswer(field.id, !checked)}
+          accessibilityRole="checkbox"
+          accessibilityState={{ checked }}>
+          <View style={[styles.checkbox, checked ? styles.checkboxChecked : undefined]}>
+            {checked ? <Text style={styles.checkboxMark}>✓</Text> : null}
+          </View>
+          <Text style={styles.checkboxLabel}>{label}</Text>
+        </Pressable>
+      );
+    }
+    if (field.type === 'select') {
+      return (
+        <React.Fragment key={field.id}>
+          <Text style={styles.label}>{label}</Text>
+          <View style={styles.laneChipRow}>
+            {(field.options ?? []).map((option) => (
+              <Pressable
+                key={option}
+                style={[styles.laneChip, value === option ? styles.laneChipSelected : undefined]}
+                onPress={() => setAnswer(field.id, value === option ? '' : option)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: value === option }}>
+                <Text style={styles.laneChipText}>{option}</Text>
+              </Pressable>
+            ))}
+          </View>
+        </React.Fragment>
+      );
+    }
+    return (
+      <React.Fragment key={field.id}>
+        <Text style={styles.label}>{label}</Text>
+        <TextInput
+          placeholder={
+            field.type === 'number' && (field.min !== undefined || field.max !== undefined)
+              ? `${field.min ?? ''}–${field.max ?? ''}`
+              : undefined
+          }
+          value={typeof value === 'string' ? value : ''}
+          onChangeText={(text) => setAnswer(field.id, text)}
+          style={styles.input}
+          keyboardType={
+            field.type === 'phone'
+              ? 'phone-pad'
+              : field.type === 'number'
+                ? 'numbers-and-punctuation'
+                : 'default'
+          }
+          autoComplete={field.type === 'phone' ? 'tel' : 'off'}
+          maxLength={field.type === 'text' ? field.maxLength : undefined}
+        />
+      </React.Fragment>
+    );
+  };
+
   const renderFormFields = () => (
     <>
       <Text style={styles.label}>Enter Key</Text>
@@ -930,6 +1152,82 @@ export default function JoinQueueScreen({ navigation, route }: Props) {
         onValueChange={(value) => setPartySize(Math.round(value))}
       />
 
+      {closedUntil !== undefined && !inQueue ? (
+        <Text style={styles.hoursNotice}>
+          {closedUntil
+            ? `Not taking guests right now. Opens at ${formatClockTime(closedUntil)}.`
+            : 'Not taking guests right now.'}
+        </Text>
+      ) : null}
+
+      {slotOptions.length > 0 && !inQueue ? (
+        <>
+          <Text style={styles.label}>Appointment</Text>
+          <View style={styles.laneChipRow}>
+            {[{ id: null, startsAt: 0 }, ...slotOptions].map((slot) => (
+              <Pressable
+                key={slot.id ?? 'walk-in'}
+                style={[styles.laneChip, slotId === slot.id ? styles.laneChipSelected : undefined]}
+                onPress={() => setSlotId(slot.id)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: slotId === slot.id }}>
+                <Text style={styles.laneChipText}>
+                  {slot.id ? formatClockTime(slot.startsAt) : 'Walk in now'}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </>
+      ) : null}
+
+      {laneOptions.length > 0 && !inQueue && !slotId ? (
+        <>
+          <Text style={styles.label}>Lane</Text>
+          <View style={styles.laneChipRow}>
+            {[{ id: null, name: 'Standard' }, ...laneOptions].map((lane) => (
+              <Pressable
+                key={lane.id ?? 'standard'}
+                style={[styles.laneChip, laneId === lane.id ? styles.laneChipSelected : undefined]}
+                onPress={() => setLaneId(lane.id)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: laneId === lane.id }}>
+                <Text style={styles.laneChipText}>{lane.name}</Text>
+              </Pressable>
+            ))}
+          </View>
+        </>
+      ) : null}
+
+      {!inQueue ? joinFields.map(renderJoinField) : null}
+
+      {!inQueue && contactChannels.includes('sms') ? (
+        <>
+          <Text style={styles.label}>Text me when it&apos;s my turn (optional)</Text>
+          <TextInput
+            placeholder="+1 555 123 4567"
+            value={contacts.sms ?? ''}
+            onChangeText={(text) => setContacts((previous) => ({ ...previous, sms: text }))}
+            style={styles.input}
+            keyboardType="phone-pad"
+            autoComplete="tel"
+          />
+        </>
+      ) : null}
+      {!inQueue && contactChannels.includes('email') ? (
+        <>
+          <Text style={styles.label}>Email me when it&apos;s my turn (optional)</Text>
+          <TextInput
+            placeholder="you@example.com"
+            value={contacts.email ?? ''}
+            onChangeText={(text) => setContacts((previous) => ({ ...previous, email: text }))}
+            style={styles.input}
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoComplete="email"
+          />
+        </>
+      ) : null}
+
       {/* Turnstile Widget - Web requires env var, Native uses server config */}
       {!inQueue && (isWeb ? process.env.EXPO_PUBLIC_TURNSTILE_SITE_KEY : true) ? (
         <View style={{ marginVertical: 16, alignItems: 'center' }}>
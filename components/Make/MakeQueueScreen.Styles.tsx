@@ -409,6 +409,72 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 2,
   },
+  joinFieldCard: {
+    borderWidth: 1,
+    borderColor: '#e4e4e7',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 10,
+    gap: 10,
+  },
+  joinFieldHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  joinFieldLabelInput: {
+    flex: 1,
+  },
+  joinFieldRemove: {
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  joinFieldRemoveText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  joinFieldTypeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  joinFieldTypeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#d0d7de',
+  },
+  joinFieldTypeChipSelected: {
+    borderColor: '#1f6feb',
+    backgroundColor: '#eef4ff',
+  },
+  joinFieldTypeChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#222',
+  },
+  joinFieldRangeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  joinFieldRangeInput: {
+    flex: 1,
+  },
+  joinFieldAdd: {
+    marginTop: 10,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#1f6feb',
+    alignItems: 'center',
+  },
+  joinFieldAddText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f6feb',
+  },
 });
 
 export default styles;
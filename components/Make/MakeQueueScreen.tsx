@@ -25,7 +25,12 @@ import TurnstileNative from '../TurnstileNative';
 import * as Location from 'expo-location';
 import type { RootStackParamList } from '../../types/navigation';
 import styles from './MakeQueueScreen.Styles';
-import { createQueue } from '../../lib/backend';
+import {
+  createQueue,
+  type JoinFieldInput,
+  type JoinFieldType,
+  type NudgeRuleInput,
+} from '../../lib/backend';
 import { trackEvent } from '../../utils/analytics';
 import { useAuth } from '../../contexts/AuthContext';
 import { useAd } from '../../contexts/AdContext';
@@ -33,11 +38,45 @@ import { useAd } from '../../contexts/AdContext';
 type Props = NativeStackScreenProps<RootStackParamList, 'MakeQueueScreen'>;
 
 const MIN_QUEUE_SIZE = 1;
-const MAX_QUEUE_SIZE = 100;
+const MAX_QUEUE_SIZE = 5000;
 const DEFAULT_QUEUE_SIZE = 20;
+// The size slider moves one guest at a time up to here, then in LARGE_QUEUE_STEP jumps
+const LINEAR_QUEUE_SIZE = 100;
+const LARGE_QUEUE_STEP = 50;
+const MAX_SIZE_SLIDER_VALUE =
+  LINEAR_QUEUE_SIZE + (MAX_QUEUE_SIZE - LINEAR_QUEUE_SIZE) / LARGE_QUEUE_STEP;
+
+function sliderValueToQueueSize(value: number): number {
+  const rounded = Math.round(value);
+  return rounded <= LINEAR_QUEUE_SIZE
+    ? rounded
+    : LINEAR_QUEUE_SIZE + (rounded - LINEAR_QUEUE_SIZE) * LARGE_QUEUE_STEP;
+}
+
+function queueSizeToSliderValue(size: number): number {
+  return size <= LINEAR_QUEUE_SIZE
+    ? size
+    : LINEAR_QUEUE_SIZE + Math.round((size - LINEAR_QUEUE_SIZE) / LARGE_QUEUE_STEP);
+}
 const MAPBOX_GEOCODING_URL = 'https://api.mapbox.com/geocoding/v5/mapbox.places';
 const MAPBOX_SEARCH_DEBOUNCE_MS = 400;
 const MIN_LOCATION_QUERY_LENGTH = 3;
+const MAX_SERVICE_COUNTERS = 10;
+const MAX_PRIORITY_LANES = 5;
+const MAX_APPOINTMENT_SLOTS = 48;
+const DEFAULT_CALL_WINDOW_MINUTES = 2;
+const MAX_CALL_WINDOW_MINUTES = 15;
+const MAX_CALL_RECALLS = 3;
+const MAX_REQUEUE_PLACES = 50;
+const MAX_JOIN_FIELDS = 8;
+const MAX_NUDGE_RULES = 5;
+const JOIN_FIELD_TYPE_LABELS: Record<JoinFieldType, string> = {
+  text: 'Text',
+  phone: 'Phone',
+  number: 'Number',
+  select: 'Dropdown',
+  checkbox: 'Checkbox',
+};
 // Metro/Expo inlines environment variables at build time, so we don't need runtime guards here.
 const MAPBOX_TOKEN = process.env.EXPO_PUBLIC_MAPBOX_ACCESS_TOKEN ?? '';
 const ANALYTICS_SCREEN = 'make_queue';
@@ -49,6 +88,22 @@ type LocationSuggestion = {
   secondaryText?: string;
   fullText: string;
 };
+type JoinFieldDraft = {
+  key: string;
+  label: string;
+  type: JoinFieldType;
+  required: boolean;
+  optionsInput: string;
+  minInput: string;
+  maxInput: string;
+};
+type NudgeRuleDraft = {
+  key: string;
+  positionInput: string;
+  minutesInput: string;
+  title: string;
+  body: string;
+};
 
 function createTime(hours: number, minutes = 0): Date {
   const base = new Date();
@@ -77,6 +132,103 @@ function formatTimeInputValue(date: Date): string {
   return `${hours}:${minutes}`;
 }
 
+function parseCounterNames(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+// "VIP:3, Accessibility" -> lanes in priority order, with an optional weight after a colon
+function parseLaneEntries(value: string): { name: string; weight?: number }[] {
+  return parseCounterNames(value).map((entry) => {
+    const match = /^(.*?)\s*:\s*(\d+)$/.exec(entry);
+    return match && match[1] ? { name: match[1], weight: Number(match[2]) } : { name: entry };
+  });
+}
+
+// "10:00, 14:30" -> the next time each of those comes around, in ms
+function parseSlotTimes(value: string): { slots: number[]; invalid: string[] } {
+  const slots: number[] = [];
+  const invalid: string[] = [];
+  for (const entry of parseCounterNames(value)) {
+    const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(entry);
+    if (!match) {
+      invalid.push(entry);
+      continue;
+    }
+    const start = createTime(Number(match[1]), Number(match[2]));
+    if (start.getTime() <= Date.now()) {
+      start.setDate(start.getDate() + 1);
+    }
+    slots.push(start.getTime());
+  }
+  return { slots, invalid };
+}
+
+// Turn the editor rows into field definitions, or say what the host still needs to fix
+function buildJoinFields(
+  drafts: JoinFieldDraft[]
+): { fields: JoinFieldInput[] } | { error: string } {
+  const fields: JoinFieldInput[] = [];
+  for (const draft of drafts) {
+    const label = draft.label.trim();
+    if (!label) {
+      return { error: 'Give every join form field a label.' };
+    }
+    const field: JoinFieldInput = { label, type: draft.type, required: draft.required };
+    if (draft.type === 'select') {
+      const options = [...new Set(parseCounterNames(draft.optionsInput))];
+      if (options.length < 2) {
+        return { error: `List at least two options for "${label}", separated by commas.` };
+      }
+      field.options = options;
+    }
+    if (draft.type === 'number') {
+      const min = draft.minInput.trim() ? Number(draft.minInput.trim()) : undefined;
+      const max = draft.maxInput.trim() ? Number(draft.maxInput.trim()) : undefined;
+      if (
+        (min !== undefined && !Number.isFinite(min)) ||
+        (max !== undefined && !Number.isFinite(max)) ||
+        (min !== undefined && max !== undefined && min > max)
+      ) {
+        return { error: `Check the allowed range for "${label}".` };
+      }
+      field.min = min;
+      field.max = max;
+    }
+    fields.push(field);
+  }
+  return { fields };
+}
+
+// Turn the reminder rows into nudge rules; the server checks the templates themselves
+function buildNudgeRules(
+  drafts: NudgeRuleDraft[]
+): { rules: NudgeRuleInput[] } | { error: string } {
+  const rules: NudgeRuleInput[] = [];
+  for (const draft of drafts) {
+    const position = draft.positionInput.trim() ? Number(draft.positionInput.trim()) : undefined;
+    const etaMinutes = draft.minutesInput.trim() ? Number(draft.minutesInput.trim()) : undefined;
+    if (position === undefined && etaMinutes === undefined) {
+      return { error: 'Give every reminder a place in line, a number of minutes or both.' };
+    }
+    if (
+      (position !== undefined && (!Number.isInteger(position) || position < 1)) ||
+      (etaMinutes !== undefined && (!Number.isInteger(etaMinutes) || etaMinutes < 1))
+    ) {
+      return { error: 'Reminder places and minutes must be whole numbers.' };
+    }
+    const title = draft.title.trim();
+    const body = draft.body.trim();
+    if (!title || !body) {
+      return { error: 'Give every reminder a title and a message.' };
+    }
+    rules.push({ position, etaMinutes, title, body });
+  }
+  return { rules };
+}
+
 function serializeTime(date: Date): string {
   const hours = date.getHours().toString().padStart(2, '0');
   const minutes = date.getMinutes().toString().padStart(2, '0');
@@ -104,6 +256,18 @@ export default function MakeQueueScreen({ navigation }: Props) {
   const [openTime, setOpenTime] = useState(() => createTime(9));
   const [closeTime, setCloseTime] = useState(() => createTime(17));
   const [contact, setContact] = useState('');
+  const [countersInput, setCountersInput] = useState('');
+  const [lanesInput, setLanesInput] = useState('');
+  const [slotsInput, setSlotsInput] = useState('');
+  const [callWindowInput, setCallWindowInput] = useState(String(DEFAULT_CALL_WINDOW_MINUTES));
+  const [recallsInput, setRecallsInput] = useState('0');
+  const [requeueNoShows, setRequeueNoShows] = useState(false);
+  const [requeuePlacesInput, setRequeuePlacesInput] = useState('3');
+  const [weightedLanes, setWeightedLanes] = useState(false);
+  const [guestSelectableLanes, setGuestSelectableLanes] = useState(false);
+  const [joinFieldDrafts, setJoinFieldDrafts] = useState<JoinFieldDraft[]>([]);
+  const [customNudges, setCustomNudges] = useState(false);
+  const [nudgeDrafts, setNudgeDrafts] = useState<NudgeRuleDraft[]>([]);
   const [requiresAuth, setRequiresAuth] = useState(false);
   const [loading, setLoading] = useState(false);
   const [turnstileToken, setTurnstileToken] = useState<string | null>(null);
@@ -451,6 +615,80 @@ export default function MakeQueueScreen({ navigation }: Props) {
     };
     const openTimeValue = serializeTime(openTime);
     const closeTimeValue = serializeTime(closeTime);
+    const counterNames = parseCounterNames(countersInput);
+    if (counterNames.length > MAX_SERVICE_COUNTERS) {
+      alert({
+        title: 'Too many counters',
+        message: `You can set up at most ${MAX_SERVICE_COUNTERS} service counters.`,
+      });
+      return;
+    }
+    const laneEntries = parseLaneEntries(lanesInput);
+    if (laneEntries.length > MAX_PRIORITY_LANES) {
+      alert({
+        title: 'Too many lanes',
+        message: `You can set up at most ${MAX_PRIORITY_LANES} priority lanes.`,
+      });
+      return;
+    }
+    const { slots, invalid: invalidSlots } = parseSlotTimes(slotsInput);
+    if (invalidSlots.length > 0) {
+      alert({
+        title: 'Check appointment slots',
+        message: `Use 24-hour times like 09:30. Couldn't read: ${invalidSlots.join(', ')}`,
+      });
+      return;
+    }
+    if (slots.length > MAX_APPOINTMENT_SLOTS) {
+      alert({
+        title: 'Too many slots',
+        message: `You can publish at most ${MAX_APPOINTMENT_SLOTS} appointment slots.`,
+      });
+      return;
+    }
+    const callWindowMinutes = Number(callWindowInput.trim());
+    const recalls = Number(recallsInput.trim() || '0');
+    const requeuePlaces = Number(requeuePlacesInput.trim());
+    if (
+      !Number.isFinite(callWindowMinutes) ||
+      callWindowMinutes < 0.5 ||
+      callWindowMinutes > MAX_CALL_WINDOW_MINUTES
+    ) {
+      alert({
+        title: 'Check call window',
+        message: `Give guests between 0.5 and ${MAX_CALL_WINDOW_MINUTES} minutes to show up.`,
+      });
+      return;
+    }
+    if (!Number.isInteger(recalls) || recalls < 0 || recalls > MAX_CALL_RECALLS) {
+      alert({
+        title: 'Check re-calls',
+        message: `Guests can be called again up to ${MAX_CALL_RECALLS} times.`,
+      });
+      return;
+    }
+    if (
+      requeueNoShows &&
+      (!Number.isInteger(requeuePlaces) || requeuePlaces < 1 || requeuePlaces > MAX_REQUEUE_PLACES)
+    ) {
+      alert({
+        title: 'Check places back',
+        message: `Move no-shows back between 1 and ${MAX_REQUEUE_PLACES} places.`,
+      });
+      return;
+    }
+    const joinFieldResult = buildJoinFields(joinFieldDrafts);
+    if ('error' in joinFieldResult) {
+      alert({ title: 'Check join form', message: joinFieldResult.error });
+      return;
+    }
+    const nudgeResult = customNudges ? buildNudgeRules(nudgeDrafts) : { rules: undefined };
+    if ('error' in nudgeResult) {
+      alert({ title: 'Check reminders', message: nudgeResult.error });
+      return;
+    }
+    const customCallPolicy =
+      callWindowMinutes !== DEFAULT_CALL_WINDOW_MINUTES || recalls > 0 || requeueNoShows;
     void trackEvent('queue_create_started', {
       props: analyticsProps,
     });
@@ -468,6 +706,23 @@ export default function MakeQueueScreen({ navigation }: Props) {
         closeTime: closeTimeValue,
         turnstileToken: turnstileToken ?? undefined,
         requiresAuth: user ? requiresAuth : undefined,
+        counters: counterNames.length > 1 ? counterNames : undefined,
+        lanes:
+          laneEntries.length > 0
+            ? laneEntries.map((lane) => ({ ...lane, guestSelectable: guestSelectableLanes }))
+            : undefined,
+        lanePolicy: weightedLanes ? 'weighted' : 'strict',
+        slots: slots.length > 0 ? slots : undefined,
+        callPolicy: customCallPolicy
+          ? {
+              timeoutSeconds: Math.round(callWindowMinutes * 60),
+              maxRecalls: recalls,
+              noShowAction: requeueNoShows ? 'requeue' : 'drop',
+              requeuePlaces: requeueNoShows ? requeuePlaces : 0,
+            }
+          : undefined,
+        joinFields: joinFieldResult.fields.length > 0 ? joinFieldResult.fields : undefined,
+        nudgeRules: nudgeResult.rules,
       });
       if (created.hostAuthToken) {
         try {
@@ -555,6 +810,234 @@ export default function MakeQueueScreen({ navigation }: Props) {
     }
   };
 
+  const updateJoinFieldDraft = (key: string, changes: Partial<JoinFieldDraft>) => {
+    setJoinFieldDrafts((previous) =>
+      previous.map((draft) => (draft.key === key ? { ...draft, ...changes } : draft))
+    );
+  };
+
+  const addJoinFieldDraft = () => {
+    setJoinFieldDrafts((previous) =>
+      previous.length >= MAX_JOIN_FIELDS
+        ? previous
+        : [
+            ...previous,
+            {
+              key: `${Date.now()}-${previous.length}`,
+              label: '',
+              type: 'text',
+              required: false,
+              optionsInput: '',
+              minInput: '',
+              maxInput: '',
+            },
+          ]
+    );
+  };
+
+  const removeJoinFieldDraft = (key: string) => {
+    setJoinFieldDrafts((previous) => previous.filter((draft) => draft.key !== key));
+  };
+
+  const renderJoinFieldEditor = () => (
+    <>
+      <Text style={styles.label}>Join Form Questions</Text>
+      <Text style={styles.locationHelperText}>
+        Ask guests for more than a name, like a phone number, ticket number or reason for visit.
+        Answers show up in your guest list.
+      </Text>
+      {joinFieldDrafts.map((draft) => (
+        <View key={draft.key} style={styles.joinFieldCard}>
+          <View style={styles.joinFieldHeader}>
+            <TextInput
+              placeholder="Question, e.g. Phone number"
+              value={draft.label}
+              onChangeText={(label) => updateJoinFieldDraft(draft.key, { label })}
+              style={[styles.input, styles.joinFieldLabelInput]}
+              maxLength={60}
+            />
+            <Pressable
+              style={styles.joinFieldRemove}
+              onPress={() => removeJoinFieldDraft(draft.key)}
+              accessibilityRole="button"
+              accessibilityLabel={`Remove ${draft.label.trim() || 'question'}`}>
+              <Text style={styles.joinFieldRemoveText}>✕</Text>
+            </Pressable>
+          </View>
+          <View style={styles.joinFieldTypeRow}>
+            {(Object.keys(JOIN_FIELD_TYPE_LABELS) as JoinFieldType[]).map((type) => {
+              const selected = draft.type === type;
+              return (
+                <Pressable
+                  key={type}
+                  style={[styles.joinFieldTypeChip, selected && styles.joinFieldTypeChipSelected]}
+                  onPress={() => updateJoinFieldDraft(draft.key, { type })}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected }}>
+                  <Text style={styles.joinFieldTypeChipText}>{JOIN_FIELD_TYPE_LABELS[type]}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          {draft.type === 'select' ? (
+            <TextInput
+              placeholder="Options, e.g. Returns, Pickup, Other"
+              value={draft.optionsInput}
+              onChangeText={(optionsInput) => updateJoinFieldDraft(draft.key, { optionsInput })}
+              style={styles.input}
+            />
+          ) : null}
+          {draft.type === 'number' ? (
+            <View style={styles.joinFieldRangeRow}>
+              <TextInput
+                placeholder="Min (optional)"
+                value={draft.minInput}
+                onChangeText={(minInput) => updateJoinFieldDraft(draft.key, { minInput })}
+                style={[styles.input, styles.joinFieldRangeInput]}
+                keyboardType="numbers-and-punctuation"
+              />
+              <TextInput
+                placeholder="Max (optional)"
+                value={draft.maxInput}
+                onChangeText={(maxInput) => updateJoinFieldDraft(draft.key, { maxInput })}
+                style={[styles.input, styles.joinFieldRangeInput]}
+                keyboardType="numbers-and-punctuation"
+              />
+            </View>
+          ) : null}
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabelContainer}>
+              <Text style={styles.switchDescription}>
+                {draft.type === 'checkbox'
+                  ? 'Guests must tick this to join'
+                  : 'Guests must answer this to join'}
+              </Text>
+            </View>
+            <Switch
+              value={draft.required}
+              onValueChange={(required) => updateJoinFieldDraft(draft.key, { required })}
+              trackColor={{ false: '#d0d7de', true: '#1f6feb' }}
+              thumbColor={draft.required ? '#fff' : '#f4f3f4'}
+            />
+          </View>
+        </View>
+      ))}
+      {joinFieldDrafts.length < MAX_JOIN_FIELDS ? (
+        <Pressable
+          style={styles.joinFieldAdd}
+          onPress={addJoinFieldDraft}
+          accessibilityRole="button">
+          <Text style={styles.joinFieldAddText}>+ Add Question</Text>
+        </Pressable>
+      ) : null}
+    </>
+  );
+
+  const updateNudgeDraft = (key: string, changes: Partial<NudgeRuleDraft>) => {
+    setNudgeDrafts((previous) =>
+      previous.map((draft) => (draft.key === key ? { ...draft, ...changes } : draft))
+    );
+  };
+
+  const addNudgeDraft = () => {
+    setNudgeDrafts((previous) =>
+      previous.length >= MAX_NUDGE_RULES
+        ? previous
+        : [
+            ...previous,
+            {
+              key: `${Date.now()}-${previous.length}`,
+              positionInput: '',
+              minutesInput: '10',
+              title: 'Almost your turn',
+              body: 'About {minutes} min to go at {eventName}. Start heading back.',
+            },
+          ]
+    );
+  };
+
+  const removeNudgeDraft = (key: string) => {
+    setNudgeDrafts((previous) => previous.filter((draft) => draft.key !== key));
+  };
+
+  const renderNudgeEditor = () => (
+    <>
+      <View style={styles.switchRow}>
+        <View style={styles.switchLabelContainer}>
+          <Text style={styles.label}>Custom Reminders</Text>
+          <Text style={styles.switchDescription}>
+            By default guests are reminded at 5th and 2nd in line. Set your own by place in line or
+            minutes left, or remove them all to send none.
+          </Text>
+        </View>
+        <Switch
+          value={customNudges}
+          onValueChange={setCustomNudges}
+          trackColor={{ false: '#d0d7de', true: '#1f6feb' }}
+          thumbColor={customNudges ? '#fff' : '#f4f3f4'}
+        />
+      </View>
+      {customNudges ? (
+        <>
+          <Text style={styles.locationHelperText}>
+            Messages can use {'{position}'}, {'{ahead}'}, {'{minutes}'} and {'{eventName}'}.
+          </Text>
+          {nudgeDrafts.map((draft) => (
+            <View key={draft.key} style={styles.joinFieldCard}>
+              <View style={styles.joinFieldHeader}>
+                <View style={[styles.joinFieldRangeRow, styles.joinFieldLabelInput]}>
+                  <TextInput
+                    placeholder="At place #"
+                    value={draft.positionInput}
+                    onChangeText={(positionInput) => updateNudgeDraft(draft.key, { positionInput })}
+                    style={[styles.input, styles.joinFieldRangeInput]}
+                    keyboardType="number-pad"
+                  />
+                  <TextInput
+                    placeholder="Or minutes left"
+                    value={draft.minutesInput}
+                    onChangeText={(minutesInput) => updateNudgeDraft(draft.key, { minutesInput })}
+                    style={[styles.input, styles.joinFieldRangeInput]}
+                    keyboardType="number-pad"
+                  />
+                </View>
+                <Pressable
+                  style={styles.joinFieldRemove}
+                  onPress={() => removeNudgeDraft(draft.key)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Remove ${draft.title.trim() || 'reminder'}`}>
+                  <Text style={styles.joinFieldRemoveText}>✕</Text>
+                </Pressable>
+              </View>
+              <TextInput
+                placeholder="Title"
+                value={draft.title}
+                onChangeText={(title) => updateNudgeDraft(draft.key, { title })}
+                style={styles.input}
+                maxLength={60}
+              />
+              <TextInput
+                placeholder="Message"
+                value={draft.body}
+                onChangeText={(body) => updateNudgeDraft(draft.key, { body })}
+                style={styles.input}
+                maxLength={160}
+              />
+            </View>
+          ))}
+          {nudgeDrafts.length < MAX_NUDGE_RULES ? (
+            <Pressable
+              style={styles.joinFieldAdd}
+              onPress={addNudgeDraft}
+              accessibilityRole="button">
+              <Text style={styles.joinFieldAddText}>+ Add Reminder</Text>
+            </Pressable>
+          ) : null}
+        </>
+      ) : null}
+    </>
+  );
+
   const renderFormFields = () => (
     <>
       {/* Event Name */}
@@ -660,13 +1143,13 @@ export default function MakeQueueScreen({ navigation }: Props) {
       <Slider
         style={styles.slider}
         minimumValue={MIN_QUEUE_SIZE}
-        maximumValue={MAX_QUEUE_SIZE}
+        maximumValue={MAX_SIZE_SLIDER_VALUE}
         step={1}
-        value={maxSize}
+        value={queueSizeToSliderValue(maxSize)}
         minimumTrackTintColor="#1f6feb"
         maximumTrackTintColor="#d0d7de"
         thumbTintColor="#1f6feb"
-        onValueChange={(value) => setMaxSize(Math.round(value))}
+        onValueChange={(value) => setMaxSize(sliderValueToQueueSize(value))}
       />
 
       {/* Open Hours */}
@@ -729,6 +1212,133 @@ export default function MakeQueueScreen({ navigation }: Props) {
         textAlignVertical="top"
       />
 
+      {/* Service Counters */}
+      <Text style={styles.label}>Service Counters</Text>
+      <TextInput
+        placeholder="Window 1, Window 2"
+        value={countersInput}
+        onChangeText={setCountersInput}
+        style={styles.input}
+        autoCapitalize="words"
+      />
+      <Text style={styles.locationHelperText}>
+        Serving from more than one spot? List them separated by commas to call guests in parallel.
+      </Text>
+
+      {/* Priority Lanes */}
+      <Text style={styles.label}>Priority Lanes</Text>
+      <TextInput
+        placeholder="VIP, Accessibility"
+        value={lanesInput}
+        onChangeText={setLanesInput}
+        style={styles.input}
+        autoCapitalize="words"
+      />
+      <Text style={styles.locationHelperText}>
+        Highest priority first. Everyone else waits in the Standard lane. Add a weight like
+        &quot;VIP:3&quot; for weighted order.
+      </Text>
+      {lanesInput.trim().length > 0 ? (
+        <>
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabelContainer}>
+              <Text style={styles.label}>Weighted Lane Order</Text>
+              <Text style={styles.switchDescription}>
+                Take turns between lanes by weight instead of always serving higher lanes first
+              </Text>
+            </View>
+            <Switch
+              value={weightedLanes}
+              onValueChange={setWeightedLanes}
+              trackColor={{ false: '#d0d7de', true: '#1f6feb' }}
+              thumbColor={weightedLanes ? '#fff' : '#f4f3f4'}
+            />
+          </View>
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabelContainer}>
+              <Text style={styles.label}>Guests Pick Their Lane</Text>
+              <Text style={styles.switchDescription}>
+                Let guests choose a priority lane when joining instead of only you assigning it
+              </Text>
+            </View>
+            <Switch
+              value={guestSelectableLanes}
+              onValueChange={setGuestSelectableLanes}
+              trackColor={{ false: '#d0d7de', true: '#1f6feb' }}
+              thumbColor={guestSelectableLanes ? '#fff' : '#f4f3f4'}
+            />
+          </View>
+        </>
+      ) : null}
+
+      {/* Appointment Slots */}
+      <Text style={styles.label}>Appointment Slots</Text>
+      <TextInput
+        placeholder="10:00, 10:30, 11:00"
+        value={slotsInput}
+        onChangeText={setSlotsInput}
+        style={styles.input}
+        autoCapitalize="none"
+      />
+      <Text style={styles.locationHelperText}>
+        Times guests can book ahead. Booked guests join the front of the line when their slot
+        starts; walk-ins keep using the queue as usual.
+      </Text>
+
+      {/* Call Window & No-Shows */}
+      <Text style={styles.label}>Call Window (minutes)</Text>
+      <TextInput
+        placeholder={String(DEFAULT_CALL_WINDOW_MINUTES)}
+        value={callWindowInput}
+        onChangeText={setCallWindowInput}
+        style={styles.input}
+        keyboardType="decimal-pad"
+      />
+      <Text style={styles.label}>Re-calls Before No-Show</Text>
+      <TextInput
+        placeholder="0"
+        value={recallsInput}
+        onChangeText={setRecallsInput}
+        style={styles.input}
+        keyboardType="number-pad"
+      />
+      <Text style={styles.locationHelperText}>
+        How long a called guest has to show up, and how many more times they&apos;re called (with
+        another notification) before counting as a no-show.
+      </Text>
+      <View style={styles.switchRow}>
+        <View style={styles.switchLabelContainer}>
+          <Text style={styles.label}>Move No-Shows Back</Text>
+          <Text style={styles.switchDescription}>
+            Put guests who miss their call back in line once instead of removing them
+          </Text>
+        </View>
+        <Switch
+          value={requeueNoShows}
+          onValueChange={setRequeueNoShows}
+          trackColor={{ false: '#d0d7de', true: '#1f6feb' }}
+          thumbColor={requeueNoShows ? '#fff' : '#f4f3f4'}
+        />
+      </View>
+      {requeueNoShows ? (
+        <>
+          <Text style={styles.label}>Places Back</Text>
+          <TextInput
+            placeholder="3"
+            value={requeuePlacesInput}
+            onChangeText={setRequeuePlacesInput}
+            style={styles.input}
+            keyboardType="number-pad"
+          />
+        </>
+      ) : null}
+
+      {/* Extra join form questions */}
+      {renderJoinFieldEditor()}
+
+      {/* Position and wait-time reminders */}
+      {renderNudgeEditor()}
+
       {/* Require Guest Login (only shown when host is logged in) */}
       {user ? (
         <View style={styles.switchRow}>
@@ -871,6 +1481,42 @@ export default function MakeQueueScreen({ navigation }: Props) {
           </View>
         </View>
 
+        {parseCounterNames(countersInput).length > 1 ? (
+          <>
+            <View style={styles.previewDivider} />
+            <View style={styles.previewSection}>
+              <Text style={styles.previewLabel}>Counters</Text>
+              <Text style={styles.previewValue} numberOfLines={2}>
+                {parseCounterNames(countersInput).join(' · ')}
+              </Text>
+            </View>
+          </>
+        ) : null}
+
+        {parseLaneEntries(lanesInput).length > 0 ? (
+          <>
+            <View style={styles.previewDivider} />
+            <View style={styles.previewSection}>
+              <Text style={styles.previewLabel}>Lanes</Text>
+              <Text style={styles.previewValue} numberOfLines={2}>
+                {[...parseLaneEntries(lanesInput).map((lane) => lane.name), 'Standard'].join(' › ')}
+              </Text>
+            </View>
+          </>
+        ) : null}
+
+        {parseCounterNames(slotsInput).length > 0 ? (
+          <>
+            <View style={styles.previewDivider} />
+            <View style={styles.previewSection}>
+              <Text style={styles.previewLabel}>Appointments</Text>
+              <Text style={styles.previewValue} numberOfLines={2}>
+                {parseCounterNames(slotsInput).join(' · ')}
+              </Text>
+            </View>
+          </>
+        ) : null}
+
         {contact ? (
           <>
             <View style={styles.previewDivider} />
@@ -66,8 +66,91 @@ export interface CreateQueueResult {
   contactInfo?: string | null;
   openTime?: string | null;
   closeTime?: string | null;
+  timezone?: string | null;
   requiresAuth?: boolean;
   ownerId?: string | null;
+  counters?: { id: string; name: string }[] | null;
+  lanes?: PriorityLane[] | null;
+  lanePolicy?: LanePolicy;
+  slots?: { id: string; startsAt: number }[];
+  callPolicy?: CallPolicy | null;
+  joinFields?: JoinField[];
+  nudgeRules?: NudgeRule[];
+}
+
+export type LanePolicy = 'strict' | 'weighted';
+
+/**
+ * Opening hours as the server enforces them. `open` says whether new guests are taken
+ * right now; `opensAt`/`closesAt` are the next boundary in ms.
+ */
+export interface QueueSchedule {
+  openTime: string | null;
+  closeTime: string | null;
+  timezone: string;
+  open: boolean;
+  opensAt: number | null;
+  closesAt: number | null;
+}
+
+/**
+ * How long a called party has to show up, how many times they are called again, and
+ * whether a no-show is dropped or moved `requeuePlaces` parties back in line.
+ */
+export interface CallPolicy {
+  timeoutSeconds: number;
+  maxRecalls: number;
+  noShowAction: 'drop' | 'requeue';
+  requeuePlaces: number;
+}
+
+/**
+ * A reminder pushed to a waiting guest once they reach `position` or are expected to be
+ * called within `etaMinutes`, whichever comes first. Titles and bodies can use {position},
+ * {ahead}, {minutes} and {eventName}.
+ */
+export interface NudgeRule {
+  id: string;
+  position?: number;
+  etaMinutes?: number;
+  title: string;
+  body: string;
+}
+
+export type NudgeRuleInput = Omit<NudgeRule, 'id'>;
+
+export type JoinFieldType = 'text' | 'phone' | 'number' | 'select' | 'checkbox';
+
+/**
+ * An extra question on the join form. Answers are sent keyed by `id`; `options` is set for
+ * select fields, `min`/`max` for numbers and `maxLength` for text.
+ */
+export interface JoinField {
+  id: string;
+  label: string;
+  type: JoinFieldType;
+  required: boolean;
+  options?: string[];
+  maxLength?: number;
+  min?: number;
+  max?: number;
+}
+
+export type JoinFieldInput = Omit<JoinField, 'id' | 'required'> & { required?: boolean };
+
+export type JoinAnswers = Record<string, string | number | boolean>;
+
+export interface PriorityLane {
+  id: string;
+  name: string;
+  weight: number;
+  guestSelectable: boolean;
+}
+
+export interface PriorityLaneInput {
+  name: string;
+  weight?: number;
+  guestSelectable?: boolean;
 }
 
 export interface CreateQueueParams {
@@ -78,7 +161,15 @@ export interface CreateQueueParams {
   contactInfo?: string;
   openTime?: string;
   closeTime?: string;
+  timezone?: string; // IANA name the opening hours are read in; defaults to the device timezone
   requiresAuth?: boolean;
+  counters?: string[];
+  lanes?: PriorityLaneInput[]; // Highest priority first; the standard lane is implicit
+  lanePolicy?: LanePolicy;
+  slots?: number[]; // Appointment start times in ms
+  callPolicy?: Partial<CallPolicy>; // Omitted fields keep the server defaults
+  joinFields?: JoinFieldInput[]; // Extra questions guests answer when joining
+  nudgeRules?: NudgeRuleInput[]; // Omit for the default reminders; [] turns them off
 }
 
 export const HOST_COOKIE_NAME = 'queue_host_auth';
@@ -112,7 +203,8 @@ function extractHostToken(setCookieHeader: string | null): string | undefined {
 }
 
 const MIN_QUEUE_CAPACITY = 1;
-const MAX_QUEUE_CAPACITY = 100;
+const MAX_QUEUE_CAPACITY = 5000;
+const DEFAULT_QUEUE_CAPACITY = 100;
 
 export async function createQueue({
   eventName,
@@ -122,14 +214,28 @@ export async function createQueue({
   contactInfo,
   openTime,
   closeTime,
+  timezone,
   requiresAuth,
+  counters,
+  lanes,
+  lanePolicy,
+  slots,
+  callPolicy,
+  joinFields,
+  nudgeRules,
 }: CreateQueueParams): Promise<CreateQueueResult> {
   const trimmedEventName = eventName.trim();
   const normalizedMaxGuests = Number.isFinite(maxGuests)
     ? Math.min(MAX_QUEUE_CAPACITY, Math.max(MIN_QUEUE_CAPACITY, Math.round(maxGuests)))
-    : MAX_QUEUE_CAPACITY;
+    : DEFAULT_QUEUE_CAPACITY;
   const normalizedLocation = location?.trim();
   const normalizedContactInfo = contactInfo?.trim();
+  const normalizedCounters = (counters ?? []).map((name) => name.trim()).filter(Boolean);
+  const normalizedLanes = (lanes ?? [])
+    .map((lane) => ({ ...lane, name: lane.name.trim() }))
+    .filter((lane) => lane.name.length > 0);
+  const scheduleTimezone =
+    openTime || closeTime ? (timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone) : null;
   const body = {
     eventName: trimmedEventName,
     maxGuests: normalizedMaxGuests,
@@ -137,8 +243,15 @@ export async function createQueue({
     ...(normalizedContactInfo ? { contactInfo: normalizedContactInfo } : {}),
     ...(openTime ? { openTime } : {}),
     ...(closeTime ? { closeTime } : {}),
+    ...(scheduleTimezone ? { timezone: scheduleTimezone } : {}),
     ...(turnstileToken && { turnstileToken }),
     ...(requiresAuth !== undefined && { requiresAuth }),
+    ...(normalizedCounters.length > 0 ? { counters: normalizedCounters } : {}),
+    ...(normalizedLanes.length > 0 ? { lanes: normalizedLanes, lanePolicy } : {}),
+    ...(slots && slots.length > 0 ? { slots } : {}),
+    ...(callPolicy ? { callPolicy } : {}),
+    ...(joinFields && joinFields.length > 0 ? { joinFields } : {}),
+    ...(nudgeRules ? { nudgeRules } : {}),
   };
   // Include auth headers for owner identification (needed for requiresAuth feature)
   const headers = await getAuthHeaders();
@@ -165,20 +278,38 @@ export interface JoinQueueParams {
   name?: string;
   size?: number;
   turnstileToken?: string;
+  laneId?: string;
+  answers?: JoinAnswers;
+  contacts?: PartyContacts; // Only channels listed in QueueInfo.contactChannels
 }
 
+export type ContactChannel = 'sms' | 'email';
+
+// A phone number (with country code) to text and an address to email about the guest's turn
+export type PartyContacts = Partial<Record<ContactChannel, string>>;
+
+/**
+ * When the queue is full the guest lands on the standby waitlist instead: `standby` is set,
+ * `standbyPosition` is their place on it and `position` is left out until they're promoted.
+ */
 export interface JoinQueueResult {
   partyId: string;
-  position: number;
+  position?: number;
   sessionId?: string;
   queueLength?: number;
   estimatedWaitMs?: number;
   eventName?: string;
+  standby?: boolean;
+  standbyPosition?: number;
 }
 
 export interface JoinQueueError extends Error {
   requiresAuth?: boolean;
   existingPartyId?: string;
+  paused?: boolean;
+  resumeAt?: number | null;
+  outsideHours?: boolean;
+  opensAt?: number | null;
 }
 
 export async function joinQueue({
@@ -186,12 +317,18 @@ export async function joinQueue({
   name,
   size,
   turnstileToken,
+  laneId,
+  answers,
+  contacts,
 }: JoinQueueParams): Promise<JoinQueueResult> {
   const headers = await getAuthHeaders();
   const payload = {
     name: name?.trim() || undefined,
     size: size && Number.isFinite(size) ? size : undefined,
     ...(turnstileToken && { turnstileToken }),
+    ...(laneId && { laneId }),
+    ...(answers && { answers }),
+    ...(contacts && { contacts }),
   };
 
   const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/join`, {
@@ -227,6 +364,18 @@ async function buildJoinError(response: Response): Promise<JoinQueueError> {
       error.existingPartyId = data.existingPartyId;
     }
 
+    // Attach pause details so the screen can say when the queue reopens
+    if (data?.paused === true) {
+      error.paused = true;
+      error.resumeAt = typeof data.resumeAt === 'number' ? data.resumeAt : null;
+    }
+
+    // Attach opening hours details when joining outside them
+    if (data?.outsideHours === true) {
+      error.outsideHours = true;
+      error.opensAt = typeof data.opensAt === 'number' ? data.opensAt : null;
+    }
+
     return error;
   } catch {
     try {
@@ -238,6 +387,82 @@ async function buildJoinError(response: Response): Promise<JoinQueueError> {
   }
 }
 
+export interface BookAppointmentParams {
+  code: string;
+  slotId: string;
+  name?: string;
+  size?: number;
+  turnstileToken?: string;
+  answers?: JoinAnswers;
+  contacts?: PartyContacts;
+}
+
+export interface BookAppointmentResult {
+  partyId: string;
+  slotId: string;
+  startsAt: number;
+  eventName?: string;
+}
+
+/**
+ * Reserve an appointment slot. Goes through the join endpoint so the same login and
+ * verification rules apply; the guest enters the line when the slot starts.
+ */
+export async function bookAppointment({
+  code,
+  slotId,
+  name,
+  size,
+  turnstileToken,
+  answers,
+  contacts,
+}: BookAppointmentParams): Promise<BookAppointmentResult> {
+  const headers = await getAuthHeaders();
+  const payload = {
+    slotId,
+    name: name?.trim() || undefined,
+    size: size && Number.isFinite(size) ? size : undefined,
+    ...(turnstileToken && { turnstileToken }),
+    ...(answers && { answers }),
+    ...(contacts && { contacts }),
+  };
+
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/join`, {
+    method: 'POST',
+    headers,
+    credentials: 'include',
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    throw await buildJoinError(response);
+  }
+
+  return (await response.json()) as BookAppointmentResult;
+}
+
+export interface QueueInfo {
+  eventName: string | null;
+  status: string;
+  paused: boolean;
+  resumeAt: number | null;
+  lanes: { id: string; name: string }[]; // Lanes guests may pick when joining
+  schedule: QueueSchedule | null; // Null when the queue has no enforced opening hours
+  slots: { id: string; startsAt: number }[]; // Appointment slots still free to book
+  joinFields: JoinField[]; // Extra questions to ask before joining
+  contactChannels?: ContactChannel[]; // Ways guests can ask to be texted or emailed
+}
+
+export async function getQueueInfo(code: string): Promise<QueueInfo> {
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/info`);
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+
+  return (await response.json()) as QueueInfo;
+}
+
 export interface LeaveQueueParams {
   code: string;
   partyId: string;
@@ -255,6 +480,40 @@ export async function leaveQueue({ code, partyId }: LeaveQueueParams): Promise<v
   }
 }
 
+export interface SnoozeQueueParams {
+  code: string;
+  partyId: string;
+  places?: number; // Let this many parties go ahead
+  until?: number; // Or hold the spot until this time (ms)
+}
+
+export interface SnoozeQueueResult {
+  position: number;
+  aheadCount: number;
+  estimatedWaitMs: number | null;
+  snoozedUntil: number | null;
+  snoozesLeft: number;
+}
+
+export async function snoozeQueue({
+  code,
+  partyId,
+  places,
+  until,
+}: SnoozeQueueParams): Promise<SnoozeQueueResult> {
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/snooze`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ partyId, places, until }),
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+
+  return (await response.json()) as SnoozeQueueResult;
+}
+
 function toWebSocketUrl(url: string): string {
   if (WEBSOCKET_PROTOCOL_HTTPS.test(url)) {
     return url.replace(WEBSOCKET_PROTOCOL_HTTPS, 'wss:');
@@ -302,6 +561,352 @@ export function buildGuestConnectUrl(code: string, partyId: string): string {
   }
 }
 
+/**
+ * Version of the live-update protocol. Sockets that ask for it get one full snapshot and
+ * then patches, each numbered with `seq`; see applyHostQueueMessage.
+ */
+export const QUEUE_PROTOCOL_VERSION = 2;
+
+export type HostQueueMessage = { v: number; seq: number } & (
+  | ({
+      type: 'snapshot';
+      queue: HostParty[];
+      counters: ServiceCounter[];
+    } & Record<string, unknown>)
+  | { type: 'party_added'; index: number; party: HostParty }
+  | { type: 'party_removed'; partyId: string }
+  | { type: 'party_moved'; partyId: string; index: number }
+  | { type: 'party_updated'; party: HostParty }
+  | {
+      type: 'now_serving_changed';
+      counterId: string;
+      nowServing: HostParty | null;
+      callDeadline: number | null;
+    }
+  | { type: 'meta_changed'; meta: Record<string, unknown> }
+);
+
+/**
+ * Everything a host socket has been told so far. `queue` is the page of the line the
+ * host asked for, in service order; `meta` holds the rest of the snapshot (queueTotal,
+ * lanes, paused, standby, ...).
+ */
+export interface HostLiveState {
+  seq: number;
+  queue: HostParty[];
+  counters: ServiceCounter[];
+  meta: Record<string, unknown>;
+}
+
+/**
+ * Apply one host socket message. Returns null when the message isn't the next in
+ * sequence (or there is no snapshot to patch yet); the caller should send
+ * `{ type: 'resync' }` and wait for the snapshot that follows.
+ */
+export function applyHostQueueMessage(
+  state: HostLiveState | null,
+  message: HostQueueMessage
+): HostLiveState | null {
+  if (message.type === 'snapshot') {
+    const { v: _v, seq, type: _type, queue, counters, ...meta } = message;
+    return { seq, queue, counters, meta };
+  }
+  if (!state || message.seq !== state.seq + 1) {
+    return null;
+  }
+
+  const next: HostLiveState = { ...state, seq: message.seq };
+  const indexOf = (partyId: string) => next.queue.findIndex((party) => party.id === partyId);
+  switch (message.type) {
+    case 'party_added':
+      next.queue = [...state.queue];
+      next.queue.splice(message.index, 0, message.party);
+      break;
+    case 'party_removed':
+      next.queue = state.queue.filter((party) => party.id !== message.partyId);
+      break;
+    case 'party_moved': {
+      const index = indexOf(message.partyId);
+      if (index !== -1) {
+        next.queue = [...state.queue];
+        const [party] = next.queue.splice(index, 1);
+        next.queue.splice(message.index, 0, party);
+      }
+      break;
+    }
+    case 'party_updated':
+      next.queue = state.queue.map((party) =>
+        party.id === message.party.id ? message.party : party
+      );
+      break;
+    case 'now_serving_changed':
+      next.counters = state.counters.map((counter) =>
+        counter.id === message.counterId
+          ? { ...counter, nowServing: message.nowServing, callDeadline: message.callDeadline }
+          : counter
+      );
+      break;
+    case 'meta_changed':
+      next.meta = message.meta;
+      break;
+  }
+  return next;
+}
+
+export type LiveTransport = 'websocket' | 'sse' | 'long-poll';
+
+export interface QueueStreamOptions {
+  code: string;
+  partyId?: string; // Guests; hosts leave it out
+  hostAuthToken?: string | null;
+  board?: { token: string; labels: BoardLabels }; // Display boards
+  // Socket and SSE messages carry `v` and `seq`; long polls return plain snapshots
+  onMessage: (message: Record<string, unknown>) => void;
+  onTransport?: (transport: LiveTransport) => void;
+  onError?: (message: string) => void;
+  // The page of the host's line to load (`offset`/`limit`), sent when connecting, on
+  // resync and with each long poll
+  snapshotParams?: () => Record<string, string>;
+}
+
+export interface QueueStream {
+  // Ask for the full state again, e.g. after noticing a gap in `seq`
+  resync: () => void;
+  close: () => void;
+}
+
+const LONG_POLL_WAIT_SECONDS = 25;
+const LIVE_RETRY_DELAY_MS = 5000;
+
+function buildLiveUrl(
+  code: string,
+  path: 'connect' | 'events' | 'snapshot',
+  partyId?: string,
+  board?: QueueStreamOptions['board']
+) {
+  const url = new URL(
+    `${API_BASE_URL || DEFAULT_LOCALHOST}/api/queue/${code.toUpperCase()}/${path}`
+  );
+  if (partyId) {
+    url.searchParams.set('partyId', partyId);
+  }
+  if (board) {
+    url.searchParams.set('board', board.token);
+    url.searchParams.set('labels', board.labels);
+  }
+  if (path !== 'snapshot') {
+    url.searchParams.set('v', String(QUEUE_PROTOCOL_VERSION));
+  }
+  return url;
+}
+
+/**
+ * Subscribe to a queue's live updates over the best transport that gets through: a
+ * WebSocket, then Server-Sent Events (browsers only), then long polls of the snapshot.
+ * A transport that fails before delivering anything is skipped for the next one; one
+ * that drops after working is reopened after a short delay. Guests reopen with the last
+ * seq they saw, and get what happened in between replayed (marked `replay: true`).
+ */
+export function openQueueStream(options: QueueStreamOptions): QueueStream {
+  const { code, partyId, board, onMessage, onTransport, onError } = options;
+  // Boards never send host credentials, even from a host's own device
+  const hostAuthToken = board ? null : options.hostAuthToken;
+  let closed = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let teardown: (() => void) | null = null;
+  let resyncCurrent: () => void = () => undefined;
+  let lastGuestSeq: number | null = null;
+
+  const liveUrl = (path: 'connect' | 'events') => {
+    const url = buildLiveUrl(code, path, partyId, board);
+    for (const [key, value] of Object.entries(options.snapshotParams?.() ?? {})) {
+      url.searchParams.set(key, value);
+    }
+    if (partyId && lastGuestSeq !== null) {
+      url.searchParams.set('since', String(lastGuestSeq));
+    }
+    return url.toString();
+  };
+
+  const deliver = (data: string) => {
+    let message: Record<string, unknown>;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      // ignore malformed payloads
+      return;
+    }
+    if (partyId && typeof message.seq === 'number') {
+      lastGuestSeq = message.seq;
+    }
+    onMessage(message);
+  };
+
+  const retryLater = (open: () => void) => {
+    if (!closed) {
+      retryTimer = setTimeout(open, LIVE_RETRY_DELAY_MS);
+    }
+  };
+
+  const openWebSocket = () => {
+    if (typeof WebSocket === 'undefined') {
+      openEventSource();
+      return;
+    }
+    let socket: WebSocket;
+    try {
+      const url = toWebSocketUrl(liveUrl('connect'));
+      if (Platform.OS !== 'web' && hostAuthToken && !partyId) {
+        // React Native can send headers with the upgrade; browsers rely on the host cookie
+        const NativeWebSocket = WebSocket as unknown as new (
+          url: string,
+          protocols: string[] | null,
+          options: { headers: Record<string, string> }
+        ) => WebSocket;
+        socket = new NativeWebSocket(url, null, { headers: { 'x-host-auth': hostAuthToken } });
+      } else {
+        socket = new WebSocket(url);
+      }
+    } catch {
+      openEventSource();
+      return;
+    }
+    let delivered = false;
+    socket.onmessage = (event) => {
+      if (!delivered) {
+        delivered = true;
+        onTransport?.('websocket');
+      }
+      deliver(String(event.data));
+    };
+    socket.onerror = socket.onclose = () => {
+      socket.onmessage = socket.onerror = socket.onclose = null;
+      if (delivered) {
+        retryLater(openWebSocket);
+      } else if (!closed) {
+        openEventSource();
+      }
+    };
+    resyncCurrent = () => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ type: 'resync', ...options.snapshotParams?.() }));
+      }
+    };
+    teardown = () => {
+      socket.onmessage = socket.onerror = socket.onclose = null;
+      socket.close();
+    };
+  };
+
+  const openEventSource = () => {
+    if (typeof EventSource === 'undefined') {
+      openLongPoll();
+      return;
+    }
+    const source = new EventSource(liveUrl('events'), { withCredentials: true });
+    let delivered = false;
+    source.onmessage = (event) => {
+      if (!delivered) {
+        delivered = true;
+        onTransport?.('sse');
+      }
+      deliver(event.data);
+    };
+    source.onerror = () => {
+      // Reopened by hand rather than by EventSource, so the URL has the latest `since`
+      source.close();
+      if (delivered) {
+        retryLater(openEventSource);
+      } else if (!closed) {
+        openLongPoll();
+      }
+    };
+    // The stream can't take messages, so a fresh connection is how it starts over
+    resyncCurrent = () => {
+      source.close();
+      openEventSource();
+    };
+    teardown = () => source.close();
+  };
+
+  const openLongPoll = () => {
+    let controller = new AbortController();
+    let etag: string | null = null;
+    onTransport?.('long-poll');
+
+    const pollOnce = async () => {
+      if (closed) {
+        return;
+      }
+      const url = buildLiveUrl(code, 'snapshot', partyId, board);
+      for (const [key, value] of Object.entries(options.snapshotParams?.() ?? {})) {
+        url.searchParams.set(key, value);
+      }
+      url.searchParams.set('wait', String(LONG_POLL_WAIT_SECONDS));
+      const headers: Record<string, string> = partyId || board ? {} : await getAuthHeaders();
+      if (hostAuthToken && !partyId) {
+        headers['x-host-auth'] = hostAuthToken;
+      }
+      if (etag) {
+        headers['If-None-Match'] = etag;
+      }
+      try {
+        const response = await fetch(url.toString(), {
+          headers,
+          credentials: 'include',
+          cache: 'no-store',
+          signal: controller.signal,
+        });
+        if (response.ok) {
+          etag = response.headers.get('ETag');
+          deliver(await response.text());
+        } else if (response.status !== 304) {
+          onError?.(`Poll failed: ${response.status}`);
+          retryLater(pollOnce);
+          return;
+        }
+        void pollOnce();
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+          return;
+        }
+        onError?.('Unable to connect to the server');
+        retryLater(pollOnce);
+      }
+    };
+
+    resyncCurrent = () => {
+      controller.abort();
+      controller = new AbortController();
+      etag = null;
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+      void pollOnce();
+    };
+    teardown = () => controller.abort();
+    void pollOnce();
+  };
+
+  openWebSocket();
+
+  return {
+    resync: () => {
+      if (!closed) {
+        resyncCurrent();
+      }
+    },
+    close: () => {
+      closed = true;
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+      }
+      teardown?.();
+    },
+  };
+}
+
 export async function getVapidPublicKey(): Promise<string | null> {
   try {
     const res = await fetch(`${API_BASE_URL}/api/push/vapid`);
@@ -363,11 +968,31 @@ export async function saveExpoPushToken(params: {
   }
 }
 
+/**
+ * Register this device for host alerts on the signed-in account: a web push subscription
+ * or, in the native app, an Expo push token.
+ */
+export async function saveHostPushSubscription(
+  params: { subscription: PushSubscriptionParams } | { expoToken: string }
+): Promise<void> {
+  const headers = await getAuthHeaders();
+  const res = await fetch(`${API_BASE_URL}/api/push/host-subscribe`, {
+    method: 'POST',
+    credentials: 'include',
+    headers,
+    body: JSON.stringify(params),
+  });
+  if (!res.ok) {
+    throw await buildError(res);
+  }
+}
+
 export interface AdvanceQueueParams {
   code: string;
   hostAuthToken?: string; // Optional if user is authenticated and owns the queue
   servedPartyId?: string;
   nextPartyId?: string;
+  counterId?: string; // Defaults to the counter serving servedPartyId, else the first idle one
 }
 
 export interface HostParty {
@@ -377,10 +1002,41 @@ export interface HostParty {
   status: 'waiting' | 'called';
   nearby: boolean;
   joinedAt: number;
+  ticket?: number; // Number shown on the display board
+  laneId?: string; // Missing for the standard lane
+  slotId?: string; // Set when the party came in through an appointment slot
+  snoozes?: number; // Times the guest has let others go ahead or stepped out
+  snoozedUntil?: number; // Only while the guest has stepped out
+  answers?: JoinAnswers; // Keyed by join field id
+  note?: string; // Host-only
+  tags?: PartyTag[]; // Host-only
+  pushStatus?: 'notified' | 'unreachable'; // Whether the latest notification reached them
+}
+
+export type TagColor = 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple';
+
+export interface PartyTag {
+  label: string;
+  color: TagColor;
+}
+
+export interface AppointmentSlot {
+  id: string;
+  startsAt: number;
+  status: 'open' | 'booked' | 'admitted' | 'no_show';
+  party: { id: string; name?: string; size?: number } | null;
+}
+
+export interface ServiceCounter {
+  id: string;
+  name: string;
+  nowServing: HostParty | null;
+  callDeadline: number | null;
 }
 
 export interface AdvanceQueueResult {
   nowServing: HostParty | null;
+  counterId?: string;
 }
 
 export async function advanceQueueHost({
@@ -388,10 +1044,12 @@ export async function advanceQueueHost({
   hostAuthToken,
   servedPartyId,
   nextPartyId,
+  counterId,
 }: AdvanceQueueParams): Promise<AdvanceQueueResult> {
   const payload = {
     servedParty: servedPartyId,
     nextParty: nextPartyId,
+    counterId,
   };
 
   // Include auth headers for authenticated users (enables cross-browser access)
@@ -414,22 +1072,30 @@ export async function advanceQueueHost({
   return (await response.json()) as AdvanceQueueResult;
 }
 
-export interface CloseQueueParams {
+export interface AssignLaneParams {
   code: string;
   hostAuthToken?: string; // Optional if user is authenticated and owns the queue
+  partyId: string;
+  laneId: string;
 }
 
-export async function closeQueueHost({ code, hostAuthToken }: CloseQueueParams): Promise<void> {
+export async function assignLaneHost({
+  code,
+  hostAuthToken,
+  partyId,
+  laneId,
+}: AssignLaneParams): Promise<void> {
   // Include auth headers for authenticated users (enables cross-browser access)
   const headers = await getAuthHeaders();
   if (hostAuthToken) {
     headers['x-host-auth'] = hostAuthToken;
   }
 
-  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/close`, {
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/assign-lane`, {
     method: 'POST',
     credentials: 'include',
     headers,
+    body: JSON.stringify({ partyId, laneId }),
   });
 
   if (!response.ok) {
@@ -437,44 +1103,568 @@ export async function closeQueueHost({ code, hostAuthToken }: CloseQueueParams):
   }
 }
 
-async function buildError(response: Response): Promise<Error> {
-  try {
-    const data = await response.clone().json();
-    const message = typeof data?.error === 'string' ? data.error : JSON.stringify(data);
-    return new Error(message || `Request failed with status ${response.status}`);
-  } catch {
-    try {
-      const text = await response.clone().text();
-      return new Error(text || `Request failed with status ${response.status}`);
-    } catch {
-      return new Error(`Request failed with status ${response.status}`);
-    }
+export interface AnnotatePartyParams {
+  code: string;
+  hostAuthToken?: string; // Optional if user is authenticated and owns the queue
+  partyId: string;
+  note?: string; // Empty string clears the note; omit to leave it unchanged
+  tags?: PartyTag[]; // Replaces the party's tags; omit to leave them unchanged
+}
+
+export async function annotatePartyHost({
+  code,
+  hostAuthToken,
+  partyId,
+  note,
+  tags,
+}: AnnotatePartyParams): Promise<void> {
+  // Include auth headers for authenticated users (enables cross-browser access)
+  const headers = await getAuthHeaders();
+  if (hostAuthToken) {
+    headers['x-host-auth'] = hostAuthToken;
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/annotate`, {
+    method: 'POST',
+    credentials: 'include',
+    headers,
+    body: JSON.stringify({ partyId, note, tags }),
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
   }
 }
 
-export interface QueueStats {
-  activeCount: number;
-  servedCount: number;
-  leftCount: number;
-  noShowCount: number;
-  avgWaitSeconds: number | null;
+export interface ReorderQueueParams {
+  code: string;
+  hostAuthToken?: string; // Optional if user is authenticated and owns the queue
+  partyId: string;
+  toIndex: number; // 0-based index in the host queue list
 }
 
-export interface MyQueue {
+export async function reorderQueueHost({
+  code,
+  hostAuthToken,
+  partyId,
+  toIndex,
+}: ReorderQueueParams): Promise<void> {
+  // Include auth headers for authenticated users (enables cross-browser access)
+  const headers = await getAuthHeaders();
+  if (hostAuthToken) {
+    headers['x-host-auth'] = hostAuthToken;
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/reorder`, {
+    method: 'POST',
+    credentials: 'include',
+    headers,
+    body: JSON.stringify({ partyId, toIndex }),
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+}
+
+// Who a host message goes to: everyone in line, the next `count` parties, or one party
+export type BroadcastTarget =
+  | { type: 'everyone' }
+  | { type: 'next'; count: number }
+  | { type: 'party'; partyId: string };
+
+// A host message in the guest's feed
+export interface GuestMessage {
   id: string;
-  shortCode: string;
-  eventName: string | null;
-  status: string;
-  createdAt: number;
-  maxGuests: number | null;
+  text: string;
+  sentAt: number;
+}
+
+export interface BroadcastMessageParams {
+  code: string;
+  hostAuthToken?: string; // Optional if user is authenticated and owns the queue
+  message: string;
+  target?: BroadcastTarget; // Defaults to everyone
+}
+
+export interface BroadcastMessageResult {
+  id: string;
+  recipients: number;
+}
+
+export async function broadcastMessageHost({
+  code,
+  hostAuthToken,
+  message,
+  target,
+}: BroadcastMessageParams): Promise<BroadcastMessageResult> {
+  // Include auth headers for authenticated users (enables cross-browser access)
+  const headers = await getAuthHeaders();
+  if (hostAuthToken) {
+    headers['x-host-auth'] = hostAuthToken;
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/broadcast`, {
+    method: 'POST',
+    credentials: 'include',
+    headers,
+    body: JSON.stringify({ message, target }),
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+
+  return (await response.json()) as BroadcastMessageResult;
+}
+
+export interface PauseQueueParams {
+  code: string;
+  hostAuthToken?: string; // Optional if user is authenticated and owns the queue
+  resumeAt?: number | null; // Announced "back at" time; omit to pause until resumed
+}
+
+export async function pauseQueueHost({
+  code,
+  hostAuthToken,
+  resumeAt,
+}: PauseQueueParams): Promise<void> {
+  // Include auth headers for authenticated users (enables cross-browser access)
+  const headers = await getAuthHeaders();
+  if (hostAuthToken) {
+    headers['x-host-auth'] = hostAuthToken;
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/pause`, {
+    method: 'POST',
+    credentials: 'include',
+    headers,
+    body: JSON.stringify({ resumeAt: resumeAt ?? null }),
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+}
+
+export async function resumeQueueHost({ code, hostAuthToken }: CloseQueueParams): Promise<void> {
+  // Include auth headers for authenticated users (enables cross-browser access)
+  const headers = await getAuthHeaders();
+  if (hostAuthToken) {
+    headers['x-host-auth'] = hostAuthToken;
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/resume`, {
+    method: 'POST',
+    credentials: 'include',
+    headers,
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+}
+
+export interface CloseQueueParams {
+  code: string;
+  hostAuthToken?: string; // Optional if user is authenticated and owns the queue
+}
+
+export async function closeQueueHost({ code, hostAuthToken }: CloseQueueParams): Promise<void> {
+  // Include auth headers for authenticated users (enables cross-browser access)
+  const headers = await getAuthHeaders();
+  if (hostAuthToken) {
+    headers['x-host-auth'] = hostAuthToken;
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/close`, {
+    method: 'POST',
+    credentials: 'include',
+    headers,
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+}
+
+export interface ReopenQueueResult {
+  ok: boolean;
+  restored: number;
+}
+
+export async function reopenQueueHost({
+  code,
+  hostAuthToken,
+}: CloseQueueParams): Promise<ReopenQueueResult> {
+  // Include auth headers for authenticated users (enables cross-browser access)
+  const headers = await getAuthHeaders();
+  if (hostAuthToken) {
+    headers['x-host-auth'] = hostAuthToken;
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/reopen`, {
+    method: 'POST',
+    credentials: 'include',
+    headers,
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+
+  return (await response.json()) as ReopenQueueResult;
+}
+
+export type UndoAction = 'serve' | 'call' | 'kick' | 'no_show';
+
+/**
+ * The most recent host action the server will still take back, until `expiresAt` (ms).
+ */
+export interface UndoOffer {
+  id: string;
+  action: UndoAction;
+  expiresAt: number;
+  partyName: string | null;
+}
+
+export interface UndoHostActionParams {
+  code: string;
+  hostAuthToken?: string; // Optional if user is authenticated and owns the queue
+  undoId?: string; // Fails if a newer action has happened since the offer was shown
+}
+
+export interface UndoHostActionResult {
+  ok: boolean;
+  undone: UndoAction;
+}
+
+export async function undoHostAction({
+  code,
+  hostAuthToken,
+  undoId,
+}: UndoHostActionParams): Promise<UndoHostActionResult> {
+  // Include auth headers for authenticated users (enables cross-browser access)
+  const headers = await getAuthHeaders();
+  if (hostAuthToken) {
+    headers['x-host-auth'] = hostAuthToken;
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/undo`, {
+    method: 'POST',
+    credentials: 'include',
+    headers,
+    body: JSON.stringify({ undoId }),
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+
+  return (await response.json()) as UndoHostActionResult;
+}
+
+export type BoardLabels = 'names' | 'tickets';
+
+// A party as the display board shows it: a name (in names mode) and a ticket number
+export interface BoardParty {
+  ticket: number | null;
+  name: string | null;
+}
+
+export interface BoardState {
+  type: 'board';
+  eventName?: string;
+  closed: boolean;
+  paused: boolean;
+  resumeAt: number | null;
+  counters: { name: string; nowServing: BoardParty | null }[];
+  upNext: BoardParty[];
+  queueLength: number;
+  avgServiceMs: number;
+  estimatedWaitMs: number; // For someone joining now
+}
+
+export async function getBoardToken({ code, hostAuthToken }: CloseQueueParams): Promise<string> {
+  // Include auth headers for authenticated users (enables cross-browser access)
+  const headers = await getAuthHeaders();
+  if (hostAuthToken) {
+    headers['x-host-auth'] = hostAuthToken;
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/board`, {
+    method: 'POST',
+    credentials: 'include',
+    headers,
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+
+  const data = (await response.json()) as { token: string };
+  return data.token;
+}
+
+async function buildError(response: Response): Promise<Error> {
+  try {
+    const data = await response.clone().json();
+    const message = typeof data?.error === 'string' ? data.error : JSON.stringify(data);
+    return new Error(message || `Request failed with status ${response.status}`);
+  } catch {
+    try {
+      const text = await response.clone().text();
+      return new Error(text || `Request failed with status ${response.status}`);
+    } catch {
+      return new Error(`Request failed with status ${response.status}`);
+    }
+  }
+}
+
+export interface QueueStats {
+  activeCount: number;
+  servedCount: number;
+  leftCount: number;
+  noShowCount: number;
+  avgWaitSeconds: number | null;
+}
+
+export interface MyQueue {
+  id: string;
+  shortCode: string;
+  eventName: string | null;
+  status: string;
+  createdAt: number;
+  reopenableUntil: number | null; // Set while a closed queue can still be reopened
+  maxGuests: number | null;
   location: string | null;
   contactInfo: string | null;
   openTime: string | null;
   closeTime: string | null;
   requiresAuth: boolean;
+  role: HostRole; // Owner, or the staff role the owner gave this user
+  pendingTransferTo: string | null; // Email of the account the owner offered the queue to
   stats: QueueStats;
 }
 
+export type StaffRole = 'cohost' | 'caller';
+export type HostRole = 'owner' | StaffRole;
+
+export interface QueueMember {
+  userId: string;
+  role: StaffRole;
+  name: string | null;
+  email: string | null;
+  addedAt: number;
+}
+
+/**
+ * List the staff helping run a queue. Available to the owner and co-hosts.
+ */
+export async function getQueueMembers(code: string): Promise<QueueMember[]> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/members`, {
+    method: 'GET',
+    credentials: 'include',
+    headers,
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+
+  return ((await response.json()) as { members: QueueMember[] }).members;
+}
+
+export interface AddQueueMemberParams {
+  code: string;
+  email: string; // The email on the invitee's account; they must have signed in once
+  role: StaffRole;
+}
+
+/**
+ * Invite a user as a co-host or caller-only staff, or change their role. Owner only.
+ */
+export async function addQueueMember({ code, email, role }: AddQueueMemberParams): Promise<void> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/members`, {
+    method: 'POST',
+    credentials: 'include',
+    headers,
+    body: JSON.stringify({ email, role }),
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+}
+
+export async function removeQueueMember({
+  code,
+  userId,
+}: {
+  code: string;
+  userId: string;
+}): Promise<void> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/members`, {
+    method: 'DELETE',
+    credentials: 'include',
+    headers,
+    body: JSON.stringify({ userId }),
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+}
+
+// Push alerts a signed-in host gets about a queue; all are on until turned off
+export interface HostAlertPrefs {
+  capacity: boolean; // The line is 90% full
+  noShow: boolean; // A called guest didn't show up
+  autoClose: boolean; // The queue will close automatically in 10 minutes
+}
+
+export interface HostAlertSettings {
+  alerts: HostAlertPrefs;
+  devices: number; // Devices on this account registered for alerts
+}
+
+export async function getHostAlerts(code: string): Promise<HostAlertSettings> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/alerts`, {
+    method: 'GET',
+    credentials: 'include',
+    headers,
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+
+  return (await response.json()) as HostAlertSettings;
+}
+
+/**
+ * Turn host alerts for a queue on or off. Alerts left out keep their setting.
+ */
+export async function updateHostAlerts(
+  code: string,
+  changes: Partial<HostAlertPrefs>
+): Promise<HostAlertSettings> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/alerts`, {
+    method: 'POST',
+    credentials: 'include',
+    headers,
+    body: JSON.stringify(changes),
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+
+  return (await response.json()) as HostAlertSettings;
+}
+
+export interface IncomingTransfer {
+  sessionId: string;
+  shortCode: string;
+  eventName: string | null;
+  fromName: string | null;
+  fromEmail: string | null;
+  expiresAt: number;
+}
+
+/**
+ * Queues whose owners have offered to hand them to the authenticated user.
+ */
+export async function getIncomingTransfers(): Promise<IncomingTransfer[]> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/api/queues/transfers`, {
+    method: 'GET',
+    credentials: 'include',
+    headers,
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+
+  return ((await response.json()) as { transfers: IncomingTransfer[] }).transfers;
+}
+
+/**
+ * Offer a queue to another account by the email on it. Owner only; the recipient has
+ * a day to accept from their dashboard.
+ */
+export async function requestQueueTransfer({
+  code,
+  email,
+}: {
+  code: string;
+  email: string;
+}): Promise<void> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/transfer`, {
+    method: 'POST',
+    credentials: 'include',
+    headers,
+    body: JSON.stringify({ email }),
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+}
+
+/**
+ * Withdraw a pending transfer (owner) or decline it (recipient).
+ */
+export async function cancelQueueTransfer(code: string): Promise<void> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/transfer`, {
+    method: 'DELETE',
+    credentials: 'include',
+    headers,
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+}
+
+export interface AcceptQueueTransferResult {
+  sessionId: string;
+  code: string;
+  hostAuthToken: string; // Re-issued; the previous owner's host token no longer works
+}
+
+export async function acceptQueueTransfer(code: string): Promise<AcceptQueueTransferResult> {
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(`${API_BASE_URL}/api/queue/${code.toUpperCase()}/accept-transfer`, {
+    method: 'POST',
+    credentials: 'include',
+    headers,
+  });
+
+  if (!response.ok) {
+    throw await buildError(response);
+  }
+
+  return (await response.json()) as AcceptQueueTransferResult;
+}
+
 export interface GetMyQueuesResult {
   queues: MyQueue[];
 }
@@ -47,7 +47,8 @@ self.addEventListener('notificationclick', (event) => {
         body: JSON.stringify({ type: 'notif_click', meta: { kind } }),
       });
     } catch {}
-    if (kind === 'pos_2' || kind === 'pos_5') {
+    // Nudge kinds are named after their rule: pos_2, eta_10, pos_3_eta_10, ...
+    if (typeof kind === 'string' && /^(pos|eta)_/.test(kind)) {
       try {
         await fetch('/api/track', {
           method: 'POST',
@@ -30,5 +30,12 @@ export type RootStackParamList = {
     initialEtaMs?: number | null;
     guestName?: string;
     partySize?: number;
+    appointmentAt?: number; // Set after booking a slot; the guest joins the line at this time
+    standbyPosition?: number; // Set when the queue was full and the guest is on the waitlist
+  };
+  BoardScreen: {
+    code: string;
+    token?: string; // Board token from the host's link; missing if the link was cut short
+    labels?: 'names' | 'tickets';
   };
 };
@@ -23,6 +23,20 @@ export type AnalyticsEvent =
   | 'queue_create_failed'
   | 'host_call_next'
   | 'host_call_specific'
+  | 'host_assign_lane'
+  | 'host_annotate'
+  | 'host_reorder'
+  | 'host_pause_queue'
+  | 'host_resume_queue'
+  | 'host_reopen_queue'
+  | 'host_transfer_requested'
+  | 'host_transfer_accepted'
+  | 'host_undo'
+  | 'host_open_board'
+  | 'host_broadcast'
+  | 'host_alerts_updated'
+  | 'appointment_booked'
+  | 'guest_snooze'
   | 'host_close_queue'
   | 'host_close_queue_cancelled'
   | 'qr_shared'